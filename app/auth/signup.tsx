@@ -1,11 +1,16 @@
 import { useState } from "react";
 import { View, Text, TextInput, Pressable, StyleSheet, Alert, ActivityIndicator, KeyboardAvoidingView, Platform, ScrollView } from "react-native";
-import { useRouter } from "expo-router";
+import { useRouter, useLocalSearchParams } from "expo-router";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { supabase } from "../../lib/supabaseClient";
+import { checkInviteCode } from "../../lib/team";
 
 export default function SignupScreen() {
+  // Invite links open this screen with ?invite=CODE
+  const params = useLocalSearchParams<{ invite?: string }>();
+  const [name, setName] = useState("");
+  const [inviteCode, setInviteCode] = useState(params.invite || "");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
@@ -33,6 +38,17 @@ export default function SignupScreen() {
 
     setLoading(true);
     try {
+      // Joining a team: make sure the code still works before creating the account,
+      // otherwise the signup would quietly start a separate account
+      const code = inviteCode.trim().toUpperCase();
+      if (code && !(await checkInviteCode(code))) {
+        Alert.alert(
+          "Invite Not Valid",
+          "This invite code has expired, was already used, or the team is full. Ask the account owner for a new one."
+        );
+        return;
+      }
+
       // Get the redirect URL based on platform
       let redirectUrl;
       if (Platform.OS === 'web' && typeof window !== 'undefined') {
@@ -47,6 +63,11 @@ export default function SignupScreen() {
         password,
         options: {
           emailRedirectTo: redirectUrl || undefined,
+          // Read by the handle_new_user trigger
+          data: {
+            display_name: name.trim() || undefined,
+            invite_code: code || undefined,
+          },
         },
       });
 
@@ -112,11 +133,25 @@ export default function SignupScreen() {
       >
         <View style={styles.header}>
           <Ionicons name="car" size={64} color="#2563eb" />
-          <Text style={styles.title}>Create Account</Text>
-          <Text style={styles.subtitle}>Start tracking your trips</Text>
+          <Text style={styles.title}>{inviteCode ? "Join Team" : "Create Account"}</Text>
+          <Text style={styles.subtitle}>
+            {inviteCode ? "Sign up to drive on an existing account" : "Start tracking your trips"}
+          </Text>
         </View>
 
         <View style={styles.form}>
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Your Name</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Shown on trips you drive"
+              value={name}
+              onChangeText={setName}
+              autoComplete="name"
+              editable={!loading}
+            />
+          </View>
+
           <View style={styles.inputGroup}>
             <Text style={styles.label}>Email</Text>
             <TextInput
@@ -183,6 +218,19 @@ export default function SignupScreen() {
             </View>
           </View>
 
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Team Invite Code (optional)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="From the account owner"
+              value={inviteCode}
+              onChangeText={setInviteCode}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              editable={!loading}
+            />
+          </View>
+
           <Pressable
             style={[styles.button, loading && styles.buttonDisabled]}
             onPress={handleSignup}
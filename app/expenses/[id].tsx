@@ -6,6 +6,7 @@ import { useRouter, useLocalSearchParams } from "expo-router";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { supabase } from "../../lib/supabaseClient";
+import { TAX_COMPONENTS, taxComponentLabel } from "../../lib/salesTax";
 
 export default function ExpenseDetailScreen() {
   const router = useRouter();
@@ -111,7 +112,7 @@ export default function ExpenseDetailScreen() {
       <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
         {/* Total amount - prominent */}
         <View style={styles.totalCard}>
-          <Text style={styles.totalLabel}>Total</Text>
+          <Text style={styles.totalLabel}>Total{expense.currency ? ` (${expense.currency})` : ""}</Text>
           <Text style={styles.totalAmount}>{formatCurrency(expense.total)}</Text>
         </View>
 
@@ -133,9 +134,31 @@ export default function ExpenseDetailScreen() {
 
           <View style={styles.divider} />
 
+          {expense.tax_province && <DetailRow label="Province" value={expense.tax_province} />}
           <DetailRow label="Net Amount" value={formatCurrency(expense.amount)} />
-          <DetailRow label="GST" value={formatCurrency(expense.tax)} />
+          {TAX_COMPONENTS.filter((c) => Number(expense[c]) > 0).map((c) => (
+            <DetailRow
+              key={c}
+              label={taxComponentLabel(c, expense.tax_province)}
+              value={formatCurrency(expense[c])}
+            />
+          ))}
+          {Number(expense.tax) > 0 && TAX_COMPONENTS.every((c) => !(Number(expense[c]) > 0)) && (
+            <DetailRow label="Tax" value={formatCurrency(expense.tax)} />
+          )}
           <DetailRow label="Total" value={formatCurrency(expense.total)} bold />
+          {expense.exchange_rate != null && expense.home_currency && expense.currency !== expense.home_currency && (
+            <>
+              <DetailRow
+                label="Exchange Rate"
+                value={`1 ${expense.currency} = ${Number(expense.exchange_rate).toFixed(4)} ${expense.home_currency}`}
+              />
+              <DetailRow
+                label={`Total (${expense.home_currency})`}
+                value={formatCurrency(Number(expense.total) * Number(expense.exchange_rate))}
+              />
+            </>
+          )}
 
           {expense.notes && (
             <>
@@ -4,6 +4,15 @@ import { useRouter, useFocusEffect } from "expo-router";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { supabase } from "../../lib/supabaseClient";
+import { cachedQuery, getPendingEntries, resolveTenantId } from "../../lib/offline";
+import {
+  Currency,
+  ExchangeRate,
+  fetchExchangeRates,
+  getHomeCurrency,
+  sumInHome,
+  toHomeAmount,
+} from "../../lib/currency";
 
 type Expense = {
   id: string;
@@ -11,6 +20,9 @@ type Expense = {
   amount: number;
   tax: number;
   total: number;
+  currency: Currency | null;
+  exchange_rate: number | null;
+  home_currency: Currency | null;
   description: string | null;
   notes: string | null;
   expense_type_id: string | null;
@@ -22,10 +34,18 @@ type Expense = {
   expense_type_code?: string;
 };
 
+// An expense as the list query selects it, with its vendor and expense type
+type ExpenseRow = Expense & {
+  vendors: { name: string } | null;
+  expense_types: { name: string; code: string | null } | null;
+};
+
 export default function ExpensesListScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [homeCurrency, setHomeCurrency] = useState<Currency>("USD");
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
   const [loading, setLoading] = useState(true);
 
   useFocusEffect(
@@ -36,37 +56,44 @@ export default function ExpensesListScreen() {
 
   async function loadExpenses() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data: tenantUser } = await supabase
-        .from("tenant_users")
-        .select("tenant_id")
-        .eq("user_id", user.id)
-        .single();
+      const tenantId = await resolveTenantId();
+      if (!tenantId) return;
 
-      if (!tenantUser) return;
+      // Last list is kept for offline use
+      const mapped = await cachedQuery("expenses:list", async () => {
+        const { data, error } = await supabase
+          .from("misc_expenses")
+          .select(`
+            *,
+            vendors(name),
+            expense_types(name, code)
+          `)
+          .eq("tenant_id", tenantId)
+          .order("date", { ascending: false })
+          .overrideTypes<ExpenseRow[], { merge: false }>();
 
-      const { data, error } = await supabase
-        .from("misc_expenses")
-        .select(`
-          *,
-          vendors(name),
-          expense_types(name, code)
-        `)
-        .eq("tenant_id", tenantUser.tenant_id)
-        .order("date", { ascending: false });
+        if (error) throw error;
 
-      if (error) throw error;
+        return (data || []).map((e) => ({
+          ...e,
+          vendor_name: e.vendors?.name || null,
+          expense_type_name: e.expense_types?.name || null,
+          expense_type_code: e.expense_types?.code || null,
+        })) as Expense[];
+      });
 
-      const mapped = (data || []).map((e: any) => ({
-        ...e,
-        vendor_name: e.vendors?.name || null,
-        expense_type_name: e.expense_types?.name || null,
-        expense_type_code: e.expense_types?.code || null,
-      }));
+      // Expenses saved offline show up until they sync
+      const queued = (await getPendingEntries("misc_expenses"))
+        .filter((e) => e.op === "insert" && e.values)
+        .map((e) => e.values as Expense);
 
-      setExpenses(mapped);
+      const [home, rateRows] = await Promise.all([
+        getHomeCurrency(),
+        fetchExchangeRates().catch(() => [] as ExchangeRate[]),
+      ]);
+      setHomeCurrency(home);
+      setRates(rateRows);
+      setExpenses([...queued, ...mapped]);
     } catch (error) {
       console.error("Error loading expenses:", error);
     } finally {
@@ -87,6 +114,19 @@ export default function ExpensesListScreen() {
     return `$${Number(amount || 0).toFixed(2)}`;
   }
 
+  // Totals are in the home currency; foreign amounts use their saved rate
+  const today = new Date().toISOString().split("T")[0];
+  const monthTotal = sumInHome(
+    expenses.filter((e) => e.date.startsWith(today.slice(0, 7))),
+    homeCurrency,
+    rates
+  );
+  const yearTotal = sumInHome(
+    expenses.filter((e) => e.date.startsWith(today.slice(0, 4))),
+    homeCurrency,
+    rates
+  );
+
   return (
     <View style={[styles.container, { paddingTop: insets.top }]}>
       {/* Header */}
@@ -107,6 +147,26 @@ export default function ExpensesListScreen() {
         </View>
       ) : (
         <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+          {expenses.length > 0 && (
+            <>
+              <View style={styles.summaryCard}>
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryLabel}>This Month ({homeCurrency})</Text>
+                  <Text style={styles.summaryValue}>{formatCurrency(monthTotal.total)}</Text>
+                </View>
+                <View style={styles.summaryDivider} />
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryLabel}>Year to Date ({homeCurrency})</Text>
+                  <Text style={styles.summaryValue}>{formatCurrency(yearTotal.total)}</Text>
+                </View>
+              </View>
+              {yearTotal.unconverted > 0 && (
+                <Text style={styles.summaryNote}>
+                  {yearTotal.unconverted} not included: no exchange rate to {homeCurrency}
+                </Text>
+              )}
+            </>
+          )}
           {expenses.length === 0 ? (
             <View style={styles.emptyContainer}>
               <Ionicons name="receipt-outline" size={48} color="#d1d5db" />
@@ -144,7 +204,17 @@ export default function ExpensesListScreen() {
                     )}
                   </View>
                 </View>
-                <Text style={styles.expenseTotal}>{formatCurrency(expense.total)}</Text>
+                <View style={styles.expenseRight}>
+                  <Text style={styles.expenseTotal}>{formatCurrency(expense.total)}</Text>
+                  {expense.currency && expense.currency !== homeCurrency && (
+                    <Text style={styles.currencyText}>
+                      {expense.currency}
+                      {toHomeAmount(expense.total, expense, homeCurrency, rates) != null
+                        ? ` · ≈ ${formatCurrency(toHomeAmount(expense.total, expense, homeCurrency, rates)!)} ${homeCurrency}`
+                        : ""}
+                    </Text>
+                  )}
+                </View>
               </Pressable>
             ))
           )}
@@ -257,9 +327,53 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#16a34a",
   },
+  expenseRight: {
+    alignItems: "flex-end",
+  },
   expenseTotal: {
     fontSize: 16,
     fontWeight: "700",
     color: "#1e293b",
   },
+  currencyText: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#64748b",
+    marginTop: 2,
+  },
+  summaryCard: {
+    flexDirection: "row",
+    backgroundColor: "#ffffff",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingVertical: 12,
+    marginBottom: 12,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  summaryDivider: {
+    width: 1,
+    backgroundColor: "#e5e7eb",
+  },
+  summaryLabel: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#64748b",
+    marginBottom: 2,
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  summaryNote: {
+    fontSize: 11,
+    color: "#d97706",
+    marginTop: -6,
+    marginBottom: 12,
+    textAlign: "center",
+  },
 });
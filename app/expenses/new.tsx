@@ -7,10 +7,41 @@ import { useRouter, useLocalSearchParams } from "expo-router";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { supabase } from "../../lib/supabaseClient";
+import { cachedQuery, resolveTenantId, writeOrQueue, newId } from "../../lib/offline";
 import { getCurrentTrip, getCountrySetting } from "../../lib/currentTrip";
+import { fetchReceiptExtraction, fieldsToReview } from "../../lib/receiptOcr";
+import {
+  PROVINCES,
+  TaxComponent,
+  TaxInputs,
+  BLANK_TAX_INPUTS,
+  formatTaxInputs,
+  parseTaxInputs,
+  provinceComponents,
+  taxComponentLabel,
+  taxFromNet,
+  splitTotal,
+  sumTaxes,
+  toProvince,
+  fetchTripProvince,
+} from "../../lib/salesTax";
+import {
+  Currency,
+  CURRENCIES,
+  ExchangeRate,
+  fetchExchangeRates,
+  findRate,
+  getHomeCurrency,
+  toCurrency,
+} from "../../lib/currency";
 
 type PickerItem = { id: string; label: string; sublabel?: string };
 
+// Dropdown rows as the queries select them
+type VendorRow = { id: string; name: string; state: string | null; currency: string | null };
+type ExpenseTypeRow = { id: string; code: string | null; name: string };
+type TripRow = { id: string; trip_reference: string | null; origin_name: string | null; destination_name: string | null };
+
 export default function NewExpenseScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
@@ -19,12 +50,16 @@ export default function NewExpenseScreen() {
   const [saving, setSaving] = useState(false);
   const [loadingData, setLoadingData] = useState(true);
 
-  // Country setting determines whether to show Net/GST
+  // Country setting determines whether to show the province / sales tax split
   const [countryOfOp, setCountryOfOp] = useState("US");
   const showTaxBreakdown = countryOfOp === "CA" || countryOfOp === "BOTH";
 
   // Dropdown data
   const [vendors, setVendors] = useState<PickerItem[]>([]);
+  const [vendorStates, setVendorStates] = useState<Record<string, string>>({});
+  const [vendorCurrencies, setVendorCurrencies] = useState<Record<string, Currency>>({});
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [homeCurrency, setHomeCurrency] = useState<Currency>("USD");
   const [expenseTypes, setExpenseTypes] = useState<PickerItem[]>([]);
   const [trips, setTrips] = useState<PickerItem[]>([]);
 
@@ -35,12 +70,17 @@ export default function NewExpenseScreen() {
   const [expenseTypeId, setExpenseTypeId] = useState<string | null>(null);
   const [tripId, setTripId] = useState<string | null>(null);
   const [currentTripLabel, setCurrentTripLabel] = useState<string | null>(null);
+  const [province, setProvince] = useState<string | null>(null); // Canadian purchases only
   const [netAmount, setNetAmount] = useState("");
-  const [gst, setGst] = useState("");
+  const [taxes, setTaxes] = useState<TaxInputs>(BLANK_TAX_INPUTS);
   const [total, setTotal] = useState("");
+  const [currency, setCurrency] = useState<Currency>("USD");
+  const [exchangeRate, setExchangeRate] = useState(""); // 1 currency = x home currency
+  const [rateEdited, setRateEdited] = useState(false);
   const [description, setDescription] = useState("");
   const [notes, setNotes] = useState("");
   const [receiptId, setReceiptId] = useState<string | null>(params.receipt_id || null);
+  const [scanReview, setScanReview] = useState<string[] | null>(null); // set when pre-filled from a receipt scan
 
   // Picker modals
   const [showVendorPicker, setShowVendorPicker] = useState(false);
@@ -53,87 +93,151 @@ export default function NewExpenseScreen() {
     loadDropdownData();
   }, []);
 
-  // Track which field the user last edited for smart calculation
-  const [lastEdited, setLastEdited] = useState<"net" | "gst" | "total" | null>(null);
-
-  // Smart bi-directional calculation:
-  //   Net + GST → Total   (when user edits net or gst)
-  //   Total - GST → Net   (when user edits total or gst while total is filled)
+  // Exchange rate follows the rate table for the expense date until edited
+  const rateLookup = findRate(rates, currency, homeCurrency, date);
   useEffect(() => {
-    if (!showTaxBreakdown) return;
-
-    const net = parseFloat(netAmount) || 0;
-    const tax = parseFloat(gst) || 0;
-    const tot = parseFloat(total) || 0;
-
-    if (lastEdited === "net" || (lastEdited === "gst" && netAmount)) {
-      // User entered/changed net or gst (with net filled) → calc total
-      setTotal((net + tax).toFixed(2));
-    } else if (lastEdited === "total" || (lastEdited === "gst" && total && !netAmount)) {
-      // User entered/changed total or gst (with total filled, no net) → calc net
-      const calcNet = tot - tax;
-      setNetAmount(calcNet >= 0 ? calcNet.toFixed(2) : "0.00");
-    }
-  }, [netAmount, gst, total, lastEdited, showTaxBreakdown]);
+    if (rateEdited || currency === homeCurrency) return;
+    setExchangeRate(rateLookup ? String(rateLookup.rate) : "");
+  }, [currency, homeCurrency, date, rates]);
+
+  // A different currency means a different rate; go back to the rate table
+  function selectCurrency(next: Currency) {
+    setCurrency(next);
+    setRateEdited(false);
+  }
 
+  // Net → tax at the province's rates → Total
   function onNetChange(val: string) {
     setNetAmount(val);
-    setLastEdited("net");
-  }
-  function onGstChange(val: string) {
-    setGst(val);
-    setLastEdited("gst");
+    const net = parseFloat(val);
+    if (!province || isNaN(net)) return;
+    const t = taxFromNet(net, province);
+    setTaxes(formatTaxInputs(t, province));
+    setTotal((net + sumTaxes(t)).toFixed(2));
   }
+
+  // Total (tax included, as printed on the receipt) → Net + tax
   function onTotalChange(val: string) {
     setTotal(val);
-    setLastEdited("total");
+    const tot = parseFloat(val);
+    if (!province || isNaN(tot)) return;
+    const split = splitTotal(tot, province);
+    setNetAmount(split.net.toFixed(2));
+    setTaxes(formatTaxInputs(split.taxes, province));
+  }
+
+  // Correcting a tax line keeps Net if it's filled, otherwise Total
+  function onTaxChange(component: TaxComponent, val: string) {
+    const next = { ...taxes, [component]: val };
+    setTaxes(next);
+    const sum = sumTaxes(parseTaxInputs(next));
+    if (netAmount) {
+      setTotal(((parseFloat(netAmount) || 0) + sum).toFixed(2));
+    } else if (total) {
+      setNetAmount(Math.max((parseFloat(total) || 0) - sum, 0).toFixed(2));
+    }
+  }
+
+  // Re-split the total at the new province's rates
+  function selectProvince(next: string | null) {
+    setProvince(next);
+    const tot = parseFloat(total);
+    if (!next) {
+      setTaxes(BLANK_TAX_INPUTS);
+      setNetAmount(isNaN(tot) ? "" : tot.toFixed(2));
+      return;
+    }
+    if (!isNaN(tot) && tot > 0) {
+      const split = splitTotal(tot, next);
+      setNetAmount(split.net.toFixed(2));
+      setTaxes(formatTaxInputs(split.taxes, next));
+    } else if (netAmount) {
+      setTaxes(formatTaxInputs(taxFromNet(parseFloat(netAmount) || 0, next), next));
+    }
   }
 
   async function loadDropdownData() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
+      const tenantId = await resolveTenantId();
+      if (!tenantId) return;
 
-      const { data: tenantUser } = await supabase
-        .from("tenant_users")
-        .select("tenant_id")
-        .eq("user_id", user.id)
-        .single();
-
-      if (!tenantUser) return;
+      // Dropdown lists are cached so the form still works offline
+      const cachedRows = <T,>(key: string, query: PromiseLike<{ data: T[] | null; error: unknown }>) =>
+        cachedQuery(key, async () => {
+          const { data, error } = await query;
+          if (error) throw error;
+          return data || [];
+        });
 
       // Load dropdowns, current trip, and country setting in parallel
-      const [vendorRes, expTypeRes, tripRes, currentTrip, country] = await Promise.all([
-        supabase
-          .from("vendors")
-          .select("id, name")
-          .eq("tenant_id", tenantUser.tenant_id)
-          .order("name"),
-        supabase
-          .from("expense_types")
-          .select("id, code, name")
-          .eq("tenant_id", tenantUser.tenant_id)
-          .order("sort_order")
-          .order("code"),
-        supabase
-          .from("trips")
-          .select("id, trip_reference, origin_name, destination_name")
-          .eq("tenant_id", tenantUser.tenant_id)
-          .order("trip_reference", { ascending: false })
-          .limit(50),
+      const [vendorRows, expTypeRows, tripRows, currentTrip, country, scan, home, rateRows] = await Promise.all([
+        cachedRows(
+          "vendors",
+          supabase
+            .from("vendors")
+            .select("id, name, state, currency")
+            .eq("tenant_id", tenantId)
+            .order("name")
+            .overrideTypes<VendorRow[], { merge: false }>()
+        ),
+        cachedRows(
+          "expense_types",
+          supabase
+            .from("expense_types")
+            .select("id, code, name")
+            .eq("tenant_id", tenantId)
+            .order("sort_order")
+            .order("code")
+            .overrideTypes<ExpenseTypeRow[], { merge: false }>()
+        ),
+        cachedRows(
+          "trips:recent",
+          supabase
+            .from("trips")
+            .select("id, trip_reference, origin_name, destination_name")
+            .eq("tenant_id", tenantId)
+            .order("trip_reference", { ascending: false })
+            .limit(50)
+            .overrideTypes<TripRow[], { merge: false }>()
+        ),
         getCurrentTrip(),
         getCountrySetting(),
+        params.receipt_id
+          ? fetchReceiptExtraction(params.receipt_id).catch(() => null)
+          : Promise.resolve(null),
+        getHomeCurrency(),
+        fetchExchangeRates().catch(() => [] as ExchangeRate[]),
       ]);
 
+      setHomeCurrency(home);
+      setCurrency(home);
+      setRates(rateRows);
+
       setVendors(
-        (vendorRes.data || []).map((v: any) => ({
+        vendorRows.map((v) => ({
           id: v.id,
           label: v.name,
         }))
       );
+      setVendorStates(
+        Object.fromEntries(
+          vendorRows.flatMap((v) => {
+            const province = toProvince(v.state);
+            return province ? [[v.id, province]] : [];
+          })
+        )
+      );
+      setVendorCurrencies(
+        Object.fromEntries(
+          vendorRows.flatMap((v) => {
+            const vendorCurrency = toCurrency(v.currency);
+            return vendorCurrency ? [[v.id, vendorCurrency]] : [];
+          })
+        )
+      );
 
       setExpenseTypes(
-        (expTypeRes.data || []).map((et: any) => ({
+        expTypeRows.map((et) => ({
           id: et.id,
           label: et.code ? `${et.code} – ${et.name}` : et.name,
           sublabel: et.code || undefined,
@@ -141,7 +245,7 @@ export default function NewExpenseScreen() {
       );
 
       setTrips(
-        (tripRes.data || []).map((t: any) => ({
+        tripRows.map((t) => ({
           id: t.id,
           label: t.trip_reference
             ? `#${t.trip_reference}${t.origin_name ? ` – ${t.origin_name}` : ""}${t.destination_name ? ` → ${t.destination_name}` : ""}`
@@ -159,6 +263,39 @@ export default function NewExpenseScreen() {
           `#${currentTrip.trip_reference}${currentTrip.origin_name ? ` – ${currentTrip.origin_name}` : ""}${currentTrip.destination_name ? ` → ${currentTrip.destination_name}` : ""}`
         );
       }
+
+      // Tax province defaults to where the trip is in Canada
+      const withTax = country === "CA" || country === "BOTH";
+      let defaultProvince =
+        withTax && currentTrip ? await fetchTripProvince(currentTrip.id) : null;
+
+      // Pre-fill from the receipt scan; the total is split at the province's rates
+      if (scan) {
+        if (scan.vendor) {
+          const match = vendorRows.find(
+            (v) => v.name.toLowerCase() === scan.vendor!.value.toLowerCase()
+          );
+          setVendorId(match?.id || null);
+          setVendorText(match?.name || scan.vendor.value);
+          const matchProvince = toProvince(match?.state);
+          if (withTax && matchProvince) defaultProvince = matchProvince;
+          const matchCurrency = toCurrency(match?.currency);
+          if (matchCurrency) setCurrency(matchCurrency);
+        }
+        if (scan.date) setDate(scan.date.value);
+        if (scan.total) {
+          setTotal(scan.total.value.toFixed(2));
+          if (defaultProvince) {
+            const split = splitTotal(scan.total.value, defaultProvince);
+            setNetAmount(split.net.toFixed(2));
+            setTaxes(formatTaxInputs(split.taxes, defaultProvince));
+          }
+        }
+        setScanReview(
+          fieldsToReview(scan, defaultProvince ? ["vendor", "date", "total", "tax"] : ["vendor", "date", "total"])
+        );
+      }
+      setProvince(defaultProvince);
     } catch (error) {
       console.error("Error loading dropdown data:", error);
     } finally {
@@ -178,47 +315,59 @@ export default function NewExpenseScreen() {
       return;
     }
 
+    const rateNum = parseFloat(exchangeRate);
+    if (currency !== homeCurrency && !(rateNum > 0)) {
+      Alert.alert("Error", `Exchange rate from ${currency} to ${homeCurrency} is required.`);
+      return;
+    }
+
     setSaving(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      const { data: tenantUser } = await supabase
-        .from("tenant_users")
-        .select("tenant_id")
-        .eq("user_id", user.id)
-        .single();
-
-      if (!tenantUser) throw new Error("No tenant found");
+      const tenantId = await resolveTenantId();
+      if (!tenantId) throw new Error("No tenant found");
 
       // Use vendorText as description if no vendor_id selected
       const descriptionValue = vendorId
         ? (description.trim() || null)
         : (vendorText.trim() || description.trim() || null);
 
+      const taxAmounts = parseTaxInputs(province ? taxes : BLANK_TAX_INPUTS);
       const payload = {
-        tenant_id: tenantUser.tenant_id,
+        id: newId(),
+        tenant_id: tenantId,
         vendor_id: vendorId || null,
         date,
         expense_type_id: expenseTypeId || null,
         trip_id: tripId || null,
-        amount: showTaxBreakdown ? (parseFloat(netAmount) || 0) : totalNum,
-        tax: showTaxBreakdown ? (parseFloat(gst) || 0) : 0,
+        amount: province ? (parseFloat(netAmount) || totalNum - sumTaxes(taxAmounts)) : totalNum,
+        tax: sumTaxes(taxAmounts),
+        tax_province: province,
+        ...taxAmounts,
         total: totalNum,
+        currency,
+        exchange_rate: currency !== homeCurrency ? rateNum : null,
+        home_currency: homeCurrency,
         description: descriptionValue,
         notes: notes.trim() || null,
         receipt_id: receiptId || null,
       };
 
-      const { error } = await supabase.from("misc_expenses").insert(payload);
-      if (error) throw error;
+      // Saved straight away when online, otherwise queued until signal returns
+      await writeOrQueue({
+        table: "misc_expenses",
+        op: "insert",
+        values: payload,
+        match: { id: payload.id },
+      });
 
       // If this expense came from a receipt, mark the receipt as processed
       if (receiptId) {
-        await supabase
-          .from("receipts")
-          .update({ status: "processed", receipt_type: "expense", linked_id: null })
-          .eq("id", receiptId);
+        await writeOrQueue({
+          table: "receipts",
+          op: "update",
+          values: { status: "processed", receipt_type: "expense", linked_id: null },
+          match: { id: receiptId },
+        });
       }
 
       // Close the form immediately after saving
@@ -239,6 +388,11 @@ export default function NewExpenseScreen() {
     setVendorId(id);
     const vendor = vendors.find((v) => v.id === id);
     setVendorText(vendor?.label || "");
+    // A Canadian vendor sets the tax province
+    if (showTaxBreakdown && vendorStates[id] && vendorStates[id] !== province) {
+      selectProvince(vendorStates[id]);
+    }
+    if (vendorCurrencies[id] && vendorCurrencies[id] !== currency) selectCurrency(vendorCurrencies[id]);
     setShowVendorPicker(false);
   }
 
@@ -289,6 +443,16 @@ export default function NewExpenseScreen() {
           contentContainerStyle={styles.contentInner}
           keyboardShouldPersistTaps="handled"
         >
+          {scanReview && (
+            <View style={styles.scanBanner}>
+              <Ionicons name="scan-outline" size={18} color="#2563eb" />
+              <Text style={styles.scanBannerText}>
+                Pre-filled from the receipt.
+                {scanReview.length > 0 ? ` Check the ${scanReview.join(", ")}.` : ""}
+              </Text>
+            </View>
+          )}
+
           {/* ── Vendor (combo: free-form + dropdown) ── */}
           <Text style={styles.label}>Vendor</Text>
           <View style={styles.comboRow}>
@@ -370,7 +534,54 @@ export default function NewExpenseScreen() {
           {/* ── Amounts ────────────────────────── */}
           <Text style={styles.sectionLabel}>Amounts</Text>
 
+          <Text style={styles.label}>Currency</Text>
+          <View style={[styles.provinceRow, styles.currencyRow]}>
+            {CURRENCIES.map((c) => (
+              <Pressable
+                key={c}
+                style={[styles.provinceChip, currency === c && styles.provinceChipActive]}
+                onPress={() => selectCurrency(c)}
+              >
+                <Text style={[styles.provinceChipText, currency === c && styles.provinceChipTextActive]}>
+                  {c}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
           {showTaxBreakdown && (
+            <>
+              <Text style={styles.label}>Province</Text>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.provinceScroll}
+                contentContainerStyle={styles.provinceRow}
+              >
+                <Pressable
+                  style={[styles.provinceChip, !province && styles.provinceChipActive]}
+                  onPress={() => selectProvince(null)}
+                >
+                  <Text style={[styles.provinceChipText, !province && styles.provinceChipTextActive]}>
+                    None
+                  </Text>
+                </Pressable>
+                {PROVINCES.map((p) => (
+                  <Pressable
+                    key={p}
+                    style={[styles.provinceChip, province === p && styles.provinceChipActive]}
+                    onPress={() => selectProvince(p)}
+                  >
+                    <Text style={[styles.provinceChipText, province === p && styles.provinceChipTextActive]}>
+                      {p}
+                    </Text>
+                  </Pressable>
+                ))}
+              </ScrollView>
+            </>
+          )}
+
+          {province && (
             <>
               <Text style={styles.label}>Net Amount</Text>
               <View style={styles.amountRow}>
@@ -385,39 +596,70 @@ export default function NewExpenseScreen() {
                 />
               </View>
 
-              <Text style={styles.label}>GST</Text>
-              <View style={styles.amountRow}>
-                <Text style={styles.currencySymbol}>$</Text>
-                <TextInput
-                  style={styles.amountInput}
-                  value={gst}
-                  onChangeText={onGstChange}
-                  placeholder="0.00"
-                  keyboardType="decimal-pad"
-                  placeholderTextColor="#9ca3af"
-                />
-              </View>
+              {provinceComponents(province).map((c) => (
+                <View key={c}>
+                  <Text style={styles.label}>{taxComponentLabel(c, province)}</Text>
+                  <View style={styles.amountRow}>
+                    <Text style={styles.currencySymbol}>$</Text>
+                    <TextInput
+                      style={styles.amountInput}
+                      value={taxes[c]}
+                      onChangeText={(val) => onTaxChange(c, val)}
+                      placeholder="0.00"
+                      keyboardType="decimal-pad"
+                      placeholderTextColor="#9ca3af"
+                    />
+                  </View>
+                </View>
+              ))}
             </>
           )}
 
-          <Text style={styles.label}>Total</Text>
+          <Text style={styles.label}>Total ({currency})</Text>
           <View style={[styles.amountRow, styles.totalRow]}>
             <Text style={[styles.currencySymbol, styles.totalSymbol]}>$</Text>
             <TextInput
               style={[styles.amountInput, styles.totalInput]}
               value={total}
-              onChangeText={showTaxBreakdown ? onTotalChange : setTotal}
+              onChangeText={province ? onTotalChange : setTotal}
               placeholder="0.00"
               keyboardType="decimal-pad"
               placeholderTextColor="#9ca3af"
             />
           </View>
-          {showTaxBreakdown && (
+          {province && (
             <Text style={styles.autoCalcHint}>
-              Enter Net + GST to calculate Total, or Total + GST to calculate Net
+              Enter Net to calculate tax and Total, or Total to split out Net and tax at {province} rates
             </Text>
           )}
 
+          {currency !== homeCurrency && (
+            <>
+              <Text style={styles.label}>Exchange Rate (1 {currency} = ? {homeCurrency})</Text>
+              <TextInput
+                style={styles.input}
+                value={exchangeRate}
+                onChangeText={(val) => {
+                  setExchangeRate(val);
+                  setRateEdited(true);
+                }}
+                placeholder="0.0000"
+                keyboardType="decimal-pad"
+                placeholderTextColor="#9ca3af"
+              />
+              <Text style={styles.autoCalcHint}>
+                {parseFloat(exchangeRate) > 0 && parseFloat(total) > 0
+                  ? `≈ $${(parseFloat(total) * parseFloat(exchangeRate)).toFixed(2)} ${homeCurrency}. `
+                  : ""}
+                {rateEdited
+                  ? "Entered by hand"
+                  : rateLookup
+                    ? `From the rate table (${rateLookup.rateDate})`
+                    : "No rate in the table for this date. Enter one, or add rates under Setup > Exchange Rates"}
+              </Text>
+            </>
+          )}
+
           {/* ── Divider ────────────────────────── */}
           <View style={styles.divider} />
 
@@ -802,6 +1044,37 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     color: "#1e293b",
   },
+  provinceScroll: {
+    marginBottom: 16,
+  },
+  provinceRow: {
+    gap: 6,
+  },
+  currencyRow: {
+    flexDirection: "row",
+    marginBottom: 16,
+  },
+  provinceChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    backgroundColor: "#ffffff",
+  },
+  provinceChipActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  provinceChipText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#64748b",
+  },
+  provinceChipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
   autoCalcHint: {
     fontSize: 11,
     color: "#9ca3af",
@@ -854,6 +1127,23 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#166534",
   },
+  scanBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#eff6ff",
+    borderWidth: 1,
+    borderColor: "#bfdbfe",
+    borderRadius: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    marginBottom: 16,
+  },
+  scanBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#1e40af",
+  },
   receiptRemoveText: {
     fontSize: 13,
     fontWeight: "600",
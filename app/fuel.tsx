@@ -1,31 +0,0 @@
-import { View, Text, StyleSheet } from "react-native";
-import { useSafeAreaInsets } from "react-native-safe-area-context";
-
-export default function FuelScreen() {
-  const insets = useSafeAreaInsets();
-
-  return (
-    <View style={[styles.container, { paddingTop: insets.top + 24 }]}>
-      <Text style={styles.title}>Fuel Purchase</Text>
-      <Text style={styles.subtitle}>Coming soon...</Text>
-    </View>
-  );
-}
-
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: "#f8fafc",
-    padding: 24,
-  },
-  title: {
-    fontSize: 28,
-    fontWeight: "900",
-    color: "#0f172a",
-    marginBottom: 8,
-  },
-  subtitle: {
-    fontSize: 16,
-    color: "#64748b",
-  },
-});
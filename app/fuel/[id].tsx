@@ -0,0 +1,327 @@
+import { useState, useCallback } from "react";
+import {
+  View, Text, Pressable, StyleSheet, ScrollView, Alert, ActivityIndicator,
+} from "react-native";
+import { useRouter, useLocalSearchParams, useFocusEffect } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  fetchFuelPurchase,
+  deleteFuelPurchase,
+  fromGallons,
+  fromPricePerGallon,
+  fuelUnitLabel,
+  FuelPurchaseListItem,
+} from "../../lib/fuel";
+import { TAX_COMPONENTS, taxComponentLabel } from "../../lib/salesTax";
+
+export default function FuelDetailScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [purchase, setPurchase] = useState<FuelPurchaseListItem | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Reload on focus so edits show up when returning from the form
+  useFocusEffect(
+    useCallback(() => {
+      if (id) loadPurchase();
+    }, [id])
+  );
+
+  async function loadPurchase() {
+    try {
+      const data = await fetchFuelPurchase(id);
+      if (!data) throw new Error("Not found");
+      setPurchase(data);
+    } catch (error) {
+      Alert.alert("Error", "Failed to load fuel purchase.");
+      router.back();
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleDelete() {
+    Alert.alert(
+      "Delete Fuel Purchase",
+      "Are you sure you want to delete this fuel purchase?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteFuelPurchase(id);
+              router.back();
+            } catch (error) {
+              Alert.alert("Error", (error as Error).message);
+            }
+          },
+        },
+      ]
+    );
+  }
+
+  function formatDate(dateStr: string) {
+    const date = new Date(dateStr + "T00:00:00");
+    return date.toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+  }
+
+  function formatCurrency(amount: number | null) {
+    return `$${Number(amount || 0).toFixed(2)}`;
+  }
+
+  if (loading) {
+    return (
+      <View style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.header}>
+          <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+            <Ionicons name="arrow-back" size={24} color="#1e293b" />
+          </Pressable>
+          <Text style={styles.headerTitle}>Fuel Purchase</Text>
+          <View style={styles.headerPlaceholder} />
+        </View>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2563eb" />
+        </View>
+      </View>
+    );
+  }
+
+  if (!purchase) return null;
+
+  const unit = purchase.fuel_unit || "gallons";
+  const quantity =
+    purchase.gallons != null
+      ? `${fromGallons(Number(purchase.gallons), unit).toFixed(3)} ${fuelUnitLabel(unit, true)}`
+      : "—";
+  const price =
+    purchase.price_per_gallon != null
+      ? `$${fromPricePerGallon(Number(purchase.price_per_gallon), unit).toFixed(3)} / ${fuelUnitLabel(unit, true)}`
+      : "—";
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+          <Ionicons name="arrow-back" size={24} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Fuel Purchase</Text>
+        <View style={styles.headerActions}>
+          <Pressable
+            onPress={() => router.push(`/fuel/new?id=${purchase.id}`)}
+            style={styles.headerBtn}
+          >
+            <Ionicons name="pencil" size={20} color="#1e293b" />
+          </Pressable>
+          <Pressable onPress={handleDelete} style={styles.headerBtn}>
+            <Ionicons name="trash-outline" size={22} color="#dc2626" />
+          </Pressable>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        {/* Total amount - prominent */}
+        <View style={styles.totalCard}>
+          <Text style={styles.totalLabel}>Total ({purchase.currency || "USD"})</Text>
+          <Text style={styles.totalAmount}>{formatCurrency(purchase.total)}</Text>
+        </View>
+
+        {/* Details */}
+        <View style={styles.detailCard}>
+          <DetailRow label="Fuel Stop" value={purchase.vendor_name || purchase.description || "—"} />
+          <DetailRow label="Date" value={formatDate(purchase.date)} />
+          <DetailRow label="Trip" value={purchase.trip_reference ? `#${purchase.trip_reference}` : "—"} />
+          <DetailRow
+            label="Odometer"
+            value={purchase.odometer_reading != null ? Number(purchase.odometer_reading).toLocaleString() : "—"}
+          />
+          <DetailRow label="State / Province" value={purchase.jurisdiction || "—"} />
+
+          <View style={styles.divider} />
+
+          <DetailRow label={fuelUnitLabel(unit)} value={quantity} />
+          <DetailRow label="Price" value={price} />
+          {unit === "liters" && purchase.gallons != null && (
+            <DetailRow label="US Gallons" value={Number(purchase.gallons).toFixed(3)} />
+          )}
+
+          <View style={styles.divider} />
+
+          <DetailRow label="Fuel Amount" value={formatCurrency(purchase.amount)} />
+          {purchase.tax_province ? (
+            TAX_COMPONENTS.filter((c) => Number(purchase[c]) > 0).map((c) => (
+              <DetailRow
+                key={c}
+                label={`${taxComponentLabel(c, purchase.tax_province)} (${purchase.tax_province})`}
+                value={formatCurrency(Number(purchase[c]))}
+              />
+            ))
+          ) : (
+            <DetailRow label="Tax" value={formatCurrency(purchase.tax)} />
+          )}
+          <DetailRow label="Total" value={formatCurrency(purchase.total)} bold />
+          {purchase.exchange_rate != null && purchase.home_currency && purchase.currency !== purchase.home_currency && (
+            <>
+              <DetailRow
+                label="Exchange Rate"
+                value={`1 ${purchase.currency} = ${Number(purchase.exchange_rate).toFixed(4)} ${purchase.home_currency}`}
+              />
+              <DetailRow
+                label={`Total (${purchase.home_currency})`}
+                value={formatCurrency(Number(purchase.total) * Number(purchase.exchange_rate))}
+              />
+            </>
+          )}
+
+          {purchase.notes && (
+            <>
+              <View style={styles.divider} />
+              <DetailRow label="Notes" value={purchase.notes} />
+            </>
+          )}
+
+          {purchase.receipt_id && (
+            <>
+              <View style={styles.divider} />
+              <Pressable
+                style={styles.receiptRow}
+                onPress={() => router.push(`/receipts/${purchase.receipt_id}`)}
+              >
+                <Ionicons name="camera" size={16} color="#10b981" />
+                <Text style={styles.receiptText}>Receipt attached</Text>
+              </Pressable>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+function DetailRow({ label, value, bold }: { label: string; value: string; bold?: boolean }) {
+  return (
+    <View style={detailStyles.row}>
+      <Text style={detailStyles.label}>{label}</Text>
+      <Text style={[detailStyles.value, bold && detailStyles.valueBold]}>{value}</Text>
+    </View>
+  );
+}
+
+const detailStyles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    paddingVertical: 10,
+  },
+  label: {
+    fontSize: 13,
+    color: "#64748b",
+    flex: 1,
+  },
+  value: {
+    fontSize: 14,
+    color: "#1e293b",
+    fontWeight: "500",
+    flex: 2,
+    textAlign: "right",
+  },
+  valueBold: {
+    fontWeight: "700",
+    fontSize: 15,
+  },
+});
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  headerBtn: {
+    padding: 4,
+  },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  headerPlaceholder: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  totalCard: {
+    backgroundColor: "#d97706",
+    borderRadius: 14,
+    padding: 24,
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  totalLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "rgba(255,255,255,0.7)",
+    marginBottom: 4,
+  },
+  totalAmount: {
+    fontSize: 32,
+    fontWeight: "800",
+    color: "#ffffff",
+  },
+  detailCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 16,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: "#f3f4f6",
+    marginVertical: 4,
+  },
+  receiptRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 10,
+  },
+  receiptText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#166534",
+  },
+});
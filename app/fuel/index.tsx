@@ -0,0 +1,338 @@
+import { useState, useCallback } from "react";
+import { View, Text, Pressable, StyleSheet, ScrollView, ActivityIndicator } from "react-native";
+import { useRouter, useFocusEffect } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  fetchFuelPurchases,
+  fromGallons,
+  fuelUnitLabel,
+  FuelPurchaseListItem,
+} from "../../lib/fuel";
+import {
+  Currency,
+  ExchangeRate,
+  fetchExchangeRates,
+  getHomeCurrency,
+  sumInHome,
+  toHomeAmount,
+} from "../../lib/currency";
+
+export default function FuelListScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const [purchases, setPurchases] = useState<FuelPurchaseListItem[]>([]);
+  const [homeCurrency, setHomeCurrency] = useState<Currency>("USD");
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadPurchases();
+    }, [])
+  );
+
+  async function loadPurchases() {
+    try {
+      const [data, home, rateRows] = await Promise.all([
+        fetchFuelPurchases(),
+        getHomeCurrency(),
+        fetchExchangeRates().catch(() => [] as ExchangeRate[]),
+      ]);
+      setHomeCurrency(home);
+      setRates(rateRows);
+      setPurchases(data);
+    } catch (error) {
+      console.error("Error loading fuel purchases:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function formatDate(dateStr: string) {
+    const date = new Date(dateStr + "T00:00:00");
+    return date.toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+  }
+
+  function formatCurrency(amount: number) {
+    return `$${Number(amount || 0).toFixed(2)}`;
+  }
+
+  // Totals are in the home currency; foreign amounts use their saved rate
+  const today = new Date().toISOString().split("T")[0];
+  const monthTotal = sumInHome(
+    purchases.filter((p) => p.date.startsWith(today.slice(0, 7))),
+    homeCurrency,
+    rates
+  );
+  const yearTotal = sumInHome(
+    purchases.filter((p) => p.date.startsWith(today.slice(0, 4))),
+    homeCurrency,
+    rates
+  );
+
+  function formatQuantity(p: FuelPurchaseListItem) {
+    if (p.gallons == null) return null;
+    const unit = p.fuel_unit || "gallons";
+    return `${fromGallons(Number(p.gallons), unit).toFixed(1)} ${fuelUnitLabel(unit, true)}`;
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.push("/")} style={styles.backButton}>
+          <Ionicons name="home" size={24} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Fuel</Text>
+        <Pressable onPress={() => router.push("/fuel/new")} style={styles.addButton}>
+          <Ionicons name="add-circle" size={26} color="#2563eb" />
+        </Pressable>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2563eb" />
+          <Text style={styles.loadingText}>Loading fuel purchases...</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+          {purchases.length > 0 && (
+            <>
+              <View style={styles.summaryCard}>
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryLabel}>This Month ({homeCurrency})</Text>
+                  <Text style={styles.summaryValue}>{formatCurrency(monthTotal.total)}</Text>
+                </View>
+                <View style={styles.summaryDivider} />
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryLabel}>Year to Date ({homeCurrency})</Text>
+                  <Text style={styles.summaryValue}>{formatCurrency(yearTotal.total)}</Text>
+                </View>
+              </View>
+              {yearTotal.unconverted > 0 && (
+                <Text style={styles.summaryNote}>
+                  {yearTotal.unconverted} not included: no exchange rate to {homeCurrency}
+                </Text>
+              )}
+            </>
+          )}
+          {purchases.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Ionicons name="water-outline" size={48} color="#d1d5db" />
+              <Text style={styles.emptyText}>No fuel purchases yet</Text>
+              <Text style={styles.emptySubtext}>Tap + to log your first fill-up</Text>
+            </View>
+          ) : (
+            purchases.map((p) => {
+              const quantity = formatQuantity(p);
+              return (
+                <Pressable
+                  key={p.id}
+                  style={({ pressed }) => [
+                    styles.fuelCard,
+                    pressed && styles.fuelCardPressed,
+                  ]}
+                  onPress={() => router.push(`/fuel/${p.id}`)}
+                >
+                  <View style={styles.fuelLeft}>
+                    <Text style={styles.fuelDate}>{formatDate(p.date)}</Text>
+                    <Text style={styles.fuelVendor}>
+                      {p.vendor_name || p.description || "No vendor"}
+                    </Text>
+                    <View style={styles.fuelBadges}>
+                      {quantity && (
+                        <View style={styles.qtyBadge}>
+                          <Text style={styles.qtyBadgeText}>{quantity}</Text>
+                        </View>
+                      )}
+                      {p.trip_reference && (
+                        <Text style={styles.tripText}>#{p.trip_reference}</Text>
+                      )}
+                      {p.receipt_id && (
+                        <Ionicons name="camera" size={12} color="#10b981" />
+                      )}
+                    </View>
+                  </View>
+                  <View style={styles.fuelRight}>
+                    <Text style={styles.fuelTotal}>{formatCurrency(p.total)}</Text>
+                    {p.currency && p.currency !== homeCurrency && (
+                      <Text style={styles.currencyText}>
+                        {p.currency}
+                        {toHomeAmount(p.total, p, homeCurrency, rates) != null
+                          ? ` · ≈ ${formatCurrency(toHomeAmount(p.total, p, homeCurrency, rates)!)} ${homeCurrency}`
+                          : ""}
+                      </Text>
+                    )}
+                  </View>
+                </Pressable>
+              );
+            })
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  addButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: "#64748b",
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingTop: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: "#9ca3af",
+    marginTop: 12,
+    fontWeight: "600",
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: "#d1d5db",
+    marginTop: 4,
+  },
+  fuelCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "#ffffff",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 14,
+    marginBottom: 10,
+  },
+  fuelCardPressed: {
+    backgroundColor: "#f9fafb",
+    transform: [{ scale: 0.99 }],
+  },
+  fuelLeft: {
+    flex: 1,
+    marginRight: 12,
+  },
+  fuelDate: {
+    fontSize: 12,
+    color: "#64748b",
+    marginBottom: 2,
+  },
+  fuelVendor: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1e293b",
+    marginBottom: 4,
+  },
+  fuelBadges: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  qtyBadge: {
+    backgroundColor: "#fffbeb",
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  qtyBadgeText: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#d97706",
+  },
+  tripText: {
+    fontSize: 11,
+    color: "#64748b",
+  },
+  fuelRight: {
+    alignItems: "flex-end",
+  },
+  fuelTotal: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  currencyText: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#64748b",
+    marginTop: 2,
+  },
+  summaryCard: {
+    flexDirection: "row",
+    backgroundColor: "#ffffff",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingVertical: 12,
+    marginBottom: 12,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  summaryDivider: {
+    width: 1,
+    backgroundColor: "#e5e7eb",
+  },
+  summaryLabel: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#64748b",
+    marginBottom: 2,
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  summaryNote: {
+    fontSize: 11,
+    color: "#d97706",
+    marginTop: -6,
+    marginBottom: 12,
+    textAlign: "center",
+  },
+});
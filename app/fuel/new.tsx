@@ -0,0 +1,1394 @@
+import { useState, useEffect } from "react";
+import {
+  View, Text, TextInput, Pressable, StyleSheet, ScrollView,
+  Alert, Platform, Modal, ActivityIndicator, KeyboardAvoidingView,
+} from "react-native";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { supabase } from "../../lib/supabaseClient";
+import { getCurrentTrip } from "../../lib/currentTrip";
+import {
+  getFuelDefaults,
+  fetchFuelPurchase,
+  saveFuelPurchase,
+  fromGallons,
+  fromPricePerGallon,
+  fuelUnitLabel,
+  FuelUnit,
+  Currency,
+} from "../../lib/fuel";
+import { fetchReceiptExtraction, fieldsToReview } from "../../lib/receiptOcr";
+import { normalizeJurisdiction } from "../../lib/ifta";
+import {
+  ExchangeRate,
+  fetchExchangeRates,
+  findRate,
+  getHomeCurrency,
+  toCurrency,
+} from "../../lib/currency";
+import {
+  TaxComponent,
+  TaxInputs,
+  BLANK_TAX_INPUTS,
+  formatTaxInputs,
+  parseTaxInputs,
+  provinceComponents,
+  taxComponentLabel,
+  taxFromNet,
+  splitTotal,
+  sumTaxes,
+  toProvince,
+} from "../../lib/salesTax";
+
+type PickerItem = { id: string; label: string; sublabel?: string };
+
+// Vendor and trip rows as the dropdown queries select them
+type VendorRow = { id: string; name: string; state: string | null; currency: string | null };
+type TripRow = { id: string; trip_reference: string | null; origin_name: string | null; destination_name: string | null };
+
+export default function NewFuelScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const params = useLocalSearchParams<{ id?: string; receipt_id?: string }>();
+  const editingId = params.id || null;
+
+  const [saving, setSaving] = useState(false);
+  const [loadingData, setLoadingData] = useState(true);
+
+  // Dropdown data
+  const [vendors, setVendors] = useState<PickerItem[]>([]);
+  const [vendorStates, setVendorStates] = useState<Record<string, string>>({});
+  const [vendorCurrencies, setVendorCurrencies] = useState<Record<string, Currency>>({});
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [homeCurrency, setHomeCurrency] = useState<Currency>("USD");
+  const [trips, setTrips] = useState<PickerItem[]>([]);
+
+  // Form fields
+  const [vendorId, setVendorId] = useState<string | null>(null);
+  const [vendorText, setVendorText] = useState(""); // free-form vendor name
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [tripId, setTripId] = useState<string | null>(null);
+  const [currentTripLabel, setCurrentTripLabel] = useState<string | null>(null);
+  const [odometer, setOdometer] = useState("");
+  const [jurisdiction, setJurisdiction] = useState(""); // state/province for IFTA
+  const [fuelUnit, setFuelUnit] = useState<FuelUnit>("gallons");
+  const [currency, setCurrency] = useState<Currency>("USD");
+  const [exchangeRate, setExchangeRate] = useState(""); // 1 currency = x home currency
+  const [rateEdited, setRateEdited] = useState(false);
+  const [quantity, setQuantity] = useState("");
+  const [pricePerUnit, setPricePerUnit] = useState("");
+  const [amount, setAmount] = useState("");
+  const [tax, setTax] = useState("");
+  const [taxes, setTaxes] = useState<TaxInputs>(BLANK_TAX_INPUTS); // Canadian components
+  const [total, setTotal] = useState("");
+  const [notes, setNotes] = useState("");
+  const [receiptId, setReceiptId] = useState<string | null>(params.receipt_id || null);
+  const [scanReview, setScanReview] = useState<string[] | null>(null); // set when pre-filled from a receipt scan
+
+  // Picker modals
+  const [showVendorPicker, setShowVendorPicker] = useState(false);
+  const [showTripPicker, setShowTripPicker] = useState(false);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [tempDate, setTempDate] = useState(date);
+
+  useEffect(() => {
+    loadDropdownData();
+  }, []);
+
+  // Exchange rate follows the rate table for the purchase date until edited
+  const rateLookup = findRate(rates, currency, homeCurrency, date);
+  useEffect(() => {
+    if (rateEdited || currency === homeCurrency) return;
+    setExchangeRate(rateLookup ? String(rateLookup.rate) : "");
+  }, [currency, homeCurrency, date, rates]);
+
+  // Fuel bought in a Canadian province is taxed at that province's rates
+  const province = toProvince(jurisdiction);
+
+  // Quantity × price → amount, amount + tax → total
+  function recalc(nextQty: string, nextPrice: string, nextAmount: string, nextTax: string, from: "qty" | "amount" | "tax") {
+    let amt = parseFloat(nextAmount) || 0;
+    if (from === "qty") {
+      const q = parseFloat(nextQty);
+      const p = parseFloat(nextPrice);
+      if (!isNaN(q) && !isNaN(p)) {
+        amt = q * p;
+        setAmount(amt.toFixed(2));
+      }
+    }
+    const t = parseFloat(nextTax) || 0;
+    if (amt > 0) {
+      setTotal((amt + t).toFixed(2));
+    }
+  }
+
+  // Canadian pump prices include sales tax, so quantity × price is the
+  // total; split it into amount + components at the province's rates
+  function applyProvinceTotal(tot: number, prov: string) {
+    const split = splitTotal(tot, prov);
+    setTotal(tot.toFixed(2));
+    setAmount(split.net.toFixed(2));
+    setTaxes(formatTaxInputs(split.taxes, prov));
+    setTax(sumTaxes(split.taxes).toFixed(2));
+  }
+
+  function recalcQty(nextQty: string, nextPrice: string) {
+    const q = parseFloat(nextQty);
+    const p = parseFloat(nextPrice);
+    if (province && !isNaN(q) && !isNaN(p)) {
+      applyProvinceTotal(q * p, province);
+    } else if (!province) {
+      recalc(nextQty, nextPrice, amount, tax, "qty");
+    }
+  }
+
+  function onQuantityChange(val: string) {
+    setQuantity(val);
+    recalcQty(val, pricePerUnit);
+  }
+  function onPriceChange(val: string) {
+    setPricePerUnit(val);
+    recalcQty(quantity, val);
+  }
+  function onAmountChange(val: string) {
+    setAmount(val);
+    const amt = parseFloat(val);
+    if (province && !isNaN(amt)) {
+      const t = taxFromNet(amt, province);
+      setTaxes(formatTaxInputs(t, province));
+      setTax(sumTaxes(t).toFixed(2));
+      setTotal((amt + sumTaxes(t)).toFixed(2));
+      return;
+    }
+    recalc(quantity, pricePerUnit, val, tax, "amount");
+  }
+  function onTaxComponentChange(component: TaxComponent, val: string) {
+    const next = { ...taxes, [component]: val };
+    setTaxes(next);
+    const sum = sumTaxes(parseTaxInputs(next));
+    setTax(sum.toFixed(2));
+    recalc(quantity, pricePerUnit, amount, String(sum), "tax");
+  }
+  function onTotalChange(val: string) {
+    setTotal(val);
+    const tot = parseFloat(val);
+    if (province && !isNaN(tot)) {
+      const split = splitTotal(tot, province);
+      setAmount(split.net.toFixed(2));
+      setTaxes(formatTaxInputs(split.taxes, province));
+      setTax(sumTaxes(split.taxes).toFixed(2));
+    }
+  }
+  function onJurisdictionChange(val: string) {
+    const next = val.toUpperCase();
+    setJurisdiction(next);
+    const nextProvince = toProvince(next);
+    const tot = parseFloat(total);
+    if (nextProvince && nextProvince !== province && !isNaN(tot) && tot > 0) {
+      applyProvinceTotal(tot, nextProvince);
+    } else if (!nextProvince) {
+      setTaxes(BLANK_TAX_INPUTS);
+    }
+  }
+  // A different currency means a different rate; go back to the rate table
+  function selectCurrency(next: Currency) {
+    setCurrency(next);
+    setRateEdited(false);
+  }
+  function onTaxChange(val: string) {
+    setTax(val);
+    recalc(quantity, pricePerUnit, amount, val, "tax");
+  }
+
+  async function loadDropdownData() {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: tenantUser } = await supabase
+        .from("tenant_users")
+        .select("tenant_id")
+        .eq("user_id", user.id)
+        .single();
+
+      if (!tenantUser) return;
+
+      // Load dropdowns, current trip, and fuel defaults in parallel
+      const [vendorRes, tripRes, currentTrip, defaults, existing, scan, home, rateRows] = await Promise.all([
+        supabase
+          .from("vendors")
+          .select("id, name, state, currency")
+          .eq("tenant_id", tenantUser.tenant_id)
+          .order("name")
+          .overrideTypes<VendorRow[], { merge: false }>(),
+        supabase
+          .from("trips")
+          .select("id, trip_reference, origin_name, destination_name")
+          .eq("tenant_id", tenantUser.tenant_id)
+          .order("trip_reference", { ascending: false })
+          .limit(50)
+          .overrideTypes<TripRow[], { merge: false }>(),
+        getCurrentTrip(),
+        getFuelDefaults(),
+        editingId ? fetchFuelPurchase(editingId) : Promise.resolve(null),
+        !editingId && params.receipt_id
+          ? fetchReceiptExtraction(params.receipt_id).catch(() => null)
+          : Promise.resolve(null),
+        getHomeCurrency(),
+        fetchExchangeRates().catch(() => [] as ExchangeRate[]),
+      ]);
+
+      setHomeCurrency(home);
+      setRates(rateRows);
+
+      const vendorItems = (vendorRes.data || []).map((v) => ({
+        id: v.id,
+        label: v.name,
+      }));
+      setVendors(vendorItems);
+      setVendorStates(
+        Object.fromEntries(
+          (vendorRes.data || [])
+            .filter((v) => v.state)
+            .map((v) => [v.id, String(v.state).toUpperCase()])
+        )
+      );
+      setVendorCurrencies(
+        Object.fromEntries(
+          (vendorRes.data || [])
+            .flatMap((v) => {
+              const vendorCurrency = toCurrency(v.currency);
+              return vendorCurrency ? [[v.id, vendorCurrency]] : [];
+            })
+        )
+      );
+
+      setTrips(
+        (tripRes.data || []).map((t) => ({
+          id: t.id,
+          label: t.trip_reference
+            ? `#${t.trip_reference}${t.origin_name ? ` – ${t.origin_name}` : ""}${t.destination_name ? ` → ${t.destination_name}` : ""}`
+            : `${t.origin_name || "?"} → ${t.destination_name || "?"}`,
+        }))
+      );
+
+      if (existing) {
+        // Editing: show values in the unit they were entered in
+        const unit = existing.fuel_unit || "gallons";
+        setFuelUnit(unit);
+        setCurrency(existing.currency || defaults.currency);
+        if (existing.exchange_rate != null && existing.home_currency === home) {
+          // Keep the rate the purchase was saved with
+          setExchangeRate(String(Number(existing.exchange_rate)));
+          setRateEdited(true);
+        }
+        setVendorId(existing.vendor_id);
+        setVendorText(existing.vendor_name || existing.description || "");
+        setDate(existing.date);
+        setTripId(existing.trip_id);
+        setOdometer(existing.odometer_reading != null ? String(existing.odometer_reading) : "");
+        setJurisdiction(existing.jurisdiction || "");
+        setQuantity(existing.gallons != null ? fromGallons(Number(existing.gallons), unit).toFixed(3) : "");
+        setPricePerUnit(
+          existing.price_per_gallon != null
+            ? fromPricePerGallon(Number(existing.price_per_gallon), unit).toFixed(3)
+            : ""
+        );
+        setAmount(Number(existing.amount || 0).toFixed(2));
+        setTax(Number(existing.tax || 0).toFixed(2));
+        if (existing.tax_province) {
+          setTaxes(
+            formatTaxInputs(
+              {
+                gst: Number(existing.gst) || 0,
+                hst: Number(existing.hst) || 0,
+                pst: Number(existing.pst) || 0,
+                qst: Number(existing.qst) || 0,
+              },
+              existing.tax_province
+            )
+          );
+        }
+        setTotal(Number(existing.total || 0).toFixed(2));
+        setNotes(existing.notes || "");
+        setReceiptId(existing.receipt_id);
+      } else {
+        setFuelUnit(defaults.fuelUnit);
+        setCurrency(defaults.currency);
+
+        // Default trip to current trip
+        if (currentTrip) {
+          setTripId(currentTrip.id);
+          setCurrentTripLabel(
+            `#${currentTrip.trip_reference}${currentTrip.origin_name ? ` – ${currentTrip.origin_name}` : ""}${currentTrip.destination_name ? ` → ${currentTrip.destination_name}` : ""}`
+          );
+        }
+
+        // Pre-fill from the receipt scan, in the unit printed on the receipt
+        let scanProvince: string | null = null;
+        if (scan) {
+          if (scan.vendor) {
+            const match = vendorItems.find(
+              (v) => v.label.toLowerCase() === scan.vendor!.value.toLowerCase()
+            );
+            setVendorId(match?.id || null);
+            setVendorText(match?.label || scan.vendor.value);
+            const matchCurrency = match && (vendorRes.data || []).find((v) => v.id === match.id)?.currency;
+            if (toCurrency(matchCurrency)) setCurrency(toCurrency(matchCurrency)!);
+            const matchState = match && (vendorRes.data || []).find((v) => v.id === match.id)?.state;
+            if (matchState) {
+              setJurisdiction(String(matchState).toUpperCase());
+              scanProvince = toProvince(matchState);
+            }
+          }
+          if (scan.date) setDate(scan.date.value);
+          if (scan.unit) setFuelUnit(scan.unit.value);
+          if (scan.quantity) setQuantity(scan.quantity.value.toFixed(3));
+          if (scan.pricePerUnit) setPricePerUnit(scan.pricePerUnit.value.toFixed(3));
+          const scanTax = scan.tax?.value || 0;
+          if (scan.total && scanProvince) {
+            const split = splitTotal(scan.total.value, scanProvince);
+            setTotal(scan.total.value.toFixed(2));
+            setAmount(split.net.toFixed(2));
+            setTaxes(formatTaxInputs(split.taxes, scanProvince));
+            setTax(sumTaxes(split.taxes).toFixed(2));
+          } else if (scan.total) {
+            setTotal(scan.total.value.toFixed(2));
+            setTax(scanTax.toFixed(2));
+            setAmount(Math.max(scan.total.value - scanTax, 0).toFixed(2));
+          } else if (scan.quantity && scan.pricePerUnit) {
+            recalc(
+              String(scan.quantity.value),
+              String(scan.pricePerUnit.value),
+              "",
+              String(scanTax),
+              "qty"
+            );
+            setTax(scanTax.toFixed(2));
+          }
+          setScanReview(
+            fieldsToReview(scan, ["vendor", "date", "quantity", "pricePerUnit", "total", "tax"])
+          );
+        }
+      }
+    } catch (error) {
+      console.error("Error loading dropdown data:", error);
+    } finally {
+      setLoadingData(false);
+    }
+  }
+
+  async function handleSave() {
+    if (!date) {
+      Alert.alert("Error", "Date is required.");
+      return;
+    }
+
+    const totalNum = parseFloat(total);
+    if (!totalNum || totalNum <= 0) {
+      Alert.alert("Error", "Total amount is required.");
+      return;
+    }
+
+    const qtyNum = quantity ? parseFloat(quantity) : null;
+    const priceNum = pricePerUnit ? parseFloat(pricePerUnit) : null;
+    const odoNum = odometer ? parseFloat(odometer.replace(/[^0-9.]/g, "")) : null;
+    const taxNum = parseFloat(tax) || 0;
+
+    const rateNum = parseFloat(exchangeRate);
+    if (currency !== homeCurrency && !(rateNum > 0)) {
+      Alert.alert("Error", `Exchange rate from ${currency} to ${homeCurrency} is required.`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Use vendorText as description if no vendor_id selected
+      const descriptionValue = vendorId ? null : (vendorText.trim() || null);
+
+      await saveFuelPurchase(editingId, {
+        trip_id: tripId || null,
+        vendor_id: vendorId || null,
+        receipt_id: receiptId || null,
+        date,
+        description: descriptionValue,
+        odometer_reading: odoNum != null && !isNaN(odoNum) ? odoNum : null,
+        jurisdiction: normalizeJurisdiction(jurisdiction),
+        quantity: qtyNum != null && !isNaN(qtyNum) ? qtyNum : null,
+        price_per_unit: priceNum != null && !isNaN(priceNum) ? priceNum : null,
+        fuel_unit: fuelUnit,
+        currency,
+        exchange_rate: currency !== homeCurrency ? rateNum : null,
+        home_currency: homeCurrency,
+        amount: parseFloat(amount) || totalNum - taxNum,
+        tax: taxNum,
+        tax_province: province,
+        taxes: province ? parseTaxInputs(taxes) : null,
+        total: totalNum,
+        notes: notes.trim() || null,
+      });
+
+      // Close the form immediately after saving
+      router.back();
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message || "Failed to save fuel purchase.");
+      setSaving(false);
+    }
+  }
+
+  function getSelectedLabel(items: PickerItem[], id: string | null) {
+    if (!id) return null;
+    return items.find((i) => i.id === id)?.label || null;
+  }
+
+  // When picking a vendor from dropdown, set vendorId and clear free-form text
+  function handleVendorSelect(id: string) {
+    setVendorId(id);
+    const vendor = vendors.find((v) => v.id === id);
+    setVendorText(vendor?.label || "");
+    // Fuel is taxed where it's bought -- default to the vendor's state/province
+    if (vendorStates[id]) onJurisdictionChange(vendorStates[id]);
+    if (vendorCurrencies[id] && vendorCurrencies[id] !== currency) selectCurrency(vendorCurrencies[id]);
+    setShowVendorPicker(false);
+  }
+
+  // When user types in vendor field, clear vendor_id (it's now free-form)
+  function handleVendorTextChange(text: string) {
+    setVendorText(text);
+    const selectedVendor = vendors.find((v) => v.id === vendorId);
+    if (selectedVendor && text !== selectedVendor.label) {
+      setVendorId(null);
+    }
+  }
+
+  const title = editingId ? "Edit Fuel" : "New Fuel Purchase";
+  const unitShort = fuelUnitLabel(fuelUnit, true);
+
+  if (loadingData) {
+    return (
+      <View style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.header}>
+          <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+            <Ionicons name="arrow-back" size={24} color="#1e293b" />
+          </Pressable>
+          <Text style={styles.headerTitle}>{title}</Text>
+          <View style={styles.headerPlaceholder} />
+        </View>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2563eb" />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+          <Ionicons name="arrow-back" size={24} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.headerTitle}>{title}</Text>
+        <View style={styles.headerPlaceholder} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentInner}
+          keyboardShouldPersistTaps="handled"
+        >
+          {scanReview && (
+            <View style={styles.scanBanner}>
+              <Ionicons name="scan-outline" size={18} color="#2563eb" />
+              <Text style={styles.scanBannerText}>
+                Pre-filled from the receipt.
+                {scanReview.length > 0 ? ` Check the ${scanReview.join(", ")}.` : ""}
+              </Text>
+            </View>
+          )}
+
+          {/* ── Vendor (combo: free-form + dropdown) ── */}
+          <Text style={styles.label}>Fuel Stop</Text>
+          <View style={styles.comboRow}>
+            <TextInput
+              style={styles.comboInput}
+              value={vendorText}
+              onChangeText={handleVendorTextChange}
+              placeholder="Type or select vendor..."
+              placeholderTextColor="#9ca3af"
+            />
+            <Pressable
+              style={styles.comboButton}
+              onPress={() => setShowVendorPicker(true)}
+            >
+              <Ionicons name="chevron-down" size={18} color="#64748b" />
+            </Pressable>
+          </View>
+          {vendorId && (
+            <Text style={styles.comboHint}>
+              Linked to saved vendor
+            </Text>
+          )}
+
+          {/* ── Date ───────────────────────────── */}
+          <Text style={styles.label}>Date</Text>
+          {Platform.OS === "web" ? (
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              style={{
+                width: "100%",
+                padding: 12,
+                fontSize: 15,
+                border: "1px solid #e5e7eb",
+                borderRadius: 10,
+                fontFamily: "system-ui",
+                color: "#1e293b",
+                backgroundColor: "#ffffff",
+                marginBottom: 16,
+                boxSizing: "border-box",
+              }}
+            />
+          ) : (
+            <Pressable style={styles.picker} onPress={() => { setTempDate(date); setShowDatePicker(true); }}>
+              <Text style={styles.pickerText}>
+                {date ? new Date(date + "T00:00:00").toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }) : "Select date..."}
+              </Text>
+              <Ionicons name="calendar-outline" size={18} color="#9ca3af" />
+            </Pressable>
+          )}
+
+          {/* ── Trip (defaults to current trip) ── */}
+          <Text style={styles.label}>Trip</Text>
+          <Pressable style={styles.picker} onPress={() => setShowTripPicker(true)}>
+            <Text style={tripId ? styles.pickerText : styles.pickerPlaceholder}>
+              {getSelectedLabel(trips, tripId) || "Select trip..."}
+            </Text>
+            <Ionicons name="chevron-down" size={18} color="#9ca3af" />
+          </Pressable>
+          {currentTripLabel && tripId && (
+            <Text style={styles.currentTripHint}>
+              Current trip: {currentTripLabel}
+            </Text>
+          )}
+
+          {/* ── Odometer ───────────────────────── */}
+          <Text style={styles.label}>Odometer</Text>
+          <TextInput
+            style={styles.input}
+            value={odometer}
+            onChangeText={setOdometer}
+            placeholder="e.g. 148315"
+            keyboardType="number-pad"
+            placeholderTextColor="#9ca3af"
+          />
+
+          {/* ── Jurisdiction ───────────────────── */}
+          <Text style={styles.label}>State / Province</Text>
+          <TextInput
+            style={styles.input}
+            value={jurisdiction}
+            onChangeText={onJurisdictionChange}
+            placeholder="e.g. TX or ON (for IFTA)"
+            autoCapitalize="characters"
+            maxLength={20}
+            placeholderTextColor="#9ca3af"
+          />
+
+          {/* ── Divider ────────────────────────── */}
+          <View style={styles.divider} />
+
+          {/* ── Fuel ───────────────────────────── */}
+          <Text style={styles.sectionLabel}>Fuel</Text>
+
+          <View style={styles.toggleGroup}>
+            {(["gallons", "liters"] as FuelUnit[]).map((u) => (
+              <Pressable
+                key={u}
+                style={[styles.toggleChip, fuelUnit === u && styles.toggleChipActive]}
+                onPress={() => setFuelUnit(u)}
+              >
+                <Text style={[styles.toggleChipText, fuelUnit === u && styles.toggleChipTextActive]}>
+                  {fuelUnitLabel(u)}
+                </Text>
+              </Pressable>
+            ))}
+            <View style={styles.toggleSpacer} />
+            {(["USD", "CAD"] as Currency[]).map((c) => (
+              <Pressable
+                key={c}
+                style={[styles.toggleChip, currency === c && styles.toggleChipActive]}
+                onPress={() => selectCurrency(c)}
+              >
+                <Text style={[styles.toggleChipText, currency === c && styles.toggleChipTextActive]}>
+                  {c}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <View style={styles.formRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.label}>{fuelUnitLabel(fuelUnit)}</Text>
+              <TextInput
+                style={styles.input}
+                value={quantity}
+                onChangeText={onQuantityChange}
+                placeholder="0.000"
+                keyboardType="decimal-pad"
+                placeholderTextColor="#9ca3af"
+              />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.label}>Price / {unitShort}</Text>
+              <View style={styles.amountRow}>
+                <Text style={styles.currencySymbol}>$</Text>
+                <TextInput
+                  style={styles.amountInput}
+                  value={pricePerUnit}
+                  onChangeText={onPriceChange}
+                  placeholder="0.000"
+                  keyboardType="decimal-pad"
+                  placeholderTextColor="#9ca3af"
+                />
+              </View>
+            </View>
+          </View>
+
+          <Text style={styles.label}>Fuel Amount</Text>
+          <View style={styles.amountRow}>
+            <Text style={styles.currencySymbol}>$</Text>
+            <TextInput
+              style={styles.amountInput}
+              value={amount}
+              onChangeText={onAmountChange}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+              placeholderTextColor="#9ca3af"
+            />
+          </View>
+
+          {province ? (
+            provinceComponents(province).map((c) => (
+              <View key={c}>
+                <Text style={styles.label}>
+                  {taxComponentLabel(c, province)} ({province})
+                </Text>
+                <View style={styles.amountRow}>
+                  <Text style={styles.currencySymbol}>$</Text>
+                  <TextInput
+                    style={styles.amountInput}
+                    value={taxes[c]}
+                    onChangeText={(val) => onTaxComponentChange(c, val)}
+                    placeholder="0.00"
+                    keyboardType="decimal-pad"
+                    placeholderTextColor="#9ca3af"
+                  />
+                </View>
+              </View>
+            ))
+          ) : (
+            <>
+              <Text style={styles.label}>Tax</Text>
+              <View style={styles.amountRow}>
+                <Text style={styles.currencySymbol}>$</Text>
+                <TextInput
+                  style={styles.amountInput}
+                  value={tax}
+                  onChangeText={onTaxChange}
+                  placeholder="0.00"
+                  keyboardType="decimal-pad"
+                  placeholderTextColor="#9ca3af"
+                />
+              </View>
+            </>
+          )}
+
+          <Text style={styles.label}>Total ({currency})</Text>
+          <View style={[styles.amountRow, styles.totalRow]}>
+            <Text style={[styles.currencySymbol, styles.totalSymbol]}>$</Text>
+            <TextInput
+              style={[styles.amountInput, styles.totalInput]}
+              value={total}
+              onChangeText={onTotalChange}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+              placeholderTextColor="#9ca3af"
+            />
+          </View>
+          <Text style={styles.autoCalcHint}>
+            {province
+              ? `${fuelUnitLabel(fuelUnit)} × Price calculates Total (tax included); ${province} tax is split out of it`
+              : `${fuelUnitLabel(fuelUnit)} × Price calculates Amount; Amount + Tax calculates Total`}
+          </Text>
+
+          {currency !== homeCurrency && (
+            <>
+              <Text style={styles.label}>Exchange Rate (1 {currency} = ? {homeCurrency})</Text>
+              <TextInput
+                style={styles.input}
+                value={exchangeRate}
+                onChangeText={(val) => {
+                  setExchangeRate(val);
+                  setRateEdited(true);
+                }}
+                placeholder="0.0000"
+                keyboardType="decimal-pad"
+                placeholderTextColor="#9ca3af"
+              />
+              <Text style={styles.autoCalcHint}>
+                {parseFloat(exchangeRate) > 0 && parseFloat(total) > 0
+                  ? `≈ $${(parseFloat(total) * parseFloat(exchangeRate)).toFixed(2)} ${homeCurrency}. `
+                  : ""}
+                {rateEdited
+                  ? "Entered by hand"
+                  : rateLookup
+                    ? `From the rate table (${rateLookup.rateDate})`
+                    : "No rate in the table for this date. Enter one, or add rates under Setup > Exchange Rates"}
+              </Text>
+            </>
+          )}
+
+          {/* ── Divider ────────────────────────── */}
+          <View style={styles.divider} />
+
+          <Text style={styles.label}>Notes</Text>
+          <TextInput
+            style={[styles.input, styles.textArea]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Additional notes..."
+            placeholderTextColor="#9ca3af"
+            multiline
+          />
+
+          {/* ── Receipt link ───────────────────── */}
+          {receiptId ? (
+            <View style={styles.receiptLinked}>
+              <Ionicons name="checkmark-circle" size={18} color="#10b981" />
+              <Text style={styles.receiptLinkedText}>Receipt attached</Text>
+              <Pressable onPress={() => setReceiptId(null)}>
+                <Text style={styles.receiptRemoveText}>Remove</Text>
+              </Pressable>
+            </View>
+          ) : (
+            <Pressable
+              style={styles.receiptAttach}
+              onPress={() => {
+                Alert.alert(
+                  "Attach Receipt",
+                  "You can attach a receipt from the Receipt Inbox by classifying it as a fuel purchase.",
+                  [{ text: "OK" }]
+                );
+              }}
+            >
+              <Ionicons name="camera-outline" size={22} color="#64748b" />
+              <Text style={styles.receiptAttachText}>Attach receipt photo</Text>
+            </Pressable>
+          )}
+
+          {/* ── Save Button ────────────────────── */}
+          <Pressable
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Text style={styles.saveButtonText}>Save Fuel Purchase</Text>
+            )}
+          </Pressable>
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      {/* ── Vendor Picker Modal ─────────────── */}
+      <PickerModal
+        visible={showVendorPicker}
+        title="Select Vendor"
+        items={vendors}
+        selectedId={vendorId}
+        onSelect={handleVendorSelect}
+        onClear={() => { setVendorId(null); setVendorText(""); setShowVendorPicker(false); }}
+        onClose={() => setShowVendorPicker(false)}
+      />
+
+      {/* ── Trip Picker Modal ──────────────── */}
+      <PickerModal
+        visible={showTripPicker}
+        title="Select Trip"
+        items={trips}
+        selectedId={tripId}
+        onSelect={(id) => { setTripId(id); setShowTripPicker(false); }}
+        onClear={() => { setTripId(null); setShowTripPicker(false); }}
+        onClose={() => setShowTripPicker(false)}
+      />
+
+      {/* ── Date Picker Modal (mobile) ─────── */}
+      <Modal visible={showDatePicker} transparent animationType="fade" onRequestClose={() => setShowDatePicker(false)}>
+        <Pressable style={styles.modalOverlay} onPress={() => setShowDatePicker(false)}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Enter Date</Text>
+            <Text style={styles.modalHint}>Format: YYYY-MM-DD</Text>
+            <TextInput
+              style={styles.modalInput}
+              value={tempDate}
+              onChangeText={setTempDate}
+              placeholder="2026-02-06"
+              keyboardType="numbers-and-punctuation"
+              autoFocus
+            />
+            <View style={styles.modalActions}>
+              <Pressable
+                style={[styles.modalBtn, styles.modalBtnSecondary]}
+                onPress={() => setShowDatePicker(false)}
+              >
+                <Text style={styles.modalBtnSecondaryText}>Cancel</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.modalBtn, styles.modalBtnPrimary]}
+                onPress={() => {
+                  if (/^\d{4}-\d{2}-\d{2}$/.test(tempDate)) {
+                    setDate(tempDate);
+                    setShowDatePicker(false);
+                  } else {
+                    Alert.alert("Invalid date", "Use format YYYY-MM-DD");
+                  }
+                }}
+              >
+                <Text style={styles.modalBtnPrimaryText}>Set Date</Text>
+              </Pressable>
+            </View>
+          </View>
+        </Pressable>
+      </Modal>
+    </View>
+  );
+}
+
+// ── Reusable Picker Modal ──────────────────────────────────
+function PickerModal({
+  visible, title, items, selectedId, onSelect, onClear, onClose,
+}: {
+  visible: boolean;
+  title: string;
+  items: PickerItem[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}) {
+  const [search, setSearch] = useState("");
+
+  const filtered = items.filter((item) =>
+    item.label.toLowerCase().includes(search.toLowerCase())
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.pickerModalOverlay}>
+        <View style={styles.pickerModalContent}>
+          <View style={styles.pickerModalHeader}>
+            <Text style={styles.pickerModalTitle}>{title}</Text>
+            <Pressable onPress={onClose}>
+              <Ionicons name="close" size={24} color="#64748b" />
+            </Pressable>
+          </View>
+
+          {items.length > 5 && (
+            <TextInput
+              style={styles.pickerSearch}
+              value={search}
+              onChangeText={setSearch}
+              placeholder="Search..."
+              placeholderTextColor="#9ca3af"
+              autoFocus={Platform.OS === "web"}
+            />
+          )}
+
+          <ScrollView style={styles.pickerList} keyboardShouldPersistTaps="handled">
+            {selectedId && (
+              <Pressable style={styles.pickerClearRow} onPress={() => { setSearch(""); onClear(); }}>
+                <Ionicons name="close-circle-outline" size={18} color="#dc2626" />
+                <Text style={styles.pickerClearText}>Clear selection</Text>
+              </Pressable>
+            )}
+
+            {filtered.length === 0 ? (
+              <Text style={styles.pickerEmpty}>No items found</Text>
+            ) : (
+              filtered.map((item) => (
+                <Pressable
+                  key={item.id}
+                  style={[
+                    styles.pickerItem,
+                    item.id === selectedId && styles.pickerItemSelected,
+                  ]}
+                  onPress={() => { setSearch(""); onSelect(item.id); }}
+                >
+                  <Text style={[
+                    styles.pickerItemText,
+                    item.id === selectedId && styles.pickerItemTextSelected,
+                  ]}>
+                    {item.label}
+                  </Text>
+                  {item.id === selectedId && (
+                    <Ionicons name="checkmark" size={18} color="#2563eb" />
+                  )}
+                </Pressable>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ── Styles ─────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  headerBtn: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  headerPlaceholder: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+
+  // Labels & inputs
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 6,
+  },
+  sectionLabel: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1e293b",
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: "#1e293b",
+    marginBottom: 16,
+  },
+  textArea: {
+    height: 72,
+    textAlignVertical: "top",
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+
+  // Combo field (text input + dropdown button)
+  comboRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 10,
+    marginBottom: 4,
+  },
+  comboInput: {
+    flex: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: "#1e293b",
+  },
+  comboButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderLeftWidth: 1,
+    borderLeftColor: "#e5e7eb",
+  },
+  comboHint: {
+    fontSize: 11,
+    color: "#10b981",
+    marginBottom: 12,
+    fontStyle: "italic",
+  },
+
+  // Picker (dropdown) button
+  picker: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 13,
+    marginBottom: 16,
+  },
+  pickerText: {
+    fontSize: 15,
+    color: "#1e293b",
+  },
+  pickerPlaceholder: {
+    fontSize: 15,
+    color: "#9ca3af",
+  },
+
+  // Current trip hint
+  currentTripHint: {
+    fontSize: 11,
+    color: "#2563eb",
+    marginTop: -12,
+    marginBottom: 16,
+    fontStyle: "italic",
+  },
+
+  // Unit / currency toggles
+  toggleGroup: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 16,
+  },
+  toggleSpacer: {
+    flex: 1,
+  },
+  toggleChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    backgroundColor: "#ffffff",
+  },
+  toggleChipActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  toggleChipText: {
+    fontSize: 13,
+    color: "#64748b",
+  },
+  toggleChipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+
+  // Amount fields
+  amountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 10,
+    marginBottom: 16,
+    paddingLeft: 14,
+  },
+  currencySymbol: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#64748b",
+    marginRight: 4,
+  },
+  amountInput: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingRight: 14,
+    fontSize: 15,
+    color: "#1e293b",
+  },
+  totalRow: {
+    borderColor: "#2563eb",
+    borderWidth: 1.5,
+    backgroundColor: "#f0f7ff",
+  },
+  totalSymbol: {
+    color: "#2563eb",
+    fontWeight: "700",
+  },
+  totalInput: {
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  autoCalcHint: {
+    fontSize: 11,
+    color: "#9ca3af",
+    marginTop: -12,
+    marginBottom: 16,
+    fontStyle: "italic",
+  },
+
+  // Divider
+  divider: {
+    height: 1,
+    backgroundColor: "#e5e7eb",
+    marginVertical: 8,
+    marginBottom: 16,
+  },
+
+  // Receipt
+  receiptAttach: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderWidth: 1.5,
+    borderColor: "#d1d5db",
+    borderStyle: "dashed",
+    borderRadius: 10,
+    paddingVertical: 16,
+    marginBottom: 24,
+  },
+  receiptAttachText: {
+    fontSize: 14,
+    color: "#64748b",
+    fontWeight: "500",
+  },
+  receiptLinked: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#f0fdf4",
+    borderWidth: 1,
+    borderColor: "#bbf7d0",
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    marginBottom: 24,
+  },
+  receiptLinkedText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#166534",
+  },
+  scanBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#eff6ff",
+    borderWidth: 1,
+    borderColor: "#bfdbfe",
+    borderRadius: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    marginBottom: 16,
+  },
+  scanBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#1e40af",
+  },
+  receiptRemoveText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#dc2626",
+  },
+
+  // Save button
+  saveButton: {
+    backgroundColor: "#2563eb",
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#2563eb",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+
+  // Picker modal
+  pickerModalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.4)",
+    justifyContent: "flex-end",
+  },
+  pickerModalContent: {
+    backgroundColor: "#ffffff",
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    maxHeight: "70%",
+    paddingBottom: 30,
+  },
+  pickerModalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  pickerModalTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  pickerSearch: {
+    backgroundColor: "#f3f4f6",
+    margin: 12,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#1e293b",
+  },
+  pickerList: {
+    paddingHorizontal: 8,
+  },
+  pickerItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 14,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  pickerItemSelected: {
+    backgroundColor: "#eff6ff",
+  },
+  pickerItemText: {
+    fontSize: 15,
+    color: "#1e293b",
+  },
+  pickerItemTextSelected: {
+    fontWeight: "600",
+    color: "#2563eb",
+  },
+  pickerClearRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+  },
+  pickerClearText: {
+    fontSize: 14,
+    color: "#dc2626",
+    fontWeight: "500",
+  },
+  pickerEmpty: {
+    textAlign: "center",
+    padding: 24,
+    fontSize: 14,
+    color: "#9ca3af",
+  },
+
+  // Date picker modal (mobile)
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modalContent: {
+    backgroundColor: "#ffffff",
+    borderRadius: 12,
+    padding: 20,
+    width: "85%",
+    maxWidth: 360,
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1e293b",
+    marginBottom: 4,
+  },
+  modalHint: {
+    fontSize: 12,
+    color: "#9ca3af",
+    marginBottom: 12,
+  },
+  modalInput: {
+    backgroundColor: "#f9fafb",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#1e293b",
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 10,
+    marginTop: 16,
+  },
+  modalBtn: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  modalBtnSecondary: {
+    backgroundColor: "#f3f4f6",
+  },
+  modalBtnSecondaryText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#64748b",
+  },
+  modalBtnPrimary: {
+    backgroundColor: "#2563eb",
+  },
+  modalBtnPrimaryText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+});
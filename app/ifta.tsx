@@ -0,0 +1,412 @@
+import { useState, useCallback } from "react";
+import {
+  View, Text, StyleSheet, Pressable, ActivityIndicator, ScrollView, Alert,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { shareTextFile } from "../lib/exportFile";
+import {
+  fetchIftaReport,
+  iftaReportToCsv,
+  jurisdictionName,
+  IftaReport,
+  IftaTripIssue,
+} from "../lib/ifta";
+
+function currentQuarter(): { year: number; quarter: number } {
+  const now = new Date();
+  return { year: now.getFullYear(), quarter: Math.floor(now.getMonth() / 3) + 1 };
+}
+
+function shiftQuarter(p: { year: number; quarter: number }, direction: 1 | -1) {
+  const index = p.year * 4 + (p.quarter - 1) + direction;
+  return { year: Math.floor(index / 4), quarter: (index % 4) + 1 };
+}
+
+// Group issue lines under their trip
+function groupByTrip(issues: IftaTripIssue[]) {
+  const groups = new Map<string, { tripId: string; tripReference: string; date: string; details: string[] }>();
+  for (const issue of issues) {
+    const group = groups.get(issue.tripId) || {
+      tripId: issue.tripId,
+      tripReference: issue.tripReference,
+      date: issue.date,
+      details: [],
+    };
+    group.details.push(issue.detail);
+    groups.set(issue.tripId, group);
+  }
+  return [...groups.values()];
+}
+
+export default function IftaReportScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const [period, setPeriod] = useState(currentQuarter());
+  const [report, setReport] = useState<IftaReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadReport();
+    }, [period])
+  );
+
+  async function loadReport() {
+    try {
+      setLoading(true);
+      const data = await fetchIftaReport(period.year, period.quarter);
+      setReport(data);
+    } catch (error) {
+      console.error("[IFTA] Error loading report:", error);
+      setReport(null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function exportReport() {
+    if (!report) return;
+    try {
+      await shareTextFile(`ifta-${report.year}-Q${report.quarter}.csv`, iftaReportToCsv(report));
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message || "Failed to export report.");
+    }
+  }
+
+  const { from, to } = report || { from: "", to: "" };
+  const tripGroups = report ? groupByTrip(report.tripIssues) : [];
+  const issueCount = tripGroups.length + (report?.fuelIssues.length || 0);
+
+  function formatShort(iso: string) {
+    return new Date(iso + "T12:00:00").toLocaleDateString("en-US", { month: "short", day: "numeric" });
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={20} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.title}>IFTA Report</Text>
+        <Pressable onPress={exportReport} disabled={!report} style={styles.backButton}>
+          <Ionicons name="share-outline" size={20} color={report ? "#2563eb" : "#d1d5db"} />
+        </Pressable>
+      </View>
+
+      {/* Quarter selector */}
+      <View style={styles.periodBar}>
+        <Pressable onPress={() => setPeriod(shiftQuarter(period, -1))} hitSlop={6}>
+          <Ionicons name="chevron-back" size={18} color="#6b7280" />
+        </Pressable>
+        <View style={styles.periodCenter}>
+          <Text style={styles.periodLabel}>
+            Q{period.quarter} {period.year}
+          </Text>
+          {report && (
+            <Text style={styles.periodRange}>
+              {formatShort(from)} – {formatShort(to)}
+            </Text>
+          )}
+        </View>
+        <Pressable onPress={() => setPeriod(shiftQuarter(period, 1))} hitSlop={6}>
+          <Ionicons name="chevron-forward" size={18} color="#6b7280" />
+        </Pressable>
+      </View>
+
+      {loading ? (
+        <View style={[styles.centered, { flex: 1 }]}>
+          <ActivityIndicator size="large" color="#2563eb" />
+        </View>
+      ) : !report ? (
+        <View style={[styles.centered, { flex: 1 }]}>
+          <Text style={styles.emptyText}>Could not load the report</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.list}>
+          {/* Totals */}
+          <View style={styles.totalsCard}>
+            <View style={styles.totalsItem}>
+              <Text style={styles.totalsValue}>{report.totals.miles.toLocaleString()}</Text>
+              <Text style={styles.totalsLabel}>miles</Text>
+            </View>
+            <View style={styles.totalsItem}>
+              <Text style={styles.totalsValue}>{report.totals.gallons.toLocaleString()}</Text>
+              <Text style={styles.totalsLabel}>gallons</Text>
+            </View>
+            <View style={styles.totalsItem}>
+              <Text style={styles.totalsValue}>{report.totals.mpg != null ? report.totals.mpg.toFixed(2) : "—"}</Text>
+              <Text style={styles.totalsLabel}>mpg</Text>
+            </View>
+            <View style={styles.totalsItem}>
+              <Text style={styles.totalsValue}>{report.tripCount}</Text>
+              <Text style={styles.totalsLabel}>trips</Text>
+            </View>
+          </View>
+
+          {/* Jurisdictions */}
+          <Text style={styles.sectionTitle}>BY JURISDICTION</Text>
+          {report.rows.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="document-text-outline" size={40} color="#d1d5db" />
+              <Text style={styles.emptyText}>No miles or fuel this quarter</Text>
+            </View>
+          ) : (
+            <View style={styles.table}>
+              <View style={[styles.tableRow, styles.tableHead]}>
+                <Text style={[styles.cellJurisdiction, styles.headText]}>Jurisdiction</Text>
+                <Text style={[styles.cellNumber, styles.headText]}>Miles</Text>
+                <Text style={[styles.cellNumber, styles.headText]}>Gallons</Text>
+              </View>
+              {report.rows.map((row) => (
+                <View key={row.jurisdiction} style={styles.tableRow}>
+                  <View style={styles.cellJurisdiction}>
+                    <Text style={styles.cellCode}>{row.jurisdiction}</Text>
+                    <Text style={styles.cellName} numberOfLines={1}>
+                      {jurisdictionName(row.jurisdiction)}
+                    </Text>
+                  </View>
+                  <Text style={styles.cellNumber}>{row.miles.toLocaleString()}</Text>
+                  <Text style={styles.cellNumber}>{row.gallons.toLocaleString()}</Text>
+                </View>
+              ))}
+              {(report.unassignedMiles > 0 || report.unassignedGallons > 0) && (
+                <View style={styles.tableRow}>
+                  <Text style={[styles.cellJurisdiction, styles.unassignedText]}>Unassigned</Text>
+                  <Text style={[styles.cellNumber, styles.unassignedText]}>
+                    {report.unassignedMiles.toLocaleString()}
+                  </Text>
+                  <Text style={[styles.cellNumber, styles.unassignedText]}>
+                    {report.unassignedGallons.toLocaleString()}
+                  </Text>
+                </View>
+              )}
+            </View>
+          )}
+
+          {/* Things to fix before filing */}
+          {issueCount > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>NEEDS ATTENTION ({issueCount})</Text>
+              {tripGroups.map((group) => (
+                <Pressable
+                  key={group.tripId}
+                  style={({ pressed }) => [styles.issueCard, pressed && styles.issueCardPressed]}
+                  onPress={() => router.push(`/trips/${group.tripId}`)}
+                >
+                  <Ionicons name="alert-circle" size={16} color="#d97706" />
+                  <View style={styles.issueBody}>
+                    <Text style={styles.issueTitle}>
+                      Trip #{group.tripReference} · {formatShort(group.date)}
+                    </Text>
+                    {group.details.map((d, i) => (
+                      <Text key={i} style={styles.issueDetail}>
+                        {d}
+                      </Text>
+                    ))}
+                  </View>
+                  <Ionicons name="chevron-forward" size={16} color="#9ca3af" />
+                </Pressable>
+              ))}
+              {report.fuelIssues.map((issue) => (
+                <Pressable
+                  key={issue.fuelPurchaseId}
+                  style={({ pressed }) => [styles.issueCard, pressed && styles.issueCardPressed]}
+                  onPress={() => router.push(`/fuel/${issue.fuelPurchaseId}`)}
+                >
+                  <Ionicons name="water" size={16} color="#d97706" />
+                  <View style={styles.issueBody}>
+                    <Text style={styles.issueTitle}>
+                      {issue.vendor} · {formatShort(issue.date)}
+                    </Text>
+                    <Text style={styles.issueDetail}>{issue.detail}</Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={16} color="#9ca3af" />
+                </Pressable>
+              ))}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 2,
+    minWidth: 24,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  periodBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  periodCenter: {
+    alignItems: "center",
+  },
+  periodLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  periodRange: {
+    fontSize: 11,
+    color: "#9ca3af",
+    marginTop: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  list: {
+    padding: 12,
+    gap: 6,
+    flexGrow: 1,
+  },
+  totalsCard: {
+    flexDirection: "row",
+    backgroundColor: "#ffffff",
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingVertical: 10,
+  },
+  totalsItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  totalsValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  totalsLabel: {
+    fontSize: 11,
+    color: "#9ca3af",
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#6b7280",
+    letterSpacing: 0.5,
+    marginTop: 10,
+    marginBottom: 2,
+  },
+  table: {
+    backgroundColor: "#ffffff",
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  tableRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 7,
+    paddingHorizontal: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#f3f4f6",
+  },
+  tableHead: {
+    borderTopWidth: 0,
+  },
+  headText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#9ca3af",
+  },
+  cellJurisdiction: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  cellCode: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1e293b",
+    width: 24,
+  },
+  cellName: {
+    flex: 1,
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  cellNumber: {
+    width: 80,
+    textAlign: "right",
+    fontSize: 13,
+    color: "#1e293b",
+  },
+  unassignedText: {
+    fontSize: 12,
+    color: "#d97706",
+    fontStyle: "italic",
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: "#9ca3af",
+    marginTop: 8,
+  },
+  issueCard: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 8,
+    backgroundColor: "#ffffff",
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  issueCardPressed: {
+    backgroundColor: "#f3f4f6",
+  },
+  issueBody: {
+    flex: 1,
+  },
+  issueTitle: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: "#1e293b",
+  },
+  issueDetail: {
+    fontSize: 11,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+});
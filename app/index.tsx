@@ -7,6 +7,11 @@ import { Ionicons } from "@expo/vector-icons";
 import * as ImagePicker from "expo-image-picker";
 import { supabase } from "../lib/supabaseClient";
 import { useAuth } from "../contexts/AuthContext";
+import { useSync } from "../contexts/SyncContext";
+import { captureReceipt } from "../lib/receiptQueue";
+import { fetchOwnershipAlerts, OwnershipAlert } from "../lib/truckCosts";
+import { fetchMaintenanceReminders, MaintenanceStatus } from "../lib/maintenance";
+import { getCurrentTrip, CurrentTrip } from "../lib/currentTrip";
 
 type MenuButton = {
   label: string;
@@ -19,8 +24,16 @@ const menuButtons: MenuButton[] = [
   { label: "New Trip", route: "/trips/new", icon: "add-circle", color: "#2563eb" },
   { label: "Trips", route: "/trips", icon: "map", color: "#0891b2" },
   { label: "Receipts", route: "/receipts", icon: "images", color: "#f59e0b" },
+  { label: "Fuel", route: "/fuel", icon: "water", color: "#d97706" },
   { label: "Expenses", route: "/expenses", icon: "receipt", color: "#7c3aed" },
   { label: "Repairs", route: "/repairs", icon: "construct", color: "#dc2626" },
+  { label: "Maintenance", route: "/maintenance", icon: "build", color: "#ea580c" },
+  { label: "Odometer", route: "/odometer", icon: "speedometer", color: "#0f766e" },
+  { label: "Pay", route: "/pay", icon: "wallet", color: "#16a34a" },
+  { label: "Profit", route: "/profit", icon: "trending-up", color: "#15803d" },
+  { label: "Invoices", route: "/invoices", icon: "document-attach", color: "#4f46e5" },
+  { label: "IFTA", route: "/ifta", icon: "document-text", color: "#0369a1" },
+  { label: "Sales Tax", route: "/itc", icon: "calculator", color: "#b91c1c" },
   { label: "Setup", route: "/setup", icon: "settings", color: "#64748b" },
 ];
 
@@ -29,6 +42,11 @@ export default function HomeScreen() {
   const insets = useSafeAreaInsets();
   const { user, loading: authLoading } = useAuth();
   const [unprocessedCount, setUnprocessedCount] = useState(0);
+  const [ownershipAlerts, setOwnershipAlerts] = useState<OwnershipAlert[]>([]);
+  const [maintenanceDue, setMaintenanceDue] = useState<MaintenanceStatus[]>([]);
+  const [currentTrip, setCurrentTrip] = useState<CurrentTrip | null>(null);
+  const { pendingCount, failedCount, conflicts, syncing, pendingReceipts } = useSync();
+  const unsyncedCount = pendingCount + failedCount + pendingReceipts.length;
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -42,6 +60,13 @@ export default function HomeScreen() {
     useCallback(() => {
       if (user) {
         loadUnprocessedCount();
+        getCurrentTrip().then(setCurrentTrip);
+        fetchOwnershipAlerts()
+          .then(setOwnershipAlerts)
+          .catch((error) => console.error("Error loading ownership alerts:", error));
+        fetchMaintenanceReminders()
+          .then(setMaintenanceDue)
+          .catch((error) => console.error("Error loading maintenance reminders:", error));
       }
     }, [user])
   );
@@ -125,57 +150,17 @@ export default function HomeScreen() {
 
   async function uploadReceipt(image: ImagePicker.ImagePickerAsset) {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        Alert.alert("Error", "Please sign in to save receipts.");
-        return;
-      }
-
-      const { data: tenantUser } = await supabase
-        .from("tenant_users")
-        .select("tenant_id")
-        .eq("user_id", user.id)
-        .single();
+      // Saved on the device first; uploads now or retries in the background
+      const result = await captureReceipt(image);
 
-      if (!tenantUser) {
-        Alert.alert("Error", "Account not found.");
-        return;
+      if (result === "uploaded") {
+        setUnprocessedCount((prev) => prev + 1);
       }
-
-      // Generate a unique filename
-      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-      const ext = image.uri.split(".").pop() || "jpg";
-      const fileName = `${tenantUser.tenant_id}/${timestamp}.${ext}`;
-
-      // Fetch the image as a blob
-      const response = await fetch(image.uri);
-      const blob = await response.blob();
-
-      // Upload to Supabase Storage
-      const { error: uploadError } = await supabase.storage
-        .from("receipts")
-        .upload(fileName, blob, {
-          contentType: image.mimeType || "image/jpeg",
-          upsert: false,
-        });
-
-      if (uploadError) throw uploadError;
-
-      // Create receipt record in database
-      const { error: dbError } = await supabase
-        .from("receipts")
-        .insert({
-          tenant_id: tenantUser.tenant_id,
-          image_path: fileName,
-          status: "unprocessed",
-        });
-
-      if (dbError) throw dbError;
-
-      setUnprocessedCount((prev) => prev + 1);
       Alert.alert(
-        "Receipt Saved!",
-        "Your receipt has been added to the inbox.",
+        result === "uploaded" ? "Receipt Saved!" : "Receipt Saved Offline",
+        result === "uploaded"
+          ? "Your receipt has been added to the inbox."
+          : "No connection right now. The photo is stored on this device and will upload automatically.",
         [
           { text: "View Inbox", onPress: () => router.push("/receipts") },
           { text: "OK", style: "cancel" },
@@ -183,7 +168,7 @@ export default function HomeScreen() {
       );
     } catch (error: any) {
       console.error("Upload error:", error);
-      Alert.alert("Upload Failed", error.message || "Failed to upload receipt.");
+      Alert.alert("Upload Failed", error.message || "Failed to save receipt.");
     }
   }
 
@@ -224,6 +209,33 @@ export default function HomeScreen() {
         <Text style={styles.snapButtonText}>Snap Receipt</Text>
       </Pressable>
 
+      {/* Trip under way, or the next one planned */}
+      {currentTrip && (
+        <Pressable
+          onPress={() => router.push(`/trips/${currentTrip.id}`)}
+          style={[styles.inboxBanner, styles.tripBanner]}
+        >
+          <View style={[styles.inboxBannerLeft, styles.tripBannerLeft]}>
+            <Ionicons
+              name={currentTrip.status === "active" ? "navigate" : "calendar-outline"}
+              size={20}
+              color="#0891b2"
+            />
+            <View style={styles.tripBannerBody}>
+              <Text style={[styles.inboxBannerText, styles.tripBannerText]}>
+                {currentTrip.status === "active" ? "In progress" : "Up next"}: Trip #{currentTrip.trip_reference}
+              </Text>
+              {(currentTrip.origin_name || currentTrip.destination_name) && (
+                <Text style={styles.tripBannerRoute} numberOfLines={1}>
+                  {currentTrip.origin_name || "—"} → {currentTrip.destination_name || "—"}
+                </Text>
+              )}
+            </View>
+          </View>
+          <Ionicons name="chevron-forward" size={18} color="#94a3b8" />
+        </Pressable>
+      )}
+
       {/* Unprocessed receipt count */}
       {unprocessedCount > 0 && (
         <Pressable
@@ -240,6 +252,66 @@ export default function HomeScreen() {
         </Pressable>
       )}
 
+      {/* Services overdue or coming up */}
+      {maintenanceDue.length > 0 && (
+        <Pressable onPress={() => router.push("/maintenance")} style={styles.inboxBanner}>
+          <View style={styles.inboxBannerLeft}>
+            <Ionicons
+              name="build"
+              size={20}
+              color={maintenanceDue[0].state === "overdue" ? "#dc2626" : "#d97706"}
+            />
+            <Text style={styles.inboxBannerText}>
+              {maintenanceDue[0].truckNumber}: {maintenanceDue[0].serviceName}{" "}
+              {maintenanceDue[0].state === "overdue" ? "overdue" : "due soon"}
+              {maintenanceDue.length > 1 ? ` (+${maintenanceDue.length - 1} more)` : ""}
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={18} color="#94a3b8" />
+        </Pressable>
+      )}
+
+      {/* Lease buyoff or end of amortization coming up */}
+      {ownershipAlerts.length > 0 && (
+        <Pressable
+          onPress={() => router.push(ownershipAlerts.length === 1 ? `/trucks/${ownershipAlerts[0].truckId}` : "/trucks")}
+          style={styles.inboxBanner}
+        >
+          <View style={styles.inboxBannerLeft}>
+            <Ionicons name="alert-circle" size={20} color="#d97706" />
+            <Text style={styles.inboxBannerText}>
+              {ownershipAlerts[0].truckNumber}:{" "}
+              {ownershipAlerts[0].kind === "lease_buyoff" ? "lease buyoff" : "amortization ends"} in{" "}
+              {ownershipAlerts[0].daysLeft} day{ownershipAlerts[0].daysLeft !== 1 ? "s" : ""}
+              {ownershipAlerts.length > 1 ? ` (+${ownershipAlerts.length - 1} more)` : ""}
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={18} color="#94a3b8" />
+        </Pressable>
+      )}
+
+      {/* Offline changes waiting to sync */}
+      {(unsyncedCount > 0 || conflicts.length > 0) && (
+        <Pressable
+          onPress={() => router.push("/sync")}
+          style={[styles.inboxBanner, styles.syncBanner]}
+        >
+          <View style={styles.inboxBannerLeft}>
+            <Ionicons
+              name={failedCount > 0 ? "alert-circle" : syncing ? "sync" : "cloud-upload"}
+              size={20}
+              color={failedCount > 0 ? "#dc2626" : "#2563eb"}
+            />
+            <Text style={[styles.inboxBannerText, styles.syncBannerText]}>
+              {unsyncedCount > 0
+                ? `${unsyncedCount} change${unsyncedCount !== 1 ? "s" : ""} waiting to sync`
+                : `${conflicts.length} sync conflict${conflicts.length !== 1 ? "s" : ""} resolved`}
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={18} color="#94a3b8" />
+        </Pressable>
+      )}
+
       <View style={styles.grid}>
         {menuButtons.map((btn) => (
           <Pressable
@@ -337,6 +409,31 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#92400e",
   },
+  tripBanner: {
+    backgroundColor: "#ecfeff",
+    borderColor: "#a5f3fc",
+  },
+  tripBannerLeft: {
+    flex: 1,
+  },
+  tripBannerBody: {
+    flex: 1,
+  },
+  tripBannerText: {
+    color: "#155e75",
+  },
+  tripBannerRoute: {
+    fontSize: 12,
+    color: "#0e7490",
+    marginTop: 1,
+  },
+  syncBanner: {
+    backgroundColor: "#eff6ff",
+    borderColor: "#bfdbfe",
+  },
+  syncBannerText: {
+    color: "#1e40af",
+  },
   grid: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -0,0 +1,734 @@
+import { useState, useEffect } from "react";
+import {
+  View, Text, TextInput, Pressable, StyleSheet, ScrollView,
+  Alert, Image, ActivityIndicator,
+} from "react-native";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { supabase } from "../../lib/supabaseClient";
+import { useAuth } from "../../contexts/AuthContext";
+import { canManageSetup } from "../../lib/team";
+import { formatMoney } from "../../lib/currency";
+import { shareBinaryFile } from "../../lib/exportFile";
+import {
+  fetchInvoice,
+  fetchInvoiceAttachments,
+  fetchAttachableReceipts,
+  updateInvoiceDetails,
+  setInvoiceStatus,
+  deleteInvoice,
+  attachReceipt,
+  detachReceipt,
+  buildInvoicePdf,
+  invoiceDisplayStatus,
+  invoiceFilename,
+  invoiceText,
+  DatabaseInvoice,
+  InvoiceAttachment,
+  InvoiceDisplayStatus,
+  InvoiceStatus,
+  INVOICE_STATUS_LABELS,
+} from "../../lib/invoices";
+
+type Attachment = InvoiceAttachment & { image_url?: string };
+
+const STATUS_COLORS: Record<InvoiceDisplayStatus, { color: string; bg: string }> = {
+  draft: { color: "#6b7280", bg: "#f3f4f6" },
+  sent: { color: "#2563eb", bg: "#eff6ff" },
+  overdue: { color: "#dc2626", bg: "#fef2f2" },
+  paid: { color: "#16a34a", bg: "#f0fdf4" },
+};
+
+function formatDate(dateStr: string) {
+  const d = new Date(dateStr + "T00:00:00");
+  return d.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+// Signed image URLs for receipt thumbnails
+async function withImageUrls(receipts: InvoiceAttachment[]): Promise<Attachment[]> {
+  return Promise.all(
+    receipts.map(async (r) => {
+      const { data } = await supabase.storage.from("receipts").createSignedUrl(r.image_path, 3600);
+      return { ...r, image_url: data?.signedUrl || "" };
+    })
+  );
+}
+
+export default function InvoiceDetailScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { role } = useAuth();
+  const canEdit = role == null || canManageSetup(role);
+  const [invoice, setInvoice] = useState<DatabaseInvoice | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [sharing, setSharing] = useState(false);
+
+  // Draft details
+  const [billToName, setBillToName] = useState("");
+  const [billToAddress, setBillToAddress] = useState("");
+  const [issueDate, setIssueDate] = useState("");
+  const [termsDays, setTermsDays] = useState("");
+  const [notes, setNotes] = useState("");
+  const [dirty, setDirty] = useState(false);
+
+  // Receipt picker
+  const [picking, setPicking] = useState(false);
+  const [inbox, setInbox] = useState<Attachment[]>([]);
+
+  useEffect(() => {
+    if (id) loadInvoice();
+  }, [id]);
+
+  async function loadInvoice() {
+    try {
+      const data = await fetchInvoice(id!);
+      setInvoice(data);
+      if (data) {
+        setBillToName(data.bill_to_name || "");
+        setBillToAddress(data.bill_to_address || "");
+        setIssueDate(data.issue_date);
+        setTermsDays(String(data.terms_days));
+        setNotes(data.notes || "");
+        setDirty(false);
+        setAttachments(await withImageUrls(await fetchInvoiceAttachments(data.id)));
+      }
+    } catch (error) {
+      console.error("Error loading invoice:", error);
+      Alert.alert("Error", "Failed to load invoice");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function saveDetails(): Promise<boolean> {
+    if (!invoice || !dirty) return true;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(issueDate)) {
+      Alert.alert("Invalid date", "Use format YYYY-MM-DD");
+      return false;
+    }
+    try {
+      await updateInvoiceDetails(invoice.id, {
+        bill_to_name: billToName,
+        bill_to_address: billToAddress,
+        issue_date: issueDate,
+        terms_days: parseInt(termsDays, 10) || 0,
+        notes,
+      });
+      return true;
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message || "Failed to save invoice.");
+      return false;
+    }
+  }
+
+  async function handleSave() {
+    setBusy(true);
+    if (await saveDetails()) await loadInvoice();
+    setBusy(false);
+  }
+
+  async function changeStatus(to: InvoiceStatus) {
+    if (!invoice) return;
+    setBusy(true);
+    try {
+      // Unsaved draft edits go out with the invoice
+      if (invoice.status === "draft" && !(await saveDetails())) return;
+      await setInvoiceStatus(invoice, to);
+      await loadInvoice();
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message || "Failed to update invoice.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleMarkSent() {
+    if (!invoice) return;
+    if (!billToName.trim()) {
+      Alert.alert("Bill To", "Enter who this invoice is for before sending it.");
+      return;
+    }
+    changeStatus("sent");
+  }
+
+  function handleDelete() {
+    if (!invoice) return;
+    Alert.alert(
+      "Delete Invoice",
+      `Delete draft invoice #${invoice.invoice_number}? The trip goes back to completed and attached paperwork back to the receipt inbox.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteInvoice(invoice);
+              router.back();
+            } catch (error) {
+              Alert.alert("Error", (error as Error).message);
+            }
+          },
+        },
+      ]
+    );
+  }
+
+  async function handleShare() {
+    if (!invoice) return;
+    setSharing(true);
+    try {
+      if (invoice.status === "draft" && !(await saveDetails())) return;
+      const current = (await fetchInvoice(invoice.id)) || invoice;
+      const pdf = await buildInvoicePdf(current);
+      await shareBinaryFile(invoiceFilename(current), pdf, "application/pdf", invoiceText(current));
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message || "Failed to create PDF.");
+    } finally {
+      setSharing(false);
+    }
+  }
+
+  async function openPicker() {
+    setPicking(true);
+    try {
+      setInbox(await withImageUrls(await fetchAttachableReceipts()));
+    } catch (error) {
+      console.error("Error loading receipts:", error);
+    }
+  }
+
+  async function handleAttach(receipt: Attachment) {
+    if (!invoice) return;
+    try {
+      await attachReceipt(invoice.id, receipt.id);
+      setAttachments((prev) => [...prev, receipt]);
+      setInbox((prev) => prev.filter((r) => r.id !== receipt.id));
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message);
+    }
+  }
+
+  async function handleDetach(receipt: Attachment) {
+    try {
+      await detachReceipt(receipt.id);
+      setAttachments((prev) => prev.filter((r) => r.id !== receipt.id));
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message);
+    }
+  }
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered, { paddingTop: insets.top }]}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  if (!invoice) {
+    return (
+      <View style={[styles.container, styles.centered, { paddingTop: insets.top }]}>
+        <Text style={styles.emptyText}>Invoice not found</Text>
+        <Pressable onPress={() => router.back()}>
+          <Text style={styles.linkText}>Go back</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  const status = invoiceDisplayStatus(invoice);
+  const colors = STATUS_COLORS[status];
+  const editable = canEdit && invoice.status === "draft";
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+          <Ionicons name="arrow-back" size={24} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Invoice #{invoice.invoice_number}</Text>
+        <Pressable onPress={handleShare} style={styles.headerBtn} disabled={sharing}>
+          {sharing ? (
+            <ActivityIndicator size="small" color="#2563eb" />
+          ) : (
+            <Ionicons name="share-outline" size={24} color="#2563eb" />
+          )}
+        </Pressable>
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        {/* Summary */}
+        <View style={styles.card}>
+          <View style={styles.summaryTop}>
+            <Text style={styles.totalText}>{formatMoney(Number(invoice.total), invoice.currency)}</Text>
+            <View style={[styles.statusBadge, { backgroundColor: colors.bg }]}>
+              <Text style={[styles.statusText, { color: colors.color }]}>{INVOICE_STATUS_LABELS[status]}</Text>
+            </View>
+          </View>
+          <Text style={styles.metaText}>
+            Issued {formatDate(invoice.issue_date)} · due {formatDate(invoice.due_date)}
+          </Text>
+          {invoice.sent_at && <Text style={styles.metaText}>Sent {formatDate(invoice.sent_at.split("T")[0])}</Text>}
+          {invoice.paid_at && <Text style={styles.metaText}>Paid {formatDate(invoice.paid_at.split("T")[0])}</Text>}
+          {invoice.trip_id && (
+            <Pressable onPress={() => router.push(`/trips/${invoice.trip_id}`)}>
+              <Text style={[styles.linkText, { marginTop: 6 }]}>
+                Trip {invoice.trip_reference || ""}
+                {invoice.trip_date ? ` · ${formatDate(invoice.trip_date)}` : ""}
+              </Text>
+            </Pressable>
+          )}
+
+          {canEdit && (
+            <View style={styles.actionRow}>
+              {invoice.status === "draft" && (
+                <Pressable style={[styles.actionButton, busy && styles.disabled]} onPress={handleMarkSent} disabled={busy}>
+                  <Ionicons name="paper-plane" size={16} color="#ffffff" />
+                  <Text style={styles.actionButtonText}>Mark Sent</Text>
+                </Pressable>
+              )}
+              {invoice.status === "sent" && (
+                <>
+                  <Pressable
+                    style={[styles.actionButton, { backgroundColor: "#16a34a" }, busy && styles.disabled]}
+                    onPress={() => changeStatus("paid")}
+                    disabled={busy}
+                  >
+                    <Ionicons name="checkmark-circle" size={16} color="#ffffff" />
+                    <Text style={styles.actionButtonText}>Mark Paid</Text>
+                  </Pressable>
+                  <Pressable style={styles.secondaryButton} onPress={() => changeStatus("draft")} disabled={busy}>
+                    <Text style={styles.secondaryButtonText}>Back to Draft</Text>
+                  </Pressable>
+                </>
+              )}
+              {invoice.status === "paid" && (
+                <Pressable style={styles.secondaryButton} onPress={() => changeStatus("sent")} disabled={busy}>
+                  <Text style={styles.secondaryButtonText}>Mark Unpaid</Text>
+                </Pressable>
+              )}
+            </View>
+          )}
+        </View>
+
+        {/* Bill to and terms */}
+        <Text style={styles.sectionTitle}>Bill To</Text>
+        <View style={styles.card}>
+          {editable ? (
+            <>
+              <Text style={styles.label}>Customer</Text>
+              <TextInput
+                style={styles.input}
+                value={billToName}
+                onChangeText={(text) => { setBillToName(text); setDirty(true); }}
+                placeholder="Broker or shipper name"
+              />
+              <Text style={styles.label}>Address</Text>
+              <TextInput
+                style={[styles.input, styles.multiline]}
+                value={billToAddress}
+                onChangeText={(text) => { setBillToAddress(text); setDirty(true); }}
+                placeholder="Street, city, state, zip"
+                multiline
+              />
+              <View style={styles.formRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.label}>Invoice Date</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={issueDate}
+                    onChangeText={(text) => { setIssueDate(text); setDirty(true); }}
+                    placeholder="YYYY-MM-DD"
+                  />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.label}>Terms (days)</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={termsDays}
+                    onChangeText={(text) => { setTermsDays(text.replace(/\D/g, "")); setDirty(true); }}
+                    placeholder="30"
+                    keyboardType="number-pad"
+                  />
+                </View>
+              </View>
+              <Text style={styles.label}>Notes</Text>
+              <TextInput
+                style={[styles.input, styles.multiline]}
+                value={notes}
+                onChangeText={(text) => { setNotes(text); setDirty(true); }}
+                placeholder="Load number, remit-to instructions..."
+                multiline
+              />
+              {dirty && (
+                <Pressable style={[styles.saveButton, busy && styles.disabled]} onPress={handleSave} disabled={busy}>
+                  <Text style={styles.saveButtonText}>{busy ? "Saving..." : "Save"}</Text>
+                </Pressable>
+              )}
+            </>
+          ) : (
+            <>
+              <Text style={styles.bodyText}>{invoice.bill_to_name || "—"}</Text>
+              {invoice.bill_to_address ? <Text style={styles.metaText}>{invoice.bill_to_address}</Text> : null}
+              <Text style={[styles.metaText, { marginTop: 6 }]}>
+                {invoice.terms_days > 0 ? `Net ${invoice.terms_days}` : "Due on receipt"}
+              </Text>
+              {invoice.notes ? <Text style={[styles.metaText, { marginTop: 6 }]}>{invoice.notes}</Text> : null}
+            </>
+          )}
+        </View>
+
+        {/* Charges */}
+        <Text style={styles.sectionTitle}>Charges</Text>
+        <View style={styles.card}>
+          {invoice.lines.map((line, i) => (
+            <View key={i} style={styles.lineRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.bodyText}>{line.description}</Text>
+                <Text style={styles.metaText}>
+                  {line.rate_type === "per_mile"
+                    ? `${Math.round(line.quantity).toLocaleString()} mi × ${formatMoney(line.rate)}`
+                    : `${line.quantity} × ${formatMoney(line.rate)}`}
+                </Text>
+              </View>
+              <Text style={styles.lineAmount}>{formatMoney(line.amount)}</Text>
+            </View>
+          ))}
+          <View style={[styles.lineRow, styles.totalRow]}>
+            <Text style={styles.bodyText}>Total</Text>
+            <Text style={styles.lineAmount}>{formatMoney(Number(invoice.total), invoice.currency)}</Text>
+          </View>
+        </View>
+
+        {/* Route */}
+        {invoice.stops.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>
+              Route{invoice.mileage ? ` · ${Math.round(invoice.mileage).toLocaleString()} mi` : ""}
+            </Text>
+            <View style={styles.card}>
+              {invoice.stops.map((stop, i) => (
+                <Text key={i} style={styles.stopText}>
+                  {stop.type === "pickup" ? "↑" : stop.type === "delivery" ? "↓" : "•"}{" "}
+                  {[stop.name, [stop.city, stop.state].filter(Boolean).join(", ")].filter(Boolean).join(" — ")}
+                  {stop.date ? `  ${formatDate(stop.date)}` : ""}
+                </Text>
+              ))}
+            </View>
+          </>
+        )}
+
+        {/* Paperwork */}
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Paperwork</Text>
+          {canEdit && !picking && (
+            <Pressable onPress={openPicker}>
+              <Text style={styles.linkText}>+ Attach</Text>
+            </Pressable>
+          )}
+        </View>
+        <View style={styles.card}>
+          {attachments.length === 0 ? (
+            <Text style={styles.metaText}>No delivery paperwork attached. Snap BOLs and PODs as receipts, then attach them here.</Text>
+          ) : (
+            <View style={styles.thumbGrid}>
+              {attachments.map((a) => (
+                <View key={a.id} style={styles.thumbWrap}>
+                  <Pressable onPress={() => router.push(`/receipts/${a.id}`)}>
+                    {a.image_url ? (
+                      <Image source={{ uri: a.image_url }} style={styles.thumb} />
+                    ) : (
+                      <View style={[styles.thumb, styles.centered]}>
+                        <Ionicons name="document" size={24} color="#9ca3af" />
+                      </View>
+                    )}
+                  </Pressable>
+                  {canEdit && (
+                    <Pressable style={styles.thumbRemove} onPress={() => handleDetach(a)} hitSlop={6}>
+                      <Ionicons name="close-circle" size={20} color="#dc2626" />
+                    </Pressable>
+                  )}
+                </View>
+              ))}
+            </View>
+          )}
+
+          {picking && (
+            <View style={styles.picker}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.label}>Receipt inbox</Text>
+                <Pressable onPress={() => setPicking(false)}>
+                  <Text style={styles.linkText}>Done</Text>
+                </Pressable>
+              </View>
+              {inbox.length === 0 ? (
+                <Text style={styles.metaText}>No unprocessed receipts to attach.</Text>
+              ) : (
+                <View style={styles.thumbGrid}>
+                  {inbox.map((r) => (
+                    <Pressable key={r.id} onPress={() => handleAttach(r)}>
+                      {r.image_url ? (
+                        <Image source={{ uri: r.image_url }} style={styles.thumb} />
+                      ) : (
+                        <View style={[styles.thumb, styles.centered]}>
+                          <Ionicons name="document" size={24} color="#9ca3af" />
+                        </View>
+                      )}
+                      <Text style={styles.thumbCaption}>{formatDate(r.created_at.split("T")[0])}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+              )}
+            </View>
+          )}
+        </View>
+
+        {editable && (
+          <Pressable style={styles.deleteButton} onPress={handleDelete}>
+            <Text style={styles.deleteButtonText}>Delete Draft</Text>
+          </Pressable>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  headerBtn: {
+    padding: 4,
+    minWidth: 32,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: "#9ca3af",
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: "#ffffff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 12,
+    marginBottom: 16,
+  },
+  summaryTop: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 4,
+  },
+  totalText: {
+    fontSize: 22,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: "700",
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#6b7280",
+    textTransform: "uppercase",
+    marginBottom: 6,
+  },
+  bodyText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  metaText: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 1,
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#2563eb",
+  },
+  actionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#2563eb",
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  actionButtonText: {
+    color: "#ffffff",
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  secondaryButton: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    color: "#374151",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: "#1e293b",
+    marginBottom: 12,
+  },
+  multiline: {
+    minHeight: 60,
+    textAlignVertical: "top",
+  },
+  saveButton: {
+    backgroundColor: "#2563eb",
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: "#ffffff",
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  lineRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 6,
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    borderTopColor: "#e5e7eb",
+    marginTop: 4,
+    paddingTop: 10,
+    justifyContent: "space-between",
+  },
+  lineAmount: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  stopText: {
+    fontSize: 13,
+    color: "#374151",
+    paddingVertical: 3,
+  },
+  thumbGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  thumbWrap: {
+    position: "relative",
+  },
+  thumb: {
+    width: 72,
+    height: 96,
+    borderRadius: 6,
+    backgroundColor: "#f3f4f6",
+  },
+  thumbRemove: {
+    position: "absolute",
+    top: -6,
+    right: -6,
+    backgroundColor: "#ffffff",
+    borderRadius: 10,
+  },
+  thumbCaption: {
+    fontSize: 10,
+    color: "#9ca3af",
+    marginTop: 2,
+    textAlign: "center",
+  },
+  picker: {
+    borderTopWidth: 1,
+    borderTopColor: "#e5e7eb",
+    marginTop: 12,
+    paddingTop: 10,
+  },
+  deleteButton: {
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  deleteButtonText: {
+    color: "#dc2626",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
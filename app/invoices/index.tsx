@@ -0,0 +1,313 @@
+import { useState, useCallback } from "react";
+import { View, Text, Pressable, StyleSheet, ScrollView, ActivityIndicator } from "react-native";
+import { useRouter, useFocusEffect } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Currency, formatMoney } from "../../lib/currency";
+import {
+  fetchInvoices,
+  invoiceDisplayStatus,
+  DatabaseInvoice,
+  InvoiceDisplayStatus,
+  INVOICE_STATUS_LABELS,
+} from "../../lib/invoices";
+
+type Filter = "all" | InvoiceDisplayStatus;
+
+const FILTERS: Filter[] = ["all", "draft", "sent", "overdue", "paid"];
+
+const STATUS_COLORS: Record<InvoiceDisplayStatus, { color: string; bg: string }> = {
+  draft: { color: "#6b7280", bg: "#f3f4f6" },
+  sent: { color: "#2563eb", bg: "#eff6ff" },
+  overdue: { color: "#dc2626", bg: "#fef2f2" },
+  paid: { color: "#16a34a", bg: "#f0fdf4" },
+};
+
+function formatDate(dateStr: string) {
+  const d = new Date(dateStr + "T00:00:00");
+  return d.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+export default function InvoicesScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const [invoices, setInvoices] = useState<DatabaseInvoice[]>([]);
+  const [filter, setFilter] = useState<Filter>("all");
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadInvoices();
+    }, [])
+  );
+
+  async function loadInvoices() {
+    try {
+      setLoading(true);
+      setInvoices(await fetchInvoices());
+    } catch (error) {
+      console.error("Error loading invoices:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const shown = filter === "all" ? invoices : invoices.filter((inv) => invoiceDisplayStatus(inv) === filter);
+
+  // Sent and overdue invoices not paid yet, per currency
+  const outstanding = new Map<Currency, number>();
+  for (const inv of invoices) {
+    if (inv.status !== "sent") continue;
+    outstanding.set(inv.currency, (outstanding.get(inv.currency) || 0) + Number(inv.total));
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.push("/")} style={styles.headerBtn}>
+          <Ionicons name="home" size={24} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Invoices</Text>
+        <View style={styles.headerBtn} />
+      </View>
+
+      {/* Status filter */}
+      <View style={styles.filterBar}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {FILTERS.map((f) => (
+            <Pressable key={f} style={[styles.chip, filter === f && styles.chipActive]} onPress={() => setFilter(f)}>
+              <Text style={[styles.chipText, filter === f && styles.chipTextActive]}>
+                {f === "all" ? "All" : INVOICE_STATUS_LABELS[f]}
+              </Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        {outstanding.size > 0 && (
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>Outstanding</Text>
+            {Array.from(outstanding.entries()).map(([currency, total]) => (
+              <Text key={currency} style={styles.summaryValue}>
+                {formatMoney(total, outstanding.size > 1 ? currency : null)}
+              </Text>
+            ))}
+          </View>
+        )}
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#2563eb" />
+          </View>
+        ) : shown.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="document-text-outline" size={48} color="#d1d5db" />
+            <Text style={styles.emptyText}>No invoices</Text>
+            <Text style={styles.emptySubtext}>
+              {filter === "all"
+                ? "Complete a trip, then create its invoice from the trip screen."
+                : `No ${INVOICE_STATUS_LABELS[filter].toLowerCase()} invoices.`}
+            </Text>
+          </View>
+        ) : (
+          shown.map((inv) => {
+            const status = invoiceDisplayStatus(inv);
+            const colors = STATUS_COLORS[status];
+            return (
+              <Pressable
+                key={inv.id}
+                style={({ pressed }) => [styles.invoiceCard, pressed && styles.invoiceCardPressed]}
+                onPress={() => router.push(`/invoices/${inv.id}`)}
+              >
+                <View style={styles.invoiceTop}>
+                  <View style={styles.invoiceTitleWrap}>
+                    <Text style={styles.invoiceTitle}>#{inv.invoice_number}</Text>
+                    <Text style={styles.invoiceMeta}>
+                      {[inv.bill_to_name, inv.trip_reference ? `Trip ${inv.trip_reference}` : null]
+                        .filter(Boolean)
+                        .join(" · ") || "No customer yet"}
+                    </Text>
+                  </View>
+                  <View style={styles.invoiceRight}>
+                    <Text style={styles.invoiceTotal}>{formatMoney(Number(inv.total), inv.currency)}</Text>
+                    <View style={[styles.statusBadge, { backgroundColor: colors.bg }]}>
+                      <Text style={[styles.statusText, { color: colors.color }]}>{INVOICE_STATUS_LABELS[status]}</Text>
+                    </View>
+                  </View>
+                </View>
+                <Text style={styles.invoiceDates}>
+                  {formatDate(inv.issue_date)}
+                  {inv.status === "paid" && inv.paid_at
+                    ? ` · paid ${formatDate(inv.paid_at.split("T")[0])}`
+                    : ` · due ${formatDate(inv.due_date)}`}
+                </Text>
+              </Pressable>
+            );
+          })
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  headerBtn: {
+    padding: 4,
+    minWidth: 32,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  filterBar: {
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  chipRow: {
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    backgroundColor: "#ffffff",
+  },
+  chipActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  chipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  loadingContainer: {
+    paddingTop: 60,
+    alignItems: "center",
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingTop: 60,
+    paddingHorizontal: 24,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: "#9ca3af",
+    marginTop: 12,
+    fontWeight: "600",
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: "#d1d5db",
+    marginTop: 4,
+    textAlign: "center",
+  },
+  summaryCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 12,
+    marginBottom: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#6b7280",
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  invoiceCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 12,
+    marginBottom: 8,
+  },
+  invoiceCardPressed: {
+    backgroundColor: "#f3f4f6",
+  },
+  invoiceTop: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  invoiceTitleWrap: {
+    flex: 1,
+  },
+  invoiceTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  invoiceMeta: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 1,
+  },
+  invoiceRight: {
+    alignItems: "flex-end",
+    gap: 4,
+  },
+  invoiceTotal: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: "700",
+  },
+  invoiceDates: {
+    fontSize: 12,
+    color: "#9ca3af",
+    marginTop: 6,
+  },
+});
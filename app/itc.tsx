@@ -0,0 +1,424 @@
+import { useState, useCallback } from "react";
+import {
+  View, Text, StyleSheet, Pressable, ActivityIndicator, ScrollView, Alert,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { shareTextFile } from "../lib/exportFile";
+import {
+  fetchItcReport,
+  itcReportToCsv,
+  sumTaxes,
+  taxComponentLabel,
+  TAX_COMPONENTS,
+  ItcReport,
+} from "../lib/salesTax";
+
+type PeriodType = "quarter" | "year";
+
+type Period = { type: PeriodType; year: number; quarter: number };
+
+function currentPeriod(): Period {
+  const now = new Date();
+  return { type: "quarter", year: now.getFullYear(), quarter: Math.floor(now.getMonth() / 3) + 1 };
+}
+
+function shiftPeriod(p: Period, direction: 1 | -1): Period {
+  if (p.type === "year") return { ...p, year: p.year + direction };
+  const index = p.year * 4 + (p.quarter - 1) + direction;
+  return { ...p, year: Math.floor(index / 4), quarter: (index % 4) + 1 };
+}
+
+function periodRange(p: Period): { from: string; to: string } {
+  if (p.type === "year") return { from: `${p.year}-01-01`, to: `${p.year}-12-31` };
+  const startMonth = (p.quarter - 1) * 3 + 1;
+  const lastDay = new Date(p.year, startMonth + 2, 0).getDate();
+  return {
+    from: `${p.year}-${String(startMonth).padStart(2, "0")}-01`,
+    to: `${p.year}-${String(startMonth + 2).padStart(2, "0")}-${lastDay}`,
+  };
+}
+
+function money(n: number) {
+  return `$${n.toFixed(2)}`;
+}
+
+export default function ItcReportScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const [period, setPeriod] = useState<Period>(currentPeriod());
+  const [report, setReport] = useState<ItcReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadReport();
+    }, [period])
+  );
+
+  async function loadReport() {
+    try {
+      setLoading(true);
+      const { from, to } = periodRange(period);
+      setReport(await fetchItcReport(from, to));
+    } catch (error) {
+      console.error("[ITC] Error loading report:", error);
+      setReport(null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function exportReport() {
+    if (!report) return;
+    const suffix = period.type === "year" ? `${period.year}` : `${period.year}-Q${period.quarter}`;
+    try {
+      await shareTextFile(`sales-tax-${suffix}.csv`, itcReportToCsv(report));
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message || "Failed to export report.");
+    }
+  }
+
+  function formatShort(iso: string) {
+    return new Date(iso + "T12:00:00").toLocaleDateString("en-US", { month: "short", day: "numeric" });
+  }
+
+  const periodLabel = period.type === "year" ? `${period.year}` : `Q${period.quarter} ${period.year}`;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={20} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.title}>Sales Tax Credits</Text>
+        <Pressable onPress={exportReport} disabled={!report} style={styles.backButton}>
+          <Ionicons name="share-outline" size={20} color={report ? "#2563eb" : "#d1d5db"} />
+        </Pressable>
+      </View>
+
+      {/* Period selector */}
+      <View style={styles.periodBar}>
+        <View style={styles.periodTypes}>
+          {(["quarter", "year"] as PeriodType[]).map((t) => (
+            <Pressable
+              key={t}
+              style={[styles.periodChip, period.type === t && styles.periodChipActive]}
+              onPress={() => setPeriod({ ...period, type: t })}
+            >
+              <Text style={[styles.periodChipText, period.type === t && styles.periodChipTextActive]}>
+                {t === "quarter" ? "Quarter" : "Year"}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        <View style={styles.periodNav}>
+          <Pressable onPress={() => setPeriod(shiftPeriod(period, -1))} hitSlop={6}>
+            <Ionicons name="chevron-back" size={18} color="#6b7280" />
+          </Pressable>
+          <Text style={styles.periodLabel}>{periodLabel}</Text>
+          <Pressable onPress={() => setPeriod(shiftPeriod(period, 1))} hitSlop={6}>
+            <Ionicons name="chevron-forward" size={18} color="#6b7280" />
+          </Pressable>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={[styles.centered, { flex: 1 }]}>
+          <ActivityIndicator size="large" color="#2563eb" />
+        </View>
+      ) : !report ? (
+        <View style={[styles.centered, { flex: 1 }]}>
+          <Text style={styles.emptyText}>Could not load the report</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.list}>
+          {/* Recoverable totals */}
+          <View style={styles.totalsCard}>
+            <View style={styles.totalsRow}>
+              <Text style={styles.totalsLabel}>GST/HST input tax credits</Text>
+              <Text style={[styles.totalsAmount, styles.totalsGrand]}>{money(report.itc)}</Text>
+            </View>
+            <View style={styles.totalsRow}>
+              <Text style={styles.totalsLabel}>QST input tax refunds</Text>
+              <Text style={styles.totalsAmount}>{money(report.itr)}</Text>
+            </View>
+            <View style={[styles.totalsRow, styles.totalsDivider]}>
+              <Text style={styles.totalsLabel}>PST/RST paid (not recoverable)</Text>
+              <Text style={[styles.totalsAmount, styles.totalsMuted]}>{money(report.nonRecoverable)}</Text>
+            </View>
+          </View>
+
+          {/* By province */}
+          {report.byProvince.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>BY PROVINCE</Text>
+              <View style={styles.table}>
+                <View style={[styles.tableRow, styles.tableHead]}>
+                  <Text style={[styles.cellProvince, styles.headText]}>Prov.</Text>
+                  <Text style={[styles.cellNumber, styles.headText]}>Net</Text>
+                  {TAX_COMPONENTS.map((c) => (
+                    <Text key={c} style={[styles.cellNumber, styles.headText]}>
+                      {taxComponentLabel(c)}
+                    </Text>
+                  ))}
+                </View>
+                {report.byProvince.map((row) => (
+                  <View key={row.province || "none"} style={styles.tableRow}>
+                    <Text style={styles.cellProvince}>{row.province || "—"}</Text>
+                    <Text style={styles.cellNumber}>{row.net.toFixed(2)}</Text>
+                    {TAX_COMPONENTS.map((c) => (
+                      <Text key={c} style={styles.cellNumber}>
+                        {row.taxes[c] ? row.taxes[c].toFixed(2) : "—"}
+                      </Text>
+                    ))}
+                  </View>
+                ))}
+              </View>
+            </>
+          )}
+
+          {/* Purchases */}
+          <Text style={styles.sectionTitle}>PURCHASES ({report.lines.length})</Text>
+          {report.lines.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="calculator-outline" size={40} color="#d1d5db" />
+              <Text style={styles.emptyText}>No sales tax recorded in this period</Text>
+            </View>
+          ) : (
+            report.lines.map((line) => (
+              <Pressable
+                key={`${line.source}-${line.id}`}
+                style={({ pressed }) => [styles.lineCard, pressed && styles.lineCardPressed]}
+                onPress={() =>
+                  router.push(line.source === "fuel" ? `/fuel/${line.id}` : `/expenses/${line.id}`)
+                }
+              >
+                <Ionicons
+                  name={line.source === "fuel" ? "water" : "receipt"}
+                  size={16}
+                  color={line.source === "fuel" ? "#d97706" : "#7c3aed"}
+                />
+                <View style={styles.lineBody}>
+                  <Text style={styles.lineTitle} numberOfLines={1}>
+                    {line.vendor}
+                  </Text>
+                  <Text style={styles.lineMeta}>
+                    {formatShort(line.date)}
+                    {line.province ? ` · ${line.province}` : ""} ·{" "}
+                    {TAX_COMPONENTS.filter((c) => line.taxes[c] > 0)
+                      .map((c) => `${taxComponentLabel(c, line.province)} ${line.taxes[c].toFixed(2)}`)
+                      .join(" · ")}
+                  </Text>
+                </View>
+                <Text style={styles.lineAmount}>{money(sumTaxes(line.taxes))}</Text>
+              </Pressable>
+            ))
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 2,
+    minWidth: 24,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  periodBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  periodTypes: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  periodChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  periodChipActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  periodChipText: {
+    fontSize: 11,
+    fontWeight: "500",
+    color: "#6b7280",
+  },
+  periodChipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+  periodNav: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  periodLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  list: {
+    padding: 12,
+    gap: 6,
+    flexGrow: 1,
+  },
+  totalsCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  totalsRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 3,
+  },
+  totalsDivider: {
+    borderTopWidth: 1,
+    borderTopColor: "#f3f4f6",
+    marginTop: 4,
+    paddingTop: 6,
+  },
+  totalsLabel: {
+    fontSize: 12,
+    color: "#374151",
+  },
+  totalsAmount: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  totalsGrand: {
+    color: "#16a34a",
+  },
+  totalsMuted: {
+    color: "#9ca3af",
+  },
+  sectionTitle: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#6b7280",
+    letterSpacing: 0.5,
+    marginTop: 10,
+    marginBottom: 2,
+  },
+  table: {
+    backgroundColor: "#ffffff",
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  tableRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 7,
+    paddingHorizontal: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#f3f4f6",
+  },
+  tableHead: {
+    borderTopWidth: 0,
+  },
+  headText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#9ca3af",
+  },
+  cellProvince: {
+    width: 40,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  cellNumber: {
+    flex: 1,
+    textAlign: "right",
+    fontSize: 12,
+    color: "#1e293b",
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: "#9ca3af",
+    marginTop: 8,
+  },
+  lineCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#ffffff",
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  lineCardPressed: {
+    backgroundColor: "#f3f4f6",
+  },
+  lineBody: {
+    flex: 1,
+  },
+  lineTitle: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: "#1e293b",
+  },
+  lineMeta: {
+    fontSize: 11,
+    color: "#9ca3af",
+    marginTop: 2,
+  },
+  lineAmount: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+});
@@ -0,0 +1,702 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  View, Text, TextInput, Pressable, StyleSheet, ScrollView,
+  Alert, Platform, ActivityIndicator,
+} from "react-native";
+import { useRouter, useFocusEffect } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { supabase } from "../lib/supabaseClient";
+import { useAuth } from "../contexts/AuthContext";
+import { canManageSetup } from "../lib/team";
+import { fetchRepairTypes, RepairType } from "../lib/repairs";
+import {
+  fetchMaintenanceStatuses,
+  saveMaintenancePlan,
+  deleteMaintenancePlan,
+  MaintenancePlan,
+  MaintenanceState,
+  MaintenanceStatus,
+} from "../lib/maintenance";
+
+type Truck = { id: string; truck_number: string };
+type TruckRow = Truck & { asset_type: string | null };
+
+const STATE_CONFIG: Record<MaintenanceState, { label: string; color: string; bg: string }> = {
+  overdue: { label: "Overdue", color: "#dc2626", bg: "#fef2f2" },
+  due_soon: { label: "Due soon", color: "#d97706", bg: "#fffbeb" },
+  ok: { label: "OK", color: "#16a34a", bg: "#f0fdf4" },
+  no_history: { label: "No history", color: "#6b7280", bg: "#f3f4f6" },
+};
+
+function formatDate(dateStr: string) {
+  const d = new Date(dateStr + "T00:00:00");
+  return d.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+function parseNumber(text: string): number | null {
+  const value = parseFloat(text.replace(/[^0-9.]/g, ""));
+  return isNaN(value) ? null : value;
+}
+
+export default function MaintenanceScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { role } = useAuth();
+  const canEdit = role == null || canManageSetup(role);
+  const [trucks, setTrucks] = useState<Truck[]>([]);
+  const [repairTypes, setRepairTypes] = useState<RepairType[]>([]);
+  // null = all trucks
+  const [truckFilter, setTruckFilter] = useState<string | null>(null);
+  const [statuses, setStatuses] = useState<MaintenanceStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Plan form
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<MaintenancePlan | null>(null);
+  const [formTruckId, setFormTruckId] = useState<string | null>(null);
+  const [formTypeId, setFormTypeId] = useState<string | null>(null);
+  const [intervalMiles, setIntervalMiles] = useState("");
+  const [intervalDays, setIntervalDays] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [startOdometer, setStartOdometer] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadOptions();
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadStatuses();
+    }, [truckFilter])
+  );
+
+  async function loadOptions() {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: tenantUser } = await supabase
+        .from("tenant_users")
+        .select("tenant_id")
+        .eq("user_id", user.id)
+        .single();
+
+      if (!tenantUser) return;
+
+      const [{ data }, types] = await Promise.all([
+        supabase
+          .from("trucks")
+          .select("id, truck_number, asset_type")
+          .eq("tenant_id", tenantUser.tenant_id)
+          .order("truck_number")
+          .overrideTypes<TruckRow[], { merge: false }>(),
+        fetchRepairTypes(),
+      ]);
+
+      // Only power units have odometers
+      setTrucks((data || []).filter((t) => (t.asset_type || "truck") === "truck"));
+      setRepairTypes(types);
+    } catch (error) {
+      console.error("Error loading maintenance options:", error);
+    }
+  }
+
+  async function loadStatuses() {
+    try {
+      setLoading(true);
+      setStatuses(await fetchMaintenanceStatuses(truckFilter));
+    } catch (error) {
+      console.error("Error loading maintenance plans:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function openForm(plan: MaintenancePlan | null) {
+    setEditing(plan);
+    setFormTruckId(plan?.truck_id ?? truckFilter ?? (trucks.length === 1 ? trucks[0].id : null));
+    setFormTypeId(plan?.repair_type_id ?? null);
+    setIntervalMiles(plan?.interval_miles != null ? String(plan.interval_miles) : "");
+    setIntervalDays(plan?.interval_days != null ? String(plan.interval_days) : "");
+    setStartDate(plan?.start_date || "");
+    setStartOdometer(plan?.start_odometer != null ? String(plan.start_odometer) : "");
+    setNotes(plan?.notes || "");
+    setShowForm(true);
+  }
+
+  async function handleSave() {
+    if (!formTruckId || !formTypeId) {
+      Alert.alert("Error", "Pick a truck and a service.");
+      return;
+    }
+    if (startDate && !/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+      Alert.alert("Invalid date", "Use format YYYY-MM-DD");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveMaintenancePlan(editing?.id || null, {
+        truck_id: formTruckId,
+        repair_type_id: formTypeId,
+        interval_miles: parseNumber(intervalMiles),
+        interval_days: parseNumber(intervalDays),
+        start_date: startDate || null,
+        start_odometer: parseNumber(startOdometer),
+        notes: notes.trim() || null,
+      });
+      setShowForm(false);
+      setEditing(null);
+      loadStatuses();
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message || "Failed to save plan.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleDelete(plan: MaintenancePlan) {
+    Alert.alert("Delete Plan", "Stop tracking this service? Repair history is kept.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteMaintenancePlan(plan.id);
+            setShowForm(false);
+            setEditing(null);
+            loadStatuses();
+          } catch (error) {
+            Alert.alert("Error", (error as Error).message);
+          }
+        },
+      },
+    ]);
+  }
+
+  function describeDue(s: MaintenanceStatus): string[] {
+    const parts: string[] = [];
+    if (s.dueOdometer != null) {
+      parts.push(
+        `At ${s.dueOdometer.toLocaleString()} mi` +
+          (s.milesLeft != null
+            ? s.milesLeft > 0
+              ? ` (${s.milesLeft.toLocaleString()} to go)`
+              : ` (${Math.abs(s.milesLeft).toLocaleString()} over)`
+            : "")
+      );
+    }
+    if (s.dueDate) {
+      parts.push(
+        `By ${formatDate(s.dueDate)}` +
+          (s.daysLeft != null
+            ? s.daysLeft > 0
+              ? ` (${s.daysLeft} day${s.daysLeft !== 1 ? "s" : ""})`
+              : ` (${Math.abs(s.daysLeft)} day${s.daysLeft !== -1 ? "s" : ""} late)`
+            : "")
+      );
+    }
+    return parts;
+  }
+
+  function describeInterval(plan: MaintenancePlan): string {
+    return [
+      plan.interval_miles ? `${plan.interval_miles.toLocaleString()} mi` : null,
+      plan.interval_days ? `${plan.interval_days} days` : null,
+    ]
+      .filter(Boolean)
+      .join(" or ");
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.push("/")} style={styles.headerBtn}>
+          <Ionicons name="home" size={24} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Maintenance</Text>
+        {canEdit ? (
+          <Pressable onPress={() => (showForm ? setShowForm(false) : openForm(null))} style={styles.headerBtn}>
+            <Ionicons name={showForm ? "close-circle" : "add-circle"} size={26} color="#2563eb" />
+          </Pressable>
+        ) : (
+          <View style={styles.headerBtn} />
+        )}
+      </View>
+
+      {/* Truck filter */}
+      {trucks.length > 1 && (
+        <View style={styles.filterBar}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            <Pressable
+              style={[styles.chip, truckFilter === null && styles.chipActive]}
+              onPress={() => setTruckFilter(null)}
+            >
+              <Text style={[styles.chipText, truckFilter === null && styles.chipTextActive]}>All</Text>
+            </Pressable>
+            {trucks.map((t) => (
+              <Pressable
+                key={t.id}
+                style={[styles.chip, truckFilter === t.id && styles.chipActive]}
+                onPress={() => setTruckFilter(t.id)}
+              >
+                <Text style={[styles.chipText, truckFilter === t.id && styles.chipTextActive]}>
+                  {t.truck_number}
+                </Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        </View>
+      )}
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        {/* Add / edit plan */}
+        {showForm && (
+          <View style={styles.formCard}>
+            <Text style={styles.formTitle}>{editing ? "Edit Plan" : "New Plan"}</Text>
+
+            {trucks.length > 1 && (
+              <>
+                <Text style={styles.label}>Truck</Text>
+                <View style={styles.chipWrap}>
+                  {trucks.map((t) => (
+                    <Pressable
+                      key={t.id}
+                      style={[styles.chip, formTruckId === t.id && styles.chipActive]}
+                      onPress={() => setFormTruckId(t.id)}
+                    >
+                      <Text style={[styles.chipText, formTruckId === t.id && styles.chipTextActive]}>
+                        {t.truck_number}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.label}>Service</Text>
+            {repairTypes.length === 0 ? (
+              <Text style={styles.formHint}>Add repair codes in Setup &gt; Rep Codes first.</Text>
+            ) : (
+              <View style={styles.chipWrap}>
+                {repairTypes.map((t) => (
+                  <Pressable
+                    key={t.id}
+                    style={[styles.chip, formTypeId === t.id && styles.chipActive]}
+                    onPress={() => setFormTypeId(t.id)}
+                  >
+                    <Text style={[styles.chipText, formTypeId === t.id && styles.chipTextActive]}>{t.name}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+
+            <View style={styles.formRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.label}>Every (miles)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={intervalMiles}
+                  onChangeText={setIntervalMiles}
+                  placeholder="e.g. 25000"
+                  keyboardType="number-pad"
+                  placeholderTextColor="#9ca3af"
+                />
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.label}>Every (days)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={intervalDays}
+                  onChangeText={setIntervalDays}
+                  placeholder="e.g. 365"
+                  keyboardType="number-pad"
+                  placeholderTextColor="#9ca3af"
+                />
+              </View>
+            </View>
+
+            <Text style={styles.formHint}>
+              Due at whichever comes first. Counted from the last repair with this code on the truck, or from the
+              last service below until one is recorded.
+            </Text>
+
+            <View style={styles.formRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.label}>Last done (date)</Text>
+                {Platform.OS === "web" ? (
+                  <input
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    style={{
+                      width: "100%",
+                      padding: 10,
+                      fontSize: 14,
+                      border: "1px solid #e5e7eb",
+                      borderRadius: 8,
+                      fontFamily: "system-ui",
+                      color: "#1e293b",
+                      backgroundColor: "#ffffff",
+                      marginBottom: 12,
+                      boxSizing: "border-box",
+                    }}
+                  />
+                ) : (
+                  <TextInput
+                    style={styles.input}
+                    value={startDate}
+                    onChangeText={setStartDate}
+                    placeholder="YYYY-MM-DD"
+                    keyboardType="numbers-and-punctuation"
+                    placeholderTextColor="#9ca3af"
+                  />
+                )}
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.label}>Last done (odometer)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={startOdometer}
+                  onChangeText={setStartOdometer}
+                  placeholder="optional"
+                  keyboardType="number-pad"
+                  placeholderTextColor="#9ca3af"
+                />
+              </View>
+            </View>
+
+            <Text style={styles.label}>Notes</Text>
+            <TextInput
+              style={styles.input}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="e.g. 15W-40, 11 gal"
+              placeholderTextColor="#9ca3af"
+            />
+
+            <Pressable
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? <ActivityIndicator color="#ffffff" /> : <Text style={styles.saveButtonText}>Save Plan</Text>}
+            </Pressable>
+            {editing && (
+              <Pressable style={styles.deleteButton} onPress={() => handleDelete(editing)}>
+                <Text style={styles.deleteButtonText}>Delete Plan</Text>
+              </Pressable>
+            )}
+          </View>
+        )}
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#2563eb" />
+          </View>
+        ) : statuses.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="build-outline" size={48} color="#d1d5db" />
+            <Text style={styles.emptyText}>No maintenance plans</Text>
+            <Text style={styles.emptySubtext}>
+              {canEdit
+                ? "Tap + to track oil changes, inspections and other services by mileage or time"
+                : "The account owner sets up service intervals"}
+            </Text>
+          </View>
+        ) : (
+          statuses.map((s) => {
+            const cfg = STATE_CONFIG[s.state];
+            return (
+              <Pressable
+                key={s.plan.id}
+                style={({ pressed }) => [styles.planCard, pressed && canEdit && styles.planCardPressed]}
+                onPress={() => canEdit && openForm(s.plan)}
+              >
+                <View style={styles.planTop}>
+                  <View style={styles.planTitleWrap}>
+                    <Text style={styles.planTitle}>{s.serviceName}</Text>
+                    <Text style={styles.planMeta}>
+                      {s.truckNumber} · every {describeInterval(s.plan)}
+                    </Text>
+                  </View>
+                  <View style={[styles.stateBadge, { backgroundColor: cfg.bg }]}>
+                    <Text style={[styles.stateText, { color: cfg.color }]}>{cfg.label}</Text>
+                  </View>
+                </View>
+
+                {describeDue(s).map((line) => (
+                  <Text key={line} style={[styles.dueText, { color: s.state === "ok" ? "#374151" : cfg.color }]}>
+                    {line}
+                  </Text>
+                ))}
+
+                <View style={styles.planFooter}>
+                  {s.lastService ? (
+                    <Pressable
+                      disabled={!s.lastService.repairOrderId}
+                      onPress={() => s.lastService?.repairOrderId && router.push(`/repairs/${s.lastService.repairOrderId}`)}
+                    >
+                      <Text style={[styles.lastText, s.lastService.repairOrderId && styles.lastTextLink]}>
+                        Last done
+                        {s.lastService.date ? ` ${formatDate(s.lastService.date)}` : ""}
+                        {s.lastService.odometer != null ? ` at ${s.lastService.odometer.toLocaleString()} mi` : ""}
+                      </Text>
+                    </Pressable>
+                  ) : (
+                    <Text style={styles.lastText}>
+                      No service recorded{s.currentOdometer == null ? " · no odometer readings" : ""}
+                    </Text>
+                  )}
+                  <Pressable
+                    style={styles.logButton}
+                    onPress={() =>
+                      router.push(`/repairs/new?truck_id=${s.plan.truck_id}&repair_type_id=${s.plan.repair_type_id}`)
+                    }
+                  >
+                    <Ionicons name="add" size={14} color="#2563eb" />
+                    <Text style={styles.logButtonText}>Log service</Text>
+                  </Pressable>
+                </View>
+              </Pressable>
+            );
+          })
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  headerBtn: {
+    padding: 4,
+    minWidth: 32,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  filterBar: {
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  chipRow: {
+    gap: 6,
+  },
+  chipWrap: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    backgroundColor: "#ffffff",
+  },
+  chipActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  chipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  loadingContainer: {
+    paddingTop: 60,
+    alignItems: "center",
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingTop: 60,
+    paddingHorizontal: 24,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: "#9ca3af",
+    marginTop: 12,
+    fontWeight: "600",
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: "#d1d5db",
+    marginTop: 4,
+    textAlign: "center",
+  },
+
+  // Plan form
+  formCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 14,
+    marginBottom: 16,
+  },
+  formTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1e293b",
+    marginBottom: 10,
+  },
+  formHint: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginBottom: 12,
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: "#1e293b",
+    marginBottom: 12,
+  },
+  saveButton: {
+    backgroundColor: "#2563eb",
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: "#ffffff",
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  deleteButton: {
+    paddingVertical: 10,
+    alignItems: "center",
+    marginTop: 6,
+  },
+  deleteButtonText: {
+    color: "#dc2626",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+
+  // Plan list
+  planCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 12,
+    marginBottom: 8,
+  },
+  planCardPressed: {
+    backgroundColor: "#f3f4f6",
+  },
+  planTop: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    justifyContent: "space-between",
+    gap: 8,
+    marginBottom: 6,
+  },
+  planTitleWrap: {
+    flex: 1,
+  },
+  planTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  planMeta: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 1,
+  },
+  stateBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  stateText: {
+    fontSize: 11,
+    fontWeight: "700",
+  },
+  dueText: {
+    fontSize: 13,
+    fontWeight: "600",
+    marginTop: 2,
+  },
+  planFooter: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#f3f4f6",
+  },
+  lastText: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  lastTextLink: {
+    color: "#2563eb",
+  },
+  logButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+  },
+  logButtonText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#2563eb",
+  },
+});
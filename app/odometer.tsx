@@ -1,13 +1,363 @@
-import { View, Text, StyleSheet } from "react-native";
+import { useState, useEffect, useCallback } from "react";
+import {
+  View, Text, TextInput, Pressable, StyleSheet, ScrollView,
+  Alert, Platform, ActivityIndicator,
+} from "react-native";
+import { useRouter, useFocusEffect } from "expo-router";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { supabase } from "../lib/supabaseClient";
+import {
+  fetchOdometerTimeline,
+  addOdometerReading,
+  deleteOdometerReading,
+  OdometerEntry,
+  OdometerSource,
+} from "../lib/odometer";
+
+type Truck = { id: string; truck_number: string };
+type TruckRow = Truck & { asset_type: string | null };
+
+const SOURCE_CONFIG: Record<OdometerSource, { label: string; icon: keyof typeof Ionicons.glyphMap; color: string }> = {
+  stop: { label: "Trip", icon: "map", color: "#0891b2" },
+  fuel: { label: "Fuel", icon: "water", color: "#d97706" },
+  expense: { label: "Expense", icon: "receipt", color: "#7c3aed" },
+  repair: { label: "Repair", icon: "construct", color: "#dc2626" },
+  manual: { label: "Reading", icon: "speedometer", color: "#64748b" },
+};
 
 export default function OdometerScreen() {
+  const router = useRouter();
   const insets = useSafeAreaInsets();
+  const [trucks, setTrucks] = useState<Truck[]>([]);
+  // undefined = not chosen yet, null = readings not tied to a truck
+  const [truckId, setTruckId] = useState<string | null | undefined>(undefined);
+  const [entries, setEntries] = useState<OdometerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Add reading form
+  const [showForm, setShowForm] = useState(false);
+  const [reading, setReading] = useState("");
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadTrucks();
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (truckId !== undefined) loadTimeline();
+    }, [truckId])
+  );
+
+  async function loadTrucks() {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: tenantUser } = await supabase
+        .from("tenant_users")
+        .select("tenant_id")
+        .eq("user_id", user.id)
+        .single();
+
+      if (!tenantUser) return;
+
+      const { data } = await supabase
+        .from("trucks")
+        .select("id, truck_number, asset_type")
+        .eq("tenant_id", tenantUser.tenant_id)
+        .order("truck_number")
+        .overrideTypes<TruckRow[], { merge: false }>();
+
+      // Only power units have odometers
+      const tractors = (data || []).filter((t) => (t.asset_type || "truck") === "truck");
+      setTrucks(tractors);
+      setTruckId(tractors.length > 0 ? tractors[0].id : null);
+    } catch (error) {
+      console.error("Error loading trucks:", error);
+      setLoading(false);
+    }
+  }
+
+  async function loadTimeline() {
+    try {
+      setLoading(true);
+      const data = await fetchOdometerTimeline(truckId ?? null);
+      setEntries(data);
+    } catch (error) {
+      console.error("Error loading odometer timeline:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleAddReading() {
+    const value = parseFloat(reading.replace(/[^0-9.]/g, ""));
+    if (isNaN(value) || value <= 0) {
+      Alert.alert("Error", "Enter a valid odometer reading.");
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      Alert.alert("Invalid date", "Use format YYYY-MM-DD");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await addOdometerReading({
+        truck_id: truckId ?? null,
+        date,
+        reading: value,
+        notes: notes.trim() || null,
+      });
+      setReading("");
+      setNotes("");
+      setShowForm(false);
+      loadTimeline();
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message || "Failed to save reading.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // Readings live on their source record, so open that record to edit
+  function openEntry(entry: OdometerEntry) {
+    switch (entry.source) {
+      case "stop":
+        if (entry.tripId) router.push(`/trips/${entry.tripId}`);
+        break;
+      case "fuel":
+        router.push(`/fuel/${entry.sourceId}`);
+        break;
+      case "expense":
+        router.push(`/expenses/${entry.sourceId}`);
+        break;
+      case "repair":
+        router.push(`/repairs/${entry.sourceId}`);
+        break;
+      case "manual":
+        Alert.alert("Delete Reading", "Delete this odometer reading?", [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Delete",
+            style: "destructive",
+            onPress: async () => {
+              try {
+                await deleteOdometerReading(entry.sourceId);
+                loadTimeline();
+              } catch (error) {
+                Alert.alert("Error", (error as Error).message);
+              }
+            },
+          },
+        ]);
+        break;
+    }
+  }
+
+  function formatDate(dateStr: string) {
+    const d = new Date(dateStr + "T00:00:00");
+    return d.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+  }
+
+  const trusted = entries.filter((e) => !e.flag);
+  const latest = trusted.length > 0 ? trusted[trusted.length - 1] : null;
+  const flaggedCount = entries.length - trusted.length;
+  // Newest first for display
+  const display = entries.slice().reverse();
 
   return (
-    <View style={[styles.container, { paddingTop: insets.top + 24 }]}>
-      <Text style={styles.title}>Odometer</Text>
-      <Text style={styles.subtitle}>Coming soon...</Text>
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.push("/")} style={styles.headerBtn}>
+          <Ionicons name="home" size={24} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Odometer</Text>
+        <Pressable onPress={() => setShowForm(!showForm)} style={styles.headerBtn}>
+          <Ionicons name={showForm ? "close-circle" : "add-circle"} size={26} color="#2563eb" />
+        </Pressable>
+      </View>
+
+      {/* Truck filter */}
+      {trucks.length > 1 && (
+        <View style={styles.filterBar}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {trucks.map((t) => (
+              <Pressable
+                key={t.id}
+                style={[styles.chip, truckId === t.id && styles.chipActive]}
+                onPress={() => setTruckId(t.id)}
+              >
+                <Text style={[styles.chipText, truckId === t.id && styles.chipTextActive]}>
+                  {t.truck_number}
+                </Text>
+              </Pressable>
+            ))}
+            <Pressable
+              style={[styles.chip, truckId === null && styles.chipActive]}
+              onPress={() => setTruckId(null)}
+            >
+              <Text style={[styles.chipText, truckId === null && styles.chipTextActive]}>Unassigned</Text>
+            </Pressable>
+          </ScrollView>
+        </View>
+      )}
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        {/* Add reading */}
+        {showForm && (
+          <View style={styles.formCard}>
+            <Text style={styles.formTitle}>Add Reading</Text>
+            <View style={styles.formRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.label}>Odometer</Text>
+                <TextInput
+                  style={styles.input}
+                  value={reading}
+                  onChangeText={setReading}
+                  placeholder={latest ? `last: ${latest.reading.toLocaleString()}` : "e.g. 148315"}
+                  keyboardType="number-pad"
+                  placeholderTextColor="#9ca3af"
+                />
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.label}>Date</Text>
+                {Platform.OS === "web" ? (
+                  <input
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    style={{
+                      width: "100%",
+                      padding: 10,
+                      fontSize: 14,
+                      border: "1px solid #e5e7eb",
+                      borderRadius: 8,
+                      fontFamily: "system-ui",
+                      color: "#1e293b",
+                      backgroundColor: "#ffffff",
+                      marginBottom: 12,
+                      boxSizing: "border-box",
+                    }}
+                  />
+                ) : (
+                  <TextInput
+                    style={styles.input}
+                    value={date}
+                    onChangeText={setDate}
+                    placeholder="YYYY-MM-DD"
+                    keyboardType="numbers-and-punctuation"
+                    placeholderTextColor="#9ca3af"
+                  />
+                )}
+              </View>
+            </View>
+            <Text style={styles.label}>Notes</Text>
+            <TextInput
+              style={styles.input}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="e.g. Annual inspection"
+              placeholderTextColor="#9ca3af"
+            />
+            <Pressable
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={handleAddReading}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text style={styles.saveButtonText}>Save Reading</Text>
+              )}
+            </Pressable>
+          </View>
+        )}
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#2563eb" />
+          </View>
+        ) : entries.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="speedometer-outline" size={48} color="#d1d5db" />
+            <Text style={styles.emptyText}>No odometer readings</Text>
+            <Text style={styles.emptySubtext}>
+              Readings from stops, fuel, expenses and repairs show up here
+            </Text>
+          </View>
+        ) : (
+          <>
+            {/* Summary */}
+            <View style={styles.summaryCard}>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryLabel}>LATEST</Text>
+                <Text style={styles.summaryValue}>{latest ? latest.reading.toLocaleString() : "—"}</Text>
+                {latest && <Text style={styles.summarySub}>{formatDate(latest.date)}</Text>}
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryLabel}>READINGS</Text>
+                <Text style={styles.summaryValue}>{entries.length}</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryLabel}>FLAGGED</Text>
+                <Text style={[styles.summaryValue, flaggedCount > 0 && styles.summaryValueWarn]}>
+                  {flaggedCount}
+                </Text>
+              </View>
+            </View>
+
+            {/* Timeline */}
+            {display.map((entry) => {
+              const cfg = SOURCE_CONFIG[entry.source];
+              return (
+                <Pressable
+                  key={entry.id}
+                  style={({ pressed }) => [
+                    styles.entryRow,
+                    entry.flag && styles.entryRowFlagged,
+                    pressed && styles.entryRowPressed,
+                  ]}
+                  onPress={() => openEntry(entry)}
+                >
+                  <View style={[styles.sourceIcon, { backgroundColor: cfg.color }]}>
+                    <Ionicons name={cfg.icon} size={14} color="#ffffff" />
+                  </View>
+                  <View style={styles.entryBody}>
+                    <Text style={styles.entryLabel} numberOfLines={1}>{entry.label}</Text>
+                    <Text style={styles.entryDate}>
+                      {formatDate(entry.date)} · {cfg.label}
+                    </Text>
+                    {entry.flag && (
+                      <View style={styles.flagBadge}>
+                        <Ionicons name="warning" size={11} color="#dc2626" />
+                        <Text style={styles.flagText}>
+                          {entry.flag === "backwards" ? "Goes backwards" : "Implausible jump"}
+                        </Text>
+                      </View>
+                    )}
+                  </View>
+                  <View style={styles.entryRight}>
+                    <Text style={[styles.entryReading, entry.flag && styles.entryReadingFlagged]}>
+                      {entry.reading.toLocaleString()}
+                    </Text>
+                    {entry.delta != null && (
+                      <Text style={styles.entryDelta}>
+                        {entry.delta >= 0 ? "+" : ""}{entry.delta.toLocaleString()} mi
+                      </Text>
+                    )}
+                  </View>
+                </Pressable>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
     </View>
   );
 }
@@ -15,17 +365,237 @@ export default function OdometerScreen() {
 const styles = StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: "#f8fafc",
-    padding: 24,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  headerBtn: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  filterBar: {
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  chipRow: {
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    backgroundColor: "#ffffff",
+  },
+  chipActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  chipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
   },
-  title: {
-    fontSize: 28,
-    fontWeight: "900",
-    color: "#0f172a",
-    marginBottom: 8,
+  loadingContainer: {
+    paddingTop: 60,
+    alignItems: "center",
   },
-  subtitle: {
+  emptyContainer: {
+    alignItems: "center",
+    paddingTop: 60,
+    paddingHorizontal: 24,
+  },
+  emptyText: {
     fontSize: 16,
+    color: "#9ca3af",
+    marginTop: 12,
+    fontWeight: "600",
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: "#d1d5db",
+    marginTop: 4,
+    textAlign: "center",
+  },
+
+  // Add reading form
+  formCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 14,
+    marginBottom: 16,
+  },
+  formTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1e293b",
+    marginBottom: 10,
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: "#1e293b",
+    marginBottom: 12,
+  },
+  saveButton: {
+    backgroundColor: "#2563eb",
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: "#ffffff",
+    fontSize: 14,
+    fontWeight: "700",
+  },
+
+  // Summary
+  summaryCard: {
+    flexDirection: "row",
+    backgroundColor: "#ffffff",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingVertical: 12,
+    marginBottom: 12,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  summaryLabel: {
+    fontSize: 9,
+    fontWeight: "700",
+    color: "#9ca3af",
+    letterSpacing: 0.5,
+    marginBottom: 2,
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  summaryValueWarn: {
+    color: "#dc2626",
+  },
+  summarySub: {
+    fontSize: 10,
+    color: "#64748b",
+    marginTop: 1,
+  },
+
+  // Timeline rows
+  entryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 6,
+  },
+  entryRowFlagged: {
+    borderColor: "#fecaca",
+    backgroundColor: "#fef2f2",
+  },
+  entryRowPressed: {
+    opacity: 0.8,
+  },
+  sourceIcon: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 10,
+  },
+  entryBody: {
+    flex: 1,
+    marginRight: 8,
+  },
+  entryLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  entryDate: {
+    fontSize: 11,
+    color: "#64748b",
+    marginTop: 1,
+  },
+  flagBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 3,
+    marginTop: 3,
+  },
+  flagText: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#dc2626",
+  },
+  entryRight: {
+    alignItems: "flex-end",
+  },
+  entryReading: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  entryReadingFlagged: {
+    color: "#dc2626",
+  },
+  entryDelta: {
+    fontSize: 10,
     color: "#64748b",
+    marginTop: 1,
   },
 });
@@ -0,0 +1,362 @@
+import { useState, useCallback } from "react";
+import { View, Text, StyleSheet, Pressable, ActivityIndicator, ScrollView } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { fetchPayPeriodSummary, PayPeriodSummary } from "../lib/pay";
+
+type PeriodType = "week" | "month";
+
+function toISODate(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+// Period containing `anchor`: Monday–Sunday weeks or calendar months
+function getPeriod(type: PeriodType, anchor: Date): { from: Date; to: Date } {
+  if (type === "month") {
+    return {
+      from: new Date(anchor.getFullYear(), anchor.getMonth(), 1),
+      to: new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0),
+    };
+  }
+  const from = new Date(anchor);
+  from.setDate(anchor.getDate() - ((anchor.getDay() + 6) % 7));
+  const to = new Date(from);
+  to.setDate(from.getDate() + 6);
+  return { from, to };
+}
+
+function shiftAnchor(type: PeriodType, anchor: Date, direction: 1 | -1): Date {
+  const next = new Date(anchor);
+  if (type === "month") {
+    next.setDate(1);
+    next.setMonth(anchor.getMonth() + direction);
+  } else {
+    next.setDate(anchor.getDate() + 7 * direction);
+  }
+  return next;
+}
+
+export default function PaySummaryScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const [periodType, setPeriodType] = useState<PeriodType>("week");
+  const [anchor, setAnchor] = useState(new Date());
+  const [summary, setSummary] = useState<PayPeriodSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const { from, to } = getPeriod(periodType, anchor);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSummary();
+    }, [periodType, anchor])
+  );
+
+  async function loadSummary() {
+    try {
+      setLoading(true);
+      const data = await fetchPayPeriodSummary(toISODate(from), toISODate(to));
+      setSummary(data);
+    } catch (error) {
+      console.error("[Pay] Error loading pay summary:", error);
+      setSummary(null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function formatShort(d: Date) {
+    return d.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+  }
+
+  const periodLabel =
+    periodType === "month"
+      ? from.toLocaleDateString("en-US", { month: "long", year: "numeric" })
+      : `${formatShort(from)} – ${formatShort(to)}, ${to.getFullYear()}`;
+
+  const totals = summary?.totals;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={20} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.title}>Pay Summary</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {/* Period selector */}
+      <View style={styles.periodBar}>
+        <View style={styles.periodTypes}>
+          {(["week", "month"] as PeriodType[]).map((t) => (
+            <Pressable
+              key={t}
+              style={[styles.periodChip, periodType === t && styles.periodChipActive]}
+              onPress={() => setPeriodType(t)}
+            >
+              <Text style={[styles.periodChipText, periodType === t && styles.periodChipTextActive]}>
+                {t === "week" ? "Week" : "Month"}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        <View style={styles.periodNav}>
+          <Pressable onPress={() => setAnchor(shiftAnchor(periodType, anchor, -1))} hitSlop={6}>
+            <Ionicons name="chevron-back" size={18} color="#6b7280" />
+          </Pressable>
+          <Text style={styles.periodLabel}>{periodLabel}</Text>
+          <Pressable onPress={() => setAnchor(shiftAnchor(periodType, anchor, 1))} hitSlop={6}>
+            <Ionicons name="chevron-forward" size={18} color="#6b7280" />
+          </Pressable>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={[styles.centered, { flex: 1 }]}>
+          <ActivityIndicator size="large" color="#2563eb" />
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.list}>
+          {/* Totals */}
+          {totals && summary && (
+            <View style={styles.totalsCard}>
+              <View style={styles.totalsRow}>
+                <Text style={styles.totalsLabel}>Loaded</Text>
+                <Text style={styles.totalsMiles}>
+                  {totals.loadedMiles.toLocaleString()} mi × ${summary.rates.loaded.toFixed(2)}
+                </Text>
+                <Text style={styles.totalsAmount}>${totals.loadedPay.toFixed(2)}</Text>
+              </View>
+              <View style={styles.totalsRow}>
+                <Text style={styles.totalsLabel}>Empty</Text>
+                <Text style={styles.totalsMiles}>
+                  {totals.emptyMiles.toLocaleString()} mi × ${summary.rates.empty.toFixed(2)}
+                </Text>
+                <Text style={styles.totalsAmount}>${totals.emptyPay.toFixed(2)}</Text>
+              </View>
+              <View style={[styles.totalsRow, styles.totalsGrandRow]}>
+                <Text style={styles.totalsLabel}>Total</Text>
+                <Text style={styles.totalsMiles}>
+                  {(totals.loadedMiles + totals.emptyMiles).toLocaleString()} mi
+                </Text>
+                <Text style={[styles.totalsAmount, styles.totalsGrand]}>${totals.totalPay.toFixed(2)}</Text>
+              </View>
+              {summary.rates.loaded === 0 && summary.rates.empty === 0 && (
+                <Text style={styles.ratesHint}>Set loaded/empty rates in Setup → Settings.</Text>
+              )}
+            </View>
+          )}
+
+          {/* Trips */}
+          {summary && summary.trips.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="wallet-outline" size={40} color="#d1d5db" />
+              <Text style={styles.emptyText}>No trips in this period</Text>
+            </View>
+          ) : (
+            summary?.trips.map((trip) => (
+              <Pressable
+                key={trip.tripId}
+                style={({ pressed }) => [styles.tripCard, pressed && styles.tripCardPressed]}
+                onPress={() => router.push(`/trips/${trip.tripId}`)}
+              >
+                <View style={styles.tripCardLeft}>
+                  <Text style={styles.tripId}>#{trip.tripReference}</Text>
+                  <Text style={styles.tripRoute} numberOfLines={1}>
+                    {trip.origin} → {trip.destination}
+                  </Text>
+                  <Text style={styles.tripMeta}>
+                    {formatShort(new Date(trip.date + "T12:00:00"))} · {trip.loadedMiles.toLocaleString()} loaded · {trip.emptyMiles.toLocaleString()} empty
+                  </Text>
+                </View>
+                <Text style={styles.tripPay}>${trip.totalPay.toFixed(2)}</Text>
+              </Pressable>
+            ))
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 2,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  placeholder: {
+    width: 24,
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  periodBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  periodTypes: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  periodChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  periodChipActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  periodChipText: {
+    fontSize: 11,
+    fontWeight: "500",
+    color: "#6b7280",
+  },
+  periodChipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+  periodNav: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  periodLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  list: {
+    padding: 12,
+    gap: 6,
+    flexGrow: 1,
+  },
+  totalsCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 6,
+  },
+  totalsRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 3,
+  },
+  totalsGrandRow: {
+    borderTopWidth: 1,
+    borderTopColor: "#f3f4f6",
+    marginTop: 4,
+    paddingTop: 6,
+  },
+  totalsLabel: {
+    width: 56,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  totalsMiles: {
+    flex: 1,
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  totalsAmount: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  totalsGrand: {
+    color: "#16a34a",
+  },
+  ratesHint: {
+    fontSize: 11,
+    color: "#9ca3af",
+    fontStyle: "italic",
+    marginTop: 6,
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: "#9ca3af",
+    marginTop: 8,
+  },
+  tripCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 6,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  tripCardPressed: {
+    backgroundColor: "#f3f4f6",
+  },
+  tripCardLeft: {
+    flex: 1,
+    marginRight: 8,
+  },
+  tripId: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  tripRoute: {
+    fontSize: 12,
+    color: "#374151",
+    marginTop: 2,
+  },
+  tripMeta: {
+    fontSize: 11,
+    color: "#9ca3af",
+    marginTop: 2,
+  },
+  tripPay: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+});
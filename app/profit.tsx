@@ -0,0 +1,470 @@
+import { useState, useCallback } from "react";
+import { View, Text, StyleSheet, Pressable, ActivityIndicator, ScrollView } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { fetchProfitReport, ProfitReport, ProfitReportTrip } from "../lib/profit";
+
+type PeriodType = "month" | "quarter" | "year";
+
+type SortKey = "profit" | "margin" | "perMile";
+
+function toISODate(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+// Calendar month, quarter or year containing `anchor`
+function getPeriod(type: PeriodType, anchor: Date): { from: Date; to: Date } {
+  const months = type === "month" ? 1 : type === "quarter" ? 3 : 12;
+  const startMonth = Math.floor(anchor.getMonth() / months) * months;
+  return {
+    from: new Date(anchor.getFullYear(), startMonth, 1),
+    to: new Date(anchor.getFullYear(), startMonth + months, 0),
+  };
+}
+
+function shiftAnchor(type: PeriodType, anchor: Date, direction: 1 | -1): Date {
+  const months = type === "month" ? 1 : type === "quarter" ? 3 : 12;
+  return new Date(anchor.getFullYear(), anchor.getMonth() + months * direction, 1);
+}
+
+const SORTS: { key: SortKey; label: string; value: (t: ProfitReportTrip) => number }[] = [
+  { key: "profit", label: "Profit", value: (t) => t.profit },
+  { key: "margin", label: "Margin", value: (t) => t.margin ?? -Infinity },
+  { key: "perMile", label: "Profit/mi", value: (t) => t.profitPerMile ?? -Infinity },
+];
+
+function money(n: number) {
+  return `${n < 0 ? "−" : ""}$${Math.abs(n).toFixed(2)}`;
+}
+
+function perMile(n: number | null) {
+  return n != null ? `$${n.toFixed(2)}` : "—";
+}
+
+export default function ProfitReportScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const [periodType, setPeriodType] = useState<PeriodType>("month");
+  const [anchor, setAnchor] = useState(new Date());
+  const [sortKey, setSortKey] = useState<SortKey>("profit");
+  const [report, setReport] = useState<ProfitReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const { from, to } = getPeriod(periodType, anchor);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadReport();
+    }, [periodType, anchor])
+  );
+
+  async function loadReport() {
+    try {
+      setLoading(true);
+      setReport(await fetchProfitReport(toISODate(from), toISODate(to)));
+    } catch (error) {
+      console.error("[Profit] Error loading report:", error);
+      setReport(null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function formatShort(iso: string) {
+    return new Date(iso + "T12:00:00").toLocaleDateString("en-US", { month: "short", day: "numeric" });
+  }
+
+  const periodLabel =
+    periodType === "month"
+      ? from.toLocaleDateString("en-US", { month: "long", year: "numeric" })
+      : periodType === "quarter"
+        ? `Q${Math.floor(from.getMonth() / 3) + 1} ${from.getFullYear()}`
+        : `${from.getFullYear()}`;
+
+  const sort = SORTS.find((s) => s.key === sortKey)!;
+  const ranked = report ? [...report.trips].sort((a, b) => sort.value(b) - sort.value(a)) : [];
+  const totals = report?.totals;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={20} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.title}>Trip Profitability</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {/* Period selector */}
+      <View style={styles.periodBar}>
+        <View style={styles.periodTypes}>
+          {(["month", "quarter", "year"] as PeriodType[]).map((t) => (
+            <Pressable
+              key={t}
+              style={[styles.periodChip, periodType === t && styles.periodChipActive]}
+              onPress={() => setPeriodType(t)}
+            >
+              <Text style={[styles.periodChipText, periodType === t && styles.periodChipTextActive]}>
+                {t === "month" ? "Month" : t === "quarter" ? "Quarter" : "Year"}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        <View style={styles.periodNav}>
+          <Pressable onPress={() => setAnchor(shiftAnchor(periodType, anchor, -1))} hitSlop={6}>
+            <Ionicons name="chevron-back" size={18} color="#6b7280" />
+          </Pressable>
+          <Text style={styles.periodLabel}>{periodLabel}</Text>
+          <Pressable onPress={() => setAnchor(shiftAnchor(periodType, anchor, 1))} hitSlop={6}>
+            <Ionicons name="chevron-forward" size={18} color="#6b7280" />
+          </Pressable>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={[styles.centered, { flex: 1 }]}>
+          <ActivityIndicator size="large" color="#2563eb" />
+        </View>
+      ) : !report || !totals ? (
+        <View style={[styles.centered, { flex: 1 }]}>
+          <Text style={styles.emptyText}>Could not load the report</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.list}>
+          {/* Totals */}
+          <View style={styles.totalsCard}>
+            <View style={styles.totalsRow}>
+              <Text style={styles.totalsLabel}>Revenue</Text>
+              <Text style={styles.totalsAmount}>{money(totals.revenue)}</Text>
+            </View>
+            <View style={styles.totalsRow}>
+              <Text style={styles.totalsLabel}>Fuel</Text>
+              <Text style={styles.totalsAmount}>{money(-totals.fuelCost)}</Text>
+            </View>
+            <View style={styles.totalsRow}>
+              <Text style={styles.totalsLabel}>Expenses</Text>
+              <Text style={styles.totalsAmount}>{money(-totals.expenseCost)}</Text>
+            </View>
+            <View style={styles.totalsRow}>
+              <Text style={styles.totalsLabel}>Truck ownership</Text>
+              <Text style={styles.totalsAmount}>{money(-totals.ownershipCost)}</Text>
+            </View>
+            <View style={[styles.totalsRow, styles.totalsDivider]}>
+              <Text style={styles.totalsLabel}>
+                Profit{totals.margin != null ? ` · ${(totals.margin * 100).toFixed(1)}%` : ""}
+              </Text>
+              <Text style={[styles.totalsAmount, totals.profit >= 0 ? styles.positive : styles.negative]}>
+                {money(totals.profit)}
+              </Text>
+            </View>
+            <View style={styles.perMileRow}>
+              <Text style={styles.perMileText}>{(totals.mileage || 0).toLocaleString()} mi</Text>
+              <Text style={styles.perMileText}>Rev {perMile(totals.revenuePerMile)}/mi</Text>
+              <Text style={styles.perMileText}>Cost {perMile(totals.costPerMile)}/mi</Text>
+            </View>
+          </View>
+
+          <Text style={styles.basisText}>
+            {report.ownership.length > 0
+              ? report.ownership
+                  .map(
+                    (o) =>
+                      `Truck ${o.truckNumber}: $${o.monthlyCost.toFixed(2)}/month over ` +
+                      `${o.milesPerMonth.toLocaleString()} mi/month${o.milesMeasured ? "" : " (assumed)"} = $${o.perMile.toFixed(3)}/mi.`
+                  )
+                  .join(" ") + ` Amounts in ${report.currency}.`
+              : `No truck ownership cost: assign trips to a truck and set its purchase or lease details in Setup > Assets. Amounts in ${report.currency}.`}
+          </Text>
+
+          {/* Sort */}
+          <View style={styles.sortBar}>
+            <Text style={styles.sectionTitle}>TRIPS ({ranked.length})</Text>
+            <View style={styles.periodTypes}>
+              {SORTS.map((s) => (
+                <Pressable
+                  key={s.key}
+                  style={[styles.periodChip, sortKey === s.key && styles.periodChipActive]}
+                  onPress={() => setSortKey(s.key)}
+                >
+                  <Text style={[styles.periodChipText, sortKey === s.key && styles.periodChipTextActive]}>
+                    {s.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+
+          {ranked.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="trending-up-outline" size={40} color="#d1d5db" />
+              <Text style={styles.emptyText}>No trips in this period</Text>
+            </View>
+          ) : (
+            ranked.map((trip, index) => (
+              <Pressable
+                key={trip.tripId}
+                style={({ pressed }) => [styles.tripCard, pressed && styles.tripCardPressed]}
+                onPress={() => router.push(`/trips/${trip.tripId}`)}
+              >
+                <Text style={styles.rank}>{index + 1}</Text>
+                <View style={styles.tripBody}>
+                  <View style={styles.tripTop}>
+                    <Text style={styles.tripRef}>#{trip.tripReference}</Text>
+                    <Text style={styles.tripDate}>{formatShort(trip.date)}</Text>
+                  </View>
+                  <Text style={styles.tripRoute} numberOfLines={1}>
+                    {trip.origin} → {trip.destination}
+                    {trip.truckNumber ? ` · ${trip.truckNumber}` : ""}
+                  </Text>
+                  <Text style={styles.tripMeta}>
+                    {money(trip.revenue)} rev · {money(trip.totalCost)} cost
+                    {trip.mileage ? ` · ${perMile(trip.revenuePerMile)} / ${perMile(trip.costPerMile)} per mi` : ""}
+                  </Text>
+                  {trip.unconverted > 0 && (
+                    <Text style={styles.tripWarning}>
+                      {trip.unconverted} purchase{trip.unconverted === 1 ? "" : "s"} without an exchange rate
+                    </Text>
+                  )}
+                </View>
+                <View style={styles.tripRight}>
+                  <Text style={[styles.tripProfit, trip.profit >= 0 ? styles.positive : styles.negative]}>
+                    {money(trip.profit)}
+                  </Text>
+                  <Text style={styles.tripMargin}>
+                    {trip.margin != null ? `${(trip.margin * 100).toFixed(1)}%` : "—"}
+                  </Text>
+                </View>
+              </Pressable>
+            ))
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 2,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  placeholder: {
+    width: 24,
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  periodBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  periodTypes: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  periodChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  periodChipActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  periodChipText: {
+    fontSize: 11,
+    fontWeight: "500",
+    color: "#6b7280",
+  },
+  periodChipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+  periodNav: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  periodLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  list: {
+    padding: 12,
+    gap: 6,
+    flexGrow: 1,
+  },
+  totalsCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  totalsRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 3,
+  },
+  totalsDivider: {
+    borderTopWidth: 1,
+    borderTopColor: "#f3f4f6",
+    marginTop: 4,
+    paddingTop: 6,
+  },
+  totalsLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  totalsAmount: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  positive: {
+    color: "#16a34a",
+  },
+  negative: {
+    color: "#dc2626",
+  },
+  perMileRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 6,
+  },
+  perMileText: {
+    fontSize: 11,
+    color: "#6b7280",
+  },
+  basisText: {
+    fontSize: 11,
+    color: "#9ca3af",
+    lineHeight: 15,
+    paddingHorizontal: 2,
+  },
+  sortBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 10,
+    marginBottom: 2,
+  },
+  sectionTitle: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#6b7280",
+    letterSpacing: 0.5,
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: "#9ca3af",
+    marginTop: 8,
+  },
+  tripCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  tripCardPressed: {
+    backgroundColor: "#f3f4f6",
+  },
+  rank: {
+    width: 20,
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#9ca3af",
+  },
+  tripBody: {
+    flex: 1,
+    marginRight: 8,
+  },
+  tripTop: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  tripRef: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  tripDate: {
+    fontSize: 11,
+    color: "#9ca3af",
+  },
+  tripRoute: {
+    fontSize: 12,
+    color: "#374151",
+    marginTop: 1,
+  },
+  tripMeta: {
+    fontSize: 11,
+    color: "#9ca3af",
+    marginTop: 2,
+  },
+  tripWarning: {
+    fontSize: 11,
+    color: "#d97706",
+    marginTop: 2,
+  },
+  tripRight: {
+    alignItems: "flex-end",
+  },
+  tripProfit: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  tripMargin: {
+    fontSize: 11,
+    color: "#6b7280",
+    marginTop: 1,
+  },
+});
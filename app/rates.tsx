@@ -0,0 +1,502 @@
+import { useState, useCallback } from "react";
+import {
+  View, Text, TextInput, Pressable, StyleSheet, ScrollView,
+  Alert, Platform, ActivityIndicator,
+} from "react-native";
+import { useRouter, useFocusEffect } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  Currency,
+  ExchangeRate,
+  fetchExchangeRates,
+  saveExchangeRates,
+  deleteExchangeRate,
+  parseExchangeRatesCsv,
+  getHomeCurrency,
+} from "../lib/currency";
+import { useAuth } from "../contexts/AuthContext";
+import { canManageSetup } from "../lib/team";
+
+type FormMode = "add" | "import" | null;
+
+export default function ExchangeRatesScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  // Drivers can look up rates; only the owner changes them
+  const { role } = useAuth();
+  const canEdit = role == null || canManageSetup(role);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [homeCurrency, setHomeCurrency] = useState<Currency>("USD");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [mode, setMode] = useState<FormMode>(null);
+
+  // Add form: 1 base = rate quote
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [base, setBase] = useState<Currency>("CAD");
+  const [rate, setRate] = useState("");
+
+  // Import form
+  const [csvText, setCsvText] = useState("");
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRates();
+    }, [])
+  );
+
+  async function loadRates() {
+    try {
+      const [home, data] = await Promise.all([getHomeCurrency(), fetchExchangeRates()]);
+      setHomeCurrency(home);
+      // Default the add form to foreign → home on first load
+      if (loading) setBase(home === "USD" ? "CAD" : "USD");
+      setRates(data);
+    } catch (error) {
+      console.error("Error loading exchange rates:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const quote: Currency = base === "USD" ? "CAD" : "USD";
+
+  async function handleAddRate() {
+    const rateNum = parseFloat(rate);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      Alert.alert("Error", "Date must be YYYY-MM-DD.");
+      return;
+    }
+    if (!(rateNum > 0)) {
+      Alert.alert("Error", "Enter a rate greater than zero.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveExchangeRates([
+        { rate_date: date, base_currency: base, quote_currency: quote, rate: rateNum, source: "manual" },
+      ]);
+      setRate("");
+      setMode(null);
+      await loadRates();
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message || "Failed to save rate.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleImport() {
+    const { rates: parsed, errors } = parseExchangeRatesCsv(csvText);
+    setImportErrors(errors);
+    if (errors.length > 0) return;
+    if (parsed.length === 0) {
+      Alert.alert("Nothing to import", "Paste one rate per line.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const count = await saveExchangeRates(parsed);
+      setCsvText("");
+      setMode(null);
+      await loadRates();
+      Alert.alert("Imported", `${count} rate${count === 1 ? "" : "s"} saved.`);
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message || "Failed to import rates.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleDelete(r: ExchangeRate) {
+    Alert.alert("Delete Rate", `Delete the ${r.base_currency}/${r.quote_currency} rate for ${r.rate_date}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteExchangeRate(r.id);
+            setRates((prev) => prev.filter((x) => x.id !== r.id));
+          } catch (error) {
+            Alert.alert("Error", (error as Error).message);
+          }
+        },
+      },
+    ]);
+  }
+
+  function toggleMode(next: FormMode) {
+    setMode(mode === next ? null : next);
+    setImportErrors([]);
+  }
+
+  function formatDate(dateStr: string) {
+    const d = new Date(dateStr + "T00:00:00");
+    return d.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+          <Ionicons name="arrow-back" size={24} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Exchange Rates</Text>
+        <View style={styles.headerActions}>
+          {canEdit && (
+            <>
+              <Pressable onPress={() => toggleMode("import")} style={styles.headerBtn}>
+                <Ionicons name="cloud-upload-outline" size={22} color="#2563eb" />
+              </Pressable>
+              <Pressable onPress={() => toggleMode("add")} style={styles.headerBtn}>
+                <Ionicons name={mode === "add" ? "close-circle" : "add-circle"} size={26} color="#2563eb" />
+              </Pressable>
+            </>
+          )}
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        <Text style={styles.hint}>
+          Expenses and fuel paid in another currency are converted to {homeCurrency} using the latest rate on or
+          before the purchase date.
+        </Text>
+
+        {/* Add rate */}
+        {mode === "add" && (
+          <View style={styles.formCard}>
+            <Text style={styles.formTitle}>Add Rate</Text>
+            <View style={styles.chipRow}>
+              {(["CAD", "USD"] as Currency[]).map((c) => (
+                <Pressable
+                  key={c}
+                  style={[styles.chip, base === c && styles.chipActive]}
+                  onPress={() => setBase(c)}
+                >
+                  <Text style={[styles.chipText, base === c && styles.chipTextActive]}>
+                    {c} → {c === "USD" ? "CAD" : "USD"}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <View style={styles.formRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.label}>Date</Text>
+                {Platform.OS === "web" ? (
+                  <input
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    style={{
+                      width: "100%",
+                      padding: 10,
+                      fontSize: 14,
+                      border: "1px solid #e5e7eb",
+                      borderRadius: 8,
+                      fontFamily: "system-ui",
+                      color: "#1e293b",
+                      backgroundColor: "#ffffff",
+                      marginBottom: 12,
+                      boxSizing: "border-box",
+                    }}
+                  />
+                ) : (
+                  <TextInput
+                    style={styles.input}
+                    value={date}
+                    onChangeText={setDate}
+                    placeholder="YYYY-MM-DD"
+                    keyboardType="numbers-and-punctuation"
+                    placeholderTextColor="#9ca3af"
+                  />
+                )}
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.label}>1 {base} = ? {quote}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={rate}
+                  onChangeText={setRate}
+                  placeholder={base === "USD" ? "e.g. 1.3550" : "e.g. 0.7380"}
+                  keyboardType="decimal-pad"
+                  placeholderTextColor="#9ca3af"
+                />
+              </View>
+            </View>
+            <Pressable
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={handleAddRate}
+              disabled={saving}
+            >
+              {saving ? <ActivityIndicator color="#ffffff" /> : <Text style={styles.saveButtonText}>Save Rate</Text>}
+            </Pressable>
+          </View>
+        )}
+
+        {/* Import */}
+        {mode === "import" && (
+          <View style={styles.formCard}>
+            <Text style={styles.formTitle}>Import Rates</Text>
+            <Text style={styles.formHint}>
+              Paste one rate per line as date, from, to, rate (e.g. 2024-03-28,USD,CAD,1.3550). Rates for a day that
+              already has one are replaced.
+            </Text>
+            <TextInput
+              style={[styles.input, styles.textArea]}
+              value={csvText}
+              onChangeText={setCsvText}
+              placeholder={"date,from,to,rate\n2024-03-28,USD,CAD,1.3550"}
+              placeholderTextColor="#9ca3af"
+              autoCapitalize="none"
+              autoCorrect={false}
+              multiline
+            />
+            {importErrors.length > 0 && (
+              <View style={styles.errorBox}>
+                {importErrors.slice(0, 5).map((e) => (
+                  <Text key={e} style={styles.errorText}>{e}</Text>
+                ))}
+                {importErrors.length > 5 && (
+                  <Text style={styles.errorText}>…and {importErrors.length - 5} more</Text>
+                )}
+              </View>
+            )}
+            <Pressable
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={handleImport}
+              disabled={saving}
+            >
+              {saving ? <ActivityIndicator color="#ffffff" /> : <Text style={styles.saveButtonText}>Import</Text>}
+            </Pressable>
+          </View>
+        )}
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#2563eb" />
+          </View>
+        ) : rates.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="swap-horizontal-outline" size={48} color="#d1d5db" />
+            <Text style={styles.emptyText}>No exchange rates</Text>
+            <Text style={styles.emptySubtext}>Tap + to add a rate or import a list of them</Text>
+          </View>
+        ) : (
+          rates.map((r) => (
+            <View key={r.id} style={styles.rateRow}>
+              <View style={styles.rateBody}>
+                <Text style={styles.rateValue}>
+                  1 {r.base_currency} = {Number(r.rate).toFixed(4)} {r.quote_currency}
+                </Text>
+                <Text style={styles.rateMeta}>
+                  {formatDate(r.rate_date)}
+                  {r.source ? ` · ${r.source}` : ""}
+                </Text>
+              </View>
+              {canEdit && (
+                <Pressable onPress={() => handleDelete(r)} hitSlop={8}>
+                  <Ionicons name="trash-outline" size={18} color="#9ca3af" />
+                </Pressable>
+              )}
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  headerBtn: {
+    padding: 4,
+  },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  hint: {
+    fontSize: 12,
+    color: "#64748b",
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  loadingContainer: {
+    paddingTop: 60,
+    alignItems: "center",
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingTop: 60,
+    paddingHorizontal: 24,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: "#9ca3af",
+    marginTop: 12,
+    fontWeight: "600",
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: "#d1d5db",
+    marginTop: 4,
+    textAlign: "center",
+  },
+
+  // Add / import forms
+  formCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 14,
+    marginBottom: 16,
+  },
+  formTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1e293b",
+    marginBottom: 10,
+  },
+  formHint: {
+    fontSize: 12,
+    color: "#64748b",
+    marginBottom: 10,
+    lineHeight: 16,
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 6,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    backgroundColor: "#ffffff",
+  },
+  chipActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  chipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: "#1e293b",
+    marginBottom: 12,
+  },
+  textArea: {
+    minHeight: 120,
+    textAlignVertical: "top",
+    fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+    fontSize: 12,
+  },
+  errorBox: {
+    backgroundColor: "#fef2f2",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 12,
+    color: "#dc2626",
+  },
+  saveButton: {
+    backgroundColor: "#2563eb",
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: "#ffffff",
+    fontSize: 14,
+    fontWeight: "700",
+  },
+
+  // Rate rows
+  rateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 6,
+  },
+  rateBody: {
+    flex: 1,
+    marginRight: 8,
+  },
+  rateValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  rateMeta: {
+    fontSize: 11,
+    color: "#64748b",
+    marginTop: 2,
+  },
+});
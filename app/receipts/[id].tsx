@@ -4,6 +4,8 @@ import { useRouter, useLocalSearchParams } from "expo-router";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { supabase } from "../../lib/supabaseClient";
+import { extractReceipt, getOcrEngine, ReceiptExtraction, LOW_CONFIDENCE } from "../../lib/receiptOcr";
+import { fuelUnitLabel } from "../../lib/fuel";
 
 type Receipt = {
   id: string;
@@ -12,9 +14,36 @@ type Receipt = {
   receipt_type: string | null;
   notes: string | null;
   created_at: string;
+  extracted: ReceiptExtraction | null;
   image_url?: string;
 };
 
+const EXTRACTED_ROWS: { key: keyof ReceiptExtraction; label: string }[] = [
+  { key: "vendor", label: "Vendor" },
+  { key: "date", label: "Date" },
+  { key: "total", label: "Total" },
+  { key: "tax", label: "Tax" },
+  { key: "quantity", label: "Quantity" },
+  { key: "pricePerUnit", label: "Price / unit" },
+];
+
+function formatExtracted(extracted: ReceiptExtraction, key: keyof ReceiptExtraction): string {
+  const field = extracted[key];
+  if (!field) return "";
+  switch (key) {
+    case "total":
+      return `$${Number(field.value).toFixed(2)}`;
+    case "tax":
+      return `$${Number(field.value).toFixed(2)}${extracted.taxLabel ? ` ${extracted.taxLabel.value}` : ""}`;
+    case "quantity":
+      return `${field.value} ${extracted.unit ? fuelUnitLabel(extracted.unit.value) : ""}`.trim();
+    case "pricePerUnit":
+      return `$${Number(field.value).toFixed(3)}`;
+    default:
+      return String(field.value);
+  }
+}
+
 const screenWidth = Dimensions.get("window").width;
 
 export default function ReceiptDetailScreen() {
@@ -24,6 +53,7 @@ export default function ReceiptDetailScreen() {
   const [receipt, setReceipt] = useState<Receipt | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [scanning, setScanning] = useState(false);
 
   useEffect(() => {
     if (id) loadReceipt();
@@ -48,6 +78,11 @@ export default function ReceiptDetailScreen() {
         ...data,
         image_url: urlData?.signedUrl || "",
       });
+
+      // Read new receipts in the background so the forms can be pre-filled
+      if (!data.extracted && urlData?.signedUrl && getOcrEngine()) {
+        scanReceipt(urlData.signedUrl, true);
+      }
     } catch (error: any) {
       console.error("Error loading receipt:", error);
       Alert.alert("Error", "Failed to load receipt.");
@@ -57,39 +92,28 @@ export default function ReceiptDetailScreen() {
     }
   }
 
-  async function classifyReceipt(type: "fuel" | "expense" | "repair") {
-    if (!receipt) return;
-    setSaving(true);
-
+  async function scanReceipt(imageUri?: string, quiet = false) {
+    if (!id) return;
+    setScanning(true);
     try {
-      const { error } = await supabase
-        .from("receipts")
-        .update({
-          receipt_type: type,
-          status: "processed",
-        })
-        .eq("id", receipt.id);
-
-      if (error) throw error;
-
-      setReceipt({ ...receipt, receipt_type: type, status: "processed" });
-
-      const labels = { fuel: "Fuel Purchase", expense: "Expense", repair: "Repair" };
-      Alert.alert(
-        "Classified!",
-        `Receipt tagged as "${labels[type]}". The entry form will be available soon.`,
-        [
-          { text: "Back to Inbox", onPress: () => router.back() },
-          { text: "OK", style: "cancel" },
-        ]
-      );
+      const extracted = await extractReceipt(id, imageUri);
+      setReceipt((prev) => (prev ? { ...prev, extracted } : prev));
     } catch (error: any) {
-      Alert.alert("Error", error.message || "Failed to classify receipt.");
+      console.error("Error scanning receipt:", error);
+      if (!quiet) Alert.alert("Error", error.message || "Failed to read receipt.");
     } finally {
-      setSaving(false);
+      setScanning(false);
     }
   }
 
+  function classifyReceipt(type: "fuel" | "expense" | "repair") {
+    if (!receipt) return;
+
+    // Each type goes straight to its entry form (pre-filled from the scan); saving marks the receipt processed
+    const forms = { fuel: "/fuel/new", expense: "/expenses/new", repair: "/repairs/new" };
+    router.push(`${forms[type]}?receipt_id=${receipt.id}`);
+  }
+
   async function unclassifyReceipt() {
     if (!receipt) return;
     setSaving(true);
@@ -168,6 +192,7 @@ export default function ReceiptDetailScreen() {
       case "fuel": return "Fuel Purchase";
       case "expense": return "Expense";
       case "repair": return "Repair";
+      case "paperwork": return "Paperwork";
       default: return "Unclassified";
     }
   }
@@ -192,6 +217,8 @@ export default function ReceiptDetailScreen() {
   if (!receipt) return null;
 
   const isProcessed = receipt.status === "processed";
+  const extracted = receipt.extracted;
+  const suggested = extracted?.suggestedType?.value;
 
   return (
     <View style={[styles.container, { paddingTop: insets.top }]}>
@@ -240,6 +267,45 @@ export default function ReceiptDetailScreen() {
           )}
         </View>
 
+        {/* Fields read off the receipt */}
+        {(extracted || getOcrEngine()) && (
+          <View style={styles.scanSection}>
+            <View style={styles.scanHeader}>
+              <Text style={styles.scanTitle}>Scanned details</Text>
+              {scanning ? (
+                <ActivityIndicator size="small" color="#2563eb" />
+              ) : getOcrEngine() ? (
+                <Pressable onPress={() => scanReceipt(receipt.image_url || undefined)}>
+                  <Text style={styles.resetText}>{extracted ? "Rescan" : "Scan"}</Text>
+                </Pressable>
+              ) : null}
+            </View>
+            {extracted ? (
+              EXTRACTED_ROWS.filter((row) => extracted[row.key]).map((row) => {
+                const confidence = extracted[row.key]!.confidence;
+                return (
+                  <View key={row.key} style={styles.scanRow}>
+                    <Text style={styles.scanLabel}>{row.label}</Text>
+                    <Text style={styles.scanValue}>{formatExtracted(extracted, row.key)}</Text>
+                    <Text
+                      style={[
+                        styles.scanConfidence,
+                        confidence < LOW_CONFIDENCE && styles.scanConfidenceLow,
+                      ]}
+                    >
+                      {Math.round(confidence * 100)}%
+                    </Text>
+                  </View>
+                );
+              })
+            ) : (
+              <Text style={styles.scanEmpty}>
+                {scanning ? "Reading receipt..." : "Not scanned yet."}
+              </Text>
+            )}
+          </View>
+        )}
+
         {/* Classify buttons */}
         {!isProcessed && (
           <View style={styles.classifySection}>
@@ -257,6 +323,7 @@ export default function ReceiptDetailScreen() {
               <Ionicons name="water" size={24} color="#d97706" />
               <View style={styles.classifyButtonContent}>
                 <Text style={styles.classifyButtonTitle}>Fuel Purchase</Text>
+                {suggested === "fuel" && <Text style={styles.suggestedText}>Suggested from scan</Text>}
                 <Text style={styles.classifyButtonDesc}>Gas, diesel, DEF</Text>
               </View>
               <Ionicons name="chevron-forward" size={20} color="#d1d5db" />
@@ -274,6 +341,7 @@ export default function ReceiptDetailScreen() {
               <Ionicons name="receipt" size={24} color="#7c3aed" />
               <View style={styles.classifyButtonContent}>
                 <Text style={styles.classifyButtonTitle}>Expense</Text>
+                {suggested === "expense" && <Text style={styles.suggestedText}>Suggested from scan</Text>}
                 <Text style={styles.classifyButtonDesc}>Hotel, tolls, food, supplies</Text>
               </View>
               <Ionicons name="chevron-forward" size={20} color="#d1d5db" />
@@ -291,6 +359,7 @@ export default function ReceiptDetailScreen() {
               <Ionicons name="construct" size={24} color="#dc2626" />
               <View style={styles.classifyButtonContent}>
                 <Text style={styles.classifyButtonTitle}>Repair</Text>
+                {suggested === "repair" && <Text style={styles.suggestedText}>Suggested from scan</Text>}
                 <Text style={styles.classifyButtonDesc}>Truck or trailer repair</Text>
               </View>
               <Ionicons name="chevron-forward" size={20} color="#d1d5db" />
@@ -413,6 +482,60 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#2563eb",
   },
+  scanSection: {
+    backgroundColor: "#ffffff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 14,
+    marginBottom: 16,
+  },
+  scanHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  scanTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  scanRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: "#f3f4f6",
+  },
+  scanLabel: {
+    width: 96,
+    fontSize: 13,
+    color: "#64748b",
+  },
+  scanValue: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#1e293b",
+  },
+  scanConfidence: {
+    fontSize: 12,
+    color: "#10b981",
+  },
+  scanConfidenceLow: {
+    color: "#d97706",
+  },
+  scanEmpty: {
+    fontSize: 13,
+    color: "#94a3b8",
+  },
+  suggestedText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#2563eb",
+    marginTop: 2,
+  },
   classifySection: {
     marginTop: 8,
   },
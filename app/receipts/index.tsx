@@ -5,6 +5,15 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import * as ImagePicker from "expo-image-picker";
 import { supabase } from "../../lib/supabaseClient";
+import { cachedQuery, resolveTenantId } from "../../lib/offline";
+import {
+  captureReceipt,
+  processReceiptQueue,
+  discardPendingReceipt,
+  pendingReceiptImageUri,
+  PendingReceipt,
+} from "../../lib/receiptQueue";
+import { useSync } from "../../contexts/SyncContext";
 
 type Receipt = {
   id: string;
@@ -22,6 +31,20 @@ export default function ReceiptInboxScreen() {
   const [receipts, setReceipts] = useState<Receipt[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<"unprocessed" | "processed" | "all">("unprocessed");
+  const { pendingReceipts } = useSync();
+  // Photos still on the device count as new receipts
+  const visiblePending = filter === "processed" ? [] : pendingReceipts;
+  // Preview URIs for queued photos (on web they are read back from IndexedDB)
+  const [pendingUris, setPendingUris] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    for (const item of pendingReceipts) {
+      if (pendingUris[item.id]) continue;
+      pendingReceiptImageUri(item)
+        .then((uri) => setPendingUris((prev) => ({ ...prev, [item.id]: uri })))
+        .catch((error) => console.error("[Receipts] Error loading queued image:", error));
+    }
+  }, [pendingReceipts]);
 
   useFocusEffect(
     useCallback(() => {
@@ -29,44 +52,44 @@ export default function ReceiptInboxScreen() {
     }, [filter])
   );
 
+  // Refresh once queued photos finish uploading
+  useEffect(() => {
+    if (!loading) loadReceipts();
+  }, [pendingReceipts.length]);
+
   async function loadReceipts() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data: tenantUser } = await supabase
-        .from("tenant_users")
-        .select("tenant_id")
-        .eq("user_id", user.id)
-        .single();
-
-      if (!tenantUser) return;
-
-      let query = supabase
-        .from("receipts")
-        .select("*")
-        .eq("tenant_id", tenantUser.tenant_id)
-        .order("created_at", { ascending: false });
-
-      if (filter !== "all") {
-        query = query.eq("status", filter);
-      }
-
-      const { data, error } = await query;
-      if (error) throw error;
-
-      // Get signed URLs for each receipt image
-      const receiptsWithUrls = await Promise.all(
-        (data || []).map(async (receipt) => {
-          const { data: urlData } = await supabase.storage
-            .from("receipts")
-            .createSignedUrl(receipt.image_path, 3600);
-          return {
-            ...receipt,
-            image_url: urlData?.signedUrl || "",
-          };
-        })
-      );
+      const tenantId = await resolveTenantId();
+      if (!tenantId) return;
+
+      // Last list per filter is kept for offline use
+      const receiptsWithUrls = await cachedQuery(`receipts:${filter}`, async () => {
+        let query = supabase
+          .from("receipts")
+          .select("*")
+          .eq("tenant_id", tenantId)
+          .order("created_at", { ascending: false });
+
+        if (filter !== "all") {
+          query = query.eq("status", filter);
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        // Get signed URLs for each receipt image
+        return Promise.all(
+          (data || []).map(async (receipt) => {
+            const { data: urlData } = await supabase.storage
+              .from("receipts")
+              .createSignedUrl(receipt.image_path, 3600);
+            return {
+              ...receipt,
+              image_url: urlData?.signedUrl || "",
+            };
+          })
+        );
+      });
 
       setReceipts(receiptsWithUrls);
     } catch (error) {
@@ -105,50 +128,35 @@ export default function ReceiptInboxScreen() {
 
   async function uploadReceipt(image: ImagePicker.ImagePickerAsset) {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data: tenantUser } = await supabase
-        .from("tenant_users")
-        .select("tenant_id")
-        .eq("user_id", user.id)
-        .single();
-
-      if (!tenantUser) return;
-
-      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-      const ext = image.uri.split(".").pop() || "jpg";
-      const fileName = `${tenantUser.tenant_id}/${timestamp}.${ext}`;
-
-      const response = await fetch(image.uri);
-      const blob = await response.blob();
-
-      const { error: uploadError } = await supabase.storage
-        .from("receipts")
-        .upload(fileName, blob, {
-          contentType: image.mimeType || "image/jpeg",
-          upsert: false,
-        });
-
-      if (uploadError) throw uploadError;
-
-      const { error: dbError } = await supabase
-        .from("receipts")
-        .insert({
-          tenant_id: tenantUser.tenant_id,
-          image_path: fileName,
-          status: "unprocessed",
-        });
-
-      if (dbError) throw dbError;
-
-      Alert.alert("Success", "Receipt uploaded!");
+      const result = await captureReceipt(image);
+      Alert.alert(
+        "Success",
+        result === "uploaded" ? "Receipt uploaded!" : "Saved on this device. It will upload when you have signal."
+      );
       loadReceipts();
     } catch (error: any) {
       Alert.alert("Error", error.message || "Failed to upload.");
     }
   }
 
+  function handlePendingPress(item: PendingReceipt) {
+    Alert.alert(
+      "Pending Upload",
+      item.lastError
+        ? `Upload attempt ${item.attempts} failed: ${item.lastError}`
+        : "This receipt is stored on the device and will upload automatically.",
+      [
+        { text: "Retry Now", onPress: () => processReceiptQueue(true) },
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: () => discardPendingReceipt(item.id),
+        },
+        { text: "Cancel", style: "cancel" },
+      ]
+    );
+  }
+
   function formatDate(dateStr: string) {
     const date = new Date(dateStr);
     return date.toLocaleDateString("en-US", {
@@ -173,6 +181,7 @@ export default function ReceiptInboxScreen() {
       case "fuel": return "Fuel";
       case "expense": return "Expense";
       case "repair": return "Repair";
+      case "paperwork": return "Paperwork";
       default: return "";
     }
   }
@@ -225,7 +234,7 @@ export default function ReceiptInboxScreen() {
 
       {/* Receipt grid */}
       <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
-        {receipts.length === 0 ? (
+        {receipts.length === 0 && visiblePending.length === 0 ? (
           <View style={styles.emptyContainer}>
             <Ionicons name="receipt-outline" size={48} color="#d1d5db" />
             <Text style={styles.emptyText}>
@@ -236,6 +245,31 @@ export default function ReceiptInboxScreen() {
           </View>
         ) : (
           <View style={styles.receiptGrid}>
+            {visiblePending.map((item) => (
+              <Pressable
+                key={item.id}
+                onPress={() => handlePendingPress(item)}
+                style={({ pressed }) => [
+                  styles.receiptCard,
+                  pressed && styles.receiptCardPressed,
+                ]}
+              >
+                <Image
+                  source={{ uri: pendingUris[item.id] }}
+                  style={styles.receiptImage}
+                  resizeMode="cover"
+                />
+                <View style={styles.receiptInfo}>
+                  <Text style={styles.receiptDate}>{formatDate(item.capturedAt)}</Text>
+                  <View style={styles.receiptBadges}>
+                    <Ionicons name="cloud-upload-outline" size={12} color="#d97706" />
+                    <Text style={[styles.statusText, { color: "#d97706" }]}>
+                      Pending upload
+                    </Text>
+                  </View>
+                </View>
+              </Pressable>
+            ))}
             {receipts.map((receipt) => (
               <Pressable
                 key={receipt.id}
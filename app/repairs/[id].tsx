@@ -0,0 +1,339 @@
+import { useState, useCallback } from "react";
+import {
+  View, Text, Pressable, StyleSheet, ScrollView, Alert, ActivityIndicator,
+} from "react-native";
+import { useRouter, useLocalSearchParams, useFocusEffect } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { fetchRepairOrder, deleteRepairOrder, RepairOrder } from "../../lib/repairs";
+
+export default function RepairDetailScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [order, setOrder] = useState<RepairOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Reload on focus so edits show up when returning from the form
+  useFocusEffect(
+    useCallback(() => {
+      if (id) loadOrder();
+    }, [id])
+  );
+
+  async function loadOrder() {
+    try {
+      const data = await fetchRepairOrder(id);
+      if (!data) throw new Error("Not found");
+      setOrder(data);
+    } catch (error) {
+      Alert.alert("Error", "Failed to load repair order.");
+      router.back();
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleDelete() {
+    Alert.alert(
+      "Delete Repair",
+      "Are you sure you want to delete this repair order and all of its lines?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteRepairOrder(id);
+              router.back();
+            } catch (error) {
+              Alert.alert("Error", (error as Error).message);
+            }
+          },
+        },
+      ]
+    );
+  }
+
+  function formatDate(dateStr: string) {
+    const date = new Date(dateStr + "T00:00:00");
+    return date.toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+  }
+
+  function formatCurrency(amount: number | null) {
+    return `$${Number(amount || 0).toFixed(2)}`;
+  }
+
+  if (loading) {
+    return (
+      <View style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.header}>
+          <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+            <Ionicons name="arrow-back" size={24} color="#1e293b" />
+          </Pressable>
+          <Text style={styles.headerTitle}>Repair</Text>
+          <View style={styles.headerPlaceholder} />
+        </View>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2563eb" />
+        </View>
+      </View>
+    );
+  }
+
+  if (!order) return null;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+          <Ionicons name="arrow-back" size={24} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Repair</Text>
+        <View style={styles.headerActions}>
+          <Pressable
+            onPress={() => router.push(`/repairs/new?id=${order.id}`)}
+            style={styles.headerBtn}
+          >
+            <Ionicons name="pencil" size={20} color="#1e293b" />
+          </Pressable>
+          <Pressable onPress={handleDelete} style={styles.headerBtn}>
+            <Ionicons name="trash-outline" size={22} color="#dc2626" />
+          </Pressable>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        {/* Total amount - prominent */}
+        <View style={styles.totalCard}>
+          <Text style={styles.totalLabel}>Total</Text>
+          <Text style={styles.totalAmount}>{formatCurrency(order.total)}</Text>
+        </View>
+
+        {/* Details */}
+        <View style={styles.detailCard}>
+          <DetailRow label="Truck" value={order.truck_number || "—"} />
+          <DetailRow label="Shop / Vendor" value={order.vendor_name || "—"} />
+          <DetailRow label="Date" value={formatDate(order.date)} />
+          <DetailRow
+            label="Odometer"
+            value={order.odometer_reading != null ? Number(order.odometer_reading).toLocaleString() : "—"}
+          />
+          {order.description && <DetailRow label="Description" value={order.description} />}
+
+          {order.notes && (
+            <>
+              <View style={styles.divider} />
+              <DetailRow label="Notes" value={order.notes} />
+            </>
+          )}
+
+          {order.receipt_id && (
+            <>
+              <View style={styles.divider} />
+              <Pressable
+                style={styles.receiptRow}
+                onPress={() => router.push(`/receipts/${order.receipt_id}`)}
+              >
+                <Ionicons name="camera" size={16} color="#10b981" />
+                <Text style={styles.receiptText}>Receipt attached</Text>
+              </Pressable>
+            </>
+          )}
+        </View>
+
+        {/* Line items */}
+        <Text style={styles.sectionTitle}>Repair Lines ({order.details.length})</Text>
+        <View style={styles.detailCard}>
+          {order.details.map((line) => (
+            <View key={line.id} style={styles.lineRow}>
+              <View style={styles.lineLeft}>
+                <Text style={styles.lineType}>{line.type || "Other"}</Text>
+                {line.description && (
+                  <Text style={styles.lineDescription}>{line.description}</Text>
+                )}
+              </View>
+              <Text style={styles.lineAmount}>{formatCurrency(line.amount)}</Text>
+            </View>
+          ))}
+          <View style={styles.lineTotalRow}>
+            <Text style={styles.lineTotalLabel}>Total</Text>
+            <Text style={styles.lineTotalLabel}>{formatCurrency(order.total)}</Text>
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+function DetailRow({ label, value, bold }: { label: string; value: string; bold?: boolean }) {
+  return (
+    <View style={detailStyles.row}>
+      <Text style={detailStyles.label}>{label}</Text>
+      <Text style={[detailStyles.value, bold && detailStyles.valueBold]}>{value}</Text>
+    </View>
+  );
+}
+
+const detailStyles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    paddingVertical: 10,
+  },
+  label: {
+    fontSize: 13,
+    color: "#64748b",
+    flex: 1,
+  },
+  value: {
+    fontSize: 14,
+    color: "#1e293b",
+    fontWeight: "500",
+    flex: 2,
+    textAlign: "right",
+  },
+  valueBold: {
+    fontWeight: "700",
+    fontSize: 15,
+  },
+});
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  headerBtn: {
+    padding: 4,
+  },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  headerPlaceholder: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  totalCard: {
+    backgroundColor: "#dc2626",
+    borderRadius: 14,
+    padding: 24,
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  totalLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "rgba(255,255,255,0.7)",
+    marginBottom: 4,
+  },
+  totalAmount: {
+    fontSize: 32,
+    fontWeight: "800",
+    color: "#ffffff",
+  },
+  detailCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 16,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: "#f3f4f6",
+    marginVertical: 4,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#64748b",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  lineRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+  },
+  lineLeft: {
+    flex: 1,
+    marginRight: 12,
+  },
+  lineType: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  lineDescription: {
+    fontSize: 12,
+    color: "#64748b",
+    marginTop: 2,
+  },
+  lineAmount: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  lineTotalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingTop: 12,
+  },
+  lineTotalLabel: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  receiptRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 10,
+  },
+  receiptText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#166534",
+  },
+});
@@ -0,0 +1,371 @@
+import { useState, useEffect, useCallback } from "react";
+import { View, Text, TextInput, Pressable, StyleSheet, ScrollView, ActivityIndicator } from "react-native";
+import { useRouter, useFocusEffect } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { supabase } from "../../lib/supabaseClient";
+import { fetchRepairOrders, RepairOrder } from "../../lib/repairs";
+
+type Truck = { id: string; truck_number: string };
+
+export default function RepairsListScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const [orders, setOrders] = useState<RepairOrder[]>([]);
+  const [trucks, setTrucks] = useState<Truck[]>([]);
+  const [truckId, setTruckId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadTrucks();
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadOrders();
+    }, [truckId])
+  );
+
+  // Debounced search
+  useEffect(() => {
+    const timer = setTimeout(() => loadOrders(), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  async function loadTrucks() {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: tenantUser } = await supabase
+        .from("tenant_users")
+        .select("tenant_id")
+        .eq("user_id", user.id)
+        .single();
+
+      if (!tenantUser) return;
+
+      const { data } = await supabase
+        .from("trucks")
+        .select("id, truck_number")
+        .eq("tenant_id", tenantUser.tenant_id)
+        .order("truck_number");
+
+      setTrucks(data || []);
+    } catch (error) {
+      console.error("Error loading trucks:", error);
+    }
+  }
+
+  async function loadOrders() {
+    try {
+      const data = await fetchRepairOrders({ truckId, search });
+      setOrders(data);
+    } catch (error) {
+      console.error("Error loading repair orders:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function formatDate(dateStr: string) {
+    const date = new Date(dateStr + "T00:00:00");
+    return date.toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+  }
+
+  function formatCurrency(amount: number | null) {
+    return `$${Number(amount || 0).toFixed(2)}`;
+  }
+
+  const periodTotal = orders.reduce((sum, o) => sum + Number(o.total || 0), 0);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.push("/")} style={styles.backButton}>
+          <Ionicons name="home" size={24} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Repairs</Text>
+        <Pressable
+          onPress={() => router.push(truckId ? `/repairs/new?truck_id=${truckId}` : "/repairs/new")}
+          style={styles.addButton}
+        >
+          <Ionicons name="add-circle" size={26} color="#2563eb" />
+        </Pressable>
+      </View>
+
+      {/* Filters */}
+      <View style={styles.filterBar}>
+        <View style={styles.searchRow}>
+          <Ionicons name="search" size={16} color="#9ca3af" />
+          <TextInput
+            style={styles.searchInput}
+            value={search}
+            onChangeText={setSearch}
+            placeholder="Search vendor, description, repair type..."
+            placeholderTextColor="#9ca3af"
+          />
+        </View>
+        {trucks.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            <Pressable
+              style={[styles.chip, !truckId && styles.chipActive]}
+              onPress={() => setTruckId(null)}
+            >
+              <Text style={[styles.chipText, !truckId && styles.chipTextActive]}>All</Text>
+            </Pressable>
+            {trucks.map((t) => (
+              <Pressable
+                key={t.id}
+                style={[styles.chip, truckId === t.id && styles.chipActive]}
+                onPress={() => setTruckId(t.id)}
+              >
+                <Text style={[styles.chipText, truckId === t.id && styles.chipTextActive]}>
+                  {t.truck_number}
+                </Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2563eb" />
+          <Text style={styles.loadingText}>Loading repairs...</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+          {orders.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Ionicons name="construct-outline" size={48} color="#d1d5db" />
+              <Text style={styles.emptyText}>No repair orders</Text>
+              <Text style={styles.emptySubtext}>Tap + to record a repair</Text>
+            </View>
+          ) : (
+            <>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryText}>
+                  {orders.length} order{orders.length !== 1 ? "s" : ""}
+                </Text>
+                <Text style={styles.summaryText}>{formatCurrency(periodTotal)}</Text>
+              </View>
+              {orders.map((order) => (
+                <Pressable
+                  key={order.id}
+                  style={({ pressed }) => [
+                    styles.orderCard,
+                    pressed && styles.orderCardPressed,
+                  ]}
+                  onPress={() => router.push(`/repairs/${order.id}`)}
+                >
+                  <View style={styles.orderLeft}>
+                    <Text style={styles.orderDate}>
+                      {formatDate(order.date)}
+                      {order.truck_number ? ` · ${order.truck_number}` : ""}
+                    </Text>
+                    <Text style={styles.orderVendor}>
+                      {order.vendor_name || order.description || "No vendor"}
+                    </Text>
+                    <View style={styles.orderBadges}>
+                      {order.details.slice(0, 3).map((d) =>
+                        d.type ? (
+                          <View key={d.id} style={styles.typeBadge}>
+                            <Text style={styles.typeBadgeText}>{d.type}</Text>
+                          </View>
+                        ) : null
+                      )}
+                      {order.details.length > 3 && (
+                        <Text style={styles.moreText}>+{order.details.length - 3}</Text>
+                      )}
+                      {order.receipt_id && (
+                        <Ionicons name="camera" size={12} color="#10b981" />
+                      )}
+                    </View>
+                  </View>
+                  <Text style={styles.orderTotal}>{formatCurrency(order.total)}</Text>
+                </Pressable>
+              ))}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  addButton: {
+    padding: 4,
+  },
+  filterBar: {
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#f3f4f6",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: "#1e293b",
+  },
+  chipRow: {
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    backgroundColor: "#ffffff",
+  },
+  chipActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  chipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: "#64748b",
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingTop: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: "#9ca3af",
+    marginTop: 12,
+    fontWeight: "600",
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: "#d1d5db",
+    marginTop: 4,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  summaryText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#64748b",
+  },
+  orderCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "#ffffff",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 14,
+    marginBottom: 10,
+  },
+  orderCardPressed: {
+    backgroundColor: "#f9fafb",
+    transform: [{ scale: 0.99 }],
+  },
+  orderLeft: {
+    flex: 1,
+    marginRight: 12,
+  },
+  orderDate: {
+    fontSize: 12,
+    color: "#64748b",
+    marginBottom: 2,
+  },
+  orderVendor: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1e293b",
+    marginBottom: 4,
+  },
+  orderBadges: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  typeBadge: {
+    backgroundColor: "#fef2f2",
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  typeBadgeText: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#dc2626",
+  },
+  moreText: {
+    fontSize: 10,
+    color: "#9ca3af",
+  },
+  orderTotal: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+});
@@ -0,0 +1,998 @@
+import { useState, useEffect } from "react";
+import {
+  View, Text, TextInput, Pressable, StyleSheet, ScrollView,
+  Alert, Platform, Modal, ActivityIndicator, KeyboardAvoidingView,
+} from "react-native";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { supabase } from "../../lib/supabaseClient";
+import {
+  fetchRepairOrder,
+  fetchRepairTypes,
+  saveRepairOrder,
+  computeRepairTotal,
+  RepairType,
+} from "../../lib/repairs";
+
+type PickerItem = { id: string; label: string; sublabel?: string };
+
+// Truck and vendor rows as the dropdown queries select them
+type TruckRow = { id: string; truck_number: string; make: string | null; model: string | null };
+type VendorRow = { id: string; name: string };
+
+// Line item as edited on screen (amount kept as text while typing)
+type EditLine = {
+  key: string;
+  id: string | null;
+  repair_type_id: string | null;
+  description: string;
+  amount: string;
+};
+
+let lineKeySeq = 0;
+function newLine(): EditLine {
+  lineKeySeq += 1;
+  return { key: `new-${lineKeySeq}`, id: null, repair_type_id: null, description: "", amount: "" };
+}
+
+export default function NewRepairScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  // repair_type_id starts the first line with that type (logging a maintenance service)
+  const params = useLocalSearchParams<{ id?: string; receipt_id?: string; truck_id?: string; repair_type_id?: string }>();
+  const editingId = params.id || null;
+
+  const [saving, setSaving] = useState(false);
+  const [loadingData, setLoadingData] = useState(true);
+
+  // Dropdown data
+  const [trucks, setTrucks] = useState<PickerItem[]>([]);
+  const [vendors, setVendors] = useState<PickerItem[]>([]);
+  const [repairTypes, setRepairTypes] = useState<RepairType[]>([]);
+
+  // Form fields
+  const [truckId, setTruckId] = useState<string | null>(params.truck_id || null);
+  const [vendorId, setVendorId] = useState<string | null>(null);
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [odometer, setOdometer] = useState("");
+  const [description, setDescription] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<EditLine[]>([
+    { ...newLine(), repair_type_id: params.repair_type_id || null },
+  ]);
+  const [receiptId, setReceiptId] = useState<string | null>(params.receipt_id || null);
+
+  // Picker modals
+  const [showTruckPicker, setShowTruckPicker] = useState(false);
+  const [showVendorPicker, setShowVendorPicker] = useState(false);
+  const [typePickerLine, setTypePickerLine] = useState<string | null>(null);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [tempDate, setTempDate] = useState(date);
+
+  useEffect(() => {
+    loadDropdownData();
+  }, []);
+
+  async function loadDropdownData() {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: tenantUser } = await supabase
+        .from("tenant_users")
+        .select("tenant_id")
+        .eq("user_id", user.id)
+        .single();
+
+      if (!tenantUser) return;
+
+      const [truckRes, vendorRes, types, existing] = await Promise.all([
+        supabase
+          .from("trucks")
+          .select("id, truck_number, make, model")
+          .eq("tenant_id", tenantUser.tenant_id)
+          .order("truck_number")
+          .overrideTypes<TruckRow[], { merge: false }>(),
+        supabase
+          .from("vendors")
+          .select("id, name")
+          .eq("tenant_id", tenantUser.tenant_id)
+          .order("name")
+          .overrideTypes<VendorRow[], { merge: false }>(),
+        fetchRepairTypes(),
+        editingId ? fetchRepairOrder(editingId) : Promise.resolve(null),
+      ]);
+
+      const truckItems = (truckRes.data || []).map((t) => ({
+        id: t.id,
+        label: [t.truck_number, t.make, t.model].filter(Boolean).join(" "),
+      }));
+      setTrucks(truckItems);
+      setVendors((vendorRes.data || []).map((v) => ({ id: v.id, label: v.name })));
+      setRepairTypes(types);
+
+      if (existing) {
+        setTruckId(existing.truck_id);
+        setVendorId(existing.vendor_id);
+        setDate(existing.date);
+        setOdometer(existing.odometer_reading != null ? String(existing.odometer_reading) : "");
+        setDescription(existing.description || "");
+        setNotes(existing.notes || "");
+        setReceiptId(existing.receipt_id);
+        setLines(
+          existing.details.length > 0
+            ? existing.details.map((d) => ({
+                key: d.id,
+                id: d.id,
+                repair_type_id: d.repair_type_id,
+                description: d.description || "",
+                amount: Number(d.amount || 0).toFixed(2),
+              }))
+            : [newLine()]
+        );
+      } else if (!truckId && truckItems.length === 1) {
+        // Single-truck operators don't need to pick
+        setTruckId(truckItems[0].id);
+      }
+    } catch (error) {
+      console.error("Error loading dropdown data:", error);
+    } finally {
+      setLoadingData(false);
+    }
+  }
+
+  function updateLine(key: string, patch: Partial<EditLine>) {
+    setLines((prev) => prev.map((l) => (l.key === key ? { ...l, ...patch } : l)));
+  }
+
+  function removeLine(key: string) {
+    setLines((prev) => prev.filter((l) => l.key !== key));
+  }
+
+  // Blank lines are dropped on save
+  const filledLines = lines.filter(
+    (l) => l.repair_type_id || l.description.trim() || parseFloat(l.amount)
+  );
+  const total = computeRepairTotal(
+    filledLines.map((l) => ({ amount: parseFloat(l.amount) || 0 }))
+  );
+
+  async function handleSave() {
+    if (!date) {
+      Alert.alert("Error", "Date is required.");
+      return;
+    }
+    if (!truckId) {
+      Alert.alert("Error", "Truck is required.");
+      return;
+    }
+    if (filledLines.length === 0) {
+      Alert.alert("Error", "Add at least one repair line.");
+      return;
+    }
+
+    const odoNum = odometer ? parseFloat(odometer.replace(/[^0-9.]/g, "")) : null;
+
+    setSaving(true);
+    try {
+      await saveRepairOrder(
+        editingId,
+        {
+          truck_id: truckId,
+          vendor_id: vendorId || null,
+          receipt_id: receiptId || null,
+          date,
+          description: description.trim() || null,
+          odometer_reading: odoNum != null && !isNaN(odoNum) ? odoNum : null,
+          notes: notes.trim() || null,
+        },
+        filledLines.map((l) => ({
+          id: l.id,
+          repair_type_id: l.repair_type_id,
+          description: l.description.trim() || null,
+          amount: parseFloat(l.amount) || 0,
+        })),
+        repairTypes
+      );
+
+      // Close the form immediately after saving
+      router.back();
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message || "Failed to save repair order.");
+      setSaving(false);
+    }
+  }
+
+  function getSelectedLabel(items: PickerItem[], id: string | null) {
+    if (!id) return null;
+    return items.find((i) => i.id === id)?.label || null;
+  }
+
+  const typeItems: PickerItem[] = repairTypes.map((t) => ({ id: t.id, label: t.name }));
+  const pickingLine = lines.find((l) => l.key === typePickerLine) || null;
+  const title = editingId ? "Edit Repair" : "New Repair";
+
+  if (loadingData) {
+    return (
+      <View style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.header}>
+          <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+            <Ionicons name="arrow-back" size={24} color="#1e293b" />
+          </Pressable>
+          <Text style={styles.headerTitle}>{title}</Text>
+          <View style={styles.headerPlaceholder} />
+        </View>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2563eb" />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+          <Ionicons name="arrow-back" size={24} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.headerTitle}>{title}</Text>
+        <View style={styles.headerPlaceholder} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentInner}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* ── Truck ──────────────────────────── */}
+          <Text style={styles.label}>Truck</Text>
+          <Pressable style={styles.picker} onPress={() => setShowTruckPicker(true)}>
+            <Text style={truckId ? styles.pickerText : styles.pickerPlaceholder}>
+              {getSelectedLabel(trucks, truckId) || "Select truck..."}
+            </Text>
+            <Ionicons name="chevron-down" size={18} color="#9ca3af" />
+          </Pressable>
+
+          {/* ── Vendor ─────────────────────────── */}
+          <Text style={styles.label}>Shop / Vendor</Text>
+          <Pressable style={styles.picker} onPress={() => setShowVendorPicker(true)}>
+            <Text style={vendorId ? styles.pickerText : styles.pickerPlaceholder}>
+              {getSelectedLabel(vendors, vendorId) || "Select vendor..."}
+            </Text>
+            <Ionicons name="chevron-down" size={18} color="#9ca3af" />
+          </Pressable>
+
+          {/* ── Date & Odometer ────────────────── */}
+          <Text style={styles.label}>Date</Text>
+          {Platform.OS === "web" ? (
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              style={{
+                width: "100%",
+                padding: 12,
+                fontSize: 15,
+                border: "1px solid #e5e7eb",
+                borderRadius: 10,
+                fontFamily: "system-ui",
+                color: "#1e293b",
+                backgroundColor: "#ffffff",
+                marginBottom: 16,
+                boxSizing: "border-box",
+              }}
+            />
+          ) : (
+            <Pressable style={styles.picker} onPress={() => { setTempDate(date); setShowDatePicker(true); }}>
+              <Text style={styles.pickerText}>
+                {date ? new Date(date + "T00:00:00").toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }) : "Select date..."}
+              </Text>
+              <Ionicons name="calendar-outline" size={18} color="#9ca3af" />
+            </Pressable>
+          )}
+
+          <Text style={styles.label}>Odometer</Text>
+          <TextInput
+            style={styles.input}
+            value={odometer}
+            onChangeText={setOdometer}
+            placeholder="e.g. 148315"
+            keyboardType="number-pad"
+            placeholderTextColor="#9ca3af"
+          />
+
+          <Text style={styles.label}>Description</Text>
+          <TextInput
+            style={styles.input}
+            value={description}
+            onChangeText={setDescription}
+            placeholder="e.g. PM service and brake job"
+            placeholderTextColor="#9ca3af"
+          />
+
+          {/* ── Divider ────────────────────────── */}
+          <View style={styles.divider} />
+
+          {/* ── Line items ─────────────────────── */}
+          <View style={styles.lineHeader}>
+            <Text style={styles.sectionLabel}>Repair Lines</Text>
+            <Pressable style={styles.addLineButton} onPress={() => setLines((prev) => [...prev, newLine()])}>
+              <Ionicons name="add-circle-outline" size={18} color="#2563eb" />
+              <Text style={styles.addLineText}>Add Line</Text>
+            </Pressable>
+          </View>
+
+          {lines.length === 0 && (
+            <Text style={styles.lineEmpty}>No repair lines. Tap Add Line.</Text>
+          )}
+
+          {lines.map((line, index) => (
+            <View key={line.key} style={styles.lineCard}>
+              <View style={styles.lineCardHeader}>
+                <Text style={styles.lineNumber}>LINE {index + 1}</Text>
+                <Pressable onPress={() => removeLine(line.key)}>
+                  <Ionicons name="trash-outline" size={18} color="#dc2626" />
+                </Pressable>
+              </View>
+
+              <Text style={styles.label}>Repair Type</Text>
+              <Pressable style={styles.picker} onPress={() => setTypePickerLine(line.key)}>
+                <Text style={line.repair_type_id ? styles.pickerText : styles.pickerPlaceholder}>
+                  {getSelectedLabel(typeItems, line.repair_type_id) || "Select type..."}
+                </Text>
+                <Ionicons name="chevron-down" size={18} color="#9ca3af" />
+              </Pressable>
+
+              <View style={styles.formRow}>
+                <View style={{ flex: 2 }}>
+                  <Text style={styles.label}>Description</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={line.description}
+                    onChangeText={(val) => updateLine(line.key, { description: val })}
+                    placeholder="Parts / labor"
+                    placeholderTextColor="#9ca3af"
+                  />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.label}>Amount</Text>
+                  <View style={styles.amountRow}>
+                    <Text style={styles.currencySymbol}>$</Text>
+                    <TextInput
+                      style={styles.amountInput}
+                      value={line.amount}
+                      onChangeText={(val) => updateLine(line.key, { amount: val })}
+                      placeholder="0.00"
+                      keyboardType="decimal-pad"
+                      placeholderTextColor="#9ca3af"
+                    />
+                  </View>
+                </View>
+              </View>
+            </View>
+          ))}
+
+          <View style={styles.computedTotal}>
+            <Text style={styles.computedTotalLabel}>Total</Text>
+            <Text style={styles.computedTotalValue}>${total.toFixed(2)}</Text>
+          </View>
+
+          {/* ── Divider ────────────────────────── */}
+          <View style={styles.divider} />
+
+          <Text style={styles.label}>Notes</Text>
+          <TextInput
+            style={[styles.input, styles.textArea]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Additional notes..."
+            placeholderTextColor="#9ca3af"
+            multiline
+          />
+
+          {/* ── Receipt link ───────────────────── */}
+          {receiptId ? (
+            <View style={styles.receiptLinked}>
+              <Ionicons name="checkmark-circle" size={18} color="#10b981" />
+              <Text style={styles.receiptLinkedText}>Receipt attached</Text>
+              <Pressable onPress={() => setReceiptId(null)}>
+                <Text style={styles.receiptRemoveText}>Remove</Text>
+              </Pressable>
+            </View>
+          ) : (
+            <Pressable
+              style={styles.receiptAttach}
+              onPress={() => {
+                Alert.alert(
+                  "Attach Receipt",
+                  "You can attach a receipt from the Receipt Inbox by classifying it as a repair.",
+                  [{ text: "OK" }]
+                );
+              }}
+            >
+              <Ionicons name="camera-outline" size={22} color="#64748b" />
+              <Text style={styles.receiptAttachText}>Attach receipt photo</Text>
+            </Pressable>
+          )}
+
+          {/* ── Save Button ────────────────────── */}
+          <Pressable
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Text style={styles.saveButtonText}>Save Repair</Text>
+            )}
+          </Pressable>
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      {/* ── Truck Picker Modal ─────────────── */}
+      <PickerModal
+        visible={showTruckPicker}
+        title="Select Truck"
+        items={trucks}
+        selectedId={truckId}
+        onSelect={(id) => { setTruckId(id); setShowTruckPicker(false); }}
+        onClear={() => { setTruckId(null); setShowTruckPicker(false); }}
+        onClose={() => setShowTruckPicker(false)}
+      />
+
+      {/* ── Vendor Picker Modal ─────────────── */}
+      <PickerModal
+        visible={showVendorPicker}
+        title="Select Vendor"
+        items={vendors}
+        selectedId={vendorId}
+        onSelect={(id) => { setVendorId(id); setShowVendorPicker(false); }}
+        onClear={() => { setVendorId(null); setShowVendorPicker(false); }}
+        onClose={() => setShowVendorPicker(false)}
+      />
+
+      {/* ── Repair Type Picker Modal ────────── */}
+      <PickerModal
+        visible={typePickerLine !== null}
+        title="Select Repair Type"
+        items={typeItems}
+        selectedId={pickingLine?.repair_type_id || null}
+        onSelect={(id) => {
+          if (typePickerLine) updateLine(typePickerLine, { repair_type_id: id });
+          setTypePickerLine(null);
+        }}
+        onClear={() => {
+          if (typePickerLine) updateLine(typePickerLine, { repair_type_id: null });
+          setTypePickerLine(null);
+        }}
+        onClose={() => setTypePickerLine(null)}
+      />
+
+      {/* ── Date Picker Modal (mobile) ─────── */}
+      <Modal visible={showDatePicker} transparent animationType="fade" onRequestClose={() => setShowDatePicker(false)}>
+        <Pressable style={styles.modalOverlay} onPress={() => setShowDatePicker(false)}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Enter Date</Text>
+            <Text style={styles.modalHint}>Format: YYYY-MM-DD</Text>
+            <TextInput
+              style={styles.modalInput}
+              value={tempDate}
+              onChangeText={setTempDate}
+              placeholder="2026-02-06"
+              keyboardType="numbers-and-punctuation"
+              autoFocus
+            />
+            <View style={styles.modalActions}>
+              <Pressable
+                style={[styles.modalBtn, styles.modalBtnSecondary]}
+                onPress={() => setShowDatePicker(false)}
+              >
+                <Text style={styles.modalBtnSecondaryText}>Cancel</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.modalBtn, styles.modalBtnPrimary]}
+                onPress={() => {
+                  if (/^\d{4}-\d{2}-\d{2}$/.test(tempDate)) {
+                    setDate(tempDate);
+                    setShowDatePicker(false);
+                  } else {
+                    Alert.alert("Invalid date", "Use format YYYY-MM-DD");
+                  }
+                }}
+              >
+                <Text style={styles.modalBtnPrimaryText}>Set Date</Text>
+              </Pressable>
+            </View>
+          </View>
+        </Pressable>
+      </Modal>
+    </View>
+  );
+}
+
+// ── Reusable Picker Modal ──────────────────────────────────
+function PickerModal({
+  visible, title, items, selectedId, onSelect, onClear, onClose,
+}: {
+  visible: boolean;
+  title: string;
+  items: PickerItem[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}) {
+  const [search, setSearch] = useState("");
+
+  const filtered = items.filter((item) =>
+    item.label.toLowerCase().includes(search.toLowerCase())
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.pickerModalOverlay}>
+        <View style={styles.pickerModalContent}>
+          <View style={styles.pickerModalHeader}>
+            <Text style={styles.pickerModalTitle}>{title}</Text>
+            <Pressable onPress={onClose}>
+              <Ionicons name="close" size={24} color="#64748b" />
+            </Pressable>
+          </View>
+
+          {items.length > 5 && (
+            <TextInput
+              style={styles.pickerSearch}
+              value={search}
+              onChangeText={setSearch}
+              placeholder="Search..."
+              placeholderTextColor="#9ca3af"
+              autoFocus={Platform.OS === "web"}
+            />
+          )}
+
+          <ScrollView style={styles.pickerList} keyboardShouldPersistTaps="handled">
+            {selectedId && (
+              <Pressable style={styles.pickerClearRow} onPress={() => { setSearch(""); onClear(); }}>
+                <Ionicons name="close-circle-outline" size={18} color="#dc2626" />
+                <Text style={styles.pickerClearText}>Clear selection</Text>
+              </Pressable>
+            )}
+
+            {filtered.length === 0 ? (
+              <Text style={styles.pickerEmpty}>No items found</Text>
+            ) : (
+              filtered.map((item) => (
+                <Pressable
+                  key={item.id}
+                  style={[
+                    styles.pickerItem,
+                    item.id === selectedId && styles.pickerItemSelected,
+                  ]}
+                  onPress={() => { setSearch(""); onSelect(item.id); }}
+                >
+                  <Text style={[
+                    styles.pickerItemText,
+                    item.id === selectedId && styles.pickerItemTextSelected,
+                  ]}>
+                    {item.label}
+                  </Text>
+                  {item.id === selectedId && (
+                    <Ionicons name="checkmark" size={18} color="#2563eb" />
+                  )}
+                </Pressable>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ── Styles ─────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  headerBtn: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  headerPlaceholder: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+
+  // Labels & inputs
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 6,
+  },
+  sectionLabel: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1e293b",
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: "#1e293b",
+    marginBottom: 16,
+  },
+  textArea: {
+    height: 72,
+    textAlignVertical: "top",
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+
+  // Picker (dropdown) button
+  picker: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 13,
+    marginBottom: 16,
+  },
+  pickerText: {
+    fontSize: 15,
+    color: "#1e293b",
+  },
+  pickerPlaceholder: {
+    fontSize: 15,
+    color: "#9ca3af",
+  },
+
+  // Line items
+  lineHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+  },
+  addLineButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  addLineText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#2563eb",
+  },
+  lineCard: {
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 12,
+  },
+  lineCardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  lineNumber: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#64748b",
+  },
+  lineEmpty: {
+    fontSize: 13,
+    color: "#9ca3af",
+    textAlign: "center",
+    paddingVertical: 12,
+    marginBottom: 12,
+  },
+  computedTotal: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    borderWidth: 1.5,
+    borderColor: "#2563eb",
+    backgroundColor: "#f0f7ff",
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  computedTotalLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  computedTotalValue: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#2563eb",
+  },
+
+  // Amount fields
+  amountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 10,
+    marginBottom: 16,
+    paddingLeft: 14,
+  },
+  currencySymbol: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#64748b",
+    marginRight: 4,
+  },
+  amountInput: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingRight: 14,
+    fontSize: 15,
+    color: "#1e293b",
+  },
+
+  // Divider
+  divider: {
+    height: 1,
+    backgroundColor: "#e5e7eb",
+    marginVertical: 8,
+    marginBottom: 16,
+  },
+
+  // Receipt
+  receiptAttach: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderWidth: 1.5,
+    borderColor: "#d1d5db",
+    borderStyle: "dashed",
+    borderRadius: 10,
+    paddingVertical: 16,
+    marginBottom: 24,
+  },
+  receiptAttachText: {
+    fontSize: 14,
+    color: "#64748b",
+    fontWeight: "500",
+  },
+  receiptLinked: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#f0fdf4",
+    borderWidth: 1,
+    borderColor: "#bbf7d0",
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    marginBottom: 24,
+  },
+  receiptLinkedText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#166534",
+  },
+  receiptRemoveText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#dc2626",
+  },
+
+  // Save button
+  saveButton: {
+    backgroundColor: "#2563eb",
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#2563eb",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+
+  // Picker modal
+  pickerModalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.4)",
+    justifyContent: "flex-end",
+  },
+  pickerModalContent: {
+    backgroundColor: "#ffffff",
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    maxHeight: "70%",
+    paddingBottom: 30,
+  },
+  pickerModalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  pickerModalTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  pickerSearch: {
+    backgroundColor: "#f3f4f6",
+    margin: 12,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#1e293b",
+  },
+  pickerList: {
+    paddingHorizontal: 8,
+  },
+  pickerItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 14,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  pickerItemSelected: {
+    backgroundColor: "#eff6ff",
+  },
+  pickerItemText: {
+    fontSize: 15,
+    color: "#1e293b",
+  },
+  pickerItemTextSelected: {
+    fontWeight: "600",
+    color: "#2563eb",
+  },
+  pickerClearRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+  },
+  pickerClearText: {
+    fontSize: 14,
+    color: "#dc2626",
+    fontWeight: "500",
+  },
+  pickerEmpty: {
+    textAlign: "center",
+    padding: 24,
+    fontSize: 14,
+    color: "#9ca3af",
+  },
+
+  // Date picker modal (mobile)
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modalContent: {
+    backgroundColor: "#ffffff",
+    borderRadius: 12,
+    padding: 20,
+    width: "85%",
+    maxWidth: 360,
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1e293b",
+    marginBottom: 4,
+  },
+  modalHint: {
+    fontSize: 12,
+    color: "#9ca3af",
+    marginBottom: 12,
+  },
+  modalInput: {
+    backgroundColor: "#f9fafb",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#1e293b",
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 10,
+    marginTop: 16,
+  },
+  modalBtn: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  modalBtnSecondary: {
+    backgroundColor: "#f3f4f6",
+  },
+  modalBtnSecondaryText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#64748b",
+  },
+  modalBtnPrimary: {
+    backgroundColor: "#2563eb",
+  },
+  modalBtnPrimaryText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+});
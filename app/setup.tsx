@@ -1,25 +1,68 @@
 import { useState, useEffect } from "react";
-import { View, Text, TextInput, StyleSheet, ScrollView, Pressable, Alert, Platform, Modal, ActivityIndicator, Image } from "react-native";
+import { View, Text, TextInput, StyleSheet, ScrollView, Pressable, Alert, Platform, Modal, ActivityIndicator, Image, Share } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
 import { supabase } from "../lib/supabaseClient";
 import { geocodeAddress } from "../lib/mapbox";
-
-type Tab = "settings" | "trucks" | "locations" | "vendors" | "expense_types";
+import { RepairType } from "../lib/repairs";
+import { ChargeCode, RateType } from "../lib/revenue";
+import { monthlyCostOn, ownershipAlertFor } from "../lib/truckCosts";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  formatSequenceNumber,
+  getSequences,
+  updateSequences,
+  Sequence,
+  SequenceName,
+  SEQUENCE_DEFAULT_START,
+  SEQUENCE_LABELS,
+} from "../lib/sequences";
+import {
+  canManageSetup,
+  createTeamInvite,
+  fetchTeamInvites,
+  fetchTeamMembers,
+  inviteLink,
+  memberName,
+  removeTeamMember,
+  renameTeamMember,
+  revokeTeamInvite,
+  MAX_TEAM_SIZE,
+  TeamInvite,
+  TeamMember,
+} from "../lib/team";
+
+type Tab = "settings" | "trucks" | "locations" | "vendors" | "expense_types" | "repair_types" | "charge_codes" | "team";
+
+// Tabs only the account owner sees; drivers can still add locations, vendors and codes
+const OWNER_TABS: Tab[] = ["settings", "trucks", "charge_codes"];
 
 export default function SetupScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
+  const { role } = useAuth();
+  // Role loads after the screen mounts; until then show the owner's tabs
+  const driverOnly = role != null && !canManageSetup(role);
   const [activeTab, setActiveTab] = useState<Tab>("settings");
 
-  const tabs: { id: Tab; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  useEffect(() => {
+    if (driverOnly && OWNER_TABS.includes(activeTab)) {
+      setActiveTab("locations");
+    }
+  }, [driverOnly]);
+
+  const allTabs: { id: Tab; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
     { id: "settings", label: "Settings", icon: "settings-outline" },
     { id: "trucks", label: "Assets", icon: "car-outline" },
     { id: "locations", label: "Locations", icon: "location-outline" },
     { id: "vendors", label: "Vendors", icon: "storefront-outline" },
     { id: "expense_types", label: "Exp Codes", icon: "pricetag-outline" },
+    { id: "repair_types", label: "Rep Codes", icon: "construct-outline" },
+    { id: "charge_codes", label: "Charges", icon: "cash-outline" },
+    { id: "team", label: "Team", icon: "people-outline" },
   ];
+  const tabs = driverOnly ? allTabs.filter((tab) => !OWNER_TABS.includes(tab.id)) : allTabs;
 
   return (
     <View style={[styles.container, { paddingTop: insets.top }]}>
@@ -72,12 +115,16 @@ export default function SetupScreen() {
         {activeTab === "locations" && <LocationsTab />}
         {activeTab === "vendors" && <VendorsTab />}
         {activeTab === "expense_types" && <ExpenseTypesTab />}
+        {activeTab === "repair_types" && <RepairTypesTab />}
+        {activeTab === "charge_codes" && <ChargeCodesTab />}
+        {activeTab === "team" && <TeamTab />}
       </ScrollView>
     </View>
   );
 }
 
 function SettingsTab() {
+  const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [settings, setSettings] = useState({
@@ -92,14 +139,17 @@ function SettingsTab() {
     default_fuel_unit: "gallons",
     rate_per_mile_loaded: "",
     rate_per_mile_empty: "",
-    trip_number_sequence: "100",
-    order_number_sequence: "1",
   });
+  const [sequences, setSequences] = useState<Sequence[]>([]);
 
   useEffect(() => {
     loadSettings();
   }, []);
 
+  function updateSequence(name: SequenceName, changes: Partial<Sequence>) {
+    setSequences((prev) => prev.map((seq) => (seq.name === name ? { ...seq, ...changes } : seq)));
+  }
+
   async function loadSettings() {
     try {
       const { data: { user }, error: userError } = await supabase.auth.getUser();
@@ -147,10 +197,10 @@ function SettingsTab() {
           default_fuel_unit: data.default_fuel_unit || "gallons",
           rate_per_mile_loaded: data.rate_per_mile_loaded?.toString() || "",
           rate_per_mile_empty: data.rate_per_mile_empty?.toString() || "",
-          trip_number_sequence: data.trip_number_sequence?.toString() || "100",
-          order_number_sequence: data.order_number_sequence?.toString() || "1",
         });
       }
+
+      setSequences(await getSequences());
     } catch (error) {
       console.error("Error loading settings:", error);
     } finally {
@@ -196,13 +246,16 @@ function SettingsTab() {
             default_fuel_unit: settings.default_fuel_unit,
             rate_per_mile_loaded: settings.rate_per_mile_loaded ? parseFloat(settings.rate_per_mile_loaded) : null,
             rate_per_mile_empty: settings.rate_per_mile_empty ? parseFloat(settings.rate_per_mile_empty) : null,
-            trip_number_sequence: parseInt(settings.trip_number_sequence, 10) || 100,
-            order_number_sequence: parseInt(settings.order_number_sequence, 10) || 1,
           },
           { onConflict: "tenant_id" }
         );
 
       if (error) throw error;
+
+      if (sequences.some((seq) => seq.next_value < 1)) {
+        throw new Error("Sequence numbers must be 1 or more.");
+      }
+      await updateSequences(sequences);
       
       Alert.alert("Success", "Settings saved successfully!");
     } catch (error: any) {
@@ -379,6 +432,10 @@ function SettingsTab() {
             </Text>
           </Pressable>
         </View>
+        <Pressable style={styles.linkRow} onPress={() => router.push("/rates")}>
+          <Ionicons name="swap-horizontal-outline" size={14} color="#2563eb" />
+          <Text style={styles.linkText}>Exchange Rates</Text>
+        </Pressable>
       </View>
 
       <View style={styles.formGroup}>
@@ -443,28 +500,63 @@ function SettingsTab() {
 
       <Text style={[styles.sectionTitle, { marginTop: 24 }]}>Sequences</Text>
       <Text style={styles.sequenceHint}>
-        These numbers auto-increment when you create trips or orders. Set the starting value.
+        Trips, orders and invoices are numbered from these. Format codes: {"{N}"} number, {"{0000}"} number padded
+        to 4 digits, {"{YYYY}"} or {"{YY}"} year — e.g. T-{"{YYYY}"}-{"{0000}"}.
       </Text>
-      <View style={styles.formGroup}>
-        <Text style={styles.label}>Trip Number (next trip will use this)</Text>
-        <TextInput
-          style={styles.input}
-          value={settings.trip_number_sequence}
-          onChangeText={(text) => setSettings({ ...settings, trip_number_sequence: text.replace(/\D/g, "") })}
-          placeholder="100"
-          keyboardType="number-pad"
-        />
-      </View>
-      <View style={styles.formGroup}>
-        <Text style={styles.label}>Order Number</Text>
-        <TextInput
-          style={styles.input}
-          value={settings.order_number_sequence}
-          onChangeText={(text) => setSettings({ ...settings, order_number_sequence: text.replace(/\D/g, "") })}
-          placeholder="1"
-          keyboardType="number-pad"
-        />
-      </View>
+      {sequences.map((seq) => (
+        <View key={seq.name} style={styles.sequenceCard}>
+          <Text style={styles.label}>{SEQUENCE_LABELS[seq.name]}</Text>
+          <View style={styles.formRow}>
+            <View style={[styles.formGroup, { flex: 1 }]}>
+              <Text style={styles.sequenceFieldLabel}>Next number</Text>
+              <TextInput
+                style={styles.input}
+                value={String(seq.next_value)}
+                onChangeText={(text) => updateSequence(seq.name, { next_value: parseInt(text.replace(/\D/g, ""), 10) || 0 })}
+                placeholder={String(SEQUENCE_DEFAULT_START[seq.name])}
+                keyboardType="number-pad"
+              />
+            </View>
+            <View style={[styles.formGroup, { flex: 2 }]}>
+              <Text style={styles.sequenceFieldLabel}>Format</Text>
+              <TextInput
+                style={styles.input}
+                value={seq.format}
+                onChangeText={(text) => updateSequence(seq.name, { format: text })}
+                placeholder="{N}"
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+            </View>
+          </View>
+          <Pressable
+            style={styles.checkboxRow}
+            onPress={() =>
+              updateSequence(seq.name, {
+                reset_yearly: !seq.reset_yearly,
+                // Turning resets on counts from this year, so it doesn't restart right away
+                ...(!seq.reset_yearly ? { period_year: new Date().getFullYear() } : {}),
+              })
+            }
+          >
+            <View style={[styles.checkbox, seq.reset_yearly && styles.checkboxChecked]}>
+              {seq.reset_yearly && <Ionicons name="checkmark" size={14} color="#2563eb" />}
+            </View>
+            <Text style={styles.checkboxLabel}>Restart every January at</Text>
+            {seq.reset_yearly && (
+              <TextInput
+                style={[styles.input, styles.sequenceStartInput]}
+                value={String(seq.start_value)}
+                onChangeText={(text) => updateSequence(seq.name, { start_value: parseInt(text.replace(/\D/g, ""), 10) || 0 })}
+                keyboardType="number-pad"
+              />
+            )}
+          </Pressable>
+          <Text style={styles.sequencePreview}>
+            Next: {formatSequenceNumber(seq.format, seq.next_value)}
+          </Text>
+        </View>
+      ))}
 
       <Pressable
         style={[styles.saveButton, saving && styles.saveButtonDisabled]}
@@ -480,6 +572,7 @@ function SettingsTab() {
 }
 
 function TrucksTab() {
+  const router = useRouter();
   const [assets, setAssets] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [editing, setEditing] = useState<any>(null);
@@ -610,45 +703,72 @@ function TrucksTab() {
         </Pressable>
       </View>
 
+      {assets.length > 0 && (
+        <Pressable style={[styles.linkRow, styles.linkRowSpaced]} onPress={() => router.push("/trucks")}>
+          <Ionicons name="calculator-outline" size={14} color="#2563eb" />
+          <Text style={styles.linkText}>Cost of Ownership</Text>
+        </Pressable>
+      )}
+
       {assets.length === 0 ? (
         <Text style={styles.emptyText}>No assets yet. Tap + to add one.</Text>
       ) : (
-        assets.map((asset) => (
-          <View key={asset.id} style={styles.itemCard}>
-            <View style={styles.itemContent}>
-              <View style={styles.itemHeader}>
-                <Text style={styles.itemTitle}>{asset.truck_number}</Text>
-                <View style={styles.badgeRow}>
-                  <View style={[styles.badge, styles.badgeGray]}>
-                    <Text style={styles.badgeTextGray}>{asset.asset_type || 'truck'}</Text>
-                  </View>
-                  <View style={[styles.badge, asset.ownership_type === 'owned' ? styles.badgeGreen : styles.badgeBlue]}>
-                    <Text style={[styles.badgeText, asset.ownership_type === 'owned' ? styles.badgeTextGreen : styles.badgeTextBlue]}>
-                      {asset.ownership_type || 'owned'}
-                    </Text>
+        assets.map((asset) => {
+          const monthlyCost = monthlyCostOn(asset);
+          const alert = ownershipAlertFor(asset);
+          return (
+            <View key={asset.id} style={styles.itemCard}>
+              <View style={styles.itemContent}>
+                <View style={styles.itemHeader}>
+                  <Text style={styles.itemTitle}>{asset.truck_number}</Text>
+                  <View style={styles.badgeRow}>
+                    <View style={[styles.badge, styles.badgeGray]}>
+                      <Text style={styles.badgeTextGray}>{asset.asset_type || 'truck'}</Text>
+                    </View>
+                    <View style={[styles.badge, asset.ownership_type === 'owned' ? styles.badgeGreen : styles.badgeBlue]}>
+                      <Text style={[styles.badgeText, asset.ownership_type === 'owned' ? styles.badgeTextGreen : styles.badgeTextBlue]}>
+                        {asset.ownership_type || 'owned'}
+                      </Text>
+                    </View>
                   </View>
                 </View>
+                {monthlyCost != null && (
+                  <Text style={styles.itemSubtitle}>
+                    ${monthlyCost.toFixed(2)}/month{monthlyCost === 0 ? (asset.ownership_type === "leased" ? " · lease ended" : " · paid off") : ""}
+                  </Text>
+                )}
+                {alert && (
+                  <Text style={styles.alertText}>
+                    {alert.kind === "lease_buyoff" ? "Lease buyoff" : "Amortization ends"} {alert.date} ({alert.daysLeft} days)
+                  </Text>
+                )}
+              </View>
+              <View style={styles.itemActions}>
+                <Pressable
+                  onPress={() => router.push(`/trucks/${asset.id}`)}
+                  style={styles.iconButton}
+                >
+                  <Ionicons name="calendar-outline" size={16} color="#6b7280" />
+                </Pressable>
+                <Pressable
+                  onPress={() => {
+                    setEditing(asset);
+                    setShowForm(true);
+                  }}
+                  style={styles.iconButton}
+                >
+                  <Ionicons name="pencil" size={16} color="#6b7280" />
+                </Pressable>
+                <Pressable
+                  onPress={() => deleteAsset(asset.id)}
+                  style={styles.iconButton}
+                >
+                  <Ionicons name="trash" size={16} color="#dc2626" />
+                </Pressable>
               </View>
             </View>
-            <View style={styles.itemActions}>
-              <Pressable
-                onPress={() => {
-                  setEditing(asset);
-                  setShowForm(true);
-                }}
-                style={styles.iconButton}
-              >
-                <Ionicons name="pencil" size={16} color="#6b7280" />
-              </Pressable>
-              <Pressable
-                onPress={() => deleteAsset(asset.id)}
-                style={styles.iconButton}
-              >
-                <Ionicons name="trash" size={16} color="#dc2626" />
-              </Pressable>
-            </View>
-          </View>
-        ))
+          );
+        })
       )}
     </View>
   );
@@ -749,6 +869,7 @@ function AssetForm({ asset, onSave, onCancel }: any) {
     amortization_period: asset?.amortization_period?.toString() || "",
     residual_value: asset?.residual_value?.toString() || "",
     // Leased fields
+    lease_start_date: asset?.lease_start_date || "",
     lease_monthly_rate: asset?.lease_monthly_rate?.toString() || "",
     lease_years: asset?.lease_years?.toString() || "",
     lease_buyoff: asset?.lease_buyoff?.toString() || "",
@@ -767,10 +888,12 @@ function AssetForm({ asset, onSave, onCancel }: any) {
       dataToSave.amortization_period = formData.amortization_period ? parseFloat(formData.amortization_period) : null;
       dataToSave.residual_value = formData.residual_value ? parseFloat(formData.residual_value) : null;
       // Clear lease fields
+      dataToSave.lease_start_date = null;
       dataToSave.lease_monthly_rate = null;
       dataToSave.lease_years = null;
       dataToSave.lease_buyoff = null;
     } else {
+      dataToSave.lease_start_date = formData.lease_start_date || null;
       dataToSave.lease_monthly_rate = formData.lease_monthly_rate ? parseFloat(formData.lease_monthly_rate) : null;
       dataToSave.lease_years = formData.lease_years ? parseFloat(formData.lease_years) : null;
       dataToSave.lease_buyoff = formData.lease_buyoff ? parseFloat(formData.lease_buyoff) : null;
@@ -936,6 +1059,15 @@ function AssetForm({ asset, onSave, onCancel }: any) {
           <View style={styles.divider} />
           <Text style={styles.subsectionTitle}>Lease Details</Text>
 
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Lease Start Date</Text>
+            <DateInput
+              value={formData.lease_start_date}
+              onChangeDate={(date: string) => setFormData({ ...formData, lease_start_date: date })}
+              placeholder="Select lease start date"
+            />
+          </View>
+
           <View style={styles.formGroup}>
             <Text style={styles.label}>Monthly Lease Rate</Text>
             <TextInput
@@ -2122,198 +2254,1042 @@ function ExpenseTypeForm({ expenseType, onSave, onCancel }: {
   );
 }
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: "#f9fafb",
-  },
-  header: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    backgroundColor: "#ffffff",
-    borderBottomWidth: 1,
-    borderBottomColor: "#e5e7eb",
-  },
-  backButton: {
-    padding: 2,
-  },
-  title: {
-    fontSize: 18,
-    fontWeight: "700",
-    color: "#1e293b",
-  },
-  placeholder: {
-    width: 28,
-  },
-  tabContainer: {
-    backgroundColor: "#ffffff",
-    borderBottomWidth: 1,
-    borderBottomColor: "#e5e7eb",
-    maxHeight: 56,
-  },
-  tabScrollContent: {
-    paddingHorizontal: 16,
-    alignItems: "center",
-  },
-  tab: {
-    flexDirection: "row",
-    alignItems: "center",
-    paddingHorizontal: 16,
-    paddingVertical: 14,
-    marginRight: 8,
-    gap: 6,
-    borderBottomWidth: 3,
-    borderBottomColor: "transparent",
-  },
-  tabActive: {
-    borderBottomWidth: 3,
-    borderBottomColor: "#2563eb",
-  },
-  tabLabel: {
-    fontSize: 14,
-    fontWeight: "500",
-    color: "#64748b",
-  },
-  tabLabelActive: {
-    color: "#2563eb",
-    fontWeight: "600",
-  },
-  content: {
-    flex: 1,
-    backgroundColor: "#f9fafb",
-  },
-  contentInner: {
-    padding: 16,
-  },
-  tabContent: {
-    
-  },
-  sectionTitle: {
-    fontSize: 18,
-    fontWeight: "700",
-    color: "#1e293b",
-    marginBottom: 16,
-  },
-  formGroup: {
-    marginBottom: 12,
-  },
-  sequenceHint: {
-    fontSize: 12,
-    color: "#6b7280",
-    marginBottom: 12,
-    lineHeight: 16,
-  },
-  label: {
-    fontSize: 11,
-    fontWeight: "600",
-    color: "#6b7280",
-    marginBottom: 4,
-    textTransform: "uppercase",
-    letterSpacing: 0.5,
-  },
-  input: {
-    backgroundColor: "#ffffff",
-    borderWidth: 1,
-    borderColor: "#e5e7eb",
-    borderRadius: 6,
-    paddingHorizontal: 10,
-    paddingVertical: 8,
-    fontSize: 13,
-    color: "#1e293b",
-  },
-  radioGroup: {
-    flexDirection: "row",
-    gap: 8,
-  },
-  radioButton: {
-    flex: 1,
-    paddingVertical: 8,
-    paddingHorizontal: 10,
-    borderRadius: 6,
-    borderWidth: 1,
-    borderColor: "#e5e7eb",
-    backgroundColor: "#ffffff",
-    alignItems: "center",
-  },
-  radioButtonActive: {
-    borderColor: "#2563eb",
-    backgroundColor: "#eff6ff",
-  },
-  radioLabel: {
-    fontSize: 12,
-    fontWeight: "500",
-    color: "#6b7280",
-  },
-  radioLabelActive: {
-    color: "#2563eb",
-    fontWeight: "600",
-  },
-  saveButton: {
-    backgroundColor: "#2563eb",
-    borderRadius: 6,
-    paddingVertical: 10,
-    paddingHorizontal: 14,
-    alignItems: "center",
-    marginTop: 4,
-  },
-  saveButtonDisabled: {
-    opacity: 0.6,
-  },
-  saveButtonText: {
-    color: "#ffffff",
-    fontSize: 13,
-    fontWeight: "600",
-  },
-  loadingContainer: {
-    padding: 14,
-    alignItems: "center",
-  },
-  loadingText: {
-    fontSize: 12,
-    color: "#6b7280",
-  },
-  comingSoon: {
-    fontSize: 12,
-    color: "#6b7280",
-    fontStyle: "italic",
-  },
-  headerRow: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    marginBottom: 10,
-  },
-  addButton: {
-    padding: 2,
-  },
-  itemCard: {
-    backgroundColor: "#ffffff",
-    borderRadius: 6,
-    paddingVertical: 10,
-    paddingHorizontal: 12,
-    marginBottom: 6,
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-    borderWidth: 1,
-    borderColor: "#e5e7eb",
-  },
-  itemContent: {
-    flex: 1,
-  },
-  itemTitle: {
-    fontSize: 13,
-    fontWeight: "600",
-    color: "#1e293b",
+// ── Repair Types Tab ───────────────────────────────────────
+function RepairTypesTab() {
+  const [repairTypes, setRepairTypes] = useState<RepairType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<RepairType | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  useEffect(() => {
+    loadRepairTypes();
+  }, []);
+
+  async function loadRepairTypes() {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: tenantUser } = await supabase
+        .from("tenant_users")
+        .select("tenant_id")
+        .eq("user_id", user.id)
+        .single();
+
+      if (!tenantUser) return;
+
+      const { data, error } = await supabase
+        .from("repair_types")
+        .select("*")
+        .eq("tenant_id", tenantUser.tenant_id)
+        .order("sort_order", { ascending: true })
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      setRepairTypes(data || []);
+    } catch (error) {
+      console.error("Error loading repair types:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function saveRepairType(formData: RepairTypeFormData) {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: tenantUser } = await supabase
+        .from("tenant_users")
+        .select("tenant_id")
+        .eq("user_id", user.id)
+        .single();
+
+      if (!tenantUser) return;
+
+      const payload = {
+        name: formData.name?.trim() || "",
+        sort_order: parseInt(formData.sort_order) || 0,
+      };
+
+      if (!payload.name) {
+        Alert.alert("Error", "Name is required.");
+        return;
+      }
+
+      if (editing) {
+        const { error } = await supabase
+          .from("repair_types")
+          .update(payload)
+          .eq("id", editing.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("repair_types")
+          .insert({
+            ...payload,
+            tenant_id: tenantUser.tenant_id,
+          });
+        if (error) throw error;
+      }
+
+      Alert.alert("Success", "Repair type saved!");
+      setShowForm(false);
+      setEditing(null);
+      loadRepairTypes();
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message);
+    }
+  }
+
+  async function deleteRepairType(id: string) {
+    Alert.alert(
+      "Delete Repair Type",
+      "Are you sure? Existing repair lines keep their type name.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            const { error } = await supabase.from("repair_types").delete().eq("id", id);
+            if (error) {
+              Alert.alert("Error", error.message);
+            } else {
+              loadRepairTypes();
+            }
+          },
+        },
+      ]
+    );
+  }
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading repair types...</Text>
+      </View>
+    );
+  }
+
+  if (showForm) {
+    return (
+      <RepairTypeForm
+        repairType={editing}
+        onSave={saveRepairType}
+        onCancel={() => {
+          setShowForm(false);
+          setEditing(null);
+        }}
+      />
+    );
+  }
+
+  return (
+    <View style={styles.tabContent}>
+      <View style={styles.headerRow}>
+        <Text style={styles.sectionTitle}>Repair Types</Text>
+        <Pressable
+          style={styles.addButton}
+          onPress={() => setShowForm(true)}
+        >
+          <Ionicons name="add-circle" size={18} color="#2563eb" />
+        </Pressable>
+      </View>
+
+      {repairTypes.length === 0 ? (
+        <Text style={styles.emptyText}>No repair types yet. Tap + to add one (e.g. Brakes, Tires, PM Service).</Text>
+      ) : (
+        repairTypes.map((rt) => (
+          <View key={rt.id} style={styles.itemCard}>
+            <View style={styles.itemContent}>
+              <Text style={styles.itemTitle}>{rt.name}</Text>
+              <Text style={styles.itemSubtitle}>Sort order {rt.sort_order ?? 0}</Text>
+            </View>
+            <View style={styles.itemActions}>
+              <Pressable
+                onPress={() => {
+                  setEditing(rt);
+                  setShowForm(true);
+                }}
+                style={styles.iconButton}
+              >
+                <Ionicons name="pencil" size={16} color="#6b7280" />
+              </Pressable>
+              <Pressable
+                onPress={() => deleteRepairType(rt.id)}
+                style={styles.iconButton}
+              >
+                <Ionicons name="trash" size={16} color="#dc2626" />
+              </Pressable>
+            </View>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+type RepairTypeFormData = { name: string; sort_order: string };
+
+function RepairTypeForm({ repairType, onSave, onCancel }: {
+  repairType: RepairType | null;
+  onSave: (data: RepairTypeFormData) => void;
+  onCancel: () => void;
+}) {
+  const [formData, setFormData] = useState({
+    name: repairType?.name || "",
+    sort_order: String(repairType?.sort_order ?? 0),
+  });
+
+  return (
+    <ScrollView style={styles.tabContent}>
+      <Text style={styles.sectionTitle}>{repairType ? "Edit Repair Type" : "New Repair Type"}</Text>
+
+      <View style={styles.formGroup}>
+        <Text style={styles.label}>Name *</Text>
+        <TextInput
+          style={styles.input}
+          value={formData.name}
+          onChangeText={(text) => setFormData({ ...formData, name: text })}
+          placeholder="e.g., Brakes"
+        />
+      </View>
+
+      <View style={styles.formGroup}>
+        <Text style={styles.label}>Sort Order</Text>
+        <TextInput
+          style={styles.input}
+          value={formData.sort_order}
+          onChangeText={(text) => setFormData({ ...formData, sort_order: text })}
+          placeholder="0"
+          keyboardType="number-pad"
+        />
+      </View>
+
+      <View style={styles.formActions}>
+        <Pressable
+          style={[styles.button, styles.buttonSecondary]}
+          onPress={onCancel}
+        >
+          <Text style={styles.buttonSecondaryText}>Cancel</Text>
+        </Pressable>
+        <Pressable
+          style={[styles.button, styles.buttonPrimary]}
+          onPress={() => onSave(formData)}
+        >
+          <Text style={styles.buttonPrimaryText}>Save</Text>
+        </Pressable>
+      </View>
+    </ScrollView>
+  );
+}
+
+// ── Charge Codes Tab ───────────────────────────────────────
+function ChargeCodesTab() {
+  const [chargeCodes, setChargeCodes] = useState<ChargeCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<ChargeCode | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  useEffect(() => {
+    loadChargeCodes();
+  }, []);
+
+  async function loadChargeCodes() {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: tenantUser } = await supabase
+        .from("tenant_users")
+        .select("tenant_id")
+        .eq("user_id", user.id)
+        .single();
+
+      if (!tenantUser) return;
+
+      const { data, error } = await supabase
+        .from("charge_codes")
+        .select("*")
+        .eq("tenant_id", tenantUser.tenant_id)
+        .order("sort_order", { ascending: true })
+        .order("code", { ascending: true });
+
+      if (error) throw error;
+      setChargeCodes(data || []);
+    } catch (error) {
+      console.error("Error loading charge codes:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function saveChargeCode(formData: ChargeCodeFormData) {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: tenantUser } = await supabase
+        .from("tenant_users")
+        .select("tenant_id")
+        .eq("user_id", user.id)
+        .single();
+
+      if (!tenantUser) return;
+
+      const payload = {
+        code: formData.code?.trim().toUpperCase() || "",
+        description: formData.description?.trim() || null,
+        rate_type: formData.rate_type,
+        amount: parseFloat(formData.amount) || 0,
+        sort_order: parseInt(formData.sort_order) || 0,
+      };
+
+      if (!payload.code) {
+        Alert.alert("Error", "Code is required.");
+        return;
+      }
+
+      if (editing) {
+        const { error } = await supabase
+          .from("charge_codes")
+          .update(payload)
+          .eq("id", editing.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("charge_codes")
+          .insert({
+            ...payload,
+            tenant_id: tenantUser.tenant_id,
+          });
+        if (error) throw error;
+      }
+
+      Alert.alert("Success", "Charge code saved!");
+      setShowForm(false);
+      setEditing(null);
+      loadChargeCodes();
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message);
+    }
+  }
+
+  async function deleteChargeCode(id: string) {
+    Alert.alert(
+      "Delete Charge Code",
+      "Are you sure? Trips already charged with this code keep their amounts.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            const { error } = await supabase.from("charge_codes").delete().eq("id", id);
+            if (error) {
+              Alert.alert("Error", error.message);
+            } else {
+              loadChargeCodes();
+            }
+          },
+        },
+      ]
+    );
+  }
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading charge codes...</Text>
+      </View>
+    );
+  }
+
+  if (showForm) {
+    return (
+      <ChargeCodeForm
+        chargeCode={editing}
+        onSave={saveChargeCode}
+        onCancel={() => {
+          setShowForm(false);
+          setEditing(null);
+        }}
+      />
+    );
+  }
+
+  return (
+    <View style={styles.tabContent}>
+      <View style={styles.headerRow}>
+        <Text style={styles.sectionTitle}>Charge Codes</Text>
+        <Pressable
+          style={styles.addButton}
+          onPress={() => setShowForm(true)}
+        >
+          <Ionicons name="add-circle" size={18} color="#2563eb" />
+        </Pressable>
+      </View>
+
+      {chargeCodes.length === 0 ? (
+        <Text style={styles.emptyText}>No charge codes yet. Tap + to add one (e.g. LH per mile, FSC, DET).</Text>
+      ) : (
+        chargeCodes.map((cc) => (
+          <View key={cc.id} style={styles.itemCard}>
+            <View style={styles.itemContent}>
+              <Text style={styles.itemTitle}>{cc.code}</Text>
+              <Text style={styles.itemSubtitle}>
+                ${Number(cc.amount || 0).toFixed(2)} {cc.rate_type === "per_mile" ? "per mile" : "flat"}
+                {cc.description ? ` · ${cc.description}` : ""}
+              </Text>
+            </View>
+            <View style={styles.itemActions}>
+              <Pressable
+                onPress={() => {
+                  setEditing(cc);
+                  setShowForm(true);
+                }}
+                style={styles.iconButton}
+              >
+                <Ionicons name="pencil" size={16} color="#6b7280" />
+              </Pressable>
+              <Pressable
+                onPress={() => deleteChargeCode(cc.id)}
+                style={styles.iconButton}
+              >
+                <Ionicons name="trash" size={16} color="#dc2626" />
+              </Pressable>
+            </View>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+type ChargeCodeFormData = {
+  code: string;
+  description: string;
+  rate_type: RateType;
+  amount: string;
+  sort_order: string;
+};
+
+function ChargeCodeForm({ chargeCode, onSave, onCancel }: {
+  chargeCode: ChargeCode | null;
+  onSave: (data: ChargeCodeFormData) => void;
+  onCancel: () => void;
+}) {
+  const [formData, setFormData] = useState<ChargeCodeFormData>({
+    code: chargeCode?.code || "",
+    description: chargeCode?.description || "",
+    rate_type: chargeCode?.rate_type || "flat",
+    amount: chargeCode?.amount != null ? String(chargeCode.amount) : "",
+    sort_order: String(chargeCode?.sort_order ?? 0),
+  });
+
+  return (
+    <ScrollView style={styles.tabContent}>
+      <Text style={styles.sectionTitle}>{chargeCode ? "Edit Charge Code" : "New Charge Code"}</Text>
+
+      <View style={styles.formGroup}>
+        <Text style={styles.label}>Code *</Text>
+        <TextInput
+          style={styles.input}
+          value={formData.code}
+          onChangeText={(text) => setFormData({ ...formData, code: text })}
+          placeholder="e.g., LH, FSC, DET"
+          autoCapitalize="characters"
+        />
+      </View>
+
+      <View style={styles.formGroup}>
+        <Text style={styles.label}>Description</Text>
+        <TextInput
+          style={styles.input}
+          value={formData.description}
+          onChangeText={(text) => setFormData({ ...formData, description: text })}
+          placeholder="e.g., Linehaul"
+        />
+      </View>
+
+      <View style={styles.formGroup}>
+        <Text style={styles.label}>Rate Type</Text>
+        <View style={styles.radioGroup}>
+          <Pressable
+            style={[
+              styles.radioButton,
+              formData.rate_type === "flat" && styles.radioButtonActive,
+            ]}
+            onPress={() => setFormData({ ...formData, rate_type: "flat" })}
+          >
+            <Text
+              style={[
+                styles.radioLabel,
+                formData.rate_type === "flat" && styles.radioLabelActive,
+              ]}
+            >
+              Flat
+            </Text>
+          </Pressable>
+          <Pressable
+            style={[
+              styles.radioButton,
+              formData.rate_type === "per_mile" && styles.radioButtonActive,
+            ]}
+            onPress={() => setFormData({ ...formData, rate_type: "per_mile" })}
+          >
+            <Text
+              style={[
+                styles.radioLabel,
+                formData.rate_type === "per_mile" && styles.radioLabelActive,
+              ]}
+            >
+              Per Mile
+            </Text>
+          </Pressable>
+        </View>
+      </View>
+
+      <View style={styles.formRow}>
+        <View style={[styles.formGroup, { flex: 1 }]}>
+          <Text style={styles.label}>{formData.rate_type === "per_mile" ? "Rate / Mile" : "Amount"}</Text>
+          <TextInput
+            style={styles.input}
+            value={formData.amount}
+            onChangeText={(text) => setFormData({ ...formData, amount: text })}
+            placeholder="0.00"
+            keyboardType="decimal-pad"
+          />
+        </View>
+        <View style={[styles.formGroup, { flex: 1 }]}>
+          <Text style={styles.label}>Sort Order</Text>
+          <TextInput
+            style={styles.input}
+            value={formData.sort_order}
+            onChangeText={(text) => setFormData({ ...formData, sort_order: text })}
+            placeholder="0"
+            keyboardType="number-pad"
+          />
+        </View>
+      </View>
+
+      <View style={styles.formActions}>
+        <Pressable
+          style={[styles.button, styles.buttonSecondary]}
+          onPress={onCancel}
+        >
+          <Text style={styles.buttonSecondaryText}>Cancel</Text>
+        </Pressable>
+        <Pressable
+          style={[styles.button, styles.buttonPrimary]}
+          onPress={() => onSave(formData)}
+        >
+          <Text style={styles.buttonPrimaryText}>Save</Text>
+        </Pressable>
+      </View>
+    </ScrollView>
+  );
+}
+
+// ── Team Tab ───────────────────────────────────────────────
+function TeamTab() {
+  const { user, role } = useAuth();
+  const isOwner = canManageSetup(role);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [invites, setInvites] = useState<TeamInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [renaming, setRenaming] = useState<TeamMember | null>(null);
+  const [nameInput, setNameInput] = useState("");
+  const [showInviteForm, setShowInviteForm] = useState(false);
+  const [inviteName, setInviteName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+
+  useEffect(() => {
+    loadTeam();
+  }, [isOwner]);
+
+  async function loadTeam() {
+    try {
+      const [memberRows, inviteRows] = await Promise.all([
+        fetchTeamMembers(),
+        isOwner ? fetchTeamInvites() : Promise.resolve([] as TeamInvite[]),
+      ]);
+      setMembers(memberRows);
+      setInvites(inviteRows);
+    } catch (error) {
+      console.error("Error loading team:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function saveName() {
+    if (!renaming) return;
+    try {
+      await renameTeamMember(renaming.id, nameInput);
+      setRenaming(null);
+      loadTeam();
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message);
+    }
+  }
+
+  async function sendInvite() {
+    try {
+      const invite = await createTeamInvite({ display_name: inviteName, email: inviteEmail });
+      setShowInviteForm(false);
+      setInviteName("");
+      setInviteEmail("");
+      loadTeam();
+      shareInvite(invite);
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message);
+    }
+  }
+
+  async function shareInvite(invite: TeamInvite) {
+    try {
+      await Share.share({
+        message: `Join my TripTracker account as a driver. Sign up with invite code ${invite.code}: ${inviteLink(invite.code)}`,
+      });
+    } catch (error) {
+      console.error("Error sharing invite:", error);
+    }
+  }
+
+  function confirmRevoke(invite: TeamInvite) {
+    Alert.alert("Revoke Invite", `Code ${invite.code} will stop working.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Revoke",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await revokeTeamInvite(invite.id);
+            loadTeam();
+          } catch (error) {
+            Alert.alert("Error", (error as Error).message);
+          }
+        },
+      },
+    ]);
+  }
+
+  function confirmRemove(member: TeamMember) {
+    Alert.alert(
+      "Remove Driver",
+      `${memberName(member)} will lose access to this account. Trips they drove keep their assignment history.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await removeTeamMember(member.id);
+              loadTeam();
+            } catch (error) {
+              Alert.alert("Error", (error as Error).message);
+            }
+          },
+        },
+      ]
+    );
+  }
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading team...</Text>
+      </View>
+    );
+  }
+
+  const teamFull = members.length + invites.length >= MAX_TEAM_SIZE;
+
+  return (
+    <View style={styles.tabContent}>
+      <View style={styles.headerRow}>
+        <Text style={styles.sectionTitle}>Team</Text>
+        {isOwner && !teamFull && !showInviteForm && (
+          <Pressable style={styles.addButton} onPress={() => setShowInviteForm(true)}>
+            <Ionicons name="person-add" size={18} color="#2563eb" />
+          </Pressable>
+        )}
+      </View>
+
+      {!isOwner && (
+        <Text style={styles.sequenceHint}>
+          Only the account owner can change settings, pay rates, trucks, charge codes and the team.
+        </Text>
+      )}
+
+      {members.map((member) => (
+        <View key={member.id} style={styles.itemCard}>
+          {renaming?.id === member.id ? (
+            <View style={styles.itemContent}>
+              <TextInput
+                style={styles.input}
+                value={nameInput}
+                onChangeText={setNameInput}
+                placeholder="Name"
+                autoFocus
+              />
+              <View style={styles.formActions}>
+                <Pressable style={[styles.button, styles.buttonSecondary]} onPress={() => setRenaming(null)}>
+                  <Text style={styles.buttonSecondaryText}>Cancel</Text>
+                </Pressable>
+                <Pressable style={[styles.button, styles.buttonPrimary]} onPress={saveName}>
+                  <Text style={styles.buttonPrimaryText}>Save</Text>
+                </Pressable>
+              </View>
+            </View>
+          ) : (
+            <>
+              <View style={styles.itemContent}>
+                <Text style={styles.itemTitle}>
+                  {memberName(member)}
+                  {member.user_id === user?.id ? " (you)" : ""}
+                </Text>
+                <View style={styles.badgeRow}>
+                  <View style={[styles.badge, member.role === "owner" ? styles.badgeBlue : styles.badgeGray]}>
+                    <Text style={member.role === "owner" ? styles.badgeTextBlue : styles.badgeTextGray}>
+                      {member.role}
+                    </Text>
+                  </View>
+                </View>
+              </View>
+              {isOwner && (
+                <View style={styles.itemActions}>
+                  <Pressable
+                    onPress={() => {
+                      setRenaming(member);
+                      setNameInput(member.display_name || "");
+                    }}
+                    style={styles.iconButton}
+                  >
+                    <Ionicons name="pencil" size={16} color="#6b7280" />
+                  </Pressable>
+                  {member.role === "driver" && (
+                    <Pressable onPress={() => confirmRemove(member)} style={styles.iconButton}>
+                      <Ionicons name="trash" size={16} color="#dc2626" />
+                    </Pressable>
+                  )}
+                </View>
+              )}
+            </>
+          )}
+        </View>
+      ))}
+
+      {isOwner && invites.length > 0 && (
+        <>
+          <Text style={styles.subsectionTitle}>Pending Invites</Text>
+          {invites.map((invite) => (
+            <View key={invite.id} style={styles.itemCard}>
+              <View style={styles.itemContent}>
+                <Text style={styles.itemTitle}>{invite.code}</Text>
+                <Text style={styles.itemSubtitle}>
+                  {[invite.display_name, invite.email].filter(Boolean).join(" · ") || "Driver"}
+                  {` · expires ${new Date(invite.expires_at).toLocaleDateString("en-US", { month: "short", day: "numeric" })}`}
+                </Text>
+              </View>
+              <View style={styles.itemActions}>
+                <Pressable onPress={() => shareInvite(invite)} style={styles.iconButton}>
+                  <Ionicons name="share-outline" size={16} color="#2563eb" />
+                </Pressable>
+                <Pressable onPress={() => confirmRevoke(invite)} style={styles.iconButton}>
+                  <Ionicons name="close-circle" size={16} color="#dc2626" />
+                </Pressable>
+              </View>
+            </View>
+          ))}
+        </>
+      )}
+
+      {isOwner && showInviteForm && (
+        <>
+          <Text style={styles.subsectionTitle}>Invite a Driver</Text>
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Name</Text>
+            <TextInput
+              style={styles.input}
+              value={inviteName}
+              onChangeText={setInviteName}
+              placeholder="Driver's name"
+            />
+          </View>
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Email</Text>
+            <TextInput
+              style={styles.input}
+              value={inviteEmail}
+              onChangeText={setInviteEmail}
+              placeholder="For your reference"
+              keyboardType="email-address"
+              autoCapitalize="none"
+            />
+          </View>
+          <Text style={styles.sequenceHint}>
+            The driver signs up with the invite code to join this account. Codes expire after 7 days.
+          </Text>
+          <View style={styles.formActions}>
+            <Pressable style={[styles.button, styles.buttonSecondary]} onPress={() => setShowInviteForm(false)}>
+              <Text style={styles.buttonSecondaryText}>Cancel</Text>
+            </Pressable>
+            <Pressable style={[styles.button, styles.buttonPrimary]} onPress={sendInvite}>
+              <Text style={styles.buttonPrimaryText}>Create Invite</Text>
+            </Pressable>
+          </View>
+        </>
+      )}
+
+      {isOwner && teamFull && invites.length === 0 && (
+        <Text style={styles.emptyText}>
+          Your team is full ({MAX_TEAM_SIZE} people). Remove the driver to invite someone else.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 2,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  placeholder: {
+    width: 28,
+  },
+  tabContainer: {
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    maxHeight: 56,
+  },
+  tabScrollContent: {
+    paddingHorizontal: 16,
+    alignItems: "center",
+  },
+  tab: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginRight: 8,
+    gap: 6,
+    borderBottomWidth: 3,
+    borderBottomColor: "transparent",
+  },
+  tabActive: {
+    borderBottomWidth: 3,
+    borderBottomColor: "#2563eb",
+  },
+  tabLabel: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#64748b",
+  },
+  tabLabelActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+  content: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  contentInner: {
+    padding: 16,
+  },
+  tabContent: {
+    
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+    marginBottom: 16,
+  },
+  formGroup: {
+    marginBottom: 12,
+  },
+  linkRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 8,
+  },
+  linkText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#2563eb",
+  },
+  linkRowSpaced: {
+    marginTop: 0,
+    marginBottom: 10,
+  },
+  sequenceCard: {
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  sequenceFieldLabel: {
+    fontSize: 11,
+    color: "#6b7280",
+    marginBottom: 4,
+  },
+  sequenceStartInput: {
+    marginLeft: 8,
+    paddingVertical: 4,
+    minWidth: 70,
+  },
+  sequencePreview: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#2563eb",
+    marginTop: 6,
+  },
+  sequenceHint: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#6b7280",
+    marginBottom: 4,
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  input: {
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 13,
+    color: "#1e293b",
+  },
+  radioGroup: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  radioButton: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    backgroundColor: "#ffffff",
+    alignItems: "center",
+  },
+  radioButtonActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  radioLabel: {
+    fontSize: 12,
+    fontWeight: "500",
+    color: "#6b7280",
+  },
+  radioLabelActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+  saveButton: {
+    backgroundColor: "#2563eb",
+    borderRadius: 6,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    alignItems: "center",
+    marginTop: 4,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: "#ffffff",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  loadingContainer: {
+    padding: 14,
+    alignItems: "center",
+  },
+  loadingText: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  comingSoon: {
+    fontSize: 12,
+    color: "#6b7280",
+    fontStyle: "italic",
+  },
+  headerRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  addButton: {
+    padding: 2,
+  },
+  itemCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 6,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    marginBottom: 6,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  itemContent: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1e293b",
     marginBottom: 2,
   },
   itemSubtitle: {
     fontSize: 11,
     color: "#6b7280",
   },
+  alertText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#d97706",
+    marginTop: 2,
+  },
   itemActions: {
     flexDirection: "row",
     gap: 4,
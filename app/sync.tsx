@@ -0,0 +1,247 @@
+import { View, Text, StyleSheet, Pressable, ScrollView, ActivityIndicator, Alert } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { useSync } from "../contexts/SyncContext";
+import { OutboxEntry, SyncConflict } from "../lib/offline";
+
+const TABLE_LABELS: Record<string, string> = {
+  stops: "stop",
+  trips: "trip",
+  misc_expenses: "expense",
+  receipts: "receipt",
+};
+
+const OP_LABELS: Record<OutboxEntry["op"], string> = {
+  insert: "Add",
+  update: "Edit",
+  delete: "Delete",
+};
+
+function formatWhen(iso: string) {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function describeConflict(c: SyncConflict) {
+  const what = TABLE_LABELS[c.table] || c.table;
+  if (c.resolution === "deleted") {
+    return `The ${what} was deleted on another device; your edit was dropped.`;
+  }
+  const fields = c.fields.join(", ");
+  return c.resolution === "local"
+    ? `Edited on another device too — kept your ${fields}.`
+    : `Edited more recently on another device — kept their ${fields}.`;
+}
+
+export default function SyncScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const {
+    entries,
+    conflicts,
+    pendingReceipts,
+    syncing,
+    lastSyncedAt,
+    syncNow,
+    retry,
+    discard,
+    dismissConflicts,
+  } = useSync();
+
+  function confirmDiscard(entry: OutboxEntry) {
+    Alert.alert(
+      "Discard Change",
+      "This change has not reached the server and will be lost.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Discard", style: "destructive", onPress: () => discard(entry.id) },
+      ]
+    );
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={20} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.title}>Sync</Text>
+        <Pressable onPress={() => syncNow()} disabled={syncing} style={styles.backButton}>
+          {syncing ? (
+            <ActivityIndicator size="small" color="#2563eb" />
+          ) : (
+            <Ionicons name="sync" size={20} color="#2563eb" />
+          )}
+        </Pressable>
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.list}>
+        <Text style={styles.statusText}>
+          {entries.length === 0
+            ? "All changes are synced."
+            : `${entries.length} change${entries.length !== 1 ? "s" : ""} waiting to sync.`}
+          {lastSyncedAt ? ` Last synced ${formatWhen(lastSyncedAt)}.` : ""}
+        </Text>
+
+        {/* Receipt photos still on the device */}
+        {pendingReceipts.length > 0 && (
+          <Pressable onPress={() => router.push("/receipts")} style={styles.card}>
+            <Ionicons name="image-outline" size={16} color="#d97706" />
+            <View style={styles.cardBody}>
+              <Text style={styles.cardTitle}>
+                {pendingReceipts.length} receipt photo{pendingReceipts.length !== 1 ? "s" : ""} waiting to upload
+              </Text>
+              <Text style={styles.cardMeta}>Retries automatically with backoff</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={16} color="#9ca3af" />
+          </Pressable>
+        )}
+
+        {/* Outbox */}
+        {entries.map((entry) => (
+          <View key={entry.id} style={styles.card}>
+            <Ionicons
+              name={entry.status === "failed" ? "alert-circle" : "cloud-upload-outline"}
+              size={16}
+              color={entry.status === "failed" ? "#dc2626" : "#d97706"}
+            />
+            <View style={styles.cardBody}>
+              <Text style={styles.cardTitle}>
+                {OP_LABELS[entry.op]} {TABLE_LABELS[entry.table] || entry.table}
+              </Text>
+              <Text style={styles.cardMeta}>{formatWhen(entry.editedAt)}</Text>
+              {entry.lastError ? (
+                <Text style={styles.cardError} numberOfLines={2}>
+                  {entry.lastError}
+                </Text>
+              ) : null}
+            </View>
+            {entry.status === "failed" && (
+              <Pressable onPress={() => retry(entry.id)} hitSlop={6} style={styles.cardAction}>
+                <Ionicons name="refresh" size={16} color="#2563eb" />
+              </Pressable>
+            )}
+            <Pressable onPress={() => confirmDiscard(entry)} hitSlop={6} style={styles.cardAction}>
+              <Ionicons name="trash-outline" size={16} color="#9ca3af" />
+            </Pressable>
+          </View>
+        ))}
+
+        {/* Conflicts resolved during replay */}
+        {conflicts.length > 0 && (
+          <>
+            <View style={styles.sectionRow}>
+              <Text style={styles.sectionTitle}>CONFLICTS</Text>
+              <Pressable onPress={() => dismissConflicts()} hitSlop={6}>
+                <Text style={styles.sectionAction}>Clear</Text>
+              </Pressable>
+            </View>
+            {conflicts.map((c) => (
+              <View key={c.id} style={styles.card}>
+                <Ionicons name="git-merge-outline" size={16} color="#7c3aed" />
+                <View style={styles.cardBody}>
+                  <Text style={styles.cardTitle}>{describeConflict(c)}</Text>
+                  <Text style={styles.cardMeta}>{formatWhen(c.at)}</Text>
+                </View>
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 2,
+    minWidth: 24,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  list: {
+    padding: 12,
+    gap: 6,
+  },
+  statusText: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginBottom: 6,
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 8,
+    backgroundColor: "#ffffff",
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  cardBody: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: "#1e293b",
+  },
+  cardMeta: {
+    fontSize: 11,
+    color: "#9ca3af",
+    marginTop: 2,
+  },
+  cardError: {
+    fontSize: 11,
+    color: "#dc2626",
+    marginTop: 2,
+  },
+  cardAction: {
+    padding: 2,
+  },
+  sectionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 12,
+    marginBottom: 2,
+  },
+  sectionTitle: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#6b7280",
+    letterSpacing: 0.5,
+  },
+  sectionAction: {
+    fontSize: 12,
+    fontWeight: "500",
+    color: "#2563eb",
+  },
+});
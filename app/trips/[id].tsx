@@ -23,13 +23,48 @@ import {
   deleteStop,
   reorderStops,
   completeStop,
+  fetchAssignableTrucks,
+  updateTripAssignment,
+  updateTripStatus,
+  canChangeTripStatus,
+  duplicateTrip,
+  DatabaseTrip,
+  TripAssignment,
+  TripStatus,
+  TRIP_STATUS_LABELS,
   UIStop,
 } from "../../lib/trips";
+import { fetchTeamMembers, memberName, TeamMember } from "../../lib/team";
 import {
   searchLocations,
   formatLocationAddress,
   DatabaseLocation,
 } from "../../lib/locations";
+import { fetchLastOdometerBeforeTrip } from "../../lib/odometer";
+import { fetchPayRates, computeTripPay, PayRates } from "../../lib/pay";
+import { createInvoiceForTrip, fetchTripInvoice } from "../../lib/invoices";
+import { saveTripTemplate } from "../../lib/tripTemplates";
+import {
+  fetchTripCosts,
+  fetchOwnershipRate,
+  computeTripPnl,
+  ownershipCostFor,
+  OwnershipRate,
+  TripCosts,
+} from "../../lib/profit";
+import { estimateTripRoute } from "../../lib/routing";
+import { useSync } from "../../contexts/SyncContext";
+import {
+  fetchChargeCodes,
+  fetchTripCharges,
+  saveTripCharges,
+  repriceTripCharges,
+  computeChargeAmount,
+  computeTripRevenue,
+  ChargeCode,
+  RateType,
+  TripChargeInput,
+} from "../../lib/revenue";
 import { supabase } from "../../lib/supabaseClient";
 
 // Helper to get tenant_id (duplicated from trips.ts for use in toggleComplete)
@@ -771,7 +806,7 @@ function StopDetailModal({
 
             {/* Mileage to next */}
             <View style={ds.fieldGroup}>
-              <Text style={ds.fieldLabel}>MILES TO NEXT STOP</Text>
+              <Text style={ds.fieldLabel}>PLANNED MILES TO NEXT STOP</Text>
               {editing ? (
                 <TextInput
                   style={ds.input}
@@ -1212,7 +1247,578 @@ const ds = StyleSheet.create({
   },
 });
 
+// ─── Revenue Modal ─────────────────────────────────────────────────────
+type ChargeDraft = {
+  key: string;
+  charge_code_id: string | null;
+  code: string | null;
+  description: string;
+  rate_type: RateType;
+  rate: string;
+  quantity: string;
+};
+
+function toChargeInput(c: ChargeDraft): TripChargeInput {
+  return {
+    charge_code_id: c.charge_code_id,
+    code: c.code,
+    description: c.description.trim() || null,
+    rate_type: c.rate_type,
+    rate: parseFloat(c.rate) || 0,
+    quantity: parseFloat(c.quantity) || 0,
+  };
+}
+
+function RevenueModal({
+  visible,
+  tripId,
+  mileage,
+  onClose,
+  onSaved,
+}: {
+  visible: boolean;
+  tripId: string;
+  mileage: number;
+  onClose: () => void;
+  onSaved: (total: number) => void;
+}) {
+  const [codes, setCodes] = useState<ChargeCode[]>([]);
+  const [lines, setLines] = useState<ChargeDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const handleOpen = async () => {
+    setLoading(true);
+    try {
+      const [chargeCodes, charges] = await Promise.all([
+        fetchChargeCodes(),
+        fetchTripCharges(tripId),
+      ]);
+      setCodes(chargeCodes);
+      setLines(
+        charges.map((c) => ({
+          key: c.id,
+          charge_code_id: c.charge_code_id,
+          code: c.code,
+          description: c.description || "",
+          rate_type: c.rate_type,
+          rate: String(c.rate),
+          quantity: String(c.quantity),
+        }))
+      );
+    } catch (error) {
+      console.error("[RevenueModal] Error loading charges:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  function addLine(code: ChargeCode | null) {
+    setLines((prev) => [
+      ...prev,
+      {
+        key: makeKey(),
+        charge_code_id: code?.id || null,
+        code: code?.code || null,
+        description: code?.description || "",
+        rate_type: code?.rate_type || "flat",
+        rate: code ? String(code.amount) : "",
+        quantity: "1",
+      },
+    ]);
+  }
+
+  function updateLine(key: string, patch: Partial<ChargeDraft>) {
+    setLines((prev) => prev.map((l) => (l.key === key ? { ...l, ...patch } : l)));
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const total = await saveTripCharges(tripId, lines.map(toChargeInput), mileage);
+      onSaved(total);
+      onClose();
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message || "Failed to save revenue.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const total = computeTripRevenue(lines.map(toChargeInput), mileage);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onShow={handleOpen}
+      onRequestClose={onClose}
+    >
+      <Pressable style={ds.overlay} onPress={onClose}>
+        <Pressable style={ds.sheet} onPress={(e) => e.stopPropagation()}>
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <View style={ds.sheetHeader}>
+              <Text style={[ds.sheetType, { color: "#1e293b" }]}>Revenue</Text>
+              <View style={ds.sheetHeaderRight}>
+                <Pressable onPress={handleSave} style={ds.saveBtn} disabled={saving}>
+                  {saving ? (
+                    <ActivityIndicator size="small" color="#2563eb" />
+                  ) : (
+                    <Ionicons name="checkmark" size={14} color="#2563eb" />
+                  )}
+                  <Text style={ds.saveBtnText}>Save</Text>
+                </Pressable>
+                <Pressable onPress={onClose} hitSlop={8}>
+                  <Ionicons name="close" size={18} color="#9ca3af" />
+                </Pressable>
+              </View>
+            </View>
+
+            {loading ? (
+              <ActivityIndicator size="small" color="#2563eb" />
+            ) : (
+              <>
+                {lines.length === 0 && (
+                  <Text style={rs.emptyText}>No charges yet. Add a charge code below.</Text>
+                )}
+
+                {lines.map((line) => {
+                  const amount = computeChargeAmount(toChargeInput(line), mileage);
+                  return (
+                    <View key={line.key} style={rs.lineRow}>
+                      <View style={rs.lineTop}>
+                        <Text style={rs.lineCode}>
+                          {line.code || "CUSTOM"}
+                          <Text style={rs.lineType}>
+                            {line.rate_type === "per_mile" ? "  PER MILE" : "  FLAT"}
+                          </Text>
+                        </Text>
+                        <Pressable
+                          onPress={() => setLines((prev) => prev.filter((l) => l.key !== line.key))}
+                          hitSlop={6}
+                        >
+                          <Ionicons name="trash-outline" size={14} color="#dc2626" />
+                        </Pressable>
+                      </View>
+                      <TextInput
+                        style={[ds.input, rs.descInput]}
+                        value={line.description}
+                        onChangeText={(t) => updateLine(line.key, { description: t })}
+                        placeholder="Description"
+                      />
+                      <View style={rs.calcRow}>
+                        <Text style={rs.calcText}>$</Text>
+                        <TextInput
+                          style={[ds.input, rs.numInput]}
+                          value={line.rate}
+                          onChangeText={(t) => updateLine(line.key, { rate: t })}
+                          placeholder="0.00"
+                          keyboardType="decimal-pad"
+                        />
+                        <Text style={rs.calcText}>×</Text>
+                        {line.rate_type === "per_mile" ? (
+                          <Text style={rs.calcText}>{mileage.toLocaleString()} mi</Text>
+                        ) : (
+                          <TextInput
+                            style={[ds.input, rs.numInput]}
+                            value={line.quantity}
+                            onChangeText={(t) => updateLine(line.key, { quantity: t })}
+                            placeholder="1"
+                            keyboardType="decimal-pad"
+                          />
+                        )}
+                        <Text style={rs.lineAmount}>${amount.toFixed(2)}</Text>
+                      </View>
+                    </View>
+                  );
+                })}
+
+                {/* Add charge */}
+                <Text style={[ds.fieldLabel, { marginTop: 8 }]}>ADD CHARGE</Text>
+                <View style={rs.codeChips}>
+                  {codes.map((c) => (
+                    <Pressable key={c.id} style={rs.codeChip} onPress={() => addLine(c)}>
+                      <Text style={rs.codeChipText}>{c.code}</Text>
+                    </Pressable>
+                  ))}
+                  <Pressable style={rs.codeChip} onPress={() => addLine(null)}>
+                    <Text style={rs.codeChipText}>+ Custom</Text>
+                  </Pressable>
+                </View>
+                {mileage <= 0 && lines.some((l) => l.rate_type === "per_mile") && (
+                  <Text style={rs.hint}>
+                    Per-mile charges price at 0 until the trip has mileage.
+                  </Text>
+                )}
+
+                <View style={rs.totalRow}>
+                  <Text style={rs.totalLabel}>TOTAL</Text>
+                  <Text style={rs.totalValue}>${total.toFixed(2)}</Text>
+                </View>
+              </>
+            )}
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+function AssignmentModal({
+  visible,
+  tripId,
+  assignment,
+  onClose,
+  onSaved,
+}: {
+  visible: boolean;
+  tripId: string;
+  assignment: TripAssignment;
+  onClose: () => void;
+  onSaved: (assignment: TripAssignment) => void;
+}) {
+  const [trucks, setTrucks] = useState<{ id: string; truck_number: string }[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [draft, setDraft] = useState<TripAssignment>(assignment);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const handleOpen = async () => {
+    setDraft(assignment);
+    setLoading(true);
+    try {
+      const [truckList, team] = await Promise.all([fetchAssignableTrucks(), fetchTeamMembers()]);
+      setTrucks(truckList);
+      setMembers(team);
+    } catch (error) {
+      console.error("[AssignmentModal] Error loading trucks and drivers:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Tap a driver to add them (first tap = driver, second person = co-driver); tap again to remove
+  function toggleDriver(memberId: string) {
+    setDraft((prev) => {
+      if (prev.driver_id === memberId) return { ...prev, driver_id: prev.co_driver_id, co_driver_id: null };
+      if (prev.co_driver_id === memberId) return { ...prev, co_driver_id: null };
+      if (!prev.driver_id) return { ...prev, driver_id: memberId };
+      return { ...prev, co_driver_id: memberId };
+    });
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      await updateTripAssignment(tripId, draft);
+      onSaved(draft);
+      onClose();
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message || "Failed to save assignment.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onShow={handleOpen}
+      onRequestClose={onClose}
+    >
+      <Pressable style={ds.overlay} onPress={onClose}>
+        <Pressable style={ds.sheet} onPress={(e) => e.stopPropagation()}>
+          <View style={ds.sheetHeader}>
+            <Text style={[ds.sheetType, { color: "#1e293b" }]}>Truck & Drivers</Text>
+            <View style={ds.sheetHeaderRight}>
+              <Pressable onPress={handleSave} style={ds.saveBtn} disabled={saving}>
+                {saving ? (
+                  <ActivityIndicator size="small" color="#2563eb" />
+                ) : (
+                  <Ionicons name="checkmark" size={14} color="#2563eb" />
+                )}
+                <Text style={ds.saveBtnText}>Save</Text>
+              </Pressable>
+              <Pressable onPress={onClose} hitSlop={8}>
+                <Ionicons name="close" size={18} color="#9ca3af" />
+              </Pressable>
+            </View>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator size="small" color="#2563eb" />
+          ) : (
+            <>
+              <View style={ds.fieldGroup}>
+                <Text style={ds.fieldLabel}>TRUCK</Text>
+                {trucks.length === 0 ? (
+                  <Text style={rs.emptyText}>No trucks yet. Add one in Setup → Assets.</Text>
+                ) : (
+                  <View style={asg.chipWrap}>
+                    {trucks.map((t) => {
+                      const selected = draft.truck_id === t.id;
+                      return (
+                        <Pressable
+                          key={t.id}
+                          onPress={() => setDraft({ ...draft, truck_id: selected ? null : t.id })}
+                          style={[ds.typeChip, selected && asg.chipActive]}
+                        >
+                          <Text style={[ds.typeChipText, selected && asg.chipTextActive]}>{t.truck_number}</Text>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                )}
+              </View>
+
+              <View style={ds.fieldGroup}>
+                <Text style={ds.fieldLabel}>DRIVERS (UP TO 2)</Text>
+                <View style={asg.chipWrap}>
+                  {members.map((m) => {
+                    const slot = draft.driver_id === m.id ? 1 : draft.co_driver_id === m.id ? 2 : 0;
+                    return (
+                      <Pressable
+                        key={m.id}
+                        onPress={() => toggleDriver(m.id)}
+                        style={[ds.typeChip, slot > 0 && asg.chipActive]}
+                      >
+                        <Text style={[ds.typeChipText, slot > 0 && asg.chipTextActive]}>
+                          {memberName(m)}
+                          {slot === 2 ? " (co-driver)" : ""}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              </View>
+            </>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+function SaveTemplateModal({
+  visible,
+  tripId,
+  stops,
+  onClose,
+}: {
+  visible: boolean;
+  tripId: string;
+  stops: Stop[];
+  onClose: () => void;
+}) {
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Suggest "First company → Last company" for the lane
+  const handleOpen = () => {
+    const named = stops.filter((s) => s.company.trim());
+    const first = named[0]?.company.trim();
+    const last = named[named.length - 1]?.company.trim();
+    setName(first && last && first !== last ? `${first} → ${last}` : first || "");
+  };
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const template = await saveTripTemplate(name, stops, tripId);
+      onClose();
+      Alert.alert("Template Saved", `"${template.name}" is ready to use from New Trip.`);
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message || "Failed to save template.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const datedCount = stops.filter((s) => s.expectedDate && s.expectedDate !== "TBD").length;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onShow={handleOpen}
+      onRequestClose={onClose}
+    >
+      <Pressable style={ds.overlay} onPress={onClose}>
+        <Pressable style={ds.sheet} onPress={(e) => e.stopPropagation()}>
+          <View style={ds.sheetHeader}>
+            <Text style={[ds.sheetType, { color: "#1e293b" }]}>Save as Template</Text>
+            <View style={ds.sheetHeaderRight}>
+              <Pressable onPress={handleSave} style={ds.saveBtn} disabled={saving}>
+                {saving ? (
+                  <ActivityIndicator size="small" color="#2563eb" />
+                ) : (
+                  <Ionicons name="checkmark" size={14} color="#2563eb" />
+                )}
+                <Text style={ds.saveBtnText}>Save</Text>
+              </Pressable>
+              <Pressable onPress={onClose} hitSlop={8}>
+                <Ionicons name="close" size={18} color="#9ca3af" />
+              </Pressable>
+            </View>
+          </View>
+
+          <View style={ds.fieldGroup}>
+            <Text style={ds.fieldLabel}>TEMPLATE NAME</Text>
+            <TextInput
+              style={ds.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. Chicago → Dallas weekly"
+              placeholderTextColor="#9ca3af"
+              autoFocus
+            />
+          </View>
+          <Text style={rs.hint}>
+            Saves {stops.length} stop{stops.length === 1 ? "" : "s"} with their locations and notes.
+            {datedCount > 0 ? " Dates are kept as days from the first stop, so a new trip can start on any day." : ""}
+          </Text>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const asg = StyleSheet.create({
+  chipWrap: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  chipActive: {
+    backgroundColor: "#eff6ff",
+    borderColor: "#2563eb",
+  },
+  chipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+});
+
+function makeKey() {
+  return Date.now().toString() + Math.random().toString(36).slice(2, 6);
+}
+
+const rs = StyleSheet.create({
+  emptyText: {
+    fontSize: 12,
+    color: "#9ca3af",
+    fontStyle: "italic",
+    marginBottom: 8,
+  },
+  lineRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+  },
+  lineTop: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  lineCode: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  lineType: {
+    fontSize: 9,
+    fontWeight: "600",
+    color: "#9ca3af",
+    letterSpacing: 0.5,
+  },
+  descInput: {
+    marginBottom: 6,
+  },
+  calcRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  calcText: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  numInput: {
+    width: 72,
+  },
+  lineAmount: {
+    flex: 1,
+    textAlign: "right",
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  codeChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 8,
+  },
+  codeChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    backgroundColor: "#ffffff",
+  },
+  codeChipText: {
+    fontSize: 11,
+    fontWeight: "500",
+    color: "#2563eb",
+  },
+  hint: {
+    fontSize: 11,
+    color: "#9ca3af",
+    fontStyle: "italic",
+    marginBottom: 8,
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#e5e7eb",
+  },
+  totalLabel: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#9ca3af",
+    letterSpacing: 0.5,
+  },
+  totalValue: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+});
+
 // ─── Main Trip Detail Screen ────────────────────────────────────────────
+// When a trip reached its current status, for the action bar
+function statusTimestamp(trip: DatabaseTrip | null): string | null {
+  switch (trip?.status) {
+    case "completed":
+      return trip.completed_at;
+    case "cancelled":
+      return trip.cancelled_at;
+    case "invoiced":
+      return trip.invoiced_at;
+    default:
+      return null;
+  }
+}
+
 export default function TripDetailScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
@@ -1225,6 +1831,27 @@ export default function TripDetailScreen() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [tripReference, setTripReference] = useState<string | null>(null);
+  const [historyOdometer, setHistoryOdometer] = useState<number | null>(null);
+  const [revenue, setRevenue] = useState(0);
+  const [expectedMileage, setExpectedMileage] = useState(0);
+  const [revenueModalVisible, setRevenueModalVisible] = useState(false);
+  const [payRates, setPayRates] = useState<PayRates>({ loaded: 0, empty: 0 });
+  const [tripCosts, setTripCosts] = useState<TripCosts | null>(null);
+  const [ownership, setOwnership] = useState<OwnershipRate | null>(null);
+  const [assignment, setAssignment] = useState<TripAssignment>({ truck_id: null, driver_id: null, co_driver_id: null });
+  const [assignmentLabel, setAssignmentLabel] = useState<string | null>(null);
+  const [assignmentModalVisible, setAssignmentModalVisible] = useState(false);
+  const [templateModalVisible, setTemplateModalVisible] = useState(false);
+  const [tripDate, setTripDate] = useState<string | undefined>(undefined);
+  const [tripStatus, setTripStatus] = useState<TripStatus>("planned");
+  // When the trip reached its current status (completed_at, cancelled_at, ...)
+  const [statusAt, setStatusAt] = useState<string | null>(null);
+  const { entries: outboxEntries } = useSync();
+
+  // Stops with edits still waiting in the offline outbox
+  const pendingStopIds = new Set(
+    outboxEntries.filter((e) => e.table === "stops" && e.tripId === tripId).map((e) => e.match.id)
+  );
 
   // Load trip and stops from Supabase on mount
   useEffect(() => {
@@ -1242,9 +1869,33 @@ export default function TripDetailScreen() {
           trip = await ensureTrip(tripId, tripId);
         }
         setTripReference(trip?.trip_reference || tripId);
+        setRevenue(Number(trip?.revenue) || 0);
+        setExpectedMileage(Number(trip?.expected_mileage) || 0);
+        const tripAssignment = {
+          truck_id: trip?.truck_id ?? null,
+          driver_id: trip?.driver_id ?? null,
+          co_driver_id: trip?.co_driver_id ?? null,
+        };
+        setAssignment(tripAssignment);
+        setTripDate(trip?.date);
+        setTripStatus(trip?.status || "planned");
+        setStatusAt(statusTimestamp(trip));
+        describeAssignment(tripAssignment);
         // Load stops
         const loadedStops = await fetchTripStops(tripId);
         setStops(loadedStops);
+        refreshRoute();
+        // Last reading before this trip (fuel, repairs, earlier trips...)
+        fetchLastOdometerBeforeTrip(tripId, trip?.date)
+          .then(setHistoryOdometer)
+          .catch((err) => console.error("[TripDetail] Error loading odometer history:", err));
+        fetchPayRates().then(setPayRates);
+        fetchTripCosts(tripId)
+          .then(setTripCosts)
+          .catch((err) => console.error("[TripDetail] Error loading trip costs:", err));
+        fetchOwnershipRate(tripAssignment.truck_id, trip?.date)
+          .then(setOwnership)
+          .catch((err) => console.error("[TripDetail] Error loading ownership cost:", err));
       } catch (error: any) {
         console.error("[TripDetail] Error loading trip:", error);
         Alert.alert(
@@ -1261,6 +1912,148 @@ export default function TripDetailScreen() {
     loadTripData();
   }, [tripId]);
 
+  // Fill planned leg mileage from the routing provider (only legs without one
+  // unless overwrite) and pick up the new expected_mileage
+  async function refreshRoute(overwrite = false) {
+    try {
+      const estimate = await estimateTripRoute(tripId, { overwrite });
+      setStops((prev) =>
+        prev.map((s, i) =>
+          i < estimate.legs.length ? { ...s, mileageToNext: estimate.legs[i] } : s
+        )
+      );
+      if (estimate.total != null) setExpectedMileage(estimate.total);
+    } catch (error) {
+      console.error("[TripDetail] Error estimating route:", error);
+    }
+  }
+
+  // "Truck 12 · Dana & Lee" for the assignment row
+  async function describeAssignment(a: TripAssignment) {
+    try {
+      const [trucks, members] = await Promise.all([fetchAssignableTrucks(), fetchTeamMembers()]);
+      const truck = trucks.find((t) => t.id === a.truck_id)?.truck_number;
+      const drivers = [a.driver_id, a.co_driver_id]
+        .map((d) => members.find((m) => m.id === d))
+        .filter((m): m is TeamMember => !!m)
+        .map(memberName);
+      const parts = [truck, drivers.join(" & ")].filter(Boolean);
+      setAssignmentLabel(parts.length > 0 ? parts.join(" · ") : null);
+    } catch (error) {
+      console.error("[TripDetail] Error loading assignment names:", error);
+    }
+  }
+
+  // A new truck changes which odometer history and ownership cost apply
+  function handleAssignmentSaved(a: TripAssignment) {
+    setAssignment(a);
+    describeAssignment(a);
+    fetchOwnershipRate(a.truck_id, tripDate)
+      .then(setOwnership)
+      .catch((err) => console.error("[TripDetail] Error loading ownership cost:", err));
+    fetchLastOdometerBeforeTrip(tripId, tripDate)
+      .then(setHistoryOdometer)
+      .catch((err) => console.error("[TripDetail] Error loading odometer history:", err));
+  }
+
+  async function changeStatus(to: TripStatus) {
+    try {
+      setSaving(true);
+      const updated = await updateTripStatus(tripId, to);
+      setTripStatus(updated.status);
+      setStatusAt(statusTimestamp(updated));
+    } catch (error) {
+      console.error("[TripDetail] Error changing trip status:", error);
+      Alert.alert("Error", (error as Error).message || "Failed to update trip.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // Completing a stop gets a planned trip under way
+  function markStartedIfPlanned() {
+    if (tripStatus === "planned") changeStatus("active");
+  }
+
+  // "Complete Trip" with stops still pending asks first; "Finish Trip" doesn't
+  function handleCompleteTrip() {
+    const pending = stops.length - completedCount;
+    if (pending === 0) {
+      changeStatus("completed");
+      return;
+    }
+    Alert.alert(
+      "Complete Trip",
+      `${pending} stop${pending === 1 ? " isn't" : "s aren't"} marked complete. Complete the trip anyway?`,
+      [
+        { text: "Not yet", style: "cancel" },
+        { text: "Complete", onPress: () => changeStatus("completed") },
+      ]
+    );
+  }
+
+  async function handleCreateInvoice() {
+    try {
+      setSaving(true);
+      const invoice = await createInvoiceForTrip(tripId);
+      setTripStatus("invoiced");
+      setStatusAt(new Date().toISOString());
+      router.push(`/invoices/${invoice.id}`);
+    } catch (error) {
+      console.error("[TripDetail] Error creating invoice:", error);
+      Alert.alert("Error", (error as Error).message || "Failed to create invoice.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // Duplicate the trip, or make the return trip (stops reversed, pickups and deliveries swapped)
+  async function handleCopyTrip(reverse: boolean) {
+    try {
+      setSaving(true);
+      const { trip } = await duplicateTrip(tripId, reverse);
+      router.push(`/trips/${trip.id}`);
+    } catch (error) {
+      console.error("[TripDetail] Error copying trip:", error);
+      Alert.alert("Error", (error as Error).message || "Failed to copy trip.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function openInvoice() {
+    try {
+      const invoice = await fetchTripInvoice(tripId);
+      if (invoice) {
+        router.push(`/invoices/${invoice.id}`);
+      } else {
+        Alert.alert("Invoice", "No invoice was found for this trip.");
+      }
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message || "Failed to load invoice.");
+    }
+  }
+
+  function confirmCancelTrip() {
+    Alert.alert("Cancel Trip", "The trip stays in your list as cancelled. You can restore it later.", [
+      { text: "Keep Trip", style: "cancel" },
+      { text: "Cancel Trip", style: "destructive", onPress: () => changeStatus("cancelled") },
+    ]);
+  }
+
+  function openTripMenu() {
+    Alert.alert("Trip", undefined, [
+      { text: "Re-estimate route", onPress: () => refreshRoute(true) },
+      { text: "Duplicate trip", onPress: () => handleCopyTrip(false) },
+      { text: "Create return trip", onPress: () => handleCopyTrip(true) },
+      { text: "Save as template", onPress: () => setTemplateModalVisible(true) },
+      ...(canChangeTripStatus(tripStatus, "cancelled")
+        ? [{ text: "Cancel trip", style: "destructive" as const, onPress: confirmCancelTrip }]
+        : []),
+      { text: "Cancel", style: "cancel" },
+    ]);
+  }
+
   const completedCount = stops.filter((s) => s.isCompleted).length;
 
   // Calculate mileage between stops using odometer readings where available
@@ -1275,7 +2068,7 @@ export default function TripDetailScreen() {
     if (curOdo !== null && nextOdo !== null && nextOdo > curOdo) {
       return nextOdo - curOdo;
     }
-    // Fall back to the static mileageToNext value
+    // Fall back to the planned mileage for the leg
     return current.mileageToNext;
   }
 
@@ -1284,15 +2077,43 @@ export default function TripDetailScreen() {
     return sum + (mi || 0);
   }, 0);
 
+  // Driver pay: loaded vs empty legs priced at the settings rates
+  const pay = computeTripPay(
+    stops.map((s) => s.type),
+    stops.slice(0, -1).map((_s, i) => getComputedMileage(i)),
+    payRates
+  );
+
+  // Per-mile charges use driven miles once known, else the planned mileage
+  const revenueMileage = totalMileage > 0 ? totalMileage : expectedMileage;
+  const revPerMile = revenueMileage > 0 && revenue > 0 ? revenue / revenueMileage : null;
+
+  // P&L: revenue less linked fuel/expenses and truck ownership for the miles
+  const pnl = computeTripPnl({
+    revenue,
+    mileage: revenueMileage,
+    fuelCost: tripCosts?.fuel || 0,
+    expenseCost: tripCosts?.expenses || 0,
+    ownershipCost: ownershipCostFor(revenueMileage, ownership),
+  });
+
+  // Keep per-mile charges in step with the trip's mileage
+  useEffect(() => {
+    if (loading || !tripId) return;
+    repriceTripCharges(tripId, revenueMileage)
+      .then(setRevenue)
+      .catch((err) => console.error("[TripDetail] Error repricing revenue:", err));
+  }, [loading, revenueMileage]);
+
   // Find the last odometer reading before the selected stop
   function getLastOdometer(stopId: string): string {
     const idx = stops.findIndex((s) => s.id === stopId);
-    if (idx <= 0) return "";
     // Walk backwards to find the most recent stop with an odometer
     for (let i = idx - 1; i >= 0; i--) {
       if (stops[i].odometer) return stops[i].odometer;
     }
-    return "";
+    // Nothing earlier on this trip - fall back to the truck's odometer history
+    return historyOdometer != null ? historyOdometer.toLocaleString() : "";
   }
 
   function openDetail(stop: Stop) {
@@ -1315,6 +2136,7 @@ export default function TripDetailScreen() {
         prev.map((s) => (s.id === updated.id ? updated : s))
       );
       setSelectedStop(updated);
+      refreshRoute();
     } catch (error: any) {
       console.error("[TripDetail] Error saving stop:", error);
       Alert.alert("Error", `Failed to save stop: ${error.message || "Unknown error"}`);
@@ -1333,7 +2155,7 @@ export default function TripDetailScreen() {
           await saveStop(tripId, completedStop, stopOrder);
         }
       } else {
-        await completeStop(stopId);
+        await completeStop(stopId, tripId);
       }
       
       // Update local state
@@ -1344,6 +2166,7 @@ export default function TripDetailScreen() {
             : s
         )
       );
+      markStartedIfPlanned();
     } catch (error: any) {
       console.error("[TripDetail] Error completing stop:", error);
       Alert.alert("Error", `Failed to complete stop: ${error.message || "Unknown error"}`);
@@ -1360,7 +2183,7 @@ export default function TripDetailScreen() {
 
     try {
       setSaving(true);
-      await deleteStop(stopId);
+      await deleteStop(stopId, tripId);
       
       // Update local state and reorder remaining stops
       const newStops = stops.filter((s) => s.id !== stopId);
@@ -1369,6 +2192,7 @@ export default function TripDetailScreen() {
       
       setStops(newStops);
       setSelectedStop(null);
+      refreshRoute();
     } catch (error: any) {
       console.error("[TripDetail] Error deleting stop:", error);
       Alert.alert("Error", `Failed to delete stop: ${error.message || "Unknown error"}`);
@@ -1394,7 +2218,8 @@ export default function TripDetailScreen() {
           .eq("id", stopId)
           .eq("tenant_id", tenantId);
       } else {
-        await completeStop(stopId);
+        await completeStop(stopId, tripId);
+        markStartedIfPlanned();
       }
       
       // Update local state
@@ -1437,6 +2262,7 @@ export default function TripDetailScreen() {
       setSaving(true);
       const stopIds = newStops.map((s) => s.id);
       await reorderStops(tripId, stopIds);
+      refreshRoute();
     } catch (error: any) {
       console.error("[TripDetail] Error reordering stops:", error);
       // Revert on error
@@ -1462,7 +2288,7 @@ export default function TripDetailScreen() {
       isLate: false,
       isCompleted: false,
       isCurrent: false,
-      mileageToNext: 0,
+      mileageToNext: null,
       locationId: null,
     };
     
@@ -1476,11 +2302,13 @@ export default function TripDetailScreen() {
     try {
       setSaving(true);
       const stopOrder = afterIndex + 1;
-      await saveStop(tripId, newStop, stopOrder);
+      newStop.id = await saveStop(tripId, newStop, stopOrder);
+      setStops([...newStops]);
       
       // Reorder all stops to ensure correct order
       const stopIds = newStops.map((s) => s.id);
       await reorderStops(tripId, stopIds);
+      refreshRoute();
     } catch (error: any) {
       console.error("[TripDetail] Error adding stop:", error);
       // Revert on error
@@ -1514,7 +2342,7 @@ export default function TripDetailScreen() {
           <Ionicons name="arrow-back" size={20} color="#1e293b" />
         </Pressable>
         <Text style={styles.headerTitle}>#{tripReference ?? id}</Text>
-        <Pressable style={styles.headerBtn}>
+        <Pressable onPress={openTripMenu} style={styles.headerBtn}>
           <Ionicons name="menu" size={20} color="#1e293b" />
         </Pressable>
       </View>
@@ -1534,6 +2362,15 @@ export default function TripDetailScreen() {
         </View>
       </View>
 
+      {/* Truck and drivers */}
+      <Pressable style={styles.assignmentRow} onPress={() => setAssignmentModalVisible(true)}>
+        <Ionicons name="car-outline" size={14} color="#6b7280" />
+        <Text style={[styles.assignmentText, !assignmentLabel && styles.assignmentPlaceholder]} numberOfLines={1}>
+          {assignmentLabel || "Assign truck & drivers"}
+        </Text>
+        <Ionicons name="chevron-forward" size={14} color="#9ca3af" />
+      </Pressable>
+
       {/* Timeline */}
       <ScrollView
         style={styles.scrollArea}
@@ -1609,20 +2446,25 @@ export default function TripDetailScreen() {
                   ]}
                 >
                   <View style={styles.cardHeader}>
-                    <Text
-                      style={[
-                        styles.typeLabel,
-                        {
-                          color: stop.isCompleted
-                            ? "#6b7280"
-                            : stop.isCurrent
-                            ? typeConfig.color
-                            : "#9ca3af",
-                        },
-                      ]}
-                    >
-                      {typeConfig.label}
-                    </Text>
+                    <View style={styles.typeRow}>
+                      <Text
+                        style={[
+                          styles.typeLabel,
+                          {
+                            color: stop.isCompleted
+                              ? "#6b7280"
+                              : stop.isCurrent
+                              ? typeConfig.color
+                              : "#9ca3af",
+                          },
+                        ]}
+                      >
+                        {typeConfig.label}
+                      </Text>
+                      {pendingStopIds.has(stop.id) && (
+                        <Ionicons name="cloud-upload-outline" size={11} color="#d97706" />
+                      )}
+                    </View>
                     <Pressable
                       onPress={(e) => {
                         e.stopPropagation();
@@ -1763,14 +2605,150 @@ export default function TripDetailScreen() {
             </View>
           );
         })}
+
+        {/* Driver pay */}
+        {stops.length > 1 && (
+          <View style={styles.payCard}>
+            <Text style={styles.payTitle}>DRIVER PAY</Text>
+            <View style={styles.payRow}>
+              <Text style={styles.payLabel}>Loaded</Text>
+              <Text style={styles.payMiles}>{pay.loadedMiles.toLocaleString()} mi × ${payRates.loaded.toFixed(2)}</Text>
+              <Text style={styles.payAmount}>${pay.loadedPay.toFixed(2)}</Text>
+            </View>
+            <View style={styles.payRow}>
+              <Text style={styles.payLabel}>Empty</Text>
+              <Text style={styles.payMiles}>{pay.emptyMiles.toLocaleString()} mi × ${payRates.empty.toFixed(2)}</Text>
+              <Text style={styles.payAmount}>${pay.emptyPay.toFixed(2)}</Text>
+            </View>
+            <View style={[styles.payRow, styles.payTotalRow]}>
+              <Text style={styles.payLabel}>Total</Text>
+              <Text style={styles.payMiles}>{(pay.loadedMiles + pay.emptyMiles).toLocaleString()} mi</Text>
+              <Text style={[styles.payAmount, styles.payTotal]}>${pay.totalPay.toFixed(2)}</Text>
+            </View>
+          </View>
+        )}
+
+        {/* Profitability */}
+        {stops.length > 1 && tripCosts && (
+          <View style={styles.payCard}>
+            <Text style={styles.payTitle}>PROFITABILITY</Text>
+            <View style={styles.payRow}>
+              <Text style={[styles.payLabel, styles.pnlLabel]}>Revenue</Text>
+              <Text style={styles.payMiles}>
+                {pnl.revenuePerMile != null ? `$${pnl.revenuePerMile.toFixed(2)}/mi` : ""}
+              </Text>
+              <Text style={styles.payAmount}>${pnl.revenue.toFixed(2)}</Text>
+            </View>
+            <View style={styles.payRow}>
+              <Text style={[styles.payLabel, styles.pnlLabel]}>Fuel</Text>
+              <Text style={styles.payMiles} />
+              <Text style={styles.payAmount}>−${pnl.fuelCost.toFixed(2)}</Text>
+            </View>
+            <View style={styles.payRow}>
+              <Text style={[styles.payLabel, styles.pnlLabel]}>Expenses</Text>
+              <Text style={styles.payMiles} />
+              <Text style={styles.payAmount}>−${pnl.expenseCost.toFixed(2)}</Text>
+            </View>
+            <View style={styles.payRow}>
+              <Text style={[styles.payLabel, styles.pnlLabel]}>Truck</Text>
+              <Text style={styles.payMiles}>
+                {ownership
+                  ? `${(pnl.mileage || 0).toLocaleString()} mi × $${ownership.perMile.toFixed(3)}`
+                  : "no truck cost set"}
+              </Text>
+              <Text style={styles.payAmount}>−${pnl.ownershipCost.toFixed(2)}</Text>
+            </View>
+            <View style={[styles.payRow, styles.payTotalRow]}>
+              <Text style={[styles.payLabel, styles.pnlLabel]}>Profit</Text>
+              <Text style={styles.payMiles}>
+                {[
+                  pnl.margin != null ? `${(pnl.margin * 100).toFixed(1)}% margin` : null,
+                  pnl.costPerMile != null ? `$${pnl.costPerMile.toFixed(2)}/mi cost` : null,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </Text>
+              <Text style={[styles.payAmount, pnl.profit >= 0 ? styles.payTotal : styles.payLoss]}>
+                {pnl.profit < 0 ? "−" : ""}${Math.abs(pnl.profit).toFixed(2)}
+              </Text>
+            </View>
+            {tripCosts.unconverted > 0 && (
+              <Text style={styles.payNote}>
+                {tripCosts.unconverted} purchase{tripCosts.unconverted === 1 ? "" : "s"} left out: no exchange rate
+              </Text>
+            )}
+          </View>
+        )}
       </ScrollView>
 
+      {/* Trip action bar */}
+      <View style={styles.actionBar}>
+        {tripStatus === "planned" && (
+          <Pressable
+            style={[styles.actionButton, saving && styles.actionButtonDisabled]}
+            onPress={() => changeStatus("active")}
+            disabled={saving}
+          >
+            <Ionicons name="play" size={16} color="#ffffff" />
+            <Text style={styles.actionButtonText}>Start Trip</Text>
+          </Pressable>
+        )}
+        {tripStatus === "active" && (
+          <Pressable
+            style={[
+              styles.actionButton,
+              completedCount === stops.length && styles.actionButtonFinish,
+              saving && styles.actionButtonDisabled,
+            ]}
+            onPress={handleCompleteTrip}
+            disabled={saving}
+          >
+            <Ionicons name={completedCount === stops.length ? "flag" : "checkmark-done"} size={16} color="#ffffff" />
+            <Text style={styles.actionButtonText}>
+              {completedCount === stops.length ? "Finish Trip" : "Complete Trip"}
+            </Text>
+          </Pressable>
+        )}
+        {(tripStatus === "completed" || tripStatus === "cancelled" || tripStatus === "invoiced") && (
+          <View style={styles.actionStatusRow}>
+            <Text style={styles.actionStatusText}>
+              {TRIP_STATUS_LABELS[tripStatus]}
+              {statusAt
+                ? ` ${new Date(statusAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}`
+                : ""}
+            </Text>
+            {tripStatus === "completed" && (
+              <View style={styles.actionLinks}>
+                <Pressable onPress={() => changeStatus("active")} disabled={saving} hitSlop={8}>
+                  <Text style={styles.actionLink}>Reopen</Text>
+                </Pressable>
+                <Pressable onPress={handleCreateInvoice} disabled={saving} hitSlop={8}>
+                  <Text style={styles.actionLink}>Create Invoice</Text>
+                </Pressable>
+              </View>
+            )}
+            {tripStatus === "invoiced" && (
+              <Pressable onPress={openInvoice} disabled={saving} hitSlop={8}>
+                <Text style={styles.actionLink}>View Invoice</Text>
+              </Pressable>
+            )}
+            {tripStatus === "cancelled" && (
+              <Pressable onPress={() => changeStatus("planned")} disabled={saving} hitSlop={8}>
+                <Text style={styles.actionLink}>Restore</Text>
+              </Pressable>
+            )}
+          </View>
+        )}
+      </View>
+
       {/* Bottom summary bar */}
       <View style={[styles.summaryBar, { paddingBottom: insets.bottom + 6 }]}>
-        <View style={styles.summaryItem}>
+        <Pressable style={styles.summaryItem} onPress={() => setRevenueModalVisible(true)}>
           <Text style={styles.summaryLabel}>REV</Text>
-          <Text style={styles.summaryValue}>$1,215</Text>
-        </View>
+          <Text style={styles.summaryValue}>
+            ${revenue.toLocaleString("en-US", { maximumFractionDigits: 0 })}
+          </Text>
+        </Pressable>
         <View style={styles.summaryDivider} />
         <View style={styles.summaryItem}>
           <Text style={styles.summaryLabel}>DIST</Text>
@@ -1780,7 +2758,7 @@ export default function TripDetailScreen() {
         <View style={styles.summaryItem}>
           <Text style={styles.summaryLabel}>R/M</Text>
           <Text style={styles.summaryValue}>
-            ${totalMileage > 0 ? (1215 / totalMileage).toFixed(2) : "—"}
+            {revPerMile != null ? `$${revPerMile.toFixed(2)}` : "—"}
           </Text>
         </View>
       </View>
@@ -1796,6 +2774,32 @@ export default function TripDetailScreen() {
         stopCount={stops.length}
         lastOdometer={selectedStop ? getLastOdometer(selectedStop.id) : ""}
       />
+
+      {/* Assignment Modal */}
+      <AssignmentModal
+        visible={assignmentModalVisible}
+        tripId={tripId}
+        assignment={assignment}
+        onClose={() => setAssignmentModalVisible(false)}
+        onSaved={handleAssignmentSaved}
+      />
+
+      {/* Save as Template Modal */}
+      <SaveTemplateModal
+        visible={templateModalVisible}
+        tripId={tripId}
+        stops={stops}
+        onClose={() => setTemplateModalVisible(false)}
+      />
+
+      {/* Revenue Modal */}
+      <RevenueModal
+        visible={revenueModalVisible}
+        tripId={tripId}
+        mileage={revenueMileage}
+        onClose={() => setRevenueModalVisible(false)}
+        onSaved={setRevenue}
+      />
     </View>
   );
 }
@@ -1834,6 +2838,25 @@ const styles = StyleSheet.create({
     borderBottomColor: "#e5e7eb",
     gap: 8,
   },
+  assignmentRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  assignmentText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: "500",
+    color: "#374151",
+  },
+  assignmentPlaceholder: {
+    color: "#9ca3af",
+  },
   progressText: {
     fontSize: 11,
     fontWeight: "600",
@@ -1934,6 +2957,11 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: 2,
   },
+  typeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
   typeLabel: {
     fontSize: 11,
     fontWeight: "700",
@@ -2024,6 +3052,110 @@ const styles = StyleSheet.create({
   addBtn: {
     padding: 2,
   },
+  payCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginTop: 12,
+  },
+  payTitle: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#9ca3af",
+    letterSpacing: 0.5,
+    marginBottom: 4,
+  },
+  payRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 3,
+  },
+  payTotalRow: {
+    borderTopWidth: 1,
+    borderTopColor: "#f3f4f6",
+    marginTop: 4,
+    paddingTop: 6,
+  },
+  payLabel: {
+    width: 56,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  payMiles: {
+    flex: 1,
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  payAmount: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  payTotal: {
+    color: "#16a34a",
+  },
+  pnlLabel: {
+    width: 64,
+  },
+  payLoss: {
+    color: "#dc2626",
+  },
+  payNote: {
+    fontSize: 11,
+    color: "#d97706",
+    marginTop: 4,
+  },
+  actionBar: {
+    backgroundColor: "#ffffff",
+    borderTopWidth: 1,
+    borderTopColor: "#e5e7eb",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    backgroundColor: "#2563eb",
+    borderRadius: 6,
+    paddingVertical: 10,
+  },
+  actionButtonFinish: {
+    backgroundColor: "#16a34a",
+  },
+  actionButtonDisabled: {
+    opacity: 0.6,
+  },
+  actionButtonText: {
+    color: "#ffffff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  actionStatusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+  actionStatusText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#6b7280",
+  },
+  actionLinks: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  actionLink: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#2563eb",
+  },
   summaryBar: {
     flexDirection: "row",
     alignItems: "center",
@@ -1,40 +1,187 @@
-import { useState, useEffect, useCallback } from "react";
-import { View, Text, StyleSheet, Pressable, ActivityIndicator, RefreshControl, ScrollView } from "react-native";
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  TextInput,
+} from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useRouter, useFocusEffect } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
-import { fetchAllTrips, TripListItem } from "../../lib/trips";
+import {
+  fetchAllTrips,
+  fetchAssignableTrucks,
+  StopType,
+  TripListItem,
+  TripListQuery,
+  TripSort,
+  TripStatus,
+  TRIP_SORT_LABELS,
+  TRIP_STATUS_LABELS,
+} from "../../lib/trips";
+import { fetchTeamMembers, memberName, TeamMember } from "../../lib/team";
+import { useSync } from "../../contexts/SyncContext";
+
+const STATUS_COLORS: Record<TripStatus, { bg: string; text: string }> = {
+  planned: { bg: "#f3f4f6", text: "#6b7280" },
+  active: { bg: "#eff6ff", text: "#2563eb" },
+  completed: { bg: "#f0fdf4", text: "#16a34a" },
+  cancelled: { bg: "#fef2f2", text: "#dc2626" },
+  invoiced: { bg: "#f5f3ff", text: "#7c3aed" },
+};
+
+const STOP_TYPE_LABELS: Record<StopType, string> = {
+  pickup: "Pickup",
+  delivery: "Delivery",
+  stop: "Stop",
+  terminal: "Terminal",
+  empty_start: "Empty Start",
+  reposition: "Reposition",
+};
+
+type DateRange = "any" | "30d" | "90d" | "year" | "custom";
+
+const DATE_RANGE_LABELS: Record<DateRange, string> = {
+  any: "Any date",
+  "30d": "Last 30 days",
+  "90d": "Last 90 days",
+  year: "This year",
+  custom: "Custom",
+};
+
+// Local YYYY-MM-DD (toISOString would shift to UTC)
+function isoDate(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+// A typed YYYY-MM-DD that is a real day (2026-02-30 rolls over in Date, so it's rejected)
+function parseDateInput(value: string): string | null {
+  const v = value.trim();
+  const match = v.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const d = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isoDate(d) === v ? v : null;
+}
+
+function dateRangeBounds(range: DateRange, from: string, to: string): { dateFrom: string | null; dateTo: string | null } {
+  const now = new Date();
+  switch (range) {
+    case "30d":
+      return { dateFrom: isoDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() - 30)), dateTo: null };
+    case "90d":
+      return { dateFrom: isoDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() - 90)), dateTo: null };
+    case "year":
+      return { dateFrom: `${now.getFullYear()}-01-01`, dateTo: null };
+    case "custom": {
+      // Only real dates are sent; anything else is flagged on screen and ignored
+      return { dateFrom: parseDateInput(from), dateTo: parseDateInput(to) };
+    }
+    default:
+      return { dateFrom: null, dateTo: null };
+  }
+}
 
 export default function TripsScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
   const [trips, setTrips] = useState<TripListItem[]>([]);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [trucks, setTrucks] = useState<{ id: string; truck_number: string }[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [searchText, setSearchText] = useState("");
+  const [search, setSearch] = useState("");
+  const [truckFilter, setTruckFilter] = useState<string | null>(null);
+  const [driverFilter, setDriverFilter] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<TripStatus | null>(null);
+  const [stopTypeFilter, setStopTypeFilter] = useState<StopType | null>(null);
+  const [dateRange, setDateRange] = useState<DateRange>("any");
+  const [customFrom, setCustomFrom] = useState("");
+  const [customTo, setCustomTo] = useState("");
+  const [sort, setSort] = useState<TripSort>("date_desc");
+  const [showFilters, setShowFilters] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Only the latest request may update the list, so a slow search can't overwrite a newer one
+  const requestId = useRef(0);
+  const { entries: outboxEntries } = useSync();
+  const unsyncedTripIds = new Set(outboxEntries.map((e) => e.tripId).filter(Boolean));
+
+  const query: TripListQuery = {
+    search,
+    ...dateRangeBounds(dateRange, customFrom, customTo),
+    status: statusFilter,
+    truckId: truckFilter,
+    driverId: driverFilter,
+    stopType: stopTypeFilter,
+    sort,
+  };
+  const queryKey = JSON.stringify(query);
 
   async function loadTrips() {
+    const id = ++requestId.current;
     try {
-      const data = await fetchAllTrips();
-      setTrips(data);
+      const page = await fetchAllTrips(query);
+      if (id !== requestId.current) return;
+      setTrips(page.trips);
+      setTotal(page.total);
+      setLoadError(null);
     } catch (error: any) {
+      if (id !== requestId.current) return;
       console.error("[Trips] Error loading trips:", error);
       setTrips([]);
+      setTotal(0);
+      setLoadError(error.message || "Failed to load trips.");
+    } finally {
+      if (id === requestId.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    }
+  }
+
+  async function loadMore() {
+    if (loadingMore || trips.length >= total) return;
+    const id = requestId.current;
+    setLoadingMore(true);
+    try {
+      const page = await fetchAllTrips({ ...query, offset: trips.length });
+      if (id !== requestId.current) return;
+      // Trips added since the first page shift the offsets; skip any already shown
+      setTrips((prev) => {
+        const shown = new Set(prev.map((t) => t.id));
+        return [...prev, ...page.trips.filter((t) => !shown.has(t.id))];
+      });
+      setTotal(page.total);
+    } catch (error) {
+      console.error("[Trips] Error loading more trips:", error);
     } finally {
-      setLoading(false);
-      setRefreshing(false);
+      setLoadingMore(false);
     }
   }
 
   useEffect(() => {
-    loadTrips();
+    fetchAssignableTrucks().then(setTrucks).catch(() => {});
+    fetchTeamMembers().then(setMembers).catch(() => {});
   }, []);
 
-  // Reload when screen comes into focus (e.g. after creating a new trip)
+  // Search once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchText.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  // Reload when screen comes into focus (e.g. after creating a new trip) and when the query changes
   useFocusEffect(
     useCallback(() => {
       loadTrips();
       return () => {};
-    }, [])
+    }, [queryKey])
   );
 
   const onRefresh = () => {
@@ -42,6 +189,61 @@ export default function TripsScreen() {
     loadTrips();
   };
 
+  const activeFilters = [statusFilter, stopTypeFilter, truckFilter, driverFilter, dateRange !== "any"].filter(
+    Boolean
+  ).length;
+  const isFiltered = activeFilters > 0 || !!search;
+  const badCustomDate =
+    dateRange === "custom" &&
+    [customFrom, customTo].some((v) => v.trim() !== "" && !parseDateInput(v));
+  const driverNames = new Map(members.map((m) => [m.id, memberName(m)]));
+
+  function clearFilters() {
+    setStatusFilter(null);
+    setStopTypeFilter(null);
+    setTruckFilter(null);
+    setDriverFilter(null);
+    setDateRange("any");
+    setCustomFrom("");
+    setCustomTo("");
+  }
+
+  // One labelled row of chips in the filter panel; tapping the selected chip clears it
+  function renderChipRow<T extends string>(
+    label: string,
+    options: { key: T; label: string }[],
+    selected: T | null,
+    onSelect: (value: T | null) => void,
+    allLabel?: string
+  ) {
+    return (
+      <View style={styles.filterGroup}>
+        <Text style={styles.filterLabel}>{label}</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+          {allLabel && (
+            <Pressable
+              style={[styles.filterChip, !selected && styles.filterChipActive]}
+              onPress={() => onSelect(null)}
+            >
+              <Text style={[styles.filterChipText, !selected && styles.filterChipTextActive]}>{allLabel}</Text>
+            </Pressable>
+          )}
+          {options.map((o) => (
+            <Pressable
+              key={o.key}
+              style={[styles.filterChip, selected === o.key && styles.filterChipActive]}
+              onPress={() => onSelect(selected === o.key && allLabel ? null : o.key)}
+            >
+              <Text style={[styles.filterChipText, selected === o.key && styles.filterChipTextActive]}>
+                {o.label}
+              </Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      </View>
+    );
+  }
+
   if (loading) {
     return (
       <View style={[styles.container, styles.centered, { paddingTop: insets.top }]}>
@@ -59,9 +261,113 @@ export default function TripsScreen() {
           <Ionicons name="arrow-back" size={20} color="#1e293b" />
         </Pressable>
         <Text style={styles.title}>Trips</Text>
-        <View style={styles.placeholder} />
+        <Pressable onPress={() => setShowFilters(!showFilters)} style={styles.filterToggle} hitSlop={8}>
+          <Ionicons name="options-outline" size={20} color={activeFilters > 0 ? "#2563eb" : "#1e293b"} />
+          {activeFilters > 0 && (
+            <View style={styles.filterBadge}>
+              <Text style={styles.filterBadgeText}>{activeFilters}</Text>
+            </View>
+          )}
+        </Pressable>
+      </View>
+
+      {/* Search */}
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={14} color="#9ca3af" />
+        <TextInput
+          style={styles.searchInput}
+          value={searchText}
+          onChangeText={setSearchText}
+          placeholder="Trip number, company or city"
+          placeholderTextColor="#9ca3af"
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {searchText.length > 0 && (
+          <Pressable onPress={() => setSearchText("")} hitSlop={8}>
+            <Ionicons name="close-circle" size={16} color="#9ca3af" />
+          </Pressable>
+        )}
       </View>
 
+      {/* Filters */}
+      {showFilters && (
+        <View style={styles.filterBar}>
+          {renderChipRow(
+            "STATUS",
+            (Object.keys(TRIP_STATUS_LABELS) as TripStatus[]).map((k) => ({ key: k, label: TRIP_STATUS_LABELS[k] })),
+            statusFilter,
+            setStatusFilter,
+            "All"
+          )}
+          {renderChipRow(
+            "STOP TYPE",
+            (Object.keys(STOP_TYPE_LABELS) as StopType[]).map((k) => ({ key: k, label: STOP_TYPE_LABELS[k] })),
+            stopTypeFilter,
+            setStopTypeFilter,
+            "Any"
+          )}
+          {renderChipRow(
+            "DATE",
+            (Object.keys(DATE_RANGE_LABELS) as DateRange[]).map((k) => ({ key: k, label: DATE_RANGE_LABELS[k] })),
+            dateRange,
+            (value) => setDateRange(value || "any")
+          )}
+          {dateRange === "custom" && (
+            <View style={styles.customDateRow}>
+              <TextInput
+                style={styles.dateInput}
+                value={customFrom}
+                onChangeText={setCustomFrom}
+                placeholder="From YYYY-MM-DD"
+                placeholderTextColor="#9ca3af"
+                maxLength={10}
+              />
+              <Text style={styles.filterChipText}>to</Text>
+              <TextInput
+                style={styles.dateInput}
+                value={customTo}
+                onChangeText={setCustomTo}
+                placeholder="To YYYY-MM-DD"
+                placeholderTextColor="#9ca3af"
+                maxLength={10}
+              />
+            </View>
+          )}
+          {badCustomDate && (
+            <Text style={styles.dateError}>Enter real dates as YYYY-MM-DD, e.g. 2026-03-01</Text>
+          )}
+          {trucks.length > 1 &&
+            renderChipRow(
+              "TRUCK",
+              trucks.map((t) => ({ key: t.id, label: t.truck_number })),
+              truckFilter,
+              setTruckFilter,
+              "All trucks"
+            )}
+          {members.length > 1 &&
+            renderChipRow(
+              "DRIVER",
+              members.map((m) => ({ key: m.id, label: memberName(m) })),
+              driverFilter,
+              setDriverFilter,
+              "All drivers"
+            )}
+          {renderChipRow(
+            "SORT",
+            (Object.keys(TRIP_SORT_LABELS) as TripSort[]).map((k) => ({ key: k, label: TRIP_SORT_LABELS[k] })),
+            sort,
+            (value) => setSort(value || "date_desc")
+          )}
+          {activeFilters > 0 && (
+            <Pressable onPress={clearFilters} hitSlop={8}>
+              <Text style={styles.clearFilters}>Clear filters</Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+
       {/* Trip List */}
       <ScrollView
         style={styles.scrollView}
@@ -70,16 +376,27 @@ export default function TripsScreen() {
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
         }
       >
-        {trips.length === 0 ? (
+        {loadError ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="alert-circle-outline" size={48} color="#fca5a5" />
+            <Text style={styles.emptyTitle}>Couldn't load trips</Text>
+            <Text style={styles.emptyText}>{loadError}</Text>
+          </View>
+        ) : trips.length === 0 ? (
           <View style={styles.emptyState}>
             <Ionicons name="map-outline" size={48} color="#d1d5db" />
-            <Text style={styles.emptyTitle}>No trips yet</Text>
+            <Text style={styles.emptyTitle}>{isFiltered ? "No matching trips" : "No trips yet"}</Text>
             <Text style={styles.emptyText}>
-              Create your first trip from the home screen
+              {isFiltered
+                ? "Try a different search or fewer filters"
+                : "Create your first trip from the home screen"}
             </Text>
           </View>
         ) : (
           <>
+            <Text style={styles.resultCount}>
+              {total === 1 ? "1 trip" : `${total.toLocaleString()} trips`}
+            </Text>
             {trips.map((trip) => (
               <Pressable
                 key={trip.id}
@@ -89,32 +406,54 @@ export default function TripsScreen() {
                 <View style={styles.tripCardLeft}>
                   <View style={styles.tripIdRow}>
                     <Text style={styles.tripId}>#{trip.tripReference}</Text>
-                    <View
-                      style={[
-                        styles.statusBadge,
-                        trip.status === "Completed" ? styles.statusCompleted : styles.statusActive,
-                      ]}
-                    >
-                      <Text
-                        style={[
-                          styles.statusText,
-                          trip.status === "Completed" ? styles.statusTextCompleted : styles.statusTextActive,
-                        ]}
-                      >
-                        {trip.status}
+                    <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[trip.status].bg }]}>
+                      <Text style={[styles.statusText, { color: STATUS_COLORS[trip.status].text }]}>
+                        {TRIP_STATUS_LABELS[trip.status]}
                       </Text>
                     </View>
+                    {unsyncedTripIds.has(trip.id) && (
+                      <Ionicons name="cloud-upload-outline" size={12} color="#d97706" />
+                    )}
                   </View>
                   <Text style={styles.tripRoute}>
                     {trip.origin} → {trip.destination}
                   </Text>
                   <Text style={styles.tripMeta}>
                     {trip.date} · {trip.completed}/{trip.stops} stops
+                    {trip.mileage ? ` · ${trip.mileage.toLocaleString()} mi` : ""}
                   </Text>
+                  {(trip.truckNumber || trip.driverIds.length > 0) && (
+                    <Text style={styles.tripMeta}>
+                      {[trip.truckNumber, trip.driverIds.map((d) => driverNames.get(d)).filter(Boolean).join(" & ")]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </Text>
+                  )}
                 </View>
+                {trip.revenue > 0 && (
+                  <View style={styles.tripRevenue}>
+                    <Text style={styles.tripRevenueAmount}>
+                      ${trip.revenue.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </Text>
+                    {trip.revenuePerMile != null && (
+                      <Text style={styles.tripRevenueRate}>${trip.revenuePerMile.toFixed(2)}/mi</Text>
+                    )}
+                  </View>
+                )}
                 <Ionicons name="chevron-forward" size={16} color="#9ca3af" />
               </Pressable>
             ))}
+            {trips.length < total && (
+              <Pressable onPress={loadMore} style={styles.loadMoreBtn} disabled={loadingMore}>
+                {loadingMore ? (
+                  <ActivityIndicator size="small" color="#2563eb" />
+                ) : (
+                  <Text style={styles.loadMoreText}>
+                    Load more ({trips.length} of {total.toLocaleString()})
+                  </Text>
+                )}
+              </Pressable>
+            )}
           </>
         )}
       </ScrollView>
@@ -145,8 +484,106 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#1e293b",
   },
-  placeholder: {
-    width: 24,
+  filterToggle: {
+    padding: 2,
+  },
+  filterBadge: {
+    position: "absolute",
+    top: -4,
+    right: -6,
+    minWidth: 14,
+    height: 14,
+    borderRadius: 7,
+    backgroundColor: "#2563eb",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 3,
+  },
+  filterBadgeText: {
+    fontSize: 9,
+    fontWeight: "700",
+    color: "#ffffff",
+  },
+  searchBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 13,
+    color: "#1e293b",
+    paddingVertical: 4,
+  },
+  filterBar: {
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  filterGroup: {
+    gap: 4,
+  },
+  filterLabel: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#9ca3af",
+    letterSpacing: 0.5,
+  },
+  customDateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  dateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    fontSize: 12,
+    color: "#1e293b",
+  },
+  dateError: {
+    fontSize: 11,
+    color: "#dc2626",
+  },
+  clearFilters: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#2563eb",
+  },
+  filterRow: {
+    alignItems: "center",
+    gap: 6,
+  },
+  filterChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  filterChipActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  filterChipText: {
+    fontSize: 11,
+    fontWeight: "500",
+    color: "#6b7280",
+  },
+  filterChipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
   },
   scrollView: {
     flex: 1,
@@ -217,22 +654,10 @@ const styles = StyleSheet.create({
     paddingVertical: 1,
     borderRadius: 3,
   },
-  statusActive: {
-    backgroundColor: "#eff6ff",
-  },
-  statusCompleted: {
-    backgroundColor: "#f0fdf4",
-  },
   statusText: {
     fontSize: 10,
     fontWeight: "600",
   },
-  statusTextActive: {
-    color: "#2563eb",
-  },
-  statusTextCompleted: {
-    color: "#16a34a",
-  },
   tripRoute: {
     fontSize: 12,
     color: "#374151",
@@ -242,4 +667,36 @@ const styles = StyleSheet.create({
     fontSize: 11,
     color: "#9ca3af",
   },
+  tripRevenue: {
+    alignItems: "flex-end",
+    marginRight: 8,
+  },
+  tripRevenueAmount: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  tripRevenueRate: {
+    fontSize: 10,
+    color: "#6b7280",
+    marginTop: 1,
+  },
+  resultCount: {
+    fontSize: 11,
+    color: "#9ca3af",
+    marginBottom: 2,
+  },
+  loadMoreBtn: {
+    alignItems: "center",
+    paddingVertical: 10,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    backgroundColor: "#ffffff",
+  },
+  loadMoreText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#2563eb",
+  },
 });
@@ -13,15 +13,24 @@ import {
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
-import DateTimePicker from "@react-native-community/datetimepicker";
+import DateTimePicker, { DateTimePickerEvent } from "@react-native-community/datetimepicker";
 import {
   searchLocations,
   formatLocationAddress,
   DatabaseLocation,
 } from "../../lib/locations";
+import { fetchAssignableTrucks, StopType } from "../../lib/trips";
+import { TripChargeInput } from "../../lib/revenue";
+import { fetchTeamMembers, fetchCurrentMember, memberName, TeamMember } from "../../lib/team";
+import {
+  fetchTripTemplates,
+  deleteTripTemplate,
+  templateStopsOn,
+  TripTemplate,
+} from "../../lib/tripTemplates";
 
 const STOP_TYPES: Record<
-  string,
+  StopType,
   { label: string; color: string; bgColor: string }
 > = {
   empty_start: { label: "Empty Start", color: "#2563eb", bgColor: "#eff6ff" },
@@ -32,11 +41,11 @@ const STOP_TYPES: Record<
   reposition: { label: "Reposition", color: "#2563eb", bgColor: "#eff6ff" },
 };
 
-const STOP_TYPE_KEYS = Object.keys(STOP_TYPES);
+const STOP_TYPE_KEYS = Object.keys(STOP_TYPES) as StopType[];
 
 type NewStop = {
   id: string;
-  type: string;
+  type: StopType;
   company: string;
   address: string;
   expectedDate: string;
@@ -49,12 +58,25 @@ function makeId() {
   return Date.now().toString() + Math.random().toString(36).slice(2, 6);
 }
 
+function formatStopDate(date: Date) {
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+function today() {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
 export default function NewTripScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
 
   const [tripId, setTripId] = useState(""); // Display only - auto-generated on create
   const [revenue, setRevenue] = useState("");
+  const [trucks, setTrucks] = useState<{ id: string; truck_number: string }[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [truckId, setTruckId] = useState<string | null>(null);
+  const [driverIds, setDriverIds] = useState<string[]>([]);
   const [stops, setStops] = useState<NewStop[]>([
     {
       id: makeId(),
@@ -89,6 +111,99 @@ export default function NewTripScreen() {
   ]);
 
   const [expandedStop, setExpandedStop] = useState<string | null>(null);
+
+  // Default to the only truck and to the signed-in driver
+  useEffect(() => {
+    Promise.all([fetchAssignableTrucks(), fetchTeamMembers(), fetchCurrentMember()])
+      .then(([truckList, team, me]) => {
+        setTrucks(truckList);
+        setMembers(team);
+        if (truckList.length === 1) setTruckId(truckList[0].id);
+        if (me) setDriverIds([me.id]);
+      })
+      .catch((error) => console.error("[NewTrip] Error loading trucks and drivers:", error));
+    fetchTripTemplates()
+      .then(setTemplates)
+      .catch((error) => console.error("[NewTrip] Error loading templates:", error));
+  }, []);
+
+  // Templates: stops for a saved lane, dated from the chosen start date
+  const [templates, setTemplates] = useState<TripTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [templateStart, setTemplateStart] = useState<Date>(today);
+  const [showStartPicker, setShowStartPicker] = useState(false);
+
+  function applyTemplate(template: TripTemplate) {
+    setStops(
+      templateStopsOn(template, templateStart).map((stop) => ({
+        id: makeId(),
+        type: stop.type,
+        company: stop.company,
+        address: stop.address,
+        expectedDate: stop.expectedDate,
+        expectedTime: stop.expectedTime,
+        notes: stop.notes,
+        locationId: stop.locationId,
+      }))
+    );
+    setTemplateId(template.id);
+    setExpandedStop(null);
+  }
+
+  // Moving the start date shifts every dated stop by the same number of days,
+  // keeping any edits made since the template was applied
+  function changeTemplateStart(date: Date) {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const days = Math.round((start.getTime() - templateStart.getTime()) / (24 * 60 * 60 * 1000));
+    setTemplateStart(start);
+    if (!templateId || days === 0) return;
+    setStops((prev) =>
+      prev.map((s) => {
+        const parsed = s.expectedDate ? new Date(s.expectedDate) : null;
+        if (!parsed || isNaN(parsed.getTime())) return s;
+        const shifted = new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate() + days);
+        return { ...s, expectedDate: formatStopDate(shifted) };
+      })
+    );
+  }
+
+  function handleStartDateChange(event: DateTimePickerEvent, selectedDate?: Date) {
+    if (Platform.OS === "android" || event.type === "dismissed") {
+      setShowStartPicker(false);
+    }
+    if (event.type === "set" && selectedDate) {
+      changeTemplateStart(selectedDate);
+      if (Platform.OS === "ios") setShowStartPicker(false);
+    }
+  }
+
+  function confirmDeleteTemplate(template: TripTemplate) {
+    Alert.alert("Delete Template", `Delete "${template.name}"? Trips made from it are not affected.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteTripTemplate(template.id);
+            setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+            if (templateId === template.id) setTemplateId(null);
+          } catch (error) {
+            Alert.alert("Error", (error as Error).message || "Failed to delete template.");
+          }
+        },
+      },
+    ]);
+  }
+
+  // Up to two drivers; tapping a selected driver removes them
+  function toggleDriver(memberId: string) {
+    setDriverIds((prev) =>
+      prev.includes(memberId)
+        ? prev.filter((d) => d !== memberId)
+        : [...prev, memberId].slice(-2)
+    );
+  }
   
   // Location search state
   const [searchMode, setSearchMode] = useState<{ [key: string]: boolean }>({});
@@ -254,22 +369,34 @@ export default function NewTripScreen() {
     setCreating(true);
 
     try {
-      const { createNewTrip, saveStop } = await import("../../lib/trips");
-      const { getNextTripNumber } = await import("../../lib/sequences");
-      
-      // Get next trip number from sequences (100, 101, 102, ...)
-      const tripNumber = await getNextTripNumber();
-      const tripReference = tripNumber.toString();
-      
-      // Create the trip (DB generates UUID, we use trip number as reference)
-      const newTrip = await createNewTrip(tripReference);
+      const { createTripWithStops } = await import("../../lib/trips");
 
-      // Save each stop
-      for (let i = 0; i < stops.length; i++) {
-        const stop = stops[i];
-        const uiStop = {
-          id: crypto.randomUUID ? crypto.randomUUID() : `temp-${stop.id}`,
-          type: stop.type as any,
+      // Revenue entered up front becomes a flat charge line; codes can be added on the trip
+      const revenueAmount = parseFloat(revenue.replace(/[^0-9.]/g, ""));
+      const charges: TripChargeInput[] =
+        revenueAmount > 0
+          ? [{
+              charge_code_id: null,
+              code: null,
+              description: "Revenue",
+              rate_type: "flat",
+              rate: revenueAmount,
+              quantity: 1,
+            }]
+          : [];
+
+      // Trip, stops, legs and revenue are saved together or not at all; the
+      // trip number (100, 101, ... or as formatted in Settings → Sequences)
+      // is taken in the same step
+      const { trip: newTrip } = await createTripWithStops({
+        assignment: {
+          truck_id: truckId,
+          driver_id: driverIds[0] || null,
+          co_driver_id: driverIds[1] || null,
+        },
+        stops: stops.map((stop, i) => ({
+          id: stop.id,
+          type: stop.type,
           company: stop.company,
           address: stop.address,
           expectedDate: stop.expectedDate,
@@ -283,9 +410,10 @@ export default function NewTripScreen() {
           isCurrent: i === 0,
           mileageToNext: null,
           locationId: stop.locationId || null,
-        };
-        await saveStop(newTrip.id, uiStop, i);
-      }
+        })),
+        charges,
+      });
+      const tripReference = newTrip.trip_reference || "";
 
       setCreating(false);
       
@@ -343,7 +471,7 @@ export default function NewTripScreen() {
           <View style={styles.fieldGroup}>
             <Text style={styles.fieldLabel}>TRIP NUMBER</Text>
             <Text style={styles.tripNumberHint}>
-              Auto-assigned on Create (e.g. 100, 101, 102). Set starting value in Settings → Sequences.
+              Auto-assigned on Create (e.g. 100, 101, 102). Set the next number and format in Settings → Sequences.
             </Text>
           </View>
           <View style={styles.row}>
@@ -358,8 +486,114 @@ export default function NewTripScreen() {
               />
             </View>
           </View>
+          {trucks.length > 0 && (
+            <View style={styles.fieldGroup}>
+              <Text style={styles.fieldLabel}>TRUCK</Text>
+              <View style={styles.chipWrap}>
+                {trucks.map((t) => (
+                  <Pressable
+                    key={t.id}
+                    onPress={() => setTruckId(truckId === t.id ? null : t.id)}
+                    style={[styles.typeChip, truckId === t.id && styles.chipActive]}
+                  >
+                    <Text style={[styles.typeChipText, truckId === t.id && styles.chipTextActive]}>
+                      {t.truck_number}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+          )}
+          {members.length > 1 && (
+            <View style={styles.fieldGroup}>
+              <Text style={styles.fieldLabel}>DRIVERS</Text>
+              <View style={styles.chipWrap}>
+                {members.map((m) => {
+                  const slot = driverIds.indexOf(m.id);
+                  return (
+                    <Pressable
+                      key={m.id}
+                      onPress={() => toggleDriver(m.id)}
+                      style={[styles.typeChip, slot >= 0 && styles.chipActive]}
+                    >
+                      <Text style={[styles.typeChipText, slot >= 0 && styles.chipTextActive]}>
+                        {memberName(m)}
+                        {slot === 1 ? " (co-driver)" : ""}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+          )}
         </View>
 
+        {/* Template */}
+        {templates.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>From Template</Text>
+            </View>
+            <View style={styles.fieldGroup}>
+              <View style={styles.chipWrap}>
+                {templates.map((t) => (
+                  <Pressable
+                    key={t.id}
+                    onPress={() => applyTemplate(t)}
+                    onLongPress={() => confirmDeleteTemplate(t)}
+                    style={[styles.typeChip, templateId === t.id && styles.chipActive]}
+                  >
+                    <Text style={[styles.typeChipText, templateId === t.id && styles.chipTextActive]}>
+                      {t.name} ({t.stops.length})
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+            <View style={styles.fieldGroup}>
+              <Text style={styles.fieldLabel}>START DATE</Text>
+              {Platform.OS === "web" ? (
+                <input
+                  type="date"
+                  value={`${templateStart.getFullYear()}-${String(templateStart.getMonth() + 1).padStart(2, "0")}-${String(templateStart.getDate()).padStart(2, "0")}`}
+                  onChange={(e) => {
+                    const val = e.target.value;
+                    if (val) {
+                      // Parse as local date to avoid timezone off-by-one
+                      const [y, m, day] = val.split("-").map(Number);
+                      changeTemplateStart(new Date(y, m - 1, day));
+                    }
+                  }}
+                  style={{
+                    padding: 8,
+                    fontSize: 14,
+                    border: "1px solid #e5e7eb",
+                    borderRadius: 5,
+                  }}
+                />
+              ) : (
+                <>
+                  <Pressable onPress={() => setShowStartPicker(true)} style={styles.dateButton}>
+                    <Text style={styles.dateButtonText}>{formatStopDate(templateStart)}</Text>
+                    <Ionicons name="calendar-outline" size={16} color="#6b7280" />
+                  </Pressable>
+                  {showStartPicker && (
+                    <DateTimePicker
+                      value={templateStart}
+                      mode="date"
+                      display={Platform.OS === "ios" ? "spinner" : "default"}
+                      onChange={handleStartDateChange}
+                    />
+                  )}
+                </>
+              )}
+            </View>
+            <Text style={styles.tripNumberHint}>
+              The first dated stop lands on the start date and the rest keep their spacing. Long-press a template to delete it.
+            </Text>
+          </View>
+        )}
+
         {/* Stops */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -838,6 +1072,19 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     color: "#6b7280",
   },
+  chipWrap: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 5,
+  },
+  chipActive: {
+    backgroundColor: "#eff6ff",
+    borderColor: "#2563eb",
+  },
+  chipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
   toggleRow: {
     flexDirection: "row",
     justifyContent: "space-between",
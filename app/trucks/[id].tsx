@@ -0,0 +1,320 @@
+import { useState, useCallback } from "react";
+import { View, Text, Pressable, StyleSheet, ScrollView, ActivityIndicator } from "react-native";
+import { useRouter, useLocalSearchParams, useFocusEffect } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  fetchTruckCostSummaries,
+  buildOwnershipSchedule,
+  TruckCostSummary,
+  DEFAULT_MONTHLY_MILES,
+} from "../../lib/truckCosts";
+
+function money(n: number) {
+  return `$${n.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(iso: string) {
+  return new Date(iso + "T12:00:00").toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+function formatMonth(iso: string) {
+  return new Date(iso + "T12:00:00").toLocaleDateString("en-US", { month: "short", year: "numeric" });
+}
+
+export default function TruckScheduleScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [summary, setSummary] = useState<TruckCostSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSummary();
+    }, [id])
+  );
+
+  async function loadSummary() {
+    try {
+      setLoading(true);
+      const summaries = await fetchTruckCostSummaries();
+      setSummary(summaries.find((s) => s.truck.id === id) || null);
+    } catch (error) {
+      console.error("[TruckSchedule] Error loading truck:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const truck = summary?.truck;
+  const leased = truck?.ownership_type === "leased";
+  const schedule = truck ? buildOwnershipSchedule(truck) : [];
+
+  function detailRow(label: string, value: string) {
+    return (
+      <View style={styles.detailRow} key={label}>
+        <Text style={styles.detailLabel}>{label}</Text>
+        <Text style={styles.detailValue}>{value}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+          <Ionicons name="arrow-back" size={24} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.headerTitle}>{truck ? truck.truck_number : "Truck"}</Text>
+        <View style={styles.headerBtn} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2563eb" />
+        </View>
+      ) : !summary || !truck ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.emptyText}>Truck not found</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+          {summary.alert && (
+            <View style={styles.alertCard}>
+              <Ionicons name="alert-circle" size={18} color="#d97706" />
+              <Text style={styles.alertText}>
+                {summary.alert.kind === "lease_buyoff"
+                  ? `Lease buyoff${summary.alert.amount != null ? ` of ${money(summary.alert.amount)}` : ""} due ${formatDate(summary.alert.date)} (${summary.alert.daysLeft} days)`
+                  : `Amortization ends ${formatDate(summary.alert.date)} (${summary.alert.daysLeft} days)`}
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>{leased ? "LEASE" : "PURCHASE"}</Text>
+            {leased ? (
+              <>
+                {detailRow("Start", truck.lease_start_date ? formatDate(truck.lease_start_date) : "—")}
+                {detailRow("Monthly rate", truck.lease_monthly_rate != null ? money(Number(truck.lease_monthly_rate)) : "—")}
+                {detailRow("Term", truck.lease_years != null ? `${truck.lease_years} years` : "—")}
+                {detailRow("Buyoff", truck.lease_buyoff != null ? money(Number(truck.lease_buyoff)) : "—")}
+              </>
+            ) : (
+              <>
+                {detailRow("Purchased", truck.purchase_date ? formatDate(truck.purchase_date) : "—")}
+                {detailRow("Price", truck.purchase_price != null ? money(Number(truck.purchase_price)) : "—")}
+                {detailRow("Amortization", truck.amortization_period != null ? `${truck.amortization_period} months` : "—")}
+                {detailRow("Residual", truck.residual_value != null ? money(Number(truck.residual_value)) : "—")}
+              </>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>COST</Text>
+            {detailRow("Per month", summary.monthlyCost != null ? money(summary.monthlyCost) : "—")}
+            {detailRow(
+              "Miles per month",
+              summary.milesPerMonth
+                ? summary.milesPerMonth.toLocaleString()
+                : `${DEFAULT_MONTHLY_MILES.toLocaleString()} (assumed)`
+            )}
+            {detailRow("Per mile", summary.perMile != null ? `$${summary.perMile.toFixed(3)}` : "—")}
+            {detailRow(leased ? "Payments left" : "Book value", summary.balance != null ? money(summary.balance) : "—")}
+            {summary.term?.end && detailRow(leased ? "Buyoff date" : "Fully amortized", formatDate(summary.term.end))}
+          </View>
+
+          <Text style={styles.scheduleTitle}>{leased ? "LEASE SCHEDULE" : "AMORTIZATION SCHEDULE"}</Text>
+          {schedule.length === 0 ? (
+            <Text style={styles.emptySubtext}>
+              {leased
+                ? "Enter the monthly lease rate and term in Setup > Assets to see the schedule."
+                : "Enter the purchase price and amortization period in Setup > Assets to see the schedule."}
+            </Text>
+          ) : (
+            <View style={styles.table}>
+              <View style={[styles.tableRow, styles.tableHeader]}>
+                <Text style={[styles.cellMonth, styles.headerCell]}>#</Text>
+                <Text style={[styles.cellDate, styles.headerCell]}>Month</Text>
+                <Text style={[styles.cellAmount, styles.headerCell]}>{leased ? "Payment" : "Depreciation"}</Text>
+                <Text style={[styles.cellAmount, styles.headerCell]}>{leased ? "Left" : "Book value"}</Text>
+              </View>
+              {schedule.map((row) => (
+                <View
+                  key={row.month}
+                  style={[
+                    styles.tableRow,
+                    summary.term && row.month <= summary.term.elapsed && styles.tableRowPast,
+                    summary.term && row.month === summary.term.elapsed + 1 && styles.tableRowCurrent,
+                  ]}
+                >
+                  <Text style={styles.cellMonth}>{row.month}</Text>
+                  <Text style={styles.cellDate}>{row.date ? formatMonth(row.date) : "—"}</Text>
+                  <Text style={styles.cellAmount}>{money(row.amount)}</Text>
+                  <Text style={styles.cellAmount}>{money(row.balance)}</Text>
+                </View>
+              ))}
+              {leased && truck.lease_buyoff != null && (
+                <View style={[styles.tableRow, styles.tableFooter]}>
+                  <Text style={styles.cellMonth} />
+                  <Text style={styles.cellDate}>{summary.term?.end ? formatMonth(summary.term.end) : "End"}</Text>
+                  <Text style={styles.cellAmount}>{money(Number(truck.lease_buyoff))}</Text>
+                  <Text style={styles.cellAmount}>Buyoff</Text>
+                </View>
+              )}
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  headerBtn: {
+    padding: 4,
+    minWidth: 32,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  loadingContainer: {
+    paddingTop: 60,
+    alignItems: "center",
+  },
+  emptyText: {
+    fontSize: 16,
+    color: "#9ca3af",
+    fontWeight: "600",
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: "#9ca3af",
+  },
+  alertCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#fffbeb",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#fde68a",
+    padding: 12,
+    marginBottom: 12,
+  },
+  alertText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#92400e",
+  },
+  card: {
+    backgroundColor: "#ffffff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 12,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#6b7280",
+    letterSpacing: 0.5,
+    marginBottom: 6,
+  },
+  detailRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+  detailLabel: {
+    fontSize: 13,
+    color: "#6b7280",
+  },
+  detailValue: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  scheduleTitle: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#6b7280",
+    letterSpacing: 0.5,
+    marginBottom: 6,
+    marginTop: 4,
+  },
+  table: {
+    backgroundColor: "#ffffff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    overflow: "hidden",
+  },
+  tableRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+  },
+  tableHeader: {
+    backgroundColor: "#f9fafb",
+  },
+  tableRowPast: {
+    opacity: 0.5,
+  },
+  tableRowCurrent: {
+    backgroundColor: "#eff6ff",
+  },
+  tableFooter: {
+    backgroundColor: "#fffbeb",
+    borderBottomWidth: 0,
+  },
+  headerCell: {
+    fontWeight: "700",
+    color: "#6b7280",
+  },
+  cellMonth: {
+    width: 32,
+    fontSize: 12,
+    color: "#9ca3af",
+  },
+  cellDate: {
+    flex: 1,
+    fontSize: 12,
+    color: "#374151",
+  },
+  cellAmount: {
+    width: 96,
+    fontSize: 12,
+    color: "#1e293b",
+    textAlign: "right",
+  },
+});
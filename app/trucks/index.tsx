@@ -0,0 +1,283 @@
+import { useState, useCallback } from "react";
+import { View, Text, Pressable, StyleSheet, ScrollView, ActivityIndicator } from "react-native";
+import { useRouter, useFocusEffect } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { fetchTruckCostSummaries, TruckCostSummary, DEFAULT_MONTHLY_MILES } from "../../lib/truckCosts";
+
+function money(n: number) {
+  return `$${n.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(iso: string) {
+  return new Date(iso + "T12:00:00").toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+export default function TruckCostsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const [summaries, setSummaries] = useState<TruckCostSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSummaries();
+    }, [])
+  );
+
+  async function loadSummaries() {
+    try {
+      setLoading(true);
+      setSummaries(await fetchTruckCostSummaries());
+    } catch (error) {
+      console.error("[TruckCosts] Error loading summaries:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const fleetMonthly = summaries.reduce((sum, s) => sum + (s.monthlyCost || 0), 0);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+          <Ionicons name="arrow-back" size={24} color="#1e293b" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Cost of Ownership</Text>
+        <View style={styles.headerBtn} />
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#2563eb" />
+          </View>
+        ) : summaries.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="car-outline" size={48} color="#d1d5db" />
+            <Text style={styles.emptyText}>No trucks yet</Text>
+            <Text style={styles.emptySubtext}>Add trucks and trailers in Setup &gt; Assets</Text>
+          </View>
+        ) : (
+          <>
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryLabel}>Fixed cost per month</Text>
+              <Text style={styles.summaryValue}>{money(fleetMonthly)}</Text>
+            </View>
+
+            {summaries.map((s) => {
+              const leased = s.truck.ownership_type === "leased";
+              return (
+                <Pressable
+                  key={s.truck.id}
+                  style={({ pressed }) => [styles.truckCard, pressed && styles.truckCardPressed]}
+                  onPress={() => router.push(`/trucks/${s.truck.id}`)}
+                >
+                  <View style={styles.truckTop}>
+                    <Text style={styles.truckNumber}>{s.truck.truck_number}</Text>
+                    <Text style={styles.truckType}>
+                      {s.truck.asset_type || "truck"} · {leased ? "leased" : "owned"}
+                    </Text>
+                  </View>
+
+                  {s.monthlyCost == null ? (
+                    <Text style={styles.missingText}>
+                      {leased ? "Add the monthly lease rate" : "Add the purchase price and amortization period"} to see costs
+                    </Text>
+                  ) : (
+                    <View style={styles.statsRow}>
+                      <View style={styles.stat}>
+                        <Text style={styles.statValue}>{money(s.monthlyCost)}</Text>
+                        <Text style={styles.statLabel}>per month</Text>
+                      </View>
+                      <View style={styles.stat}>
+                        <Text style={styles.statValue}>{s.perMile != null ? `$${s.perMile.toFixed(3)}` : "—"}</Text>
+                        <Text style={styles.statLabel}>
+                          per mile{s.perMile != null && !s.milesPerMonth ? "*" : ""}
+                        </Text>
+                      </View>
+                      <View style={styles.stat}>
+                        <Text style={styles.statValue}>{s.balance != null ? money(s.balance) : "—"}</Text>
+                        <Text style={styles.statLabel}>{leased ? "payments left" : "book value"}</Text>
+                      </View>
+                    </View>
+                  )}
+
+                  {s.term && (
+                    <Text style={styles.termText}>
+                      {s.term.end
+                        ? `${leased ? "Buyoff" : "Amortized"} ${formatDate(s.term.end)} · month ${s.term.elapsed} of ${s.term.months}`
+                        : `${s.term.months} months · set the ${leased ? "lease start" : "purchase"} date for a schedule`}
+                    </Text>
+                  )}
+
+                  {s.alert && (
+                    <View style={styles.alertRow}>
+                      <Ionicons name="alert-circle" size={14} color="#d97706" />
+                      <Text style={styles.alertText}>
+                        {s.alert.kind === "lease_buyoff"
+                          ? `Lease buyoff${s.alert.amount != null ? ` of ${money(s.alert.amount)}` : ""} due in ${s.alert.daysLeft} days`
+                          : `Amortization ends in ${s.alert.daysLeft} days`}
+                      </Text>
+                    </View>
+                  )}
+                </Pressable>
+              );
+            })}
+
+            {summaries.some((s) => s.perMile != null && !s.milesPerMonth) && (
+              <Text style={styles.footnote}>
+                * Not enough odometer history; assumes {DEFAULT_MONTHLY_MILES.toLocaleString()} miles a month.
+              </Text>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  headerBtn: {
+    padding: 4,
+    minWidth: 32,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  loadingContainer: {
+    paddingTop: 60,
+    alignItems: "center",
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingTop: 60,
+    paddingHorizontal: 24,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: "#9ca3af",
+    marginTop: 12,
+    fontWeight: "600",
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: "#d1d5db",
+    marginTop: 4,
+    textAlign: "center",
+  },
+  summaryCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "#ffffff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 12,
+    marginBottom: 12,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  truckCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 12,
+    marginBottom: 8,
+  },
+  truckCardPressed: {
+    backgroundColor: "#f3f4f6",
+  },
+  truckTop: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  truckNumber: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  truckType: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  missingText: {
+    fontSize: 12,
+    color: "#9ca3af",
+  },
+  statsRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  stat: {
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  statLabel: {
+    fontSize: 11,
+    color: "#6b7280",
+    marginTop: 1,
+  },
+  termText: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 8,
+  },
+  alertRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 6,
+  },
+  alertText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#d97706",
+  },
+  footnote: {
+    fontSize: 11,
+    color: "#9ca3af",
+    marginTop: 4,
+  },
+});
@@ -1,11 +1,15 @@
 import { createContext, useContext, useEffect, useState } from "react";
 import { Session, User } from "@supabase/supabase-js";
 import { supabase } from "../lib/supabaseClient";
+import { clearOfflineCache } from "../lib/offline";
+import { fetchCurrentMember, TeamRole } from "../lib/team";
 import { useRouter } from "expo-router";
 
 type AuthContextType = {
   session: Session | null;
   user: User | null;
+  // Owner or team driver on the account; null until loaded
+  role: TeamRole | null;
   loading: boolean;
   signOut: () => Promise<void>;
 };
@@ -13,6 +17,7 @@ type AuthContextType = {
 const AuthContext = createContext<AuthContextType>({
   session: null,
   user: null,
+  role: null,
   loading: true,
   signOut: async () => {},
 });
@@ -20,6 +25,7 @@ const AuthContext = createContext<AuthContextType>({
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [user, setUser] = useState<User | null>(null);
+  const [role, setRole] = useState<TeamRole | null>(null);
   const [loading, setLoading] = useState(true);
   const router = useRouter();
 
@@ -69,13 +75,25 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  // Role decides what the user can change in Setup
+  useEffect(() => {
+    if (!user) {
+      setRole(null);
+      return;
+    }
+    fetchCurrentMember()
+      .then((member) => setRole(member?.role ?? null))
+      .catch((error) => console.error("Error loading team role:", error));
+  }, [user?.id]);
+
   const signOut = async () => {
     await supabase.auth.signOut();
+    await clearOfflineCache();
     router.replace("/auth/login");
   };
 
   return (
-    <AuthContext.Provider value={{ session, user, loading, signOut }}>
+    <AuthContext.Provider value={{ session, user, role, loading, signOut }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,101 @@
+import { createContext, useContext, useEffect, useState } from "react";
+import { AppState } from "react-native";
+import {
+  OutboxState,
+  subscribeOutbox,
+  flushOutbox,
+  retryOutboxEntry,
+  discardOutboxEntry,
+  clearConflicts,
+} from "../lib/offline";
+import {
+  PendingReceipt,
+  subscribePendingReceipts,
+  processReceiptQueue,
+} from "../lib/receiptQueue";
+
+// How often to retry the outbox and receipt uploads while anything is waiting
+const SYNC_INTERVAL_MS = 30000;
+
+type SyncContextType = OutboxState & {
+  pendingCount: number;
+  failedCount: number;
+  pendingReceipts: PendingReceipt[];
+  syncNow: () => Promise<void>;
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+  dismissConflicts: () => Promise<void>;
+};
+
+const SyncContext = createContext<SyncContextType>({
+  entries: [],
+  conflicts: [],
+  syncing: false,
+  lastSyncedAt: null,
+  pendingCount: 0,
+  failedCount: 0,
+  pendingReceipts: [],
+  syncNow: async () => {},
+  retry: async () => {},
+  discard: async () => {},
+  dismissConflicts: async () => {},
+});
+
+// Receipt uploads skip their backoff when forced (foreground / manual sync)
+async function syncAll(force = false): Promise<void> {
+  await Promise.all([flushOutbox(), processReceiptQueue(force)]);
+}
+
+export function SyncProvider({ children }: { children: React.ReactNode }) {
+  const [outbox, setOutbox] = useState<OutboxState>({
+    entries: [],
+    conflicts: [],
+    syncing: false,
+    lastSyncedAt: null,
+  });
+
+  const [pendingReceipts, setPendingReceipts] = useState<PendingReceipt[]>([]);
+
+  useEffect(() => subscribeOutbox(setOutbox), []);
+  useEffect(() => subscribePendingReceipts(setPendingReceipts), []);
+
+  const pendingCount = outbox.entries.filter((e) => e.status === "pending").length;
+  const failedCount = outbox.entries.length - pendingCount;
+
+  const waiting = pendingCount > 0 || pendingReceipts.length > 0;
+
+  // Replay on launch, when the app comes back to the foreground, and
+  // periodically while anything is waiting
+  useEffect(() => {
+    syncAll();
+    const subscription = AppState.addEventListener("change", (next) => {
+      if (next === "active") syncAll(true);
+    });
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    if (!waiting) return;
+    const interval = setInterval(() => syncAll(), SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [waiting]);
+
+  return (
+    <SyncContext.Provider
+      value={{
+        ...outbox,
+        pendingCount,
+        failedCount,
+        pendingReceipts,
+        syncNow: () => syncAll(true),
+        retry: retryOutboxEntry,
+        discard: discardOutboxEntry,
+        dismissConflicts: clearConflicts,
+      }}
+    >
+      {children}
+    </SyncContext.Provider>
+  );
+}
+
+export const useSync = () => useContext(SyncContext);
@@ -0,0 +1,259 @@
+import { supabase } from "./supabaseClient";
+import { cachedQuery, resolveTenantId } from "./offline";
+
+/**
+ * Multi-currency support. Expenses and fuel purchases keep the amounts in the
+ * currency they were paid in, plus the exchange rate into the home currency
+ * (settings.default_currency) at the time they were saved. Rates come from a
+ * per-tenant exchange_rates table that is entered by hand or imported as CSV.
+ */
+
+export type Currency = "USD" | "CAD";
+
+export const CURRENCIES: Currency[] = ["USD", "CAD"];
+
+export interface ExchangeRate {
+  id: string;
+  tenant_id: string;
+  rate_date: string;
+  // 1 base_currency = rate quote_currency
+  base_currency: Currency;
+  quote_currency: Currency;
+  rate: number;
+  source: string | null;
+  created_at: string;
+}
+
+export interface ExchangeRateInput {
+  rate_date: string;
+  base_currency: Currency;
+  quote_currency: Currency;
+  rate: number;
+  source?: string | null;
+}
+
+// Currency columns shared by misc_expenses and fuel_purchases
+export interface CurrencyFields {
+  date: string;
+  currency: Currency | null;
+  exchange_rate: number | null;
+  home_currency: Currency | null;
+}
+
+export function toCurrency(raw: string | null | undefined): Currency | null {
+  const value = (raw || "").trim().toUpperCase();
+  return value === "USD" || value === "CAD" ? value : null;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function roundRate(rate: number): number {
+  return Math.round(rate * 1e6) / 1e6;
+}
+
+export function formatMoney(amount: number, currency?: Currency | null): string {
+  const text = `$${Number(amount || 0).toFixed(2)}`;
+  return currency ? `${text} ${currency}` : text;
+}
+
+/**
+ * Rate to convert `from` into `to` on a date: the most recent rate on or
+ * before the date, using the inverse of a to→from rate when that is what the
+ * table has. Null when the table has nothing for the pair by that date.
+ */
+export function findRate(
+  rates: ExchangeRate[],
+  from: Currency,
+  to: Currency,
+  date: string
+): { rate: number; rateDate: string | null } | null {
+  if (from === to) return { rate: 1, rateDate: null };
+
+  let best: { rate: number; rateDate: string } | null = null;
+  for (const r of rates) {
+    if (r.rate_date > date || !(Number(r.rate) > 0)) continue;
+    let rate: number | null = null;
+    if (r.base_currency === from && r.quote_currency === to) rate = Number(r.rate);
+    else if (r.base_currency === to && r.quote_currency === from) rate = roundRate(1 / Number(r.rate));
+    if (rate == null) continue;
+    // A direct rate wins over an inverse one on the same day
+    if (!best || r.rate_date > best.rateDate || (r.rate_date === best.rateDate && r.base_currency === from)) {
+      best = { rate, rateDate: r.rate_date };
+    }
+  }
+  return best;
+}
+
+/**
+ * An amount from an expense or fuel row in the home currency. Uses the rate
+ * stored on the row when it was saved against the same home currency, else
+ * looks one up in the rate table. Null when no rate is available.
+ */
+export function toHomeAmount(
+  amount: number,
+  row: CurrencyFields,
+  home: Currency,
+  rates: ExchangeRate[]
+): number | null {
+  const currency = row.currency || home;
+  if (currency === home) return Number(amount) || 0;
+  if (row.exchange_rate && row.home_currency === home) {
+    return round2((Number(amount) || 0) * Number(row.exchange_rate));
+  }
+  const found = findRate(rates, currency, home, row.date);
+  return found ? round2((Number(amount) || 0) * found.rate) : null;
+}
+
+/**
+ * Sum of row totals in the home currency. Rows that can't be converted are
+ * left out and counted in `unconverted`.
+ */
+export function sumInHome<T extends CurrencyFields & { total: number | null }>(
+  rows: T[],
+  home: Currency,
+  rates: ExchangeRate[],
+  amountOf: (row: T) => number = (row) => Number(row.total) || 0
+): { total: number; unconverted: number } {
+  let total = 0;
+  let unconverted = 0;
+  for (const row of rows) {
+    const value = toHomeAmount(amountOf(row), row, home, rates);
+    if (value == null) unconverted++;
+    else total += value;
+  }
+  return { total: round2(total), unconverted };
+}
+
+/**
+ * Home currency from settings. Cached so forms and lists work offline;
+ * defaults to USD like the settings column.
+ */
+export async function getHomeCurrency(): Promise<Currency> {
+  try {
+    const tenantId = await resolveTenantId();
+    if (!tenantId) return "USD";
+
+    const value = await cachedQuery("settings:currency", async () => {
+      const { data, error } = await supabase
+        .from("settings")
+        .select("default_currency")
+        .eq("tenant_id", tenantId)
+        .single();
+      if (error && error.code !== "PGRST116") throw error;
+      return data?.default_currency || null;
+    });
+    return toCurrency(value) || "USD";
+  } catch {
+    return "USD";
+  }
+}
+
+// All rates for the tenant, newest first (cached for offline lookups)
+export async function fetchExchangeRates(): Promise<ExchangeRate[]> {
+  const tenantId = await resolveTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  return cachedQuery("exchange_rates", async () => {
+    const { data, error } = await supabase
+      .from("exchange_rates")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .order("rate_date", { ascending: false });
+
+    if (error) {
+      console.error("[currency] Error fetching exchange rates:", error);
+      throw error;
+    }
+    return (data || []) as ExchangeRate[];
+  });
+}
+
+/**
+ * Add or replace rates. A rate for the same day and currency pair is
+ * overwritten, so re-importing a file is safe. Returns the number saved.
+ */
+export async function saveExchangeRates(inputs: ExchangeRateInput[]): Promise<number> {
+  const tenantId = await resolveTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+  if (inputs.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from("exchange_rates")
+    .upsert(
+      inputs.map((r) => ({
+        tenant_id: tenantId,
+        rate_date: r.rate_date,
+        base_currency: r.base_currency,
+        quote_currency: r.quote_currency,
+        rate: roundRate(r.rate),
+        source: r.source ?? null,
+      })),
+      { onConflict: "tenant_id,rate_date,base_currency,quote_currency" }
+    )
+    .select("id");
+
+  if (error) {
+    console.error("[currency] Error saving exchange rates:", error);
+    throw error;
+  }
+  return data?.length || 0;
+}
+
+export async function deleteExchangeRate(id: string): Promise<void> {
+  const tenantId = await resolveTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { error } = await supabase
+    .from("exchange_rates")
+    .delete()
+    .eq("id", id)
+    .eq("tenant_id", tenantId);
+
+  if (error) {
+    console.error("[currency] Error deleting exchange rate:", error);
+    throw error;
+  }
+}
+
+/**
+ * Parse a rate file: one rate per line as `date,from,to,rate` (comma, semicolon
+ * or tab separated), e.g. `2024-03-28,USD,CAD,1.3550`. A header line and blank
+ * lines are skipped; bad lines are reported by line number.
+ */
+export function parseExchangeRatesCsv(text: string): { rates: ExchangeRateInput[]; errors: string[] } {
+  const rates: ExchangeRateInput[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+    const cells = line.split(/[,;\t]/).map((c) => c.trim().replace(/^"|"$/g, ""));
+    const [date, from, to, rateText] = cells;
+
+    // Header row
+    if (index === 0 && !/^\d{4}-\d{2}-\d{2}$/.test(date)) return;
+
+    const base = toCurrency(from);
+    const quote = toCurrency(to);
+    const rate = parseFloat(rateText);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+      errors.push(`Line ${index + 1}: date must be YYYY-MM-DD`);
+    } else if (!base || !quote || base === quote) {
+      errors.push(`Line ${index + 1}: currencies must be USD and CAD`);
+    } else if (!(rate > 0)) {
+      errors.push(`Line ${index + 1}: rate must be a positive number`);
+    } else {
+      rates.push({ rate_date: date, base_currency: base, quote_currency: quote, rate, source: "import" });
+    }
+  });
+
+  return { rates, errors };
+}
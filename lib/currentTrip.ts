@@ -6,12 +6,14 @@ export type CurrentTrip = {
   date: string;
   origin_name: string | null;
   destination_name: string | null;
+  status: "active" | "planned";
 };
 
 /**
- * Gets the "current trip" — the in-progress trip with the lowest trip_reference.
- * A trip is "in progress" if it has at least one stop that isn't complete.
- * Returns null if there are no in-progress trips.
+ * Gets the "current trip" — the active trip that was started first. When no
+ * trip is active, falls back to the next planned trip (earliest date, then
+ * lowest trip_reference) so new entries still land on the trip about to run.
+ * Returns null if there are neither.
  */
 export async function getCurrentTrip(): Promise<CurrentTrip | null> {
   try {
@@ -27,47 +29,29 @@ export async function getCurrentTrip(): Promise<CurrentTrip | null> {
 
     if (!tenantUser) return null;
 
-    // Get all trips for this tenant, ordered by trip_reference ascending
     const { data: trips, error } = await supabase
       .from("trips")
-      .select("id, trip_reference, date, origin_name, destination_name")
+      .select("id, trip_reference, date, origin_name, destination_name, status, started_at")
       .eq("tenant_id", tenantUser.tenant_id)
+      .in("status", ["active", "planned"])
+      .order("date", { ascending: true })
       .order("trip_reference", { ascending: true });
 
     if (error || !trips || trips.length === 0) return null;
 
-    // Get all stops for these trips
-    const { data: stops } = await supabase
-      .from("stops")
-      .select("trip_id, status")
-      .eq("tenant_id", tenantUser.tenant_id)
-      .in("trip_id", trips.map((t) => t.id));
-
-    // Find trips that have at least one non-complete stop (= in progress)
-    const stopsByTrip = new Map<string, string[]>();
-    (stops || []).forEach((s: any) => {
-      const list = stopsByTrip.get(s.trip_id) || [];
-      list.push(s.status);
-      stopsByTrip.set(s.trip_id, list);
-    });
-
-    for (const trip of trips) {
-      const tripStops = stopsByTrip.get(trip.id) || [];
-      // A trip is in-progress if it has stops and not all are complete,
-      // OR if it has no stops yet (just created)
-      const allComplete = tripStops.length > 0 && tripStops.every((s) => s === "complete");
-      if (!allComplete) {
-        return {
-          id: trip.id,
-          trip_reference: trip.trip_reference || "—",
-          date: trip.date,
-          origin_name: trip.origin_name,
-          destination_name: trip.destination_name,
-        };
-      }
-    }
+    const active = trips
+      .filter((t) => t.status === "active")
+      .sort((a, b) => (a.started_at || "").localeCompare(b.started_at || ""));
+    const trip = active[0] || trips[0];
 
-    return null; // All trips are completed
+    return {
+      id: trip.id,
+      trip_reference: trip.trip_reference || "—",
+      date: trip.date,
+      origin_name: trip.origin_name,
+      destination_name: trip.destination_name,
+      status: trip.status as CurrentTrip["status"],
+    };
   } catch (error) {
     console.error("Error getting current trip:", error);
     return null;
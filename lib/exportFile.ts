@@ -0,0 +1,69 @@
+import { Platform, Share } from "react-native";
+import { File, Paths } from "expo-file-system";
+
+// Quote a CSV value when it contains a comma, quote or newline
+export function csvCell(value: string | number): string {
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * Hand a generated text file (CSV, etc.) to the user: a download on web,
+ * the share sheet on native. iOS shares the file itself; Android's share
+ * sheet only takes text, so it gets the contents.
+ */
+export async function shareTextFile(
+  filename: string,
+  content: string,
+  mimeType = "text/csv"
+): Promise<void> {
+  if (Platform.OS === "web") {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const file = new File(Paths.cache, filename);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(content);
+  await Share.share(
+    Platform.OS === "ios" ? { url: file.uri, title: filename } : { message: content, title: filename }
+  );
+}
+
+/**
+ * Same as shareTextFile for a binary file (PDF). Android's share sheet can't
+ * take the file, so it gets fallbackText instead.
+ */
+export async function shareBinaryFile(
+  filename: string,
+  bytes: Uint8Array,
+  mimeType: string,
+  fallbackText: string
+): Promise<void> {
+  if (Platform.OS === "web") {
+    const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: mimeType }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  if (Platform.OS === "ios") {
+    const file = new File(Paths.cache, filename);
+    if (file.exists) file.delete();
+    file.create();
+    file.write(bytes);
+    await Share.share({ url: file.uri, title: filename });
+    return;
+  }
+
+  await Share.share({ message: fallbackText, title: filename });
+}
@@ -0,0 +1,296 @@
+import { supabase } from "./supabaseClient";
+import { TaxAmounts, emptyTaxAmounts } from "./salesTax";
+import { Currency } from "./currency";
+
+export type { Currency };
+export type FuelUnit = "gallons" | "liters";
+
+// 1 US gallon = 3.785411784 liters
+export const LITERS_PER_GALLON = 3.785411784;
+
+// Database fuel purchase type (gallons / price_per_gallon are always US gallons)
+export interface DatabaseFuelPurchase {
+  id: string;
+  tenant_id: string;
+  trip_id: string | null;
+  vendor_id: string | null;
+  receipt_id: string | null;
+  date: string;
+  description: string | null;
+  odometer_reading: number | null;
+  jurisdiction: string | null; // state/province the fuel was bought in (IFTA)
+  gallons: number | null;
+  price_per_gallon: number | null;
+  fuel_unit: FuelUnit | null;
+  currency: Currency | null;
+  // Converts amounts into home_currency; null when paid in the home currency
+  exchange_rate: number | null;
+  home_currency: Currency | null;
+  amount: number;
+  tax: number;
+  // Canadian sales tax components (sum to tax); see lib/salesTax
+  tax_province: string | null;
+  gst: number | null;
+  hst: number | null;
+  pst: number | null;
+  qst: number | null;
+  total: number;
+  notes: string | null;
+  created_at: string;
+}
+
+// Fuel purchase with joined display names (for list/detail screens)
+export interface FuelPurchaseListItem extends DatabaseFuelPurchase {
+  vendor_name: string | null;
+  trip_reference: string | null;
+}
+
+// A fuel purchase with its vendor and trip joins, as the list/detail queries select it
+interface FuelPurchaseRow extends DatabaseFuelPurchase {
+  vendors: { name: string } | null;
+  trips: { trip_reference: string | null } | null;
+}
+
+// Form input -- quantity and price are in the unit the driver entered
+export interface FuelPurchaseInput {
+  trip_id: string | null;
+  vendor_id: string | null;
+  receipt_id: string | null;
+  date: string;
+  description: string | null;
+  odometer_reading: number | null;
+  jurisdiction: string | null;
+  quantity: number | null;
+  price_per_unit: number | null;
+  fuel_unit: FuelUnit;
+  currency: Currency;
+  exchange_rate: number | null;
+  home_currency: Currency;
+  amount: number;
+  tax: number;
+  tax_province: string | null;
+  taxes: TaxAmounts | null; // components when tax_province is set
+  total: number;
+  notes: string | null;
+}
+
+export type FuelDefaults = {
+  fuelUnit: FuelUnit;
+  currency: Currency;
+};
+
+// Helper to get tenant_id from current user
+async function getTenantId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tenant_users")
+    .select("tenant_id")
+    .eq("user_id", session.user.id)
+    .single();
+
+  if (error || !data) {
+    console.error("[fuel] Error fetching tenant_id:", error);
+    return null;
+  }
+
+  return data.tenant_id;
+}
+
+// Convert a quantity in the given unit to US gallons
+export function toGallons(quantity: number, unit: FuelUnit): number {
+  return unit === "liters" ? quantity / LITERS_PER_GALLON : quantity;
+}
+
+// Convert US gallons to the given unit
+export function fromGallons(gallons: number, unit: FuelUnit): number {
+  return unit === "liters" ? gallons * LITERS_PER_GALLON : gallons;
+}
+
+// Convert a price per unit to price per US gallon
+export function toPricePerGallon(price: number, unit: FuelUnit): number {
+  return unit === "liters" ? price * LITERS_PER_GALLON : price;
+}
+
+// Convert a price per US gallon to price per unit
+export function fromPricePerGallon(pricePerGallon: number, unit: FuelUnit): number {
+  return unit === "liters" ? pricePerGallon / LITERS_PER_GALLON : pricePerGallon;
+}
+
+export function fuelUnitLabel(unit: FuelUnit, short = false): string {
+  if (short) return unit === "liters" ? "L" : "gal";
+  return unit === "liters" ? "Liters" : "Gallons";
+}
+
+/**
+ * Gets the fuel unit and currency defaults from settings.
+ * Falls back to gallons / USD when settings are missing.
+ */
+export async function getFuelDefaults(): Promise<FuelDefaults> {
+  const fallback: FuelDefaults = { fuelUnit: "gallons", currency: "USD" };
+  try {
+    const tenantId = await getTenantId();
+    if (!tenantId) return fallback;
+
+    const { data } = await supabase
+      .from("settings")
+      .select("default_fuel_unit, default_currency")
+      .eq("tenant_id", tenantId)
+      .single();
+
+    return {
+      fuelUnit: data?.default_fuel_unit === "liters" ? "liters" : "gallons",
+      currency: data?.default_currency === "CAD" ? "CAD" : "USD",
+    };
+  } catch {
+    return fallback;
+  }
+}
+
+// Fetch all fuel purchases for the current tenant (newest first)
+export async function fetchFuelPurchases(): Promise<FuelPurchaseListItem[]> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { data, error } = await supabase
+    .from("fuel_purchases")
+    .select("*, vendors(name), trips(trip_reference)")
+    .eq("tenant_id", tenantId)
+    .order("date", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("[fuel] Error fetching fuel purchases:", error);
+    throw error;
+  }
+
+  return (data || []).map(toListItem);
+}
+
+// Fetch a single fuel purchase
+export async function fetchFuelPurchase(id: string): Promise<FuelPurchaseListItem | null> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { data, error } = await supabase
+    .from("fuel_purchases")
+    .select("*, vendors(name), trips(trip_reference)")
+    .eq("id", id)
+    .eq("tenant_id", tenantId)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      // Not found
+      return null;
+    }
+    console.error("[fuel] Error fetching fuel purchase:", error);
+    throw error;
+  }
+
+  return toListItem(data);
+}
+
+// Save a fuel purchase (insert when id is null, update otherwise)
+export async function saveFuelPurchase(
+  id: string | null,
+  input: FuelPurchaseInput
+): Promise<DatabaseFuelPurchase> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const payload = {
+    tenant_id: tenantId,
+    trip_id: input.trip_id,
+    vendor_id: input.vendor_id,
+    receipt_id: input.receipt_id,
+    date: input.date,
+    description: input.description,
+    odometer_reading: input.odometer_reading,
+    jurisdiction: input.jurisdiction,
+    gallons:
+      input.quantity != null ? round(toGallons(input.quantity, input.fuel_unit), 3) : null,
+    price_per_gallon:
+      input.price_per_unit != null
+        ? round(toPricePerGallon(input.price_per_unit, input.fuel_unit), 4)
+        : null,
+    fuel_unit: input.fuel_unit,
+    currency: input.currency,
+    exchange_rate: input.currency === input.home_currency ? null : input.exchange_rate,
+    home_currency: input.home_currency,
+    amount: input.amount,
+    tax: input.tax,
+    tax_province: input.tax_province,
+    ...(input.taxes ?? emptyTaxAmounts()),
+    total: input.total,
+    notes: input.notes,
+  };
+
+  const query = id
+    ? supabase
+        .from("fuel_purchases")
+        .update(payload)
+        .eq("id", id)
+        .eq("tenant_id", tenantId)
+    : supabase.from("fuel_purchases").insert(payload);
+
+  const { data, error } = await query.select().single();
+
+  if (error) {
+    console.error("[fuel] Error saving fuel purchase:", error);
+    throw error;
+  }
+
+  // If this purchase came from a receipt, mark the receipt as processed
+  if (input.receipt_id) {
+    await supabase
+      .from("receipts")
+      .update({ status: "processed", receipt_type: "fuel", linked_id: data.id })
+      .eq("id", input.receipt_id)
+      .eq("tenant_id", tenantId);
+  }
+
+  return data as DatabaseFuelPurchase;
+}
+
+// Delete a fuel purchase
+export async function deleteFuelPurchase(id: string): Promise<void> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { error } = await supabase
+    .from("fuel_purchases")
+    .delete()
+    .eq("id", id)
+    .eq("tenant_id", tenantId);
+
+  if (error) {
+    console.error("[fuel] Error deleting fuel purchase:", error);
+    throw error;
+  }
+}
+
+function toListItem(row: FuelPurchaseRow): FuelPurchaseListItem {
+  const { vendors, trips, ...rest } = row;
+  return {
+    ...rest,
+    vendor_name: vendors?.name || null,
+    trip_reference: trips?.trip_reference || null,
+  };
+}
+
+function round(value: number, places: number): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
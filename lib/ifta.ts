@@ -0,0 +1,423 @@
+import { supabase } from "./supabaseClient";
+import { csvCell } from "./exportFile";
+import { LITERS_PER_GALLON } from "./fuel";
+
+export type IftaCountry = "US" | "CA";
+
+// IFTA member jurisdictions: the lower 48 states and the ten provinces
+const JURISDICTIONS: Record<string, { name: string; country: IftaCountry }> = {
+  AL: { name: "Alabama", country: "US" },
+  AZ: { name: "Arizona", country: "US" },
+  AR: { name: "Arkansas", country: "US" },
+  CA: { name: "California", country: "US" },
+  CO: { name: "Colorado", country: "US" },
+  CT: { name: "Connecticut", country: "US" },
+  DE: { name: "Delaware", country: "US" },
+  FL: { name: "Florida", country: "US" },
+  GA: { name: "Georgia", country: "US" },
+  ID: { name: "Idaho", country: "US" },
+  IL: { name: "Illinois", country: "US" },
+  IN: { name: "Indiana", country: "US" },
+  IA: { name: "Iowa", country: "US" },
+  KS: { name: "Kansas", country: "US" },
+  KY: { name: "Kentucky", country: "US" },
+  LA: { name: "Louisiana", country: "US" },
+  ME: { name: "Maine", country: "US" },
+  MD: { name: "Maryland", country: "US" },
+  MA: { name: "Massachusetts", country: "US" },
+  MI: { name: "Michigan", country: "US" },
+  MN: { name: "Minnesota", country: "US" },
+  MS: { name: "Mississippi", country: "US" },
+  MO: { name: "Missouri", country: "US" },
+  MT: { name: "Montana", country: "US" },
+  NE: { name: "Nebraska", country: "US" },
+  NV: { name: "Nevada", country: "US" },
+  NH: { name: "New Hampshire", country: "US" },
+  NJ: { name: "New Jersey", country: "US" },
+  NM: { name: "New Mexico", country: "US" },
+  NY: { name: "New York", country: "US" },
+  NC: { name: "North Carolina", country: "US" },
+  ND: { name: "North Dakota", country: "US" },
+  OH: { name: "Ohio", country: "US" },
+  OK: { name: "Oklahoma", country: "US" },
+  OR: { name: "Oregon", country: "US" },
+  PA: { name: "Pennsylvania", country: "US" },
+  RI: { name: "Rhode Island", country: "US" },
+  SC: { name: "South Carolina", country: "US" },
+  SD: { name: "South Dakota", country: "US" },
+  TN: { name: "Tennessee", country: "US" },
+  TX: { name: "Texas", country: "US" },
+  UT: { name: "Utah", country: "US" },
+  VT: { name: "Vermont", country: "US" },
+  VA: { name: "Virginia", country: "US" },
+  WA: { name: "Washington", country: "US" },
+  WV: { name: "West Virginia", country: "US" },
+  WI: { name: "Wisconsin", country: "US" },
+  WY: { name: "Wyoming", country: "US" },
+  AB: { name: "Alberta", country: "CA" },
+  BC: { name: "British Columbia", country: "CA" },
+  MB: { name: "Manitoba", country: "CA" },
+  NB: { name: "New Brunswick", country: "CA" },
+  NL: { name: "Newfoundland and Labrador", country: "CA" },
+  NS: { name: "Nova Scotia", country: "CA" },
+  ON: { name: "Ontario", country: "CA" },
+  PE: { name: "Prince Edward Island", country: "CA" },
+  QC: { name: "Quebec", country: "CA" },
+  SK: { name: "Saskatchewan", country: "CA" },
+};
+
+const CODE_BY_NAME = new Map(
+  Object.entries(JURISDICTIONS).map(([code, j]) => [j.name.toLowerCase(), code])
+);
+CODE_BY_NAME.set("newfoundland", "NL");
+CODE_BY_NAME.set("pei", "PE");
+CODE_BY_NAME.set("québec", "QC");
+CODE_BY_NAME.set("quebec", "QC");
+
+/**
+ * Two-letter IFTA code for a state/province as typed ("tx", "Ontario",
+ * "ON "), or null when it isn't an IFTA jurisdiction.
+ */
+export function normalizeJurisdiction(raw: string | null | undefined): string | null {
+  const value = (raw || "").trim();
+  if (!value) return null;
+  const upper = value.toUpperCase();
+  if (JURISDICTIONS[upper]) return upper;
+  return CODE_BY_NAME.get(value.toLowerCase()) || null;
+}
+
+export function jurisdictionName(code: string): string {
+  return JURISDICTIONS[code]?.name || code;
+}
+
+export interface IftaJurisdictionRow {
+  jurisdiction: string;
+  country: IftaCountry;
+  miles: number;
+  gallons: number; // US gallons
+}
+
+export type IftaTripIssueKind = "no_legs" | "missing_state" | "missing_miles" | "crosses_border";
+
+export interface IftaTripIssue {
+  tripId: string;
+  tripReference: string;
+  date: string;
+  kind: IftaTripIssueKind;
+  detail: string;
+}
+
+export interface IftaFuelIssue {
+  fuelPurchaseId: string;
+  date: string;
+  vendor: string;
+  gallons: number;
+  detail: string;
+}
+
+export interface IftaReport {
+  year: number;
+  quarter: number;
+  from: string;
+  to: string;
+  tripCount: number;
+  rows: IftaJurisdictionRow[];
+  totals: { miles: number; gallons: number; mpg: number | null };
+  // Miles/fuel that couldn't be placed in a jurisdiction (see the issues)
+  unassignedMiles: number;
+  unassignedGallons: number;
+  tripIssues: IftaTripIssue[];
+  fuelIssues: IftaFuelIssue[];
+}
+
+// Leg fields the report needs
+export interface IftaLeg {
+  leg_order: number;
+  start_state: string | null;
+  end_state: string | null;
+  actual_mileage: number | null;
+  calculated_mileage: number | null;
+}
+
+// A fuel purchase as the quarter query selects it, with its vendor
+interface IftaFuelRow {
+  id: string;
+  date: string;
+  description: string | null;
+  gallons: number | null;
+  jurisdiction: string | null;
+  vendors: { name: string; state: string | null } | null;
+}
+
+// Helper to get tenant_id from current user
+async function getTenantId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tenant_users")
+    .select("tenant_id")
+    .eq("user_id", session.user.id)
+    .single();
+
+  if (error || !data) {
+    console.error("[ifta] Error fetching tenant_id:", error);
+    return null;
+  }
+
+  return data.tenant_id;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+// First and last day (YYYY-MM-DD) of a calendar quarter (1 – 4)
+export function quarterRange(year: number, quarter: number): { from: string; to: string } {
+  const startMonth = (quarter - 1) * 3 + 1;
+  const lastDay = new Date(year, startMonth + 2, 0).getDate();
+  return {
+    from: `${year}-${String(startMonth).padStart(2, "0")}-01`,
+    to: `${year}-${String(startMonth + 2).padStart(2, "0")}-${lastDay}`,
+  };
+}
+
+/**
+ * Place one trip's leg miles in jurisdictions. Actual (odometer) miles win
+ * over planned. A leg that starts and ends in different jurisdictions has
+ * no route breakdown, so its miles stay unassigned (the leg is flagged)
+ * rather than being guessed into the states it starts and ends in.
+ */
+export function allocateTripMiles(legs: IftaLeg[]): {
+  miles: Map<string, number>;
+  unassigned: number;
+  issues: { kind: IftaTripIssueKind; detail: string }[];
+} {
+  const miles = new Map<string, number>();
+  const issues: { kind: IftaTripIssueKind; detail: string }[] = [];
+  let unassigned = 0;
+
+  if (legs.length === 0) {
+    issues.push({ kind: "no_legs", detail: "Trip has no legs (fewer than two stops)" });
+    return { miles, unassigned, issues };
+  }
+
+  const add = (code: string, mi: number) => miles.set(code, (miles.get(code) || 0) + mi);
+
+  for (const leg of [...legs].sort((a, b) => a.leg_order - b.leg_order)) {
+    const legLabel = `Leg ${leg.leg_order + 1}`;
+    const raw = leg.actual_mileage ?? leg.calculated_mileage;
+    const mi = raw != null ? Number(raw) : null;
+    const start = normalizeJurisdiction(leg.start_state);
+    const end = normalizeJurisdiction(leg.end_state);
+
+    if (mi == null || mi <= 0) {
+      issues.push({ kind: "missing_miles", detail: `${legLabel} has no mileage` });
+      continue;
+    }
+    if (!start || !end) {
+      unassigned += mi;
+      const bad = !start ? leg.start_state : leg.end_state;
+      issues.push({
+        kind: "missing_state",
+        detail: bad?.trim()
+          ? `${legLabel}: "${bad.trim()}" is not an IFTA jurisdiction`
+          : `${legLabel} has no ${!start ? "start" : "end"} state/province`,
+      });
+      continue;
+    }
+    if (start === end) {
+      add(start, mi);
+    } else {
+      unassigned += mi;
+      issues.push({
+        kind: "crosses_border",
+        detail: `${legLabel} ${start} → ${end}: ${mi.toLocaleString()} mi not assigned (no route breakdown)`,
+      });
+    }
+  }
+
+  return { miles, unassigned, issues };
+}
+
+/**
+ * IFTA summary for a calendar quarter: miles driven (from the legs of trips
+ * dated in the quarter, leaving out cancelled trips) and fuel bought (from
+ * fuel purchases dated in the quarter) per jurisdiction, plus everything
+ * that couldn't be placed.
+ */
+export async function fetchIftaReport(year: number, quarter: number): Promise<IftaReport> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { from, to } = quarterRange(year, quarter);
+
+  const [tripsRes, fuelRes] = await Promise.all([
+    supabase
+      .from("trips")
+      .select("id, trip_reference, date")
+      .eq("tenant_id", tenantId)
+      .neq("status", "cancelled")
+      .gte("date", from)
+      .lte("date", to)
+      .order("date", { ascending: true }),
+    supabase
+      .from("fuel_purchases")
+      .select("id, date, description, gallons, jurisdiction, vendors(name, state)")
+      .eq("tenant_id", tenantId)
+      .gte("date", from)
+      .lte("date", to)
+      .order("date", { ascending: true })
+      .overrideTypes<IftaFuelRow[], { merge: false }>(),
+  ]);
+
+  if (tripsRes.error || fuelRes.error) {
+    console.error("[ifta] Error fetching quarter data:", tripsRes.error || fuelRes.error);
+    throw tripsRes.error || fuelRes.error;
+  }
+
+  const trips = tripsRes.data || [];
+  const legsByTrip = new Map<string, IftaLeg[]>();
+  if (trips.length > 0) {
+    const { data: legs, error: legsError } = await supabase
+      .from("legs")
+      .select("trip_id, leg_order, start_state, end_state, actual_mileage, calculated_mileage")
+      .eq("tenant_id", tenantId)
+      .in("trip_id", trips.map((t) => t.id));
+
+    if (legsError) {
+      console.error("[ifta] Error fetching legs:", legsError);
+      throw legsError;
+    }
+
+    for (const leg of legs || []) {
+      const list = legsByTrip.get(leg.trip_id) || [];
+      list.push(leg);
+      legsByTrip.set(leg.trip_id, list);
+    }
+  }
+
+  const byCode = new Map<string, IftaJurisdictionRow>();
+  const rowFor = (code: string) => {
+    let row = byCode.get(code);
+    if (!row) {
+      row = { jurisdiction: code, country: JURISDICTIONS[code].country, miles: 0, gallons: 0 };
+      byCode.set(code, row);
+    }
+    return row;
+  };
+
+  let unassignedMiles = 0;
+  const tripIssues: IftaTripIssue[] = [];
+  for (const trip of trips) {
+    const { miles, unassigned, issues } = allocateTripMiles(legsByTrip.get(trip.id) || []);
+    miles.forEach((mi, code) => {
+      rowFor(code).miles += mi;
+    });
+    unassignedMiles += unassigned;
+    for (const issue of issues) {
+      tripIssues.push({
+        tripId: trip.id,
+        tripReference: trip.trip_reference || trip.id,
+        date: trip.date,
+        ...issue,
+      });
+    }
+  }
+
+  // Purchases without a jurisdiction fall back to the vendor's state/province
+  let unassignedGallons = 0;
+  const fuelIssues: IftaFuelIssue[] = [];
+  for (const p of fuelRes.data || []) {
+    const vendor = p.vendors;
+    const gallons = p.gallons != null ? Number(p.gallons) : 0;
+    const code = normalizeJurisdiction(p.jurisdiction) || normalizeJurisdiction(vendor?.state);
+    const issue = (detail: string) =>
+      fuelIssues.push({
+        fuelPurchaseId: p.id,
+        date: p.date,
+        vendor: vendor?.name || p.description || "Fuel purchase",
+        gallons,
+        detail,
+      });
+
+    if (gallons <= 0) {
+      issue("No fuel quantity");
+      continue;
+    }
+    if (!code) {
+      unassignedGallons += gallons;
+      issue(p.jurisdiction ? `"${p.jurisdiction}" is not an IFTA jurisdiction` : "No state/province");
+      continue;
+    }
+    rowFor(code).gallons += gallons;
+  }
+
+  const rows = [...byCode.values()]
+    .map((r) => ({ ...r, miles: round1(r.miles), gallons: round3(r.gallons) }))
+    // US states first, then provinces, each alphabetically
+    .sort((a, b) =>
+      a.country === b.country
+        ? a.jurisdiction.localeCompare(b.jurisdiction)
+        : a.country === "US" ? -1 : 1
+    );
+
+  const totalMiles = round1(rows.reduce((sum, r) => sum + r.miles, 0) + unassignedMiles);
+  const totalGallons = round3(rows.reduce((sum, r) => sum + r.gallons, 0) + unassignedGallons);
+
+  return {
+    year,
+    quarter,
+    from,
+    to,
+    tripCount: trips.length,
+    rows,
+    totals: {
+      miles: totalMiles,
+      gallons: totalGallons,
+      mpg: totalGallons > 0 ? Math.round((totalMiles / totalGallons) * 100) / 100 : null,
+    },
+    unassignedMiles: round1(unassignedMiles),
+    unassignedGallons: round3(unassignedGallons),
+    tripIssues,
+    fuelIssues,
+  };
+}
+
+/**
+ * CSV for a filing service: one row per jurisdiction with miles/kilometers
+ * and fuel in US gallons and liters, then the unassigned and total rows.
+ */
+export function iftaReportToCsv(report: IftaReport): string {
+  const header = ["Quarter", "Jurisdiction", "Name", "Country", "Miles", "Kilometers", "Fuel Gallons", "Fuel Liters"];
+  const period = `${report.year} Q${report.quarter}`;
+  const line = (code: string, name: string, country: string, miles: number, gallons: number) =>
+    [
+      period,
+      code,
+      name,
+      country,
+      miles.toFixed(1),
+      (miles * 1.609344).toFixed(1),
+      gallons.toFixed(3),
+      (gallons * LITERS_PER_GALLON).toFixed(3),
+    ].map(csvCell).join(",");
+
+  const lines = [header.join(",")];
+  for (const r of report.rows) {
+    lines.push(line(r.jurisdiction, jurisdictionName(r.jurisdiction), r.country, r.miles, r.gallons));
+  }
+  if (report.unassignedMiles > 0 || report.unassignedGallons > 0) {
+    lines.push(line("", "Unassigned", "", report.unassignedMiles, report.unassignedGallons));
+  }
+  lines.push(line("", "Total", "", report.totals.miles, report.totals.gallons));
+  return lines.join("\n") + "\n";
+}
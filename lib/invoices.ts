@@ -0,0 +1,717 @@
+import { supabase } from "./supabaseClient";
+import { Currency, formatMoney, getHomeCurrency } from "./currency";
+import { fetchTripCharges } from "./revenue";
+import { fetchTrip, updateTripStatus, DatabaseStop } from "./trips";
+import { getNextInvoiceNumber, markSequenceNumberUsed, releaseSequenceNumber, voidSequenceNumberFor } from "./sequences";
+import { buildPdf, jpegInfo, wrapText, PdfItem, PdfPage, PAGE_HEIGHT, PAGE_WIDTH } from "./pdf";
+
+/**
+ * Invoices for completed trips. Creating one copies the trip's charge lines,
+ * stops and mileage onto the invoice and marks the trip invoiced; the copy
+ * doesn't follow later trip edits. Status is draft -> sent -> paid, and a
+ * sent invoice past its due date shows as overdue. Delivery paperwork is
+ * scanned as receipts and linked with receipt_type "paperwork".
+ */
+
+export type InvoiceStatus = "draft" | "sent" | "paid";
+
+// What the UI shows: overdue is derived from sent + due date
+export type InvoiceDisplayStatus = InvoiceStatus | "overdue";
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceDisplayStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  paid: "Paid",
+  overdue: "Overdue",
+};
+
+// Moves allowed from each status (sent -> draft to correct a mistake, paid -> sent to undo a payment)
+export const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ["sent"],
+  sent: ["paid", "draft"],
+  paid: ["sent"],
+};
+
+export const DEFAULT_TERMS_DAYS = 30;
+
+export interface InvoiceLine {
+  code: string | null;
+  description: string;
+  rate_type: "flat" | "per_mile";
+  rate: number;
+  quantity: number; // miles for per_mile lines
+  amount: number;
+}
+
+export interface InvoiceStop {
+  type: string;
+  name: string | null;
+  city: string | null;
+  state: string | null;
+  date: string | null; // completed (or expected) date
+}
+
+export interface DatabaseInvoice {
+  id: string;
+  tenant_id: string;
+  trip_id: string | null;
+  invoice_number: string;
+  status: InvoiceStatus;
+  issue_date: string;
+  terms_days: number;
+  due_date: string;
+  bill_to_name: string | null;
+  bill_to_address: string | null;
+  trip_reference: string | null;
+  trip_date: string | null;
+  currency: Currency;
+  lines: InvoiceLine[];
+  stops: InvoiceStop[];
+  mileage: number | null;
+  total: number;
+  notes: string | null;
+  sent_at: string | null;
+  paid_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InvoiceDetailsInput {
+  bill_to_name: string | null;
+  bill_to_address: string | null;
+  issue_date: string;
+  terms_days: number;
+  notes: string | null;
+}
+
+export interface InvoiceAttachment {
+  id: string;
+  image_path: string;
+  notes: string | null;
+  created_at: string;
+}
+
+// Helper to get tenant_id from current user
+async function getTenantId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tenant_users")
+    .select("tenant_id")
+    .eq("user_id", session.user.id)
+    .single();
+
+  if (error || !data) {
+    console.error("[invoices] Error fetching tenant_id:", error);
+    return null;
+  }
+
+  return data.tenant_id;
+}
+
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(date + "T12:00:00Z");
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function invoiceDisplayStatus(invoice: DatabaseInvoice, asOf: string = today()): InvoiceDisplayStatus {
+  if (invoice.status === "sent" && invoice.due_date < asOf) return "overdue";
+  return invoice.status;
+}
+
+export function canChangeInvoiceStatus(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return INVOICE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Fetch invoices, newest first, optionally with one status
+export async function fetchInvoices(status?: InvoiceStatus | null): Promise<DatabaseInvoice[]> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  let query = supabase
+    .from("invoices")
+    .select("*")
+    .eq("tenant_id", tenantId)
+    .order("issue_date", { ascending: false })
+    .order("invoice_number", { ascending: false });
+
+  if (status) {
+    query = query.eq("status", status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("[invoices] Error fetching invoices:", error);
+    throw error;
+  }
+
+  return (data || []) as DatabaseInvoice[];
+}
+
+export async function fetchInvoice(id: string): Promise<DatabaseInvoice | null> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { data, error } = await supabase
+    .from("invoices")
+    .select("*")
+    .eq("id", id)
+    .eq("tenant_id", tenantId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[invoices] Error fetching invoice:", error);
+    throw error;
+  }
+
+  return data as DatabaseInvoice | null;
+}
+
+// The invoice for a trip, if one has been created
+export async function fetchTripInvoice(tripId: string): Promise<DatabaseInvoice | null> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { data, error } = await supabase
+    .from("invoices")
+    .select("*")
+    .eq("trip_id", tripId)
+    .eq("tenant_id", tenantId)
+    .order("created_at", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error("[invoices] Error fetching trip invoice:", error);
+    throw error;
+  }
+
+  return ((data || [])[0] as DatabaseInvoice) || null;
+}
+
+/**
+ * Create a draft invoice for a completed trip and mark the trip invoiced.
+ * Lines come from the trip's charge codes; a trip with only a revenue
+ * total gets a single freight line. Returns the new invoice.
+ */
+export async function createInvoiceForTrip(tripId: string): Promise<DatabaseInvoice> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const trip = await fetchTrip(tripId);
+  if (!trip) {
+    throw new Error("Trip not found.");
+  }
+  if (trip.status !== "completed") {
+    throw new Error("Only completed trips can be invoiced.");
+  }
+
+  const mileage = Number(trip.actual_mileage ?? trip.expected_mileage) || 0;
+  const [charges, stopRes, currency] = await Promise.all([
+    fetchTripCharges(tripId),
+    supabase
+      .from("stops")
+      .select("*")
+      .eq("trip_id", tripId)
+      .eq("tenant_id", tenantId)
+      .order("stop_order", { ascending: true }),
+    getHomeCurrency(),
+  ]);
+
+  if (stopRes.error) {
+    console.error("[invoices] Error fetching stops:", stopRes.error);
+    throw stopRes.error;
+  }
+
+  let lines: InvoiceLine[] = charges.map((c) => ({
+    code: c.code,
+    description: c.description || c.code || "Charge",
+    rate_type: c.rate_type,
+    rate: Number(c.rate) || 0,
+    quantity: c.rate_type === "per_mile" ? mileage : Number(c.quantity) || 0,
+    amount: Number(c.amount) || 0,
+  }));
+  if (lines.length === 0 && trip.revenue) {
+    lines = [{ code: null, description: "Freight", rate_type: "flat", rate: Number(trip.revenue), quantity: 1, amount: Number(trip.revenue) }];
+  }
+  if (lines.length === 0) {
+    throw new Error("This trip has no charges or revenue to invoice.");
+  }
+
+  const stops: InvoiceStop[] = ((stopRes.data || []) as DatabaseStop[]).map((s) => ({
+    type: s.type,
+    name: s.name,
+    city: s.city,
+    state: s.state,
+    date: s.completed_at ? s.completed_at.split("T")[0] : s.expected_date,
+  }));
+
+  const number = await getNextInvoiceNumber();
+  const issueDate = today();
+
+  const { data, error } = await supabase
+    .from("invoices")
+    .insert({
+      tenant_id: tenantId,
+      trip_id: tripId,
+      invoice_number: number.formatted,
+      status: "draft",
+      issue_date: issueDate,
+      terms_days: DEFAULT_TERMS_DAYS,
+      due_date: addDays(issueDate, DEFAULT_TERMS_DAYS),
+      trip_reference: trip.trip_reference,
+      trip_date: trip.date,
+      currency,
+      lines,
+      stops,
+      mileage: mileage || null,
+      total: round2(lines.reduce((sum, l) => sum + l.amount, 0)),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[invoices] Error creating invoice:", error);
+    await releaseSequenceNumber(number.id).catch(() => {});
+    throw error;
+  }
+
+  await markSequenceNumberUsed(number.id, data.id).catch(() => {});
+  await updateTripStatus(tripId, "invoiced");
+  return data as DatabaseInvoice;
+}
+
+// Edit the bill-to, dates and notes of a draft
+export async function updateInvoiceDetails(id: string, input: InvoiceDetailsInput): Promise<void> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const terms = Math.max(0, Math.round(input.terms_days) || 0);
+  const { error } = await supabase
+    .from("invoices")
+    .update({
+      bill_to_name: input.bill_to_name?.trim() || null,
+      bill_to_address: input.bill_to_address?.trim() || null,
+      issue_date: input.issue_date,
+      terms_days: terms,
+      due_date: addDays(input.issue_date, terms),
+      notes: input.notes?.trim() || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .eq("tenant_id", tenantId)
+    .eq("status", "draft");
+
+  if (error) {
+    console.error("[invoices] Error updating invoice:", error);
+    throw error;
+  }
+}
+
+export async function setInvoiceStatus(invoice: DatabaseInvoice, to: InvoiceStatus): Promise<DatabaseInvoice> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  if (!canChangeInvoiceStatus(invoice.status, to)) {
+    throw new Error(
+      `A ${INVOICE_STATUS_LABELS[invoice.status].toLowerCase()} invoice can't be marked ${INVOICE_STATUS_LABELS[to].toLowerCase()}.`
+    );
+  }
+
+  const now = new Date().toISOString();
+  const values: Partial<DatabaseInvoice> = { status: to, updated_at: now };
+  if (to === "sent") {
+    values.sent_at = invoice.sent_at || now;
+    values.paid_at = null;
+  } else if (to === "paid") {
+    values.paid_at = now;
+  } else {
+    values.sent_at = null;
+  }
+
+  const { data, error } = await supabase
+    .from("invoices")
+    .update(values)
+    .eq("id", invoice.id)
+    .eq("tenant_id", tenantId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[invoices] Error updating invoice status:", error);
+    throw error;
+  }
+
+  return data as DatabaseInvoice;
+}
+
+/**
+ * Delete a draft invoice. Its paperwork goes back to the receipt inbox and
+ * the trip back to completed so it can be invoiced again. The number is
+ * voided, not reused.
+ */
+export async function deleteInvoice(invoice: DatabaseInvoice): Promise<void> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  if (invoice.status !== "draft") {
+    throw new Error("Only draft invoices can be deleted.");
+  }
+
+  await supabase
+    .from("receipts")
+    .update({ status: "unprocessed", receipt_type: null, linked_id: null })
+    .eq("receipt_type", "paperwork")
+    .eq("linked_id", invoice.id)
+    .eq("tenant_id", tenantId);
+
+  const { error } = await supabase
+    .from("invoices")
+    .delete()
+    .eq("id", invoice.id)
+    .eq("tenant_id", tenantId);
+
+  if (error) {
+    console.error("[invoices] Error deleting invoice:", error);
+    throw error;
+  }
+
+  await voidSequenceNumberFor(invoice.id, "Invoice deleted").catch(() => {});
+
+  if (invoice.trip_id) {
+    const trip = await fetchTrip(invoice.trip_id);
+    if (trip?.status === "invoiced") {
+      await updateTripStatus(invoice.trip_id, "completed");
+    }
+  }
+}
+
+// Paperwork receipts attached to an invoice, oldest first
+export async function fetchInvoiceAttachments(invoiceId: string): Promise<InvoiceAttachment[]> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { data, error } = await supabase
+    .from("receipts")
+    .select("id, image_path, notes, created_at")
+    .eq("tenant_id", tenantId)
+    .eq("receipt_type", "paperwork")
+    .eq("linked_id", invoiceId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("[invoices] Error fetching attachments:", error);
+    throw error;
+  }
+
+  return (data || []) as InvoiceAttachment[];
+}
+
+// Scanned receipts still in the inbox, which can be attached as paperwork
+export async function fetchAttachableReceipts(): Promise<InvoiceAttachment[]> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { data, error } = await supabase
+    .from("receipts")
+    .select("id, image_path, notes, created_at")
+    .eq("tenant_id", tenantId)
+    .eq("status", "unprocessed")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("[invoices] Error fetching receipts:", error);
+    throw error;
+  }
+
+  return (data || []) as InvoiceAttachment[];
+}
+
+export async function attachReceipt(invoiceId: string, receiptId: string): Promise<void> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { error } = await supabase
+    .from("receipts")
+    .update({ status: "processed", receipt_type: "paperwork", linked_id: invoiceId })
+    .eq("id", receiptId)
+    .eq("tenant_id", tenantId);
+
+  if (error) {
+    console.error("[invoices] Error attaching receipt:", error);
+    throw error;
+  }
+}
+
+// Put an attachment back in the receipt inbox
+export async function detachReceipt(receiptId: string): Promise<void> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { error } = await supabase
+    .from("receipts")
+    .update({ status: "unprocessed", receipt_type: null, linked_id: null })
+    .eq("id", receiptId)
+    .eq("tenant_id", tenantId);
+
+  if (error) {
+    console.error("[invoices] Error detaching receipt:", error);
+    throw error;
+  }
+}
+
+export function invoiceFilename(invoice: DatabaseInvoice): string {
+  return `invoice-${invoice.invoice_number.replace(/[^A-Za-z0-9_-]+/g, "-")}.pdf`;
+}
+
+// Sender block for the invoice: driver name and billing address from settings
+async function fetchInvoiceSender(tenantId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("settings")
+    .select("driver_name, billing_address1, billing_address2, billing_city, billing_state, billing_zip")
+    .eq("tenant_id", tenantId)
+    .single();
+
+  if (error && error.code !== "PGRST116") {
+    console.error("[invoices] Error fetching settings:", error);
+    throw error;
+  }
+
+  const cityLine = [data?.billing_city, [data?.billing_state, data?.billing_zip].filter(Boolean).join(" ")]
+    .filter(Boolean)
+    .join(", ");
+  return [data?.driver_name, data?.billing_address1, data?.billing_address2, cityLine].filter(
+    (line): line is string => !!line
+  );
+}
+
+function stopLabel(stop: InvoiceStop): string {
+  const place = [stop.name, [stop.city, stop.state].filter(Boolean).join(", ")].filter(Boolean).join(" - ");
+  const type = stop.type.charAt(0).toUpperCase() + stop.type.slice(1);
+  return `${type}: ${place || "-"}${stop.date ? ` (${stop.date})` : ""}`;
+}
+
+function lineQuantity(line: InvoiceLine): string {
+  return line.rate_type === "per_mile" ? `${Math.round(line.quantity)} mi` : String(line.quantity);
+}
+
+// Plain-text version of an invoice, for share targets that can't take a PDF
+export function invoiceText(invoice: DatabaseInvoice): string {
+  const rows = [
+    `INVOICE ${invoice.invoice_number}`,
+    `Date: ${invoice.issue_date}  Due: ${invoice.due_date}`,
+  ];
+  if (invoice.bill_to_name) rows.push(`Bill to: ${invoice.bill_to_name}`);
+  if (invoice.trip_reference) rows.push(`Trip: ${invoice.trip_reference}`);
+  rows.push("", ...invoice.stops.map(stopLabel), "");
+  for (const line of invoice.lines) {
+    rows.push(`${line.description}  ${lineQuantity(line)} x ${formatMoney(line.rate)} = ${formatMoney(line.amount)}`);
+  }
+  rows.push("", `Total: ${formatMoney(invoice.total, invoice.currency)}`);
+  if (invoice.notes) rows.push("", invoice.notes);
+  return rows.join("\n");
+}
+
+const MARGIN = 50;
+const RIGHT = PAGE_WIDTH - MARGIN;
+
+/**
+ * Render an invoice to PDF: the bill on the first page(s), then one page per
+ * attached JPEG. Paperwork in other image formats is listed by name only,
+ * since PDF can't embed it without re-encoding.
+ */
+export async function buildInvoicePdf(invoice: DatabaseInvoice): Promise<Uint8Array> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const [sender, attachments] = await Promise.all([
+    fetchInvoiceSender(tenantId),
+    fetchInvoiceAttachments(invoice.id),
+  ]);
+
+  const pages: PdfPage[] = [];
+  let items: PdfItem[] = [];
+  let y = MARGIN;
+  const newPage = () => {
+    items = [];
+    pages.push({ items });
+    y = MARGIN;
+  };
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) newPage();
+  };
+  const text = (x: number, size: number, value: string, opts: { bold?: boolean; align?: "left" | "right"; gray?: number } = {}) =>
+    items.push({ kind: "text", x, y, text: value, size, ...opts });
+
+  newPage();
+
+  // Sender on the left, invoice number and dates on the right
+  text(RIGHT, 22, "INVOICE", { bold: true, align: "right" });
+  sender.forEach((line, i) => {
+    y = MARGIN + 16 + i * 14;
+    text(MARGIN, i === 0 ? 13 : 10, line, { bold: i === 0 });
+  });
+  const meta: [string, string][] = [
+    ["Invoice #", invoice.invoice_number],
+    ["Date", invoice.issue_date],
+    ["Due", invoice.due_date],
+  ];
+  if (invoice.trip_reference) meta.push(["Trip", invoice.trip_reference]);
+  meta.forEach(([label, value], i) => {
+    y = MARGIN + 40 + i * 14;
+    text(RIGHT - 90, 10, label, { align: "right", gray: 0.4 });
+    text(RIGHT, 10, value, { bold: true, align: "right" });
+  });
+  y = MARGIN + Math.max(sender.length * 14 + 30, 40 + meta.length * 14 + 16);
+
+  // Bill to
+  text(MARGIN, 9, "BILL TO", { bold: true, gray: 0.4 });
+  y += 14;
+  const billTo = [invoice.bill_to_name, ...(invoice.bill_to_address || "").split("\n")].filter(
+    (line): line is string => !!line && !!line.trim()
+  );
+  for (const line of billTo.length > 0 ? billTo : ["-"]) {
+    text(MARGIN, 10, line);
+    y += 13;
+  }
+  y += 12;
+
+  // Route
+  if (invoice.stops.length > 0) {
+    text(MARGIN, 9, "ROUTE", { bold: true, gray: 0.4 });
+    if (invoice.mileage) text(RIGHT, 9, `${Math.round(invoice.mileage)} miles`, { align: "right", gray: 0.4 });
+    y += 14;
+    for (const stop of invoice.stops) {
+      for (const line of wrapText(stopLabel(stop), 10, RIGHT - MARGIN)) {
+        ensureSpace(13);
+        text(MARGIN, 10, line);
+        y += 13;
+      }
+    }
+    y += 12;
+  }
+
+  // Charge lines
+  const qtyX = RIGHT - 200;
+  const rateX = RIGHT - 100;
+  const header = () => {
+    items.push({ kind: "rect", x: MARGIN, y: y - 12, w: RIGHT - MARGIN, h: 18, gray: 0.93 });
+    text(MARGIN + 6, 9, "DESCRIPTION", { bold: true });
+    text(qtyX, 9, "QTY", { bold: true, align: "right" });
+    text(rateX, 9, "RATE", { bold: true, align: "right" });
+    text(RIGHT - 6, 9, "AMOUNT", { bold: true, align: "right" });
+    y += 20;
+  };
+  ensureSpace(40);
+  header();
+  for (const line of invoice.lines) {
+    const description = wrapText(line.code && line.code !== line.description ? `${line.code} - ${line.description}` : line.description, 10, qtyX - MARGIN - 60);
+    if (y + description.length * 13 > PAGE_HEIGHT - MARGIN) {
+      newPage();
+      header();
+    }
+    text(qtyX, 10, lineQuantity(line), { align: "right" });
+    text(rateX, 10, formatMoney(line.rate), { align: "right" });
+    text(RIGHT - 6, 10, formatMoney(line.amount), { align: "right" });
+    for (const part of description) {
+      text(MARGIN + 6, 10, part);
+      y += 13;
+    }
+    y += 4;
+  }
+  ensureSpace(40);
+  items.push({ kind: "line", x1: rateX - 60, y1: y - 4, x2: RIGHT, y2: y - 4 });
+  y += 12;
+  text(rateX, 11, "TOTAL", { bold: true, align: "right" });
+  text(RIGHT - 6, 11, formatMoney(invoice.total, invoice.currency), { bold: true, align: "right" });
+  y += 28;
+
+  // Terms, notes and the paperwork list
+  const footer: string[] = [];
+  footer.push(invoice.terms_days > 0 ? `Payment due within ${invoice.terms_days} days.` : "Payment due on receipt.");
+  if (invoice.notes) footer.push(...invoice.notes.split("\n"));
+  if (attachments.length > 0) footer.push(`Attached: ${attachments.length} delivery document${attachments.length === 1 ? "" : "s"}.`);
+  for (const paragraph of footer) {
+    for (const line of wrapText(paragraph, 9, RIGHT - MARGIN)) {
+      ensureSpace(12);
+      text(MARGIN, 9, line, { gray: 0.3 });
+      y += 12;
+    }
+  }
+
+  // Paperwork, one page each
+  for (const attachment of attachments) {
+    const { data: urlData } = await supabase.storage
+      .from("receipts")
+      .createSignedUrl(attachment.image_path, 600);
+    if (!urlData?.signedUrl) continue;
+
+    let data: Uint8Array;
+    try {
+      const response = await fetch(urlData.signedUrl);
+      data = new Uint8Array(await response.arrayBuffer());
+    } catch (error) {
+      console.error("[invoices] Error downloading attachment:", error);
+      continue;
+    }
+
+    newPage();
+    text(MARGIN, 10, `Invoice ${invoice.invoice_number} - ${attachment.notes || "Delivery paperwork"}`, { bold: true });
+    y += 16;
+
+    const info = jpegInfo(data);
+    if (!info) {
+      text(MARGIN, 10, `${attachment.image_path.split("/").pop()} isn't a JPEG and can't be included here.`, { gray: 0.4 });
+      continue;
+    }
+    const maxW = RIGHT - MARGIN;
+    const maxH = PAGE_HEIGHT - MARGIN - y;
+    const scale = Math.min(maxW / info.width, maxH / info.height);
+    items.push({
+      kind: "image",
+      image: { data, ...info },
+      x: MARGIN,
+      y,
+      w: info.width * scale,
+      h: info.height * scale,
+    });
+  }
+
+  return buildPdf(pages);
+}
@@ -0,0 +1,339 @@
+import { supabase } from "./supabaseClient";
+import { fetchTrustedReadingsByTruck, OdometerEntry } from "./odometer";
+
+/**
+ * Preventive maintenance. A plan repeats a repair type (oil change, DOT
+ * inspection, tire rotation) on a truck every so many miles and/or days.
+ * The last service is the latest repair line with that type on the truck,
+ * or the plan's start date/odometer when there isn't one yet; the next
+ * service is due at whichever interval runs out first.
+ */
+
+// How close a service has to be before it's flagged as coming up
+export const DUE_SOON_MILES = 1000;
+export const DUE_SOON_DAYS = 14;
+
+export type MaintenanceState = "overdue" | "due_soon" | "ok" | "no_history";
+
+export interface MaintenancePlan {
+  id: string;
+  tenant_id: string;
+  truck_id: string;
+  repair_type_id: string;
+  interval_miles: number | null;
+  interval_days: number | null;
+  start_date: string | null;
+  start_odometer: number | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MaintenancePlanInput {
+  truck_id: string;
+  repair_type_id: string;
+  interval_miles: number | null;
+  interval_days: number | null;
+  start_date: string | null;
+  start_odometer: number | null;
+  notes: string | null;
+}
+
+export interface LastService {
+  date: string | null;
+  odometer: number | null;
+  repairOrderId: string | null; // null when taken from the plan's start values
+}
+
+export interface MaintenanceStatus {
+  plan: MaintenancePlan;
+  truckNumber: string;
+  serviceName: string;
+  lastService: LastService | null;
+  currentOdometer: number | null;
+  dueOdometer: number | null;
+  dueDate: string | null;
+  milesLeft: number | null; // negative when overdue
+  daysLeft: number | null; // negative when overdue
+  state: MaintenanceState;
+}
+
+// A plan as fetchMaintenanceStatuses selects it, with its truck and repair type
+interface PlanStatusRow extends MaintenancePlan {
+  trucks: { truck_number: string } | null;
+  repair_types: { name: string } | null;
+}
+
+// A repair line with its repair order (an inner join, so always present)
+interface RepairDetailRow {
+  repair_type_id: string;
+  date: string | null;
+  repair_orders: { id: string; truck_id: string | null; date: string; odometer_reading: number | null };
+}
+
+// Helper to get tenant_id from current user
+async function getTenantId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tenant_users")
+    .select("tenant_id")
+    .eq("user_id", session.user.id)
+    .single();
+
+  if (error || !data) {
+    console.error("[maintenance] Error fetching tenant_id:", error);
+    return null;
+  }
+
+  return data.tenant_id;
+}
+
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(date + "T12:00:00Z");
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  const ms = new Date(to + "T12:00:00").getTime() - new Date(from + "T12:00:00").getTime();
+  return Math.round(ms / 86400000);
+}
+
+/**
+ * Next due mileage/date for a plan and how close it is. Due means overdue:
+ * a service at exactly its interval is counted as overdue, not upcoming.
+ * Plans without a last service or a current odometer can't be measured.
+ */
+export function maintenanceStatusFor(
+  plan: MaintenancePlan,
+  lastService: LastService | null,
+  currentOdometer: number | null,
+  asOf: string = today()
+): Pick<MaintenanceStatus, "dueOdometer" | "dueDate" | "milesLeft" | "daysLeft" | "state"> {
+  const dueOdometer =
+    plan.interval_miles && lastService?.odometer != null ? lastService.odometer + plan.interval_miles : null;
+  const dueDate = plan.interval_days && lastService?.date ? addDays(lastService.date, plan.interval_days) : null;
+  const milesLeft = dueOdometer != null && currentOdometer != null ? Math.round(dueOdometer - currentOdometer) : null;
+  const daysLeft = dueDate ? daysBetween(asOf, dueDate) : null;
+
+  let state: MaintenanceState;
+  if (milesLeft == null && daysLeft == null) {
+    state = "no_history";
+  } else if ((milesLeft != null && milesLeft <= 0) || (daysLeft != null && daysLeft <= 0)) {
+    state = "overdue";
+  } else if ((milesLeft != null && milesLeft <= DUE_SOON_MILES) || (daysLeft != null && daysLeft <= DUE_SOON_DAYS)) {
+    state = "due_soon";
+  } else {
+    state = "ok";
+  }
+
+  return { dueOdometer, dueDate, milesLeft, daysLeft, state };
+}
+
+// Latest trusted reading on or before a date
+function readingOn(readings: OdometerEntry[], date: string): number | null {
+  let reading: number | null = null;
+  for (const r of readings) {
+    if (r.date > date) break;
+    reading = r.reading;
+  }
+  return reading;
+}
+
+const STATE_ORDER: Record<MaintenanceState, number> = { overdue: 0, due_soon: 1, no_history: 2, ok: 3 };
+
+// Fetch maintenance plans, optionally for one truck
+export async function fetchMaintenancePlans(truckId?: string | null): Promise<MaintenancePlan[]> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  let query = supabase
+    .from("maintenance_plans")
+    .select("*")
+    .eq("tenant_id", tenantId)
+    .order("created_at", { ascending: true });
+
+  if (truckId) {
+    query = query.eq("truck_id", truckId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("[maintenance] Error fetching maintenance plans:", error);
+    throw error;
+  }
+
+  return (data || []) as MaintenancePlan[];
+}
+
+/**
+ * Status of every plan (or one truck's plans), most urgent first. The last
+ * service comes from repair_order_details; when its repair order has no
+ * odometer, the truck's reading on that day is used instead.
+ */
+export async function fetchMaintenanceStatuses(truckId?: string | null): Promise<MaintenanceStatus[]> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  let planQuery = supabase
+    .from("maintenance_plans")
+    .select("*, trucks(truck_number), repair_types(name)")
+    .eq("tenant_id", tenantId);
+  if (truckId) {
+    planQuery = planQuery.eq("truck_id", truckId);
+  }
+
+  const { data: planRows, error: planError } = await planQuery.overrideTypes<PlanStatusRow[], { merge: false }>();
+  if (planError) {
+    console.error("[maintenance] Error fetching maintenance plans:", planError);
+    throw planError;
+  }
+  if (!planRows || planRows.length === 0) return [];
+
+  const typeIds = Array.from(new Set(planRows.map((p) => p.repair_type_id)));
+  const [detailRes, readings] = await Promise.all([
+    supabase
+      .from("repair_order_details")
+      .select("repair_type_id, date, repair_orders!inner(id, truck_id, date, odometer_reading)")
+      .eq("tenant_id", tenantId)
+      .in("repair_type_id", typeIds)
+      .overrideTypes<RepairDetailRow[], { merge: false }>(),
+    fetchTrustedReadingsByTruck().catch((error) => {
+      console.error("[maintenance] Error fetching odometer readings:", error);
+      return {} as Record<string, OdometerEntry[]>;
+    }),
+  ]);
+
+  if (detailRes.error) {
+    console.error("[maintenance] Error fetching repair history:", detailRes.error);
+    throw detailRes.error;
+  }
+
+  // Latest repair per truck and repair type
+  const latest = new Map<string, { date: string; odometer: number | null; repairOrderId: string }>();
+  for (const d of detailRes.data || []) {
+    const order = d.repair_orders;
+    if (!order?.truck_id) continue;
+    const date = d.date || order.date;
+    const key = `${order.truck_id}:${d.repair_type_id}`;
+    const prev = latest.get(key);
+    if (!prev || date > prev.date) {
+      latest.set(key, {
+        date,
+        odometer: order.odometer_reading != null ? Number(order.odometer_reading) : null,
+        repairOrderId: order.id,
+      });
+    }
+  }
+
+  const asOf = today();
+  const statuses = planRows.map((row): MaintenanceStatus => {
+    const { trucks, repair_types, ...plan } = row;
+    const truckReadings = readings[plan.truck_id] || [];
+    const currentOdometer = truckReadings.length > 0 ? truckReadings[truckReadings.length - 1].reading : null;
+
+    const repair = latest.get(`${plan.truck_id}:${plan.repair_type_id}`);
+    let lastService: LastService | null = null;
+    if (repair) {
+      lastService = {
+        date: repair.date,
+        odometer: repair.odometer ?? readingOn(truckReadings, repair.date),
+        repairOrderId: repair.repairOrderId,
+      };
+    } else if (plan.start_date || plan.start_odometer != null) {
+      lastService = {
+        date: plan.start_date,
+        odometer: plan.start_odometer != null ? Number(plan.start_odometer) : null,
+        repairOrderId: null,
+      };
+    }
+
+    return {
+      plan,
+      truckNumber: trucks?.truck_number || "—",
+      serviceName: repair_types?.name || "Service",
+      lastService,
+      currentOdometer,
+      ...maintenanceStatusFor(plan, lastService, currentOdometer, asOf),
+    };
+  });
+
+  return statuses.sort(
+    (a, b) =>
+      STATE_ORDER[a.state] - STATE_ORDER[b.state] ||
+      a.truckNumber.localeCompare(b.truckNumber) ||
+      a.serviceName.localeCompare(b.serviceName)
+  );
+}
+
+// Overdue and upcoming services for the home screen
+export async function fetchMaintenanceReminders(): Promise<MaintenanceStatus[]> {
+  const statuses = await fetchMaintenanceStatuses();
+  return statuses.filter((s) => s.state === "overdue" || s.state === "due_soon");
+}
+
+export async function saveMaintenancePlan(id: string | null, input: MaintenancePlanInput): Promise<void> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  if (!input.interval_miles && !input.interval_days) {
+    throw new Error("Enter a mileage interval, a time interval, or both.");
+  }
+
+  const row = {
+    tenant_id: tenantId,
+    truck_id: input.truck_id,
+    repair_type_id: input.repair_type_id,
+    interval_miles: input.interval_miles || null,
+    interval_days: input.interval_days || null,
+    start_date: input.start_date,
+    start_odometer: input.start_odometer,
+    notes: input.notes,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error } = id
+    ? await supabase.from("maintenance_plans").update(row).eq("id", id).eq("tenant_id", tenantId)
+    : await supabase.from("maintenance_plans").insert(row);
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new Error("This truck already has a plan for that service.");
+    }
+    console.error("[maintenance] Error saving maintenance plan:", error);
+    throw error;
+  }
+}
+
+export async function deleteMaintenancePlan(id: string): Promise<void> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { error } = await supabase
+    .from("maintenance_plans")
+    .delete()
+    .eq("id", id)
+    .eq("tenant_id", tenantId);
+
+  if (error) {
+    console.error("[maintenance] Error deleting maintenance plan:", error);
+    throw error;
+  }
+}
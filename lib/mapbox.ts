@@ -51,3 +51,57 @@ export async function geocodeAddress(
     return null;
   }
 }
+
+export type LngLat = {
+  latitude: number;
+  longitude: number;
+};
+
+const METERS_PER_MILE = 1609.344;
+// Directions API limit on waypoints per request
+const MAX_DIRECTIONS_WAYPOINTS = 25;
+
+/**
+ * Driving distance in miles for each consecutive pair of points using the
+ * Mapbox Directions API. Returns null if the route cannot be resolved.
+ */
+export async function getDrivingDistances(
+  points: LngLat[]
+): Promise<number[] | null> {
+  if (points.length < 2) return [];
+  if (!MAPBOX_TOKEN) {
+    console.warn("Mapbox token not configured");
+    return null;
+  }
+
+  const distances: number[] = [];
+  // Consecutive requests share their boundary point so every pair is covered
+  for (let start = 0; start < points.length - 1; start += MAX_DIRECTIONS_WAYPOINTS - 1) {
+    const chunk = points.slice(start, start + MAX_DIRECTIONS_WAYPOINTS);
+    const coords = chunk.map((p) => `${p.longitude},${p.latitude}`).join(";");
+    const url = `https://api.mapbox.com/directions/v5/mapbox/driving/${coords}?access_token=${MAPBOX_TOKEN}&overview=false`;
+
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        console.error("Mapbox directions error:", response.status);
+        return null;
+      }
+
+      const data = await response.json();
+      const legs = data.routes?.[0]?.legs;
+      if (!legs || legs.length !== chunk.length - 1) {
+        return null;
+      }
+
+      for (const leg of legs) {
+        distances.push(Math.round(leg.distance / METERS_PER_MILE));
+      }
+    } catch (error) {
+      console.error("Mapbox directions failed:", error);
+      return null;
+    }
+  }
+
+  return distances;
+}
@@ -0,0 +1,418 @@
+import { supabase } from "./supabaseClient";
+
+// Where a reading came from
+export type OdometerSource = "stop" | "fuel" | "expense" | "repair" | "manual";
+
+// Why a reading looks wrong compared to the reading before it
+export type OdometerFlag = "backwards" | "jump";
+
+// More than this many miles per elapsed day is treated as a typo
+export const MAX_MILES_PER_DAY = 1200;
+
+export interface OdometerEntry {
+  id: string; // `${source}:${sourceId}`
+  source: OdometerSource;
+  sourceId: string;
+  truckId: string | null;
+  tripId: string | null;
+  date: string; // YYYY-MM-DD
+  reading: number;
+  label: string;
+  delta: number | null; // miles since the previous trusted reading
+  flag: OdometerFlag | null;
+}
+
+export interface OdometerReadingInput {
+  truck_id: string | null;
+  date: string;
+  reading: number;
+  notes: string | null;
+}
+
+// Rows as fetchAllEntries selects them. The embedded trips and vendors are
+// many-to-one, so PostgREST returns a single object (or null), not an array
+interface TruckAssetRow {
+  id: string;
+  asset_type: string | null;
+}
+
+interface StopReadingRow {
+  id: string;
+  trip_id: string;
+  name: string | null;
+  odometer_reading: number | null;
+  completed_at: string | null;
+  expected_date: string | null;
+  trips: { trip_reference: string | null; date: string | null; truck_id: string | null } | null;
+}
+
+interface FuelReadingRow {
+  id: string;
+  trip_id: string | null;
+  date: string;
+  description: string | null;
+  odometer_reading: number | null;
+  vendors: { name: string } | null;
+  trips: { truck_id: string | null } | null;
+}
+
+interface ExpenseReadingRow {
+  id: string;
+  trip_id: string | null;
+  date: string;
+  type: string | null;
+  description: string | null;
+  odometer_reading: number | null;
+  trips: { truck_id: string | null } | null;
+}
+
+interface RepairReadingRow {
+  id: string;
+  truck_id: string | null;
+  date: string;
+  description: string | null;
+  odometer_reading: number | null;
+  vendors: { name: string } | null;
+}
+
+interface ManualReadingRow {
+  id: string;
+  truck_id: string | null;
+  date: string;
+  reading: number;
+  notes: string | null;
+}
+
+// Helper to get tenant_id from current user
+async function getTenantId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tenant_users")
+    .select("tenant_id")
+    .eq("user_id", session.user.id)
+    .single();
+
+  if (error || !data) {
+    console.error("[odometer] Error fetching tenant_id:", error);
+    return null;
+  }
+
+  return data.tenant_id;
+}
+
+function daysBetween(from: string, to: string): number {
+  const ms = new Date(to + "T12:00:00").getTime() - new Date(from + "T12:00:00").getTime();
+  return Math.round(ms / 86400000);
+}
+
+/**
+ * Sort entries chronologically and flag readings that go backwards or jump
+ * further than a truck can plausibly drive. Flagged readings are skipped as
+ * the baseline for the next comparison so one typo doesn't flag everything after it.
+ */
+export function flagOdometerEntries(entries: OdometerEntry[]): OdometerEntry[] {
+  const sorted = entries
+    .slice()
+    .sort((a, b) => a.date.localeCompare(b.date) || a.reading - b.reading);
+
+  let last: OdometerEntry | null = null;
+  return sorted.map((entry) => {
+    if (!last) {
+      last = entry;
+      return { ...entry, delta: null, flag: null };
+    }
+
+    const delta = entry.reading - last.reading;
+    const days = Math.max(1, daysBetween(last.date, entry.date));
+    let flag: OdometerFlag | null = null;
+    if (delta < 0) {
+      flag = "backwards";
+    } else if (delta > MAX_MILES_PER_DAY * days) {
+      flag = "jump";
+    }
+
+    if (!flag) last = entry;
+    return { ...entry, delta, flag };
+  });
+}
+
+/**
+ * Work out which truck a reading belongs to. Repairs and manual readings carry
+ * their own truck; trip, fuel and expense readings follow the truck assigned
+ * to their trip. Readings with neither are credited to the tenant's only
+ * truck when there is exactly one.
+ */
+function attributeTruck(explicitTruckId: string | null | undefined, soleTruckId: string | null): string | null {
+  return explicitTruckId || soleTruckId;
+}
+
+// Fetch every odometer reading across all sources for the current tenant
+async function fetchAllEntries(
+  tenantId: string
+): Promise<{ entries: OdometerEntry[]; soleTruckId: string | null }> {
+  const [trucksRes, stopsRes, fuelRes, expenseRes, repairRes, manualRes] = await Promise.all([
+    supabase
+      .from("trucks")
+      .select("id, asset_type")
+      .eq("tenant_id", tenantId)
+      .overrideTypes<TruckAssetRow[], { merge: false }>(),
+    supabase
+      .from("stops")
+      .select("id, trip_id, name, odometer_reading, completed_at, expected_date, trips(trip_reference, date, truck_id)")
+      .eq("tenant_id", tenantId)
+      .not("odometer_reading", "is", null)
+      .overrideTypes<StopReadingRow[], { merge: false }>(),
+    supabase
+      .from("fuel_purchases")
+      .select("id, trip_id, date, description, odometer_reading, vendors(name), trips(truck_id)")
+      .eq("tenant_id", tenantId)
+      .not("odometer_reading", "is", null)
+      .overrideTypes<FuelReadingRow[], { merge: false }>(),
+    supabase
+      .from("misc_expenses")
+      .select("id, trip_id, date, type, description, odometer_reading, trips(truck_id)")
+      .eq("tenant_id", tenantId)
+      .not("odometer_reading", "is", null)
+      .overrideTypes<ExpenseReadingRow[], { merge: false }>(),
+    supabase
+      .from("repair_orders")
+      .select("id, truck_id, date, description, odometer_reading, vendors(name)")
+      .eq("tenant_id", tenantId)
+      .not("odometer_reading", "is", null)
+      .overrideTypes<RepairReadingRow[], { merge: false }>(),
+    supabase
+      .from("odometer_readings")
+      .select("id, truck_id, date, reading, notes")
+      .eq("tenant_id", tenantId)
+      .overrideTypes<ManualReadingRow[], { merge: false }>(),
+  ]);
+
+  for (const res of [trucksRes, stopsRes, fuelRes, expenseRes, repairRes, manualRes]) {
+    if (res.error) {
+      console.error("[odometer] Error fetching odometer sources:", res.error);
+      throw res.error;
+    }
+  }
+
+  // Trailers don't have odometers worth tracking
+  const tractors = (trucksRes.data || []).filter((t) => (t.asset_type || "truck") === "truck");
+  const soleTruckId = tractors.length === 1 ? tractors[0].id : null;
+
+  const entries: OdometerEntry[] = [];
+  const push = (e: Omit<OdometerEntry, "id" | "delta" | "flag">) =>
+    entries.push({ ...e, id: `${e.source}:${e.sourceId}`, delta: null, flag: null });
+
+  for (const s of stopsRes.data || []) {
+    const trip = s.trips;
+    const date = s.completed_at ? s.completed_at.split("T")[0] : s.expected_date || trip?.date;
+    if (!date) continue;
+    push({
+      source: "stop",
+      sourceId: s.id,
+      truckId: attributeTruck(trip?.truck_id, soleTruckId),
+      tripId: s.trip_id,
+      date,
+      reading: Number(s.odometer_reading),
+      label: `${trip?.trip_reference ? `Trip #${trip.trip_reference}` : "Trip"}${s.name ? ` – ${s.name}` : ""}`,
+    });
+  }
+
+  for (const f of fuelRes.data || []) {
+    push({
+      source: "fuel",
+      sourceId: f.id,
+      truckId: attributeTruck(f.trips?.truck_id, soleTruckId),
+      tripId: f.trip_id,
+      date: f.date,
+      reading: Number(f.odometer_reading),
+      label: `Fuel – ${f.vendors?.name || f.description || "Fuel purchase"}`,
+    });
+  }
+
+  for (const e of expenseRes.data || []) {
+    push({
+      source: "expense",
+      sourceId: e.id,
+      truckId: attributeTruck(e.trips?.truck_id, soleTruckId),
+      tripId: e.trip_id,
+      date: e.date,
+      reading: Number(e.odometer_reading),
+      label: `Expense – ${e.type || e.description || "Expense"}`,
+    });
+  }
+
+  for (const r of repairRes.data || []) {
+    push({
+      source: "repair",
+      sourceId: r.id,
+      truckId: attributeTruck(r.truck_id, soleTruckId),
+      tripId: null,
+      date: r.date,
+      reading: Number(r.odometer_reading),
+      label: `Repair – ${r.vendors?.name || r.description || "Repair order"}`,
+    });
+  }
+
+  for (const m of manualRes.data || []) {
+    push({
+      source: "manual",
+      sourceId: m.id,
+      truckId: attributeTruck(m.truck_id, soleTruckId),
+      tripId: null,
+      date: m.date,
+      reading: Number(m.reading),
+      label: m.notes || "Odometer reading",
+    });
+  }
+
+  return { entries: entries.filter((e) => !isNaN(e.reading)), soleTruckId };
+}
+
+/**
+ * Fetch the merged odometer timeline for one truck, oldest first, with
+ * suspicious readings flagged. Pass null for readings not tied to any truck.
+ */
+export async function fetchOdometerTimeline(truckId: string | null): Promise<OdometerEntry[]> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { entries } = await fetchAllEntries(tenantId);
+  return flagOdometerEntries(entries.filter((e) => e.truckId === truckId));
+}
+
+/**
+ * Latest trusted reading before a trip, drawn from the whole odometer history
+ * of the trip's truck. The trip's own stops are left out so callers can
+ * combine this with the stops they already have.
+ */
+export async function fetchLastOdometerBeforeTrip(
+  tripId: string,
+  onOrBefore?: string
+): Promise<number | null> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const [{ entries, soleTruckId }, tripRes] = await Promise.all([
+    fetchAllEntries(tenantId),
+    supabase.from("trips").select("truck_id").eq("id", tripId).eq("tenant_id", tenantId).maybeSingle(),
+  ]);
+  const truckId = attributeTruck(tripRes.data?.truck_id, soleTruckId);
+
+  const history = entries.filter(
+    (e) =>
+      e.truckId === truckId &&
+      !(e.source === "stop" && e.tripId === tripId) &&
+      (!onOrBefore || e.date <= onOrBefore)
+  );
+
+  const trusted = flagOdometerEntries(history).filter((e) => !e.flag);
+  return trusted.length > 0 ? trusted[trusted.length - 1].reading : null;
+}
+
+/**
+ * Average miles driven per month by each truck over the year before `asOf`
+ * (default today), from trusted readings. Trucks with less than 30 days of
+ * readings in that window are left out.
+ */
+export async function fetchMonthlyMilesByTruck(asOf?: string): Promise<Record<string, number>> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const end = asOf || new Date().toISOString().split("T")[0];
+  const start = new Date(new Date(end + "T12:00:00").getTime() - 365 * 86400000).toISOString().split("T")[0];
+
+  const { entries } = await fetchAllEntries(tenantId);
+  const byTruck = new Map<string, OdometerEntry[]>();
+  for (const e of entries) {
+    if (!e.truckId) continue;
+    const list = byTruck.get(e.truckId) || [];
+    list.push(e);
+    byTruck.set(e.truckId, list);
+  }
+
+  const miles: Record<string, number> = {};
+  for (const [truckId, list] of byTruck) {
+    const trusted = flagOdometerEntries(list).filter((e) => !e.flag && e.date >= start && e.date <= end);
+    if (trusted.length < 2) continue;
+    const first = trusted[0];
+    const last = trusted[trusted.length - 1];
+    const days = daysBetween(first.date, last.date);
+    if (days < 30 || last.reading <= first.reading) continue;
+    miles[truckId] = Math.round(((last.reading - first.reading) / days) * (365 / 12));
+  }
+  return miles;
+}
+
+/**
+ * Trusted readings for every truck, oldest first. Flagged readings are left
+ * out so a typo doesn't become a truck's latest mileage.
+ */
+export async function fetchTrustedReadingsByTruck(): Promise<Record<string, OdometerEntry[]>> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { entries } = await fetchAllEntries(tenantId);
+  const byTruck: Record<string, OdometerEntry[]> = {};
+  for (const e of entries) {
+    if (!e.truckId) continue;
+    const list = byTruck[e.truckId] || [];
+    list.push(e);
+    byTruck[e.truckId] = list;
+  }
+  for (const truckId of Object.keys(byTruck)) {
+    byTruck[truckId] = flagOdometerEntries(byTruck[truckId]).filter((e) => !e.flag);
+  }
+  return byTruck;
+}
+
+// Add a standalone odometer reading
+export async function addOdometerReading(input: OdometerReadingInput): Promise<void> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { error } = await supabase.from("odometer_readings").insert({
+    tenant_id: tenantId,
+    truck_id: input.truck_id,
+    date: input.date,
+    reading: input.reading,
+    notes: input.notes,
+  });
+
+  if (error) {
+    console.error("[odometer] Error adding odometer reading:", error);
+    throw error;
+  }
+}
+
+// Delete a standalone odometer reading (readings from other sources are edited there)
+export async function deleteOdometerReading(id: string): Promise<void> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { error } = await supabase
+    .from("odometer_readings")
+    .delete()
+    .eq("id", id)
+    .eq("tenant_id", tenantId);
+
+  if (error) {
+    console.error("[odometer] Error deleting odometer reading:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,439 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { supabase } from "./supabaseClient";
+
+/**
+ * Offline support: a persistent read cache and a durable outbox of writes.
+ *
+ * Reads go through cachedQuery(), which serves the last good result when the
+ * network is down. Writes go through writeOrQueue(), which applies them right
+ * away when possible and otherwise appends them to the outbox; flushOutbox()
+ * replays the outbox in order once connectivity returns.
+ */
+
+export type OutboxOp = "insert" | "update" | "delete";
+
+// Column values of a queued row, or of the server's copy of it
+export type OutboxRow = Record<string, unknown>;
+
+// Data kept with an entry for replay hooks
+export interface OutboxMeta {
+  plannedToNext?: number | null; // planned miles from a saved stop to the next
+}
+
+export interface OutboxEntry {
+  id: string;
+  table: string;
+  op: OutboxOp;
+  // Row values for insert/update
+  values?: OutboxRow;
+  // Column filters identifying the row(s) for update/delete
+  match: Record<string, string>;
+  // Row as last seen from the server; enables conflict detection on update
+  base?: OutboxRow | null;
+  tripId?: string | null;
+  meta?: OutboxMeta;
+  editedAt: string;
+  attempts: number;
+  status: "pending" | "failed";
+  lastError?: string;
+}
+
+export interface SyncConflict {
+  id: string;
+  table: string;
+  rowId: string;
+  // Fields edited both here and on another device
+  fields: string[];
+  resolution: "local" | "server" | "deleted";
+  at: string;
+}
+
+export type OutboxState = {
+  entries: OutboxEntry[];
+  conflicts: SyncConflict[];
+  syncing: boolean;
+  lastSyncedAt: string | null;
+};
+
+type ReplayHook = (entries: OutboxEntry[]) => Promise<void>;
+
+const CACHE_PREFIX = "offline:cache:";
+const OUTBOX_KEY = "offline:outbox";
+const CONFLICTS_KEY = "offline:conflicts";
+const MAX_CONFLICTS = 50;
+
+let state: OutboxState = { entries: [], conflicts: [], syncing: false, lastSyncedAt: null };
+let loaded: Promise<void> | null = null;
+let flushing: Promise<void> | null = null;
+const listeners = new Set<(s: OutboxState) => void>();
+const replayHooks: ReplayHook[] = [];
+
+// ─── Helpers ─────────────────────────────────────────────────────────────
+
+// RFC 4122 v4 id for rows created on the device (so they can be queued before insert)
+export function newId(): string {
+  const c: Crypto | undefined = typeof crypto !== "undefined" ? crypto : undefined;
+  if (c?.randomUUID) return c.randomUUID();
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (ch) => {
+    const r = (Math.random() * 16) | 0;
+    return (ch === "x" ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+// True when the request never reached the server (vs. a server-side error)
+export function isNetworkError(error: unknown): boolean {
+  if (!error) return false;
+  const message = typeof error === "object" && "message" in error ? String(error.message) : String(error);
+  return /Failed to fetch|Network request failed|NetworkError|Load failed|fetch failed|timed? ?out/i.test(message);
+}
+
+// ─── Read cache ──────────────────────────────────────────────────────────
+
+export async function readCache<T>(key: string): Promise<T | null> {
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_PREFIX + key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCache(key: string, value: unknown): Promise<void> {
+  try {
+    await AsyncStorage.setItem(CACHE_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error("[offline] Error writing cache:", error);
+  }
+}
+
+/**
+ * Run a query and cache its result under `key`. When the query fails because
+ * the device is offline, the cached result is returned instead (the original
+ * error is rethrown when nothing is cached).
+ */
+export async function cachedQuery<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  try {
+    const result = await fetcher();
+    await writeCache(key, result);
+    return result;
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    const cached = await readCache<T>(key);
+    if (cached == null) throw error;
+    return cached;
+  }
+}
+
+/**
+ * Tenant of the signed-in user, falling back to the last one seen when
+ * offline. For screens that otherwise look up tenant_users inline.
+ */
+export async function resolveTenantId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) return null;
+
+  const { data, error } = await supabase
+    .from("tenant_users")
+    .select("tenant_id")
+    .eq("user_id", session.user.id)
+    .single();
+
+  if (error && isNetworkError(error)) {
+    return readCache<string>("tenant_id");
+  }
+  if (error || !data) {
+    console.error("[offline] Error fetching tenant_id:", error);
+    return null;
+  }
+
+  await writeCache("tenant_id", data.tenant_id);
+  return data.tenant_id;
+}
+
+// Drop cached reads (on sign-out). Queued writes are kept.
+export async function clearOfflineCache(): Promise<void> {
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(keys.filter((k) => k.startsWith(CACHE_PREFIX)));
+}
+
+// ─── Outbox state ────────────────────────────────────────────────────────
+
+function ensureLoaded(): Promise<void> {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const [outbox, conflicts] = await Promise.all([
+          AsyncStorage.getItem(OUTBOX_KEY),
+          AsyncStorage.getItem(CONFLICTS_KEY),
+        ]);
+        state = {
+          ...state,
+          entries: outbox ? JSON.parse(outbox) : [],
+          conflicts: conflicts ? JSON.parse(conflicts) : [],
+        };
+      } catch (error) {
+        console.error("[offline] Error loading outbox:", error);
+      }
+    })();
+  }
+  return loaded;
+}
+
+async function setState(patch: Partial<OutboxState>): Promise<void> {
+  state = { ...state, ...patch };
+  if (patch.entries) await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(state.entries));
+  if (patch.conflicts) await AsyncStorage.setItem(CONFLICTS_KEY, JSON.stringify(state.conflicts));
+  listeners.forEach((l) => l(state));
+}
+
+export async function getOutboxState(): Promise<OutboxState> {
+  await ensureLoaded();
+  return state;
+}
+
+export function subscribeOutbox(listener: (s: OutboxState) => void): () => void {
+  listeners.add(listener);
+  ensureLoaded().then(() => listener(state));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Run after entries are replayed (e.g. to rebuild derived rows like legs)
+export function registerReplayHook(hook: ReplayHook): void {
+  replayHooks.push(hook);
+}
+
+// Pending (not yet synced) entries for a table, optionally for one trip
+export async function getPendingEntries(table: string, tripId?: string): Promise<OutboxEntry[]> {
+  await ensureLoaded();
+  return state.entries.filter((e) => e.table === table && (!tripId || e.tripId === tripId));
+}
+
+/**
+ * Overlay queued writes onto rows fetched from the server or the cache so
+ * screens show local edits that haven't synced yet.
+ */
+export function applyPendingToRows<T extends { id: string }>(rows: T[], entries: OutboxEntry[]): T[] {
+  let result = [...rows];
+  for (const e of entries) {
+    if (e.op === "insert" && e.values) {
+      if (!result.some((r) => r.id === e.values!.id)) result.push(e.values as T);
+    } else if (e.op === "update" && e.values) {
+      result = result.map((r) => (r.id === e.match.id ? { ...r, ...e.values } : r));
+    } else if (e.op === "delete") {
+      result = result.filter((r) => r.id !== e.match.id);
+    }
+  }
+  return result;
+}
+
+export async function discardOutboxEntry(id: string): Promise<void> {
+  await ensureLoaded();
+  await setState({ entries: state.entries.filter((e) => e.id !== id) });
+}
+
+export async function clearConflicts(): Promise<void> {
+  await ensureLoaded();
+  await setState({ conflicts: [] });
+}
+
+// ─── Writes ──────────────────────────────────────────────────────────────
+
+type WriteInput = Omit<OutboxEntry, "id" | "editedAt" | "attempts" | "status" | "lastError">;
+
+/**
+ * Apply a write now, or queue it when offline. Writes are also queued while
+ * older ones are still waiting so they replay in order.
+ * Returns true when the write was queued rather than applied.
+ */
+export async function writeOrQueue(input: WriteInput): Promise<boolean> {
+  await ensureLoaded();
+  const entry: OutboxEntry = {
+    ...input,
+    id: newId(),
+    editedAt: new Date().toISOString(),
+    attempts: 0,
+    status: "pending",
+  };
+
+  if (!state.entries.some((e) => e.status === "pending")) {
+    try {
+      await applyEntry(entry, false);
+      return false;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  await setState({ entries: [...state.entries, entry] });
+  return true;
+}
+
+function applyMatch<Q extends { eq: (col: string, val: string) => Q }>(query: Q, match: Record<string, string>): Q {
+  return Object.entries(match).reduce((q, [col, val]) => q.eq(col, val), query);
+}
+
+async function applyEntry(entry: OutboxEntry, checkConflicts: boolean): Promise<void> {
+  if (entry.op === "insert") {
+    const { error } = await supabase.from(entry.table).insert(entry.values || {});
+    // Already inserted by an earlier attempt whose response was lost
+    if (error && error.code !== "23505") throw error;
+    return;
+  }
+
+  if (entry.op === "delete") {
+    const { error } = await applyMatch(supabase.from(entry.table).delete(), entry.match);
+    if (error) throw error;
+    return;
+  }
+
+  let values = entry.values || {};
+  if (checkConflicts && entry.base?.updated_at && entry.match.id) {
+    const merged = await mergeWithServer(entry);
+    if (merged === null) return;
+    values = merged;
+  }
+
+  if (Object.keys(values).length === 0) return;
+  const { error } = await applyMatch(supabase.from(entry.table).update(values), entry.match);
+  if (error) throw error;
+}
+
+/**
+ * Three-way merge for a queued update against the server's current row.
+ * Fields changed on only one side keep that side's value; fields changed on
+ * both go to whichever edit is newer. Returns the values to write, or null
+ * when the row no longer exists.
+ */
+async function mergeWithServer(entry: OutboxEntry): Promise<OutboxRow | null> {
+  const { data, error } = await supabase
+    .from(entry.table)
+    .select("*")
+    .eq("id", entry.match.id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const server: OutboxRow | null = data;
+  const base = entry.base || {};
+  const local = entry.values || {};
+
+  if (!server) {
+    await recordConflict(entry, Object.keys(local), "deleted");
+    return null;
+  }
+  if (server.updated_at === base.updated_at) return local;
+
+  const serverNewer = new Date(String(server.updated_at)).getTime() > new Date(entry.editedAt).getTime();
+  const merged: OutboxRow = {};
+  const clashes: string[] = [];
+
+  for (const [field, value] of Object.entries(local)) {
+    const changedHere = !sameValue(value, base[field]);
+    const changedThere = !sameValue(server[field], base[field]);
+    if (!changedHere) continue;
+    if (changedThere && !sameValue(server[field], value)) {
+      clashes.push(field);
+      if (serverNewer) continue;
+    }
+    merged[field] = value;
+  }
+
+  if (clashes.length > 0) {
+    await recordConflict(entry, clashes, serverNewer ? "server" : "local");
+  }
+  return merged;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a == null && b == null) return true;
+  if (typeof a === "number" || typeof b === "number") return Number(a) === Number(b);
+  return a === b;
+}
+
+async function recordConflict(
+  entry: OutboxEntry,
+  fields: string[],
+  resolution: SyncConflict["resolution"]
+): Promise<void> {
+  const conflict: SyncConflict = {
+    id: newId(),
+    table: entry.table,
+    rowId: entry.match.id,
+    fields,
+    resolution,
+    at: new Date().toISOString(),
+  };
+  await setState({ conflicts: [conflict, ...state.conflicts].slice(0, MAX_CONFLICTS) });
+}
+
+// ─── Replay ──────────────────────────────────────────────────────────────
+
+/**
+ * Replay queued writes in order. Stops at the first network failure (still
+ * offline); entries rejected by the server are marked failed and skipped so
+ * they can be retried or discarded from the sync screen.
+ */
+export async function flushOutbox(): Promise<void> {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    await ensureLoaded();
+    if (state.entries.length === 0) return;
+    await setState({ syncing: true });
+
+    const replayed: OutboxEntry[] = [];
+    try {
+      for (const entry of [...state.entries]) {
+        if (entry.status === "failed") continue;
+        try {
+          await applyEntry(entry, true);
+          replayed.push(entry);
+          await setState({ entries: state.entries.filter((e) => e.id !== entry.id) });
+        } catch (error) {
+          if (isNetworkError(error)) break;
+          console.error("[offline] Error replaying outbox entry:", error);
+          await setState({
+            entries: state.entries.map((e) =>
+              e.id === entry.id
+                ? { ...e, status: "failed", attempts: e.attempts + 1, lastError: (error as Error).message || String(error) }
+                : e
+            ),
+          });
+        }
+      }
+
+      if (replayed.length > 0) {
+        for (const hook of replayHooks) {
+          try {
+            await hook(replayed);
+          } catch (error) {
+            console.error("[offline] Error in replay hook:", error);
+          }
+        }
+      }
+    } finally {
+      await setState({
+        syncing: false,
+        lastSyncedAt: replayed.length > 0 ? new Date().toISOString() : state.lastSyncedAt,
+      });
+    }
+  })();
+
+  try {
+    await flushing;
+  } finally {
+    flushing = null;
+  }
+}
+
+// Put a failed entry back in line and replay
+export async function retryOutboxEntry(id: string): Promise<void> {
+  await ensureLoaded();
+  await setState({
+    entries: state.entries.map((e) =>
+      e.id === id ? { ...e, status: "pending", lastError: undefined } : e
+    ),
+  });
+  await flushOutbox();
+}
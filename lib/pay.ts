@@ -0,0 +1,227 @@
+import { supabase } from "./supabaseClient";
+import { StopType } from "./trips";
+
+export interface PayRates {
+  loaded: number;
+  empty: number;
+}
+
+export interface TripPay {
+  loadedMiles: number;
+  emptyMiles: number;
+  loadedPay: number;
+  emptyPay: number;
+  totalPay: number;
+}
+
+export interface PayPeriodTrip extends TripPay {
+  tripId: string;
+  tripReference: string;
+  date: string;
+  origin: string;
+  destination: string;
+}
+
+export interface PayPeriodSummary {
+  rates: PayRates;
+  trips: PayPeriodTrip[];
+  totals: TripPay;
+}
+
+// A stop as the pay period query selects it
+interface PayStopRow {
+  trip_id: string;
+  stop_order: number;
+  type: StopType | null;
+  name: string | null;
+  odometer_reading: number | null;
+}
+
+// Helper to get tenant_id from current user
+async function getTenantId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tenant_users")
+    .select("tenant_id")
+    .eq("user_id", session.user.id)
+    .single();
+
+  if (error || !data) {
+    console.error("[pay] Error fetching tenant_id:", error);
+    return null;
+  }
+
+  return data.tenant_id;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Decide, for each leg (stop i → stop i+1), whether the truck is loaded.
+ * Empty start and reposition legs are always empty. Otherwise the truck is
+ * loaded while it carries freight picked up and not yet delivered.
+ */
+export function classifyLegs(types: StopType[]): boolean[] {
+  const loaded: boolean[] = [];
+  let onBoard = 0;
+  for (let i = 0; i < types.length - 1; i++) {
+    const type = types[i];
+    if (type === "empty_start" || type === "reposition") {
+      onBoard = 0;
+    } else if (type === "pickup") {
+      onBoard += 1;
+    } else if (type === "delivery") {
+      onBoard = Math.max(0, onBoard - 1);
+    }
+    loaded.push(onBoard > 0);
+  }
+  return loaded;
+}
+
+/**
+ * Split a trip's miles into loaded and empty and price them.
+ * legMiles[i] is the mileage from stop i to stop i+1 (null if unknown).
+ */
+export function computeTripPay(
+  types: StopType[],
+  legMiles: (number | null)[],
+  rates: PayRates
+): TripPay {
+  const loadedLegs = classifyLegs(types);
+  let loadedMiles = 0;
+  let emptyMiles = 0;
+  loadedLegs.forEach((isLoaded, i) => {
+    const mi = legMiles[i];
+    if (mi == null || mi <= 0) return;
+    if (isLoaded) loadedMiles += mi;
+    else emptyMiles += mi;
+  });
+
+  const loadedPay = round2(loadedMiles * rates.loaded);
+  const emptyPay = round2(emptyMiles * rates.empty);
+  return {
+    loadedMiles,
+    emptyMiles,
+    loadedPay,
+    emptyPay,
+    totalPay: round2(loadedPay + emptyPay),
+  };
+}
+
+// Per-mile pay rates from settings (0 when not set)
+export async function fetchPayRates(): Promise<PayRates> {
+  const fallback: PayRates = { loaded: 0, empty: 0 };
+  try {
+    const tenantId = await getTenantId();
+    if (!tenantId) return fallback;
+
+    const { data } = await supabase
+      .from("settings")
+      .select("rate_per_mile_loaded, rate_per_mile_empty")
+      .eq("tenant_id", tenantId)
+      .single();
+
+    return {
+      loaded: Number(data?.rate_per_mile_loaded) || 0,
+      empty: Number(data?.rate_per_mile_empty) || 0,
+    };
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Loaded/empty miles and pay for every trip dated within [from, to]
+ * (inclusive, YYYY-MM-DD). Leg miles come from stop odometer readings.
+ */
+export async function fetchPayPeriodSummary(from: string, to: string): Promise<PayPeriodSummary> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const [rates, tripsRes] = await Promise.all([
+    fetchPayRates(),
+    supabase
+      .from("trips")
+      .select("id, trip_reference, date, origin_name, destination_name")
+      .eq("tenant_id", tenantId)
+      .neq("status", "cancelled")
+      .gte("date", from)
+      .lte("date", to)
+      .order("date", { ascending: true }),
+  ]);
+
+  if (tripsRes.error) {
+    console.error("[pay] Error fetching trips for pay period:", tripsRes.error);
+    throw tripsRes.error;
+  }
+
+  const trips = tripsRes.data || [];
+  const emptyTotals: TripPay = { loadedMiles: 0, emptyMiles: 0, loadedPay: 0, emptyPay: 0, totalPay: 0 };
+  if (trips.length === 0) {
+    return { rates, trips: [], totals: emptyTotals };
+  }
+
+  const { data: stops, error: stopsError } = await supabase
+    .from("stops")
+    .select("trip_id, stop_order, type, name, odometer_reading")
+    .eq("tenant_id", tenantId)
+    .in("trip_id", trips.map((t) => t.id))
+    .order("stop_order", { ascending: true })
+    .overrideTypes<PayStopRow[], { merge: false }>();
+
+  if (stopsError) {
+    console.error("[pay] Error fetching stops for pay period:", stopsError);
+    throw stopsError;
+  }
+
+  const stopsByTrip = new Map<string, PayStopRow[]>();
+  for (const stop of stops || []) {
+    const list = stopsByTrip.get(stop.trip_id) || [];
+    list.push(stop);
+    stopsByTrip.set(stop.trip_id, list);
+  }
+
+  const rows: PayPeriodTrip[] = trips.map((trip) => {
+    const tripStops = stopsByTrip.get(trip.id) || [];
+    const legMiles = tripStops.slice(0, -1).map((s, i) => {
+      const cur = s.odometer_reading != null ? Number(s.odometer_reading) : null;
+      const nextRaw = tripStops[i + 1].odometer_reading;
+      const next = nextRaw != null ? Number(nextRaw) : null;
+      return cur != null && next != null && next > cur ? next - cur : null;
+    });
+    const pay = computeTripPay(
+      tripStops.map((s) => s.type || "stop"),
+      legMiles,
+      rates
+    );
+    return {
+      ...pay,
+      tripId: trip.id,
+      tripReference: trip.trip_reference || trip.id,
+      date: trip.date,
+      origin: trip.origin_name || tripStops[0]?.name || "—",
+      destination: trip.destination_name || tripStops[tripStops.length - 1]?.name || "—",
+    };
+  });
+
+  const totals = rows.reduce<TripPay>(
+    (acc, r) => ({
+      loadedMiles: acc.loadedMiles + r.loadedMiles,
+      emptyMiles: acc.emptyMiles + r.emptyMiles,
+      loadedPay: round2(acc.loadedPay + r.loadedPay),
+      emptyPay: round2(acc.emptyPay + r.emptyPay),
+      totalPay: round2(acc.totalPay + r.totalPay),
+    }),
+    emptyTotals
+  );
+
+  return { rates, trips: rows, totals };
+}
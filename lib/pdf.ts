@@ -0,0 +1,245 @@
+/**
+ * Minimal PDF writer for generated documents (invoices). Supports text in
+ * the built-in Helvetica fonts, lines, filled rectangles and JPEG images,
+ * which PDF can embed as-is. Coordinates are in points from the top-left
+ * corner of a US Letter page. Text outside Latin-1 is replaced with "?".
+ */
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export interface PdfImage {
+  data: Uint8Array; // JPEG bytes
+  width: number; // pixels
+  height: number;
+  components: 1 | 3 | 4; // gray, RGB or CMYK
+  adobe?: boolean; // has an Adobe APP14 marker (CMYK stored inverted)
+}
+
+export type PdfItem =
+  | { kind: "text"; x: number; y: number; text: string; size: number; bold?: boolean; align?: "left" | "right"; gray?: number }
+  | { kind: "line"; x1: number; y1: number; x2: number; y2: number; width?: number; gray?: number }
+  | { kind: "rect"; x: number; y: number; w: number; h: number; gray: number }
+  | { kind: "image"; image: PdfImage; x: number; y: number; w: number; h: number };
+
+export interface PdfPage {
+  items: PdfItem[];
+}
+
+// Helvetica advance widths (1/1000 em) for characters 32–126. Bold is wider
+// for letters but the same for digits and punctuation, which is what gets
+// right-aligned (amounts), so one table serves both.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Width of a string in points
+export function textWidth(text: string, size: number): number {
+  let units = 0;
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units * size) / 1000;
+}
+
+// Break text into lines no wider than maxWidth
+export function wrapText(text: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && textWidth(candidate, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// Pixel size and color components of a baseline or progressive JPEG, or
+// null if the bytes aren't one (or use a component count PDF can't show)
+export function jpegInfo(data: Uint8Array): Omit<PdfImage, "data"> | null {
+  if (data[0] !== 0xff || data[1] !== 0xd8) return null;
+  let adobe = false;
+  let i = 2;
+  while (i + 9 < data.length) {
+    if (data[i] !== 0xff) return null;
+    const marker = data[i + 1];
+    const length = (data[i + 2] << 8) | data[i + 3];
+    // APP14 "Adobe" comes before the frame header
+    if (marker === 0xee && String.fromCharCode(...Array.from(data.subarray(i + 4, i + 9))) === "Adobe") {
+      adobe = true;
+    }
+    // SOF0–SOF15 carry the frame size, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const components = data[i + 9];
+      if (components !== 1 && components !== 3 && components !== 4) return null;
+      return {
+        height: (data[i + 5] << 8) | data[i + 6],
+        width: (data[i + 7] << 8) | data[i + 8],
+        components,
+        adobe,
+      };
+    }
+    i += 2 + length;
+  }
+  return null;
+}
+
+const COLOR_SPACES: Record<PdfImage["components"], string> = {
+  1: "/DeviceGray",
+  3: "/DeviceRGB",
+  4: "/DeviceCMYK",
+};
+
+function escapeText(text: string): string {
+  let out = "";
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    if (ch === "\\" || ch === "(" || ch === ")") out += `\\${ch}`;
+    else if (code >= 32 && code <= 255) out += ch;
+    else out += "?";
+  }
+  return out;
+}
+
+function num(n: number): string {
+  return (Math.round(n * 100) / 100).toString();
+}
+
+function latin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[i] = code <= 255 ? code : 63;
+  }
+  return bytes;
+}
+
+// Content stream operators for one page
+function pageContent(page: PdfPage, imageNames: Map<PdfImage, string>): string {
+  const ops: string[] = [];
+  for (const item of page.items) {
+    switch (item.kind) {
+      case "text": {
+        const x = item.align === "right" ? item.x - textWidth(item.text, item.size) : item.x;
+        const y = PAGE_HEIGHT - item.y;
+        ops.push(
+          `BT ${num(item.gray ?? 0)} g /${item.bold ? "F2" : "F1"} ${num(item.size)} Tf ${num(x)} ${num(y)} Td (${escapeText(item.text)}) Tj ET`
+        );
+        break;
+      }
+      case "line":
+        ops.push(
+          `${num(item.gray ?? 0)} G ${num(item.width ?? 0.5)} w ${num(item.x1)} ${num(PAGE_HEIGHT - item.y1)} m ${num(item.x2)} ${num(PAGE_HEIGHT - item.y2)} l S`
+        );
+        break;
+      case "rect":
+        ops.push(`${num(item.gray)} g ${num(item.x)} ${num(PAGE_HEIGHT - item.y - item.h)} ${num(item.w)} ${num(item.h)} re f`);
+        break;
+      case "image":
+        ops.push(
+          `q ${num(item.w)} 0 0 ${num(item.h)} ${num(item.x)} ${num(PAGE_HEIGHT - item.y - item.h)} cm /${imageNames.get(item.image)} Do Q`
+        );
+        break;
+    }
+  }
+  return ops.join("\n");
+}
+
+// Serialize pages into a PDF file
+export function buildPdf(pages: PdfPage[]): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (chunk: Uint8Array | string) => {
+    const bytes = typeof chunk === "string" ? latin1(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Object numbers: 1 catalog, 2 page tree, 3–4 fonts, then images, then a page + content pair per page
+  const images: PdfImage[] = [];
+  for (const page of pages) {
+    for (const item of page.items) {
+      if (item.kind === "image" && !images.includes(item.image)) images.push(item.image);
+    }
+  }
+  const imageNames = new Map(images.map((img, i) => [img, `Im${i + 1}`]));
+  const firstImageObj = 5;
+  const firstPageObj = firstImageObj + images.length;
+  const pageObj = (i: number) => firstPageObj + i * 2;
+  const objectCount = firstPageObj + pages.length * 2 - 1;
+
+  const startObject = (n: number) => {
+    offsets[n] = length;
+    push(`${n} 0 obj\n`);
+  };
+
+  push("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+
+  startObject(1);
+  push("<< /Type /Catalog /Pages 2 0 R >>\nendobj\n");
+
+  startObject(2);
+  push(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObj(i)} 0 R`).join(" ")}] /Count ${pages.length} >>\nendobj\n`);
+
+  startObject(3);
+  push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n");
+  startObject(4);
+  push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>\nendobj\n");
+
+  images.forEach((img, i) => {
+    startObject(firstImageObj + i);
+    // Adobe writes CMYK JPEGs inverted; Decode flips them back
+    const decode = img.components === 4 && img.adobe ? " /Decode [1 0 1 0 1 0 1 0]" : "";
+    push(
+      `<< /Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} /ColorSpace ${COLOR_SPACES[img.components]}${decode} /BitsPerComponent 8 /Filter /DCTDecode /Length ${img.data.length} >>\nstream\n`
+    );
+    push(img.data);
+    push("\nendstream\nendobj\n");
+  });
+
+  const xObjects = images.length > 0
+    ? ` /XObject << ${images.map((img, i) => `/${imageNames.get(img)} ${firstImageObj + i} 0 R`).join(" ")} >>`
+    : "";
+
+  pages.forEach((page, i) => {
+    startObject(pageObj(i));
+    push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >> /Contents ${pageObj(i) + 1} 0 R >>\nendobj\n`
+    );
+    const content = latin1(pageContent(page, imageNames));
+    startObject(pageObj(i) + 1);
+    push(`<< /Length ${content.length} >>\nstream\n`);
+    push(content);
+    push("\nendstream\nendobj\n");
+  });
+
+  const xrefOffset = length;
+  push(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let n = 1; n <= objectCount; n++) {
+    push(`${String(offsets[n]).padStart(10, "0")} 00000 n \n`);
+  }
+  push(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const out = new Uint8Array(length);
+  let pos = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, pos);
+    pos += chunk.length;
+  }
+  return out;
+}
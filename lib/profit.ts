@@ -0,0 +1,354 @@
+import { supabase } from "./supabaseClient";
+import { computeOdometerMileage } from "./trips";
+import { revenuePerMile } from "./revenue";
+import { fetchMonthlyMilesByTruck } from "./odometer";
+import { OwnershipRate, TruckCostFields, fetchTruckCostFields, ownershipRateFor } from "./truckCosts";
+import { Currency, CurrencyFields, ExchangeRate, fetchExchangeRates, getHomeCurrency, toHomeAmount } from "./currency";
+
+export type { OwnershipRate };
+
+/**
+ * Trip profitability: revenue less the fuel and expenses linked to the trip
+ * and the truck's ownership cost for the miles driven. Costs are converted
+ * to the home currency; recoverable Canadian sales tax (GST/HST/QST) is
+ * claimed back, so only the rest of the tax counts as a cost.
+ */
+
+export interface TripCosts {
+  fuel: number;
+  expenses: number;
+  // Purchases with no exchange rate to the home currency (left out of the costs)
+  unconverted: number;
+}
+
+export interface TripPnl {
+  revenue: number;
+  mileage: number | null;
+  fuelCost: number;
+  expenseCost: number;
+  ownershipCost: number;
+  totalCost: number;
+  profit: number;
+  margin: number | null; // profit / revenue
+  revenuePerMile: number | null;
+  costPerMile: number | null;
+  profitPerMile: number | null;
+}
+
+export interface ProfitReportTrip extends TripPnl {
+  tripId: string;
+  tripReference: string;
+  date: string;
+  origin: string;
+  destination: string;
+  truckNumber: string | null;
+  unconverted: number;
+}
+
+export interface ProfitReport {
+  from: string;
+  to: string;
+  currency: Currency;
+  ownership: OwnershipRate[]; // rates of the trucks the trips ran with
+  trips: ProfitReportTrip[];
+  totals: TripPnl;
+}
+
+// A fuel purchase or expense as fetchCostsByTrip selects it
+interface CostRow extends CurrencyFields {
+  trip_id: string;
+  total: number | null;
+  gst: number | null;
+  hst: number | null;
+  qst: number | null;
+}
+
+// A trip as fetchProfitReport selects it; trucks is the many-to-one join, so an object or null
+interface ReportTripRow {
+  id: string;
+  trip_reference: string | null;
+  date: string;
+  origin_name: string | null;
+  destination_name: string | null;
+  expected_mileage: number | null;
+  revenue: number | null;
+  truck_id: string | null;
+  trucks: { truck_number: string } | null;
+}
+
+interface ReportStopRow {
+  trip_id: string;
+  stop_order: number;
+  name: string | null;
+  odometer_reading: number | null;
+}
+
+// Helper to get tenant_id from current user
+async function getTenantId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tenant_users")
+    .select("tenant_id")
+    .eq("user_id", session.user.id)
+    .single();
+
+  if (error || !data) {
+    console.error("[profit] Error fetching tenant_id:", error);
+    return null;
+  }
+
+  return data.tenant_id;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// Ownership cost of driving a number of miles (0 without a rate or miles)
+export function ownershipCostFor(mileage: number | null, rate: OwnershipRate | null): number {
+  return rate && mileage && mileage > 0 ? round2(rate.perMile * mileage) : 0;
+}
+
+export function computeTripPnl(input: {
+  revenue: number;
+  mileage: number | null;
+  fuelCost: number;
+  expenseCost: number;
+  ownershipCost: number;
+}): TripPnl {
+  const miles = input.mileage && input.mileage > 0 ? input.mileage : null;
+  const ownershipCost = round2(input.ownershipCost);
+  const totalCost = round2(input.fuelCost + input.expenseCost + ownershipCost);
+  const profit = round2(input.revenue - totalCost);
+  return {
+    revenue: round2(input.revenue),
+    mileage: miles,
+    fuelCost: round2(input.fuelCost),
+    expenseCost: round2(input.expenseCost),
+    ownershipCost,
+    totalCost,
+    profit,
+    margin: input.revenue > 0 ? Math.round((profit / input.revenue) * 1000) / 1000 : null,
+    revenuePerMile: revenuePerMile(input.revenue, miles),
+    costPerMile: miles ? round2(totalCost / miles) : null,
+    profitPerMile: miles ? round2(profit / miles) : null,
+  };
+}
+
+// Cost of one fuel or expense row in the home currency, net of recoverable tax
+function rowCost(row: CostRow, home: Currency, rates: ExchangeRate[]): number | null {
+  const recoverable = (Number(row.gst) || 0) + (Number(row.hst) || 0) + (Number(row.qst) || 0);
+  return toHomeAmount((Number(row.total) || 0) - recoverable, row, home, rates);
+}
+
+async function fetchCostsByTrip(
+  tenantId: string,
+  tripIds: string[],
+  home: Currency,
+  rates: ExchangeRate[]
+): Promise<Map<string, TripCosts>> {
+  const columns = "trip_id, date, total, gst, hst, qst, currency, exchange_rate, home_currency";
+  const [fuelRes, expenseRes] = await Promise.all([
+    supabase
+      .from("fuel_purchases")
+      .select(columns)
+      .eq("tenant_id", tenantId)
+      .in("trip_id", tripIds)
+      .overrideTypes<CostRow[], { merge: false }>(),
+    supabase
+      .from("misc_expenses")
+      .select(columns)
+      .eq("tenant_id", tenantId)
+      .in("trip_id", tripIds)
+      .overrideTypes<CostRow[], { merge: false }>(),
+  ]);
+
+  if (fuelRes.error || expenseRes.error) {
+    console.error("[profit] Error fetching trip costs:", fuelRes.error || expenseRes.error);
+    throw fuelRes.error || expenseRes.error;
+  }
+
+  const costs = new Map<string, TripCosts>();
+  const add = (row: CostRow, key: "fuel" | "expenses") => {
+    const entry = costs.get(row.trip_id) || { fuel: 0, expenses: 0, unconverted: 0 };
+    const cost = rowCost(row, home, rates);
+    if (cost == null) entry.unconverted++;
+    else entry[key] = round2(entry[key] + cost);
+    costs.set(row.trip_id, entry);
+  };
+  for (const row of fuelRes.data || []) add(row, "fuel");
+  for (const row of expenseRes.data || []) add(row, "expenses");
+  return costs;
+}
+
+// Trucks (not trailers) with their monthly miles, for working out ownership rates trip by trip
+interface OwnershipBasis {
+  trucks: Map<string, TruckCostFields>;
+  miles: Record<string, number>;
+  soleTruckId: string | null;
+}
+
+/**
+ * Every truck's cost details and monthly miles, plus the truck to use for
+ * trips that aren't assigned one: the tenant's only truck when there is
+ * exactly one (the same rule the odometer history uses).
+ */
+async function fetchOwnershipBasis(): Promise<OwnershipBasis> {
+  const [trucks, miles] = await Promise.all([
+    fetchTruckCostFields(),
+    fetchMonthlyMilesByTruck().catch(() => ({} as Record<string, number>)),
+  ]);
+
+  const tractors = trucks.filter((t) => (t.asset_type || "truck") === "truck");
+  return {
+    trucks: new Map(tractors.map((t) => [t.id, t])),
+    miles,
+    soleTruckId: tractors.length === 1 ? tractors[0].id : null,
+  };
+}
+
+// The truck's rate on the trip's date, so paid-off or not-yet-leased months cost nothing
+function rateForTrip(truckId: string | null, date: string | undefined, basis: OwnershipBasis): OwnershipRate | null {
+  const id = truckId || basis.soleTruckId;
+  const truck = id ? basis.trucks.get(id) : undefined;
+  return truck ? ownershipRateFor(truck, basis.miles[truck.id] || null, date) : null;
+}
+
+/**
+ * Ownership cost per mile on a trip's date (today when not given) for the
+ * truck the trip is assigned to, or the tenant's only truck for unassigned
+ * trips. Null when there's no such truck or its cost details are missing;
+ * zero before the truck's purchase or lease starts and once it is paid off.
+ */
+export async function fetchOwnershipRate(truckId: string | null, date?: string): Promise<OwnershipRate | null> {
+  return rateForTrip(truckId, date, await fetchOwnershipBasis());
+}
+
+// Fuel and expense costs linked to one trip, in the home currency
+export async function fetchTripCosts(tripId: string): Promise<TripCosts & { currency: Currency }> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const [home, rates] = await Promise.all([
+    getHomeCurrency(),
+    fetchExchangeRates().catch(() => [] as ExchangeRate[]),
+  ]);
+  const costs = await fetchCostsByTrip(tenantId, [tripId], home, rates);
+  return { ...(costs.get(tripId) || { fuel: 0, expenses: 0, unconverted: 0 }), currency: home };
+}
+
+/**
+ * P&L for every trip dated within [from, to] (inclusive, YYYY-MM-DD),
+ * most profitable first. Mileage is driven miles from stop odometers,
+ * else the planned mileage.
+ */
+export async function fetchProfitReport(from: string, to: string): Promise<ProfitReport> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const [home, rates, ownership, tripsRes] = await Promise.all([
+    getHomeCurrency(),
+    fetchExchangeRates().catch(() => [] as ExchangeRate[]),
+    fetchOwnershipBasis(),
+    supabase
+      .from("trips")
+      .select("id, trip_reference, date, origin_name, destination_name, expected_mileage, revenue, truck_id, trucks(truck_number)")
+      .eq("tenant_id", tenantId)
+      .neq("status", "cancelled")
+      .gte("date", from)
+      .lte("date", to)
+      .order("date", { ascending: true })
+      .overrideTypes<ReportTripRow[], { merge: false }>(),
+  ]);
+
+  if (tripsRes.error) {
+    console.error("[profit] Error fetching trips for report:", tripsRes.error);
+    throw tripsRes.error;
+  }
+
+  const trips = tripsRes.data || [];
+  const emptyTotals = computeTripPnl({ revenue: 0, mileage: null, fuelCost: 0, expenseCost: 0, ownershipCost: 0 });
+  if (trips.length === 0) {
+    return { from, to, currency: home, ownership: [], trips: [], totals: emptyTotals };
+  }
+
+  const tripIds = trips.map((t) => t.id);
+  const [costs, stopsRes] = await Promise.all([
+    fetchCostsByTrip(tenantId, tripIds, home, rates),
+    supabase
+      .from("stops")
+      .select("trip_id, stop_order, name, odometer_reading")
+      .eq("tenant_id", tenantId)
+      .in("trip_id", tripIds)
+      .order("stop_order", { ascending: true })
+      .overrideTypes<ReportStopRow[], { merge: false }>(),
+  ]);
+
+  if (stopsRes.error) {
+    console.error("[profit] Error fetching stops for report:", stopsRes.error);
+    throw stopsRes.error;
+  }
+
+  const stopsByTrip = new Map<string, ReportStopRow[]>();
+  for (const stop of stopsRes.data || []) {
+    const list = stopsByTrip.get(stop.trip_id) || [];
+    list.push(stop);
+    stopsByTrip.set(stop.trip_id, list);
+  }
+
+  const ratesUsed = new Map<string, OwnershipRate>();
+  const rows: ProfitReportTrip[] = trips.map((trip) => {
+    const tripStops = stopsByTrip.get(trip.id) || [];
+    const odometerMiles = computeOdometerMileage(
+      tripStops.map((s) => (s.odometer_reading != null ? Number(s.odometer_reading) : null))
+    );
+    const tripCosts = costs.get(trip.id) || { fuel: 0, expenses: 0, unconverted: 0 };
+    const mileage = odometerMiles > 0 ? odometerMiles : Number(trip.expected_mileage) || null;
+    const rate = rateForTrip(trip.truck_id, trip.date, ownership);
+    // A truck can have more than one rate in the range, e.g. before and after it's paid off
+    if (rate) ratesUsed.set(`${rate.truckId}:${rate.monthlyCost}`, rate);
+    const pnl = computeTripPnl({
+      revenue: Number(trip.revenue) || 0,
+      mileage,
+      fuelCost: tripCosts.fuel,
+      expenseCost: tripCosts.expenses,
+      ownershipCost: ownershipCostFor(mileage, rate),
+    });
+    return {
+      ...pnl,
+      tripId: trip.id,
+      tripReference: trip.trip_reference || trip.id,
+      date: trip.date,
+      origin: trip.origin_name || tripStops[0]?.name || "—",
+      destination: trip.destination_name || tripStops[tripStops.length - 1]?.name || "—",
+      truckNumber: trip.trucks?.truck_number ?? rate?.truckNumber ?? null,
+      unconverted: tripCosts.unconverted,
+    };
+  });
+
+  const sum = (pick: (r: ProfitReportTrip) => number) => rows.reduce((acc, r) => acc + pick(r), 0);
+  const totals = computeTripPnl({
+    revenue: sum((r) => r.revenue),
+    mileage: sum((r) => r.mileage || 0),
+    fuelCost: sum((r) => r.fuelCost),
+    expenseCost: sum((r) => r.expenseCost),
+    ownershipCost: sum((r) => r.ownershipCost),
+  });
+
+  return {
+    from,
+    to,
+    currency: home,
+    ownership: [...ratesUsed.values()],
+    trips: rows.sort((a, b) => b.profit - a.profit),
+    totals,
+  };
+}
@@ -0,0 +1,458 @@
+import { supabase } from "./supabaseClient";
+import { FuelUnit } from "./fuel";
+
+/**
+ * Reads text off a receipt image. Implementations take an image URI (a
+ * signed storage URL, file:// or data: URL) and return the raw text, one
+ * printed line per line.
+ */
+export interface OcrEngine {
+  name: string;
+  recognize(imageUri: string): Promise<string>;
+}
+
+// A proposed value and how sure the parser is about it (0 – 1)
+export type ExtractedField<T> = { value: T; confidence: number };
+
+export type TaxLabel = "GST" | "HST" | "PST" | "QST" | "TAX";
+
+// Stored as receipts.extracted
+export interface ReceiptExtraction {
+  date?: ExtractedField<string>; // YYYY-MM-DD
+  vendor?: ExtractedField<string>;
+  total?: ExtractedField<number>;
+  tax?: ExtractedField<number>;
+  taxLabel?: ExtractedField<TaxLabel>;
+  quantity?: ExtractedField<number>;
+  unit?: ExtractedField<FuelUnit>;
+  pricePerUnit?: ExtractedField<number>;
+  suggestedType?: ExtractedField<"fuel" | "expense" | "repair">;
+}
+
+// Fields below this confidence are flagged for the driver to check
+export const LOW_CONFIDENCE = 0.6;
+
+const GOOGLE_VISION_KEY =
+  (typeof window !== "undefined" && (window as any).__ENV__?.EXPO_PUBLIC_GOOGLE_VISION_KEY) ||
+  process.env.EXPO_PUBLIC_GOOGLE_VISION_KEY ||
+  "";
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] || "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Google Cloud Vision text detection (needs EXPO_PUBLIC_GOOGLE_VISION_KEY and a connection)
+export const googleVisionOcrEngine: OcrEngine = {
+  name: "google-vision",
+  async recognize(imageUri) {
+    const image = await fetch(imageUri);
+    const content = await blobToBase64(await image.blob());
+
+    const res = await fetch(
+      `https://vision.googleapis.com/v1/images:annotate?key=${encodeURIComponent(GOOGLE_VISION_KEY)}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          requests: [{ image: { content }, features: [{ type: "TEXT_DETECTION" }] }],
+        }),
+      }
+    );
+    if (!res.ok) {
+      throw new Error(`OCR request failed (${res.status})`);
+    }
+    const json = await res.json();
+    const response = json.responses?.[0];
+    if (response?.error) {
+      throw new Error(response.error.message || "OCR request failed");
+    }
+    return response?.fullTextAnnotation?.text || "";
+  },
+};
+
+/**
+ * Engine that doesn't read images itself: it answers with text it's given,
+ * keyed by image URI (or one text for every image), or from a function the
+ * caller supplies. For tests, and for wrapping a recognizer from elsewhere.
+ * There is no built-in offline recognizer; without a connection only this
+ * kind of engine works.
+ */
+export function createStaticOcrEngine(
+  source: string | Record<string, string> | ((imageUri: string) => string | Promise<string>)
+): OcrEngine {
+  return {
+    name: "static",
+    async recognize(imageUri) {
+      if (typeof source === "function") return source(imageUri);
+      if (typeof source === "string") return source;
+      return source[imageUri] ?? "";
+    },
+  };
+}
+
+let engine: OcrEngine | null = GOOGLE_VISION_KEY ? googleVisionOcrEngine : null;
+
+export function getOcrEngine(): OcrEngine | null {
+  return engine;
+}
+
+// Swap the engine (e.g. createStaticOcrEngine(...) in tests)
+export function setOcrEngine(next: OcrEngine | null): void {
+  engine = next;
+}
+
+// ── Parsing ──────────────────────────────────────────────
+
+// 1,234.56 / 1234.56 / 1 234,56 (French-Canadian receipts use a decimal comma)
+const AMOUNT_RE = /(?:\$\s*)?(\d{1,3}(?:[ ,]\d{3})+|\d+)([.,])(\d{2})(?!\d)/g;
+
+function amountsIn(line: string): number[] {
+  const out: number[] = [];
+  for (const m of line.matchAll(AMOUNT_RE)) {
+    // A comma decimal can't also be the thousands separator
+    const whole = m[1].replace(m[2] === "," ? /[ .]/g : /[ ,]/g, "");
+    out.push(parseFloat(`${whole}.${m[3]}`));
+  }
+  return out;
+}
+
+function parseNumber(raw: string): number {
+  return parseFloat(raw.replace(",", "."));
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function isoDate(y: number, m: number, d: number): string | null {
+  if (y < 100) y += 2000;
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) {
+    return null;
+  }
+  return date.toISOString().split("T")[0];
+}
+
+function findDate(lines: string[]): ExtractedField<string> | undefined {
+  for (const line of lines) {
+    let m = line.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+    if (m) {
+      const value = isoDate(+m[1], +m[2], +m[3]);
+      if (value) return { value, confidence: 0.9 };
+    }
+
+    m = line.match(/\b(\d{1,2})\s+([A-Za-z]{3})[a-z]*\.?\s+(\d{2,4})\b/);
+    if (m && MONTHS.includes(m[2].toLowerCase())) {
+      const value = isoDate(+m[3], MONTHS.indexOf(m[2].toLowerCase()) + 1, +m[1]);
+      if (value) return { value, confidence: 0.85 };
+    }
+
+    m = line.match(/\b([A-Za-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})\b/);
+    if (m && MONTHS.includes(m[1].toLowerCase())) {
+      const value = isoDate(+m[3], MONTHS.indexOf(m[1].toLowerCase()) + 1, +m[2]);
+      if (value) return { value, confidence: 0.85 };
+    }
+
+    // MM/DD/YY(YY), read as DD/MM when the first part can't be a month
+    m = line.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/);
+    if (m) {
+      const a = +m[1];
+      const b = +m[2];
+      const value = a > 12 ? isoDate(+m[3], b, a) : isoDate(+m[3], a, b);
+      if (value) return { value, confidence: a > 12 || b > 12 ? 0.75 : 0.6 };
+    }
+  }
+  return undefined;
+}
+
+const KNOWN_VENDORS: [RegExp, string][] = [
+  [/pilot/i, "Pilot"],
+  [/flying\s*j/i, "Flying J"],
+  [/love'?s/i, "Love's"],
+  [/petro[-\s]?canada/i, "Petro-Canada"],
+  [/petro\s*stopping|^petro\b/i, "Petro"],
+  // Capitals only: a lone "ta" or "Ta" is usually not the brand
+  [/\bTA\b/, "TA"],
+  [/travel\s*centers?\s*of\s*america/i, "TA"],
+  [/\besso\b/i, "Esso"],
+  [/shell/i, "Shell"],
+  [/husky/i, "Husky"],
+  [/irving/i, "Irving"],
+  [/ultramar/i, "Ultramar"],
+  [/chevron/i, "Chevron"],
+  [/speedway/i, "Speedway"],
+  [/sapp\s*bros/i, "Sapp Bros"],
+  [/kwik\s*trip/i, "Kwik Trip"],
+  [/road\s*ranger/i, "Road Ranger"],
+  [/circle\s*k/i, "Circle K"],
+];
+
+const NOT_VENDOR = /receipt|invoice|welcome|thank|\btel\b|phone|fax|www\.|\.com|date|time|store\s*#|#\s*\d|^\d|\b(19|20)\d{2}\b/i;
+
+function findVendor(lines: string[]): ExtractedField<string> | undefined {
+  const head = lines.slice(0, 6);
+  for (const line of head) {
+    for (const [re, name] of KNOWN_VENDORS) {
+      if (re.test(line)) return { value: name, confidence: 0.85 };
+    }
+  }
+  const candidate = head.find(
+    (l) => !NOT_VENDOR.test(l) && (l.match(/[A-Za-z]/g) || []).length >= 3
+  );
+  return candidate ? { value: candidate.replace(/\s{2,}/g, " "), confidence: 0.5 } : undefined;
+}
+
+function findTotal(lines: string[]): ExtractedField<number> | undefined {
+  let best: number | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!/\b(grand\s+)?total\b|\bamount\s+due\b|\bbalance\b/i.test(line)) continue;
+    if (/sub\s*-?\s*total|tax|savings|discount/i.test(line)) continue;
+    // The amount is often printed on the line below the label
+    const amounts = amountsIn(line);
+    const amount = amounts.length > 0 ? amounts[amounts.length - 1] : amountsIn(lines[i + 1] || "")[0];
+    if (amount != null && (best == null || amount > best)) best = amount;
+  }
+  if (best != null) return { value: best, confidence: 0.9 };
+
+  // No labelled total: the largest amount printed is usually it
+  const all = lines.flatMap(amountsIn);
+  return all.length > 0 ? { value: Math.max(...all), confidence: 0.4 } : undefined;
+}
+
+const TAX_LABELS: [RegExp, TaxLabel][] = [
+  [/\b(HST|TVH)\b/i, "HST"],
+  [/\b(GST|TPS)\b/i, "GST"],
+  [/\b(QST|TVQ)\b/i, "QST"],
+  [/\b(PST|RST)\b/i, "PST"],
+  [/\b(sales\s+)?tax\b/i, "TAX"],
+];
+
+function findTax(lines: string[]): { tax?: ExtractedField<number>; taxLabel?: ExtractedField<TaxLabel> } {
+  let sum = 0;
+  let found = 0;
+  let label: TaxLabel | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const match = TAX_LABELS.find(([re]) => re.test(line));
+    if (!match || /total|incl|included|reg\s*#|registration|\bno\b\.?/i.test(line)) continue;
+    const amounts = amountsIn(line);
+    const amount = amounts.length > 0 ? amounts[amounts.length - 1] : amountsIn(lines[i + 1] || "")[0];
+    if (amount == null) continue;
+    sum += amount;
+    found++;
+    label = label ?? match[1];
+  }
+  if (found === 0) return {};
+  return {
+    tax: { value: Math.round(sum * 100) / 100, confidence: 0.85 },
+    taxLabel: { value: label ?? "TAX", confidence: label && label !== "TAX" ? 0.9 : 0.6 },
+  };
+}
+
+function findFuel(lines: string[]): Pick<ReceiptExtraction, "quantity" | "unit" | "pricePerUnit"> {
+  const text = lines.join("\n");
+  const out: Pick<ReceiptExtraction, "quantity" | "unit" | "pricePerUnit"> = {};
+
+  // Price first so "3.899/GAL" isn't read as a quantity
+  const price = text.match(/(\d+[.,]\d{2,3})\s*\/\s*(gal(?:lon)?|g|l|ltr|litre|liter)\b/i)
+    || text.match(/(?:price|ppg|ppl|unit)\s*(?:\/\s*(gal|l)\w*)?\s*[:@]?\s*\$?\s*(\d+[.,]\d{2,3})/i)
+    || text.match(/@\s*\$?\s*(\d+[.,]\d{2,3})/);
+  let priceUnit: FuelUnit | null = null;
+  if (price) {
+    const raw = /\d/.test(price[1]) ? price[1] : price[2];
+    const unitToken = /\d/.test(price[1]) ? price[2] : price[1];
+    out.pricePerUnit = { value: parseNumber(raw), confidence: 0.75 };
+    if (unitToken) priceUnit = /^g/i.test(unitToken) ? "gallons" : "liters";
+  }
+
+  const gallons = text.match(/(\d+[.,]\d{1,3})\s*(?:gal(?:lons?)?|g)\b(?!\s*\/)/i)
+    || text.match(/\b(?:gallons?|gals?)\s*:?\s*(\d+[.,]\d{1,3})/i);
+  const liters = text.match(/(\d+[.,]\d{1,3})\s*(?:l|ltr|litres?|liters?)\b(?!\s*\/)/i)
+    || text.match(/\b(?:litres?|liters?|volume)\s*:?\s*(\d+[.,]\d{1,3})/i);
+
+  if (gallons || liters) {
+    const unit: FuelUnit = gallons ? "gallons" : "liters";
+    const m = (gallons || liters) as RegExpMatchArray;
+    out.quantity = { value: parseNumber(m[1]), confidence: 0.8 };
+    out.unit = { value: unit, confidence: priceUnit === unit ? 0.95 : 0.8 };
+  } else if (priceUnit) {
+    out.unit = { value: priceUnit, confidence: 0.7 };
+  }
+  return out;
+}
+
+function suggestType(lines: string[], hasFuel: boolean): ExtractedField<"fuel" | "expense" | "repair"> {
+  const text = lines.join(" ");
+  if (hasFuel || /\b(diesel|unleaded|gasoline|reefer|DEF|pump\s*#?\s*\d+)\b/i.test(text)) {
+    return { value: "fuel", confidence: hasFuel ? 0.9 : 0.7 };
+  }
+  if (/\b(labou?r|parts|repair|tires?|alignment|brake|oil\s+change|work\s+order)\b/i.test(text)) {
+    return { value: "repair", confidence: 0.6 };
+  }
+  return { value: "expense", confidence: 0.5 };
+}
+
+/**
+ * Propose date, vendor, total, tax and (for fuel) quantity and price per
+ * unit from raw receipt text. Pure - safe to run anywhere.
+ */
+export function parseReceiptText(text: string): ReceiptExtraction {
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+  const result: ReceiptExtraction = {};
+  if (lines.length === 0) return result;
+
+  const date = findDate(lines);
+  const vendor = findVendor(lines);
+  const total = findTotal(lines);
+  const { tax, taxLabel } = findTax(lines);
+  const fuel = findFuel(lines);
+
+  if (date) result.date = date;
+  if (vendor) result.vendor = vendor;
+  if (total) result.total = total;
+  if (tax) result.tax = tax;
+  if (taxLabel) result.taxLabel = taxLabel;
+  Object.assign(result, fuel);
+
+  // Quantity × price lining up with the pre-tax total confirms all three
+  if (result.quantity && result.pricePerUnit && result.total) {
+    const pump = result.quantity.value * result.pricePerUnit.value;
+    const net = result.total.value - (result.tax?.value || 0);
+    if (Math.abs(pump - net) <= 0.02 * net || Math.abs(pump - result.total.value) <= 0.02 * result.total.value) {
+      result.quantity.confidence = 0.95;
+      result.pricePerUnit.confidence = 0.95;
+      result.total.confidence = Math.max(result.total.confidence, 0.9);
+    }
+  }
+
+  result.suggestedType = suggestType(lines, !!result.quantity);
+  return result;
+}
+
+const FIELD_LABELS: Partial<Record<keyof ReceiptExtraction, string>> = {
+  date: "date",
+  vendor: "vendor",
+  total: "total",
+  tax: "tax",
+  quantity: "quantity",
+  pricePerUnit: "price",
+};
+
+// Labels of the fields (among `keys`) the driver should double-check
+export function fieldsToReview(
+  extracted: ReceiptExtraction,
+  keys: (keyof ReceiptExtraction)[]
+): string[] {
+  return keys
+    .filter((k) => extracted[k] && extracted[k]!.confidence < LOW_CONFIDENCE)
+    .map((k) => FIELD_LABELS[k] || k);
+}
+
+// ── Storage ──────────────────────────────────────────────
+
+// Helper to get tenant_id from current user
+async function getTenantId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tenant_users")
+    .select("tenant_id")
+    .eq("user_id", session.user.id)
+    .single();
+
+  if (error || !data) {
+    console.error("[receiptOcr] Error fetching tenant_id:", error);
+    return null;
+  }
+
+  return data.tenant_id;
+}
+
+/**
+ * Run OCR on a receipt's image and store the proposed fields on the
+ * receipt. Pass `imageUri` when it's already at hand (e.g. a signed URL).
+ */
+export async function extractReceipt(
+  receiptId: string,
+  imageUri?: string
+): Promise<ReceiptExtraction> {
+  if (!engine) {
+    throw new Error("No OCR engine configured.");
+  }
+
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  let uri = imageUri;
+  if (!uri) {
+    const { data: receipt, error } = await supabase
+      .from("receipts")
+      .select("image_path")
+      .eq("id", receiptId)
+      .eq("tenant_id", tenantId)
+      .single();
+
+    if (error) {
+      console.error("[receiptOcr] Error fetching receipt:", error);
+      throw error;
+    }
+
+    const { data: urlData } = await supabase.storage
+      .from("receipts")
+      .createSignedUrl(receipt.image_path, 600);
+    if (!urlData?.signedUrl) {
+      throw new Error("Receipt image not available.");
+    }
+    uri = urlData.signedUrl;
+  }
+
+  const text = await engine.recognize(uri);
+  const extracted = parseReceiptText(text);
+
+  const { error } = await supabase
+    .from("receipts")
+    .update({
+      extracted,
+      ocr_text: text,
+      extraction_engine: engine.name,
+      extracted_at: new Date().toISOString(),
+    })
+    .eq("id", receiptId)
+    .eq("tenant_id", tenantId);
+
+  if (error) {
+    console.error("[receiptOcr] Error saving extraction:", error);
+    throw error;
+  }
+
+  return extracted;
+}
+
+// Stored extraction for a receipt, or null if it hasn't been scanned
+export async function fetchReceiptExtraction(receiptId: string): Promise<ReceiptExtraction | null> {
+  const { data, error } = await supabase
+    .from("receipts")
+    .select("extracted")
+    .eq("id", receiptId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[receiptOcr] Error fetching extraction:", error);
+    throw error;
+  }
+
+  return (data?.extracted as ReceiptExtraction) || null;
+}
@@ -0,0 +1,283 @@
+import { Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { File, Directory, Paths } from "expo-file-system";
+import { supabase } from "./supabaseClient";
+import { newId, resolveTenantId } from "./offline";
+
+/**
+ * Receipt photos are saved on the device first and uploaded from a queue, so
+ * a capture with no signal is never lost. Each item uploads the image to the
+ * `receipts` bucket and then creates its `receipts` row; failures back off
+ * and retry until both steps succeed.
+ */
+
+export interface PendingReceipt {
+  id: string; // becomes the receipts row id
+  tenantId: string;
+  localUri: string; // file:// copy on native, "idb:<id>" (IndexedDB) on web
+  imagePath: string; // storage path once uploaded
+  mimeType: string;
+  capturedAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+export type CaptureResult = "uploaded" | "queued";
+
+const QUEUE_KEY = "receipts:pending";
+const LOCAL_DIR = "pending-receipts";
+const BASE_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 30 * 60 * 1000;
+
+// On web AsyncStorage is localStorage (about 5 MB in all), so images are kept
+// in IndexedDB and the queue only holds a reference to them
+const IDB_NAME = "trip-tracker";
+const IDB_STORE = "pending-receipts";
+const IDB_PREFIX = "idb:";
+
+let queue: PendingReceipt[] = [];
+let loaded: Promise<void> | null = null;
+let processing: Promise<void> | null = null;
+const listeners = new Set<(items: PendingReceipt[]) => void>();
+
+function ensureLoaded(): Promise<void> {
+  if (!loaded) {
+    loaded = AsyncStorage.getItem(QUEUE_KEY)
+      .then((raw) => {
+        queue = raw ? JSON.parse(raw) : [];
+      })
+      .catch((error) => {
+        console.error("[receiptQueue] Error loading queue:", error);
+      });
+  }
+  return loaded;
+}
+
+async function saveQueue(next: PendingReceipt[]): Promise<void> {
+  queue = next;
+  await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  listeners.forEach((l) => l(queue));
+}
+
+export function subscribePendingReceipts(listener: (items: PendingReceipt[]) => void): () => void {
+  listeners.add(listener);
+  ensureLoaded().then(() => listener(queue));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function getPendingReceipts(): Promise<PendingReceipt[]> {
+  await ensureLoaded();
+  return queue;
+}
+
+// Delay before the next attempt: 30s, 1m, 2m, ... capped at 30m
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_MS);
+}
+
+let imageDb: Promise<IDBDatabase> | null = null;
+
+function openImageDb(): Promise<IDBDatabase> {
+  if (!imageDb) {
+    imageDb = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(IDB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    imageDb.catch(() => {
+      imageDb = null;
+    });
+  }
+  return imageDb;
+}
+
+async function imageStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openImageDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Object URLs for queued web images, made once per image for previews
+const previewUrls = new Map<string, string>();
+
+// Copy the captured image somewhere that survives restarts (the picker's
+// copy lives in a cache directory the OS may clear)
+async function storeLocally(id: string, uri: string, ext: string): Promise<string> {
+  if (Platform.OS === "web") {
+    const response = await fetch(uri);
+    const blob = await response.blob();
+    await imageStore("readwrite", (store) => store.put(blob, id));
+    return `${IDB_PREFIX}${id}`;
+  }
+
+  const dir = new Directory(Paths.document, LOCAL_DIR);
+  dir.create({ idempotent: true });
+  const dest = new File(dir, `${id}.${ext}`);
+  new File(uri).copy(dest);
+  return dest.uri;
+}
+
+// The saved image as a blob for upload. Items queued before images moved to
+// IndexedDB still carry a data: URL, which fetch reads the same as a file
+async function readLocal(item: PendingReceipt): Promise<Blob> {
+  if (item.localUri.startsWith(IDB_PREFIX)) {
+    const blob = await imageStore<Blob | undefined>("readonly", (store) =>
+      store.get(item.localUri.slice(IDB_PREFIX.length))
+    );
+    if (!blob) throw new Error("The saved receipt image is missing.");
+    return blob;
+  }
+  const response = await fetch(item.localUri);
+  return response.blob();
+}
+
+/**
+ * URI an <Image> can show for a queued receipt: the local file on native, an
+ * object URL for images kept in IndexedDB on web.
+ */
+export async function pendingReceiptImageUri(item: PendingReceipt): Promise<string> {
+  if (!item.localUri.startsWith(IDB_PREFIX)) return item.localUri;
+  const existing = previewUrls.get(item.id);
+  if (existing) return existing;
+  const url = URL.createObjectURL(await readLocal(item));
+  previewUrls.set(item.id, url);
+  return url;
+}
+
+async function removeLocal(item: PendingReceipt): Promise<void> {
+  try {
+    if (item.localUri.startsWith(IDB_PREFIX)) {
+      const url = previewUrls.get(item.id);
+      if (url) URL.revokeObjectURL(url);
+      previewUrls.delete(item.id);
+      await imageStore("readwrite", (store) => store.delete(item.localUri.slice(IDB_PREFIX.length)));
+      return;
+    }
+    if (Platform.OS === "web") return;
+    const file = new File(item.localUri);
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.error("[receiptQueue] Error removing local image:", error);
+  }
+}
+
+/**
+ * Save a captured receipt image and try to upload it right away. Resolves to
+ * "queued" when it couldn't be uploaded yet - it will retry in the background.
+ */
+export async function captureReceipt(image: {
+  uri: string;
+  mimeType?: string | null;
+}): Promise<CaptureResult> {
+  const tenantId = await resolveTenantId();
+  if (!tenantId) {
+    throw new Error("Please sign in to save receipts.");
+  }
+
+  await ensureLoaded();
+  const id = newId();
+  const capturedAt = new Date().toISOString();
+  const mimeType = image.mimeType || "image/jpeg";
+  const uriExt = image.uri.startsWith("data:") ? "" : image.uri.split(".").pop() || "";
+  const ext = /^[a-z0-9]{2,5}$/i.test(uriExt) ? uriExt : mimeType.split("/")[1] || "jpg";
+  const localUri = await storeLocally(id, image.uri, ext);
+
+  const item: PendingReceipt = {
+    id,
+    tenantId,
+    localUri,
+    imagePath: `${tenantId}/${capturedAt.replace(/[:.]/g, "-")}.${ext}`,
+    mimeType,
+    capturedAt,
+    attempts: 0,
+    nextAttemptAt: capturedAt,
+  };
+  await saveQueue([...queue, item]);
+
+  await processReceiptQueue();
+  return queue.some((q) => q.id === id) ? "queued" : "uploaded";
+}
+
+async function uploadOne(item: PendingReceipt): Promise<void> {
+  const blob = await readLocal(item);
+
+  const { error: uploadError } = await supabase.storage
+    .from("receipts")
+    .upload(item.imagePath, blob, {
+      contentType: item.mimeType,
+      upsert: false,
+    });
+
+  // A previous attempt may have uploaded the image before failing on the row
+  if (uploadError && !/already exists|Duplicate/i.test(uploadError.message)) {
+    throw uploadError;
+  }
+
+  const { error: dbError } = await supabase.from("receipts").insert({
+    id: item.id,
+    tenant_id: item.tenantId,
+    image_path: item.imagePath,
+    status: "unprocessed",
+    created_at: item.capturedAt,
+  });
+
+  if (dbError && dbError.code !== "23505") throw dbError;
+}
+
+/**
+ * Upload every queued receipt that is due. Pass `force` to ignore backoff
+ * (e.g. when the user taps retry).
+ */
+export async function processReceiptQueue(force = false): Promise<void> {
+  if (processing) return processing;
+  processing = (async () => {
+    await ensureLoaded();
+    const now = Date.now();
+    for (const item of [...queue]) {
+      if (!force && new Date(item.nextAttemptAt).getTime() > now) continue;
+      try {
+        await uploadOne(item);
+        await removeLocal(item);
+        await saveQueue(queue.filter((q) => q.id !== item.id));
+      } catch (error) {
+        const attempts = item.attempts + 1;
+        await saveQueue(
+          queue.map((q) =>
+            q.id === item.id
+              ? {
+                  ...q,
+                  attempts,
+                  nextAttemptAt: new Date(Date.now() + retryDelay(attempts)).toISOString(),
+                  lastError: (error as Error)?.message || String(error),
+                }
+              : q
+          )
+        );
+      }
+    }
+  })();
+
+  try {
+    await processing;
+  } finally {
+    processing = null;
+  }
+}
+
+// Give up on a queued receipt and delete its local image
+export async function discardPendingReceipt(id: string): Promise<void> {
+  await ensureLoaded();
+  const item = queue.find((q) => q.id === id);
+  if (item) await removeLocal(item);
+  await saveQueue(queue.filter((q) => q.id !== id));
+}
@@ -0,0 +1,331 @@
+import { supabase } from "./supabaseClient";
+
+// Database repair order header
+export interface DatabaseRepairOrder {
+  id: string;
+  tenant_id: string;
+  truck_id: string | null;
+  vendor_id: string | null;
+  receipt_id: string | null;
+  date: string;
+  description: string | null;
+  odometer_reading: number | null;
+  total: number | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Database repair order line item
+export interface DatabaseRepairOrderDetail {
+  id: string;
+  tenant_id: string;
+  repair_order_id: string;
+  repair_type_id: string | null;
+  type: string | null;
+  description: string | null;
+  date: string | null;
+  amount: number;
+  created_at: string;
+}
+
+// Repair order with joined display names and line items
+export interface RepairOrder extends DatabaseRepairOrder {
+  truck_number: string | null;
+  vendor_name: string | null;
+  details: DatabaseRepairOrderDetail[];
+}
+
+// A repair order with its truck, vendor and line item joins, as the queries select it
+interface RepairOrderRow extends DatabaseRepairOrder {
+  trucks: { truck_number: string } | null;
+  vendors: { name: string } | null;
+  repair_order_details: DatabaseRepairOrderDetail[] | null;
+}
+
+// Line item as edited on the form (id is null for new lines)
+export interface RepairLineInput {
+  id: string | null;
+  repair_type_id: string | null;
+  description: string | null;
+  amount: number;
+}
+
+export interface RepairOrderInput {
+  truck_id: string | null;
+  vendor_id: string | null;
+  receipt_id: string | null;
+  date: string;
+  description: string | null;
+  odometer_reading: number | null;
+  notes: string | null;
+}
+
+export type RepairType = { id: string; name: string; sort_order: number };
+
+// Helper to get tenant_id from current user
+async function getTenantId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tenant_users")
+    .select("tenant_id")
+    .eq("user_id", session.user.id)
+    .single();
+
+  if (error || !data) {
+    console.error("[repairs] Error fetching tenant_id:", error);
+    return null;
+  }
+
+  return data.tenant_id;
+}
+
+// Header total is always the sum of its line items
+export function computeRepairTotal(lines: { amount: number }[]): number {
+  const sum = lines.reduce((acc, l) => acc + (Number(l.amount) || 0), 0);
+  return Math.round(sum * 100) / 100;
+}
+
+// Fetch repair orders, optionally for one truck and/or matching a search term.
+// Search matches the order description, vendor, truck and line item types/descriptions.
+export async function fetchRepairOrders(options?: {
+  truckId?: string | null;
+  search?: string;
+}): Promise<RepairOrder[]> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  let query = supabase
+    .from("repair_orders")
+    .select("*, trucks(truck_number), vendors(name), repair_order_details(*)")
+    .eq("tenant_id", tenantId)
+    .order("date", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (options?.truckId) {
+    query = query.eq("truck_id", options.truckId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("[repairs] Error fetching repair orders:", error);
+    throw error;
+  }
+
+  const orders = (data || []).map(toRepairOrder);
+
+  const term = options?.search?.trim().toLowerCase();
+  if (!term) return orders;
+
+  return orders.filter((o) =>
+    [
+      o.description,
+      o.vendor_name,
+      o.truck_number,
+      o.notes,
+      ...o.details.map((d) => d.type),
+      ...o.details.map((d) => d.description),
+    ].some((field) => field?.toLowerCase().includes(term))
+  );
+}
+
+// Fetch a single repair order with its line items
+export async function fetchRepairOrder(id: string): Promise<RepairOrder | null> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { data, error } = await supabase
+    .from("repair_orders")
+    .select("*, trucks(truck_number), vendors(name), repair_order_details(*)")
+    .eq("id", id)
+    .eq("tenant_id", tenantId)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      // Not found
+      return null;
+    }
+    console.error("[repairs] Error fetching repair order:", error);
+    throw error;
+  }
+
+  return toRepairOrder(data);
+}
+
+// Fetch repair types (line item codes) for the current tenant
+export async function fetchRepairTypes(): Promise<RepairType[]> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { data, error } = await supabase
+    .from("repair_types")
+    .select("id, name, sort_order")
+    .eq("tenant_id", tenantId)
+    .order("sort_order", { ascending: true })
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("[repairs] Error fetching repair types:", error);
+    throw error;
+  }
+
+  return (data || []) as RepairType[];
+}
+
+/**
+ * Save a repair order header and its line items.
+ * Lines are synced: existing lines are updated, new lines inserted and removed
+ * lines deleted. The header total is recomputed from the lines.
+ */
+export async function saveRepairOrder(
+  id: string | null,
+  input: RepairOrderInput,
+  lines: RepairLineInput[],
+  repairTypes: RepairType[] = []
+): Promise<string> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const header = {
+    tenant_id: tenantId,
+    truck_id: input.truck_id,
+    vendor_id: input.vendor_id,
+    receipt_id: input.receipt_id,
+    date: input.date,
+    description: input.description,
+    odometer_reading: input.odometer_reading,
+    notes: input.notes,
+    total: computeRepairTotal(lines),
+    updated_at: new Date().toISOString(),
+  };
+
+  let orderId = id;
+  if (orderId) {
+    const { error } = await supabase
+      .from("repair_orders")
+      .update(header)
+      .eq("id", orderId)
+      .eq("tenant_id", tenantId);
+
+    if (error) {
+      console.error("[repairs] Error updating repair order:", error);
+      throw error;
+    }
+  } else {
+    const { data, error } = await supabase
+      .from("repair_orders")
+      .insert(header)
+      .select("id")
+      .single();
+
+    if (error) {
+      console.error("[repairs] Error creating repair order:", error);
+      throw error;
+    }
+    orderId = data.id as string;
+  }
+
+  // Remove lines that are no longer on the order
+  const keepIds = lines.map((l) => l.id).filter((lid): lid is string => !!lid);
+  let deleteQuery = supabase
+    .from("repair_order_details")
+    .delete()
+    .eq("repair_order_id", orderId)
+    .eq("tenant_id", tenantId);
+  if (keepIds.length > 0) {
+    deleteQuery = deleteQuery.not("id", "in", `(${keepIds.join(",")})`);
+  }
+  const { error: deleteError } = await deleteQuery;
+  if (deleteError) {
+    console.error("[repairs] Error removing repair lines:", deleteError);
+    throw deleteError;
+  }
+
+  // Upsert remaining lines (type name is denormalized for display/export)
+  const typeNames = new Map(repairTypes.map((t) => [t.id, t.name]));
+  const rows = lines.map((l) => ({
+    ...(l.id ? { id: l.id } : {}),
+    tenant_id: tenantId,
+    repair_order_id: orderId,
+    repair_type_id: l.repair_type_id,
+    type: l.repair_type_id ? typeNames.get(l.repair_type_id) || null : null,
+    description: l.description,
+    date: input.date,
+    amount: l.amount,
+  }));
+
+  const updates = rows.filter((r) => "id" in r);
+  const inserts = rows.filter((r) => !("id" in r));
+
+  if (updates.length > 0) {
+    const { error } = await supabase.from("repair_order_details").upsert(updates);
+    if (error) {
+      console.error("[repairs] Error updating repair lines:", error);
+      throw error;
+    }
+  }
+  if (inserts.length > 0) {
+    const { error } = await supabase.from("repair_order_details").insert(inserts);
+    if (error) {
+      console.error("[repairs] Error inserting repair lines:", error);
+      throw error;
+    }
+  }
+
+  // If this order came from a receipt, mark the receipt as processed
+  if (input.receipt_id) {
+    await supabase
+      .from("receipts")
+      .update({ status: "processed", receipt_type: "repair", linked_id: orderId })
+      .eq("id", input.receipt_id)
+      .eq("tenant_id", tenantId);
+  }
+
+  return orderId;
+}
+
+// Delete a repair order (line items cascade)
+export async function deleteRepairOrder(id: string): Promise<void> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { error } = await supabase
+    .from("repair_orders")
+    .delete()
+    .eq("id", id)
+    .eq("tenant_id", tenantId);
+
+  if (error) {
+    console.error("[repairs] Error deleting repair order:", error);
+    throw error;
+  }
+}
+
+function toRepairOrder(row: RepairOrderRow): RepairOrder {
+  const { trucks, vendors, repair_order_details, ...rest } = row;
+  const details = (repair_order_details || [])
+    .slice()
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  return {
+    ...rest,
+    truck_number: trucks?.truck_number || null,
+    vendor_name: vendors?.name || null,
+    details,
+  };
+}
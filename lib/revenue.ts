@@ -0,0 +1,225 @@
+import { supabase } from "./supabaseClient";
+
+export type RateType = "flat" | "per_mile";
+
+export interface ChargeCode {
+  id: string;
+  code: string;
+  description: string | null;
+  rate_type: RateType;
+  amount: number;
+  sort_order: number;
+}
+
+export interface DatabaseTripCharge {
+  id: string;
+  tenant_id: string;
+  trip_id: string;
+  charge_code_id: string | null;
+  code: string | null;
+  description: string | null;
+  rate_type: RateType;
+  rate: number;
+  quantity: number;
+  amount: number;
+  sort_order: number;
+  created_at: string;
+}
+
+// Charge line as edited on screen. For per_mile lines quantity is ignored -
+// the trip mileage is used instead.
+export interface TripChargeInput {
+  charge_code_id: string | null;
+  code: string | null;
+  description: string | null;
+  rate_type: RateType;
+  rate: number;
+  quantity: number;
+}
+
+// Helper to get tenant_id from current user
+async function getTenantId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tenant_users")
+    .select("tenant_id")
+    .eq("user_id", session.user.id)
+    .single();
+
+  if (error || !data) {
+    console.error("[revenue] Error fetching tenant_id:", error);
+    return null;
+  }
+
+  return data.tenant_id;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// Amount for one line: per-mile codes are rate × trip mileage, flat codes rate × quantity
+export function computeChargeAmount(line: TripChargeInput, mileage: number): number {
+  const rate = Number(line.rate) || 0;
+  if (line.rate_type === "per_mile") {
+    return round2(rate * (mileage > 0 ? mileage : 0));
+  }
+  return round2(rate * (Number(line.quantity) || 0));
+}
+
+export function computeTripRevenue(lines: TripChargeInput[], mileage: number): number {
+  return round2(lines.reduce((sum, l) => sum + computeChargeAmount(l, mileage), 0));
+}
+
+// Revenue per mile, or null when there's no mileage to divide by
+export function revenuePerMile(revenue: number | null, mileage: number | null): number | null {
+  if (!revenue || !mileage || mileage <= 0) return null;
+  return round2(revenue / mileage);
+}
+
+// Fetch charge codes for the current tenant
+export async function fetchChargeCodes(): Promise<ChargeCode[]> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { data, error } = await supabase
+    .from("charge_codes")
+    .select("id, code, description, rate_type, amount, sort_order")
+    .eq("tenant_id", tenantId)
+    .order("sort_order", { ascending: true })
+    .order("code", { ascending: true });
+
+  if (error) {
+    console.error("[revenue] Error fetching charge codes:", error);
+    throw error;
+  }
+
+  return (data || []) as ChargeCode[];
+}
+
+// Fetch the charge lines on a trip
+export async function fetchTripCharges(tripId: string): Promise<DatabaseTripCharge[]> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { data, error } = await supabase
+    .from("trip_charges")
+    .select("*")
+    .eq("trip_id", tripId)
+    .eq("tenant_id", tenantId)
+    .order("sort_order", { ascending: true });
+
+  if (error) {
+    console.error("[revenue] Error fetching trip charges:", error);
+    throw error;
+  }
+
+  return (data || []) as DatabaseTripCharge[];
+}
+
+/**
+ * Replace a trip's charge lines and persist the revenue total on the trip.
+ * Returns the new total.
+ */
+export async function saveTripCharges(
+  tripId: string,
+  lines: TripChargeInput[],
+  mileage: number
+): Promise<number> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { error: deleteError } = await supabase
+    .from("trip_charges")
+    .delete()
+    .eq("trip_id", tripId)
+    .eq("tenant_id", tenantId);
+
+  if (deleteError) {
+    console.error("[revenue] Error clearing trip charges:", deleteError);
+    throw deleteError;
+  }
+
+  if (lines.length > 0) {
+    const rows = lines.map((l, i) => ({
+      tenant_id: tenantId,
+      trip_id: tripId,
+      charge_code_id: l.charge_code_id,
+      code: l.code,
+      description: l.description,
+      rate_type: l.rate_type,
+      rate: l.rate,
+      quantity: l.rate_type === "per_mile" ? mileage : l.quantity,
+      amount: computeChargeAmount(l, mileage),
+      sort_order: i,
+    }));
+
+    const { error } = await supabase.from("trip_charges").insert(rows);
+    if (error) {
+      console.error("[revenue] Error saving trip charges:", error);
+      throw error;
+    }
+  }
+
+  const total = computeTripRevenue(lines, mileage);
+  await updateTripRevenue(tenantId, tripId, total);
+  return total;
+}
+
+/**
+ * Re-price per-mile lines after the trip's mileage changes and persist the
+ * new total. Returns the total (unchanged when there are no per-mile lines).
+ */
+export async function repriceTripCharges(tripId: string, mileage: number): Promise<number> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const charges = await fetchTripCharges(tripId);
+  const changed = charges.filter(
+    (c) => c.rate_type === "per_mile" && Number(c.amount) !== computeChargeAmount(c, mileage)
+  );
+
+  for (const c of changed) {
+    const { error } = await supabase
+      .from("trip_charges")
+      .update({ quantity: mileage, amount: computeChargeAmount(c, mileage) })
+      .eq("id", c.id)
+      .eq("tenant_id", tenantId);
+
+    if (error) {
+      console.error("[revenue] Error repricing trip charge:", error);
+      throw error;
+    }
+  }
+
+  const total = computeTripRevenue(charges, mileage);
+  if (changed.length > 0) {
+    await updateTripRevenue(tenantId, tripId, total);
+  }
+  return total;
+}
+
+async function updateTripRevenue(tenantId: string, tripId: string, total: number): Promise<void> {
+  const { error } = await supabase
+    .from("trips")
+    .update({ revenue: total, updated_at: new Date().toISOString() })
+    .eq("id", tripId)
+    .eq("tenant_id", tenantId);
+
+  if (error) {
+    console.error("[revenue] Error updating trip revenue:", error);
+    throw error;
+  }
+}
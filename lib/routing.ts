@@ -0,0 +1,251 @@
+import { supabase } from "./supabaseClient";
+import { geocodeAddress, getDrivingDistances, LngLat } from "./mapbox";
+
+/**
+ * Computes road distances between consecutive points. Implementations must
+ * return one entry per pair (points.length - 1), null where a leg can't be
+ * routed, along with the name of the provider that actually produced them
+ * (which differs from `name` when a provider falls back to another).
+ */
+export interface RoutingProvider {
+  name: string;
+  legDistances(points: LngLat[]): Promise<LegDistances>;
+}
+
+export interface LegDistances {
+  provider: string;
+  distances: (number | null)[];
+}
+
+export interface TripRouteEstimate {
+  // Provider(s) behind the legs routed by this call, null when none were
+  provider: string | null;
+  // Planned miles per leg (stop i → stop i+1), null when it couldn't be routed
+  legs: (number | null)[];
+  // Sum of legs, or null unless every leg has a distance
+  total: number | null;
+}
+
+// Great-circle distances stretched to approximate roads
+const ROAD_FACTOR = 1.2;
+const EARTH_RADIUS_MILES = 3958.8;
+
+function haversineMiles(a: LngLat, b: LngLat): number {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
+
+// Offline stand-in: straight-line distance × ROAD_FACTOR. No network needed.
+export const straightLineRoutingProvider: RoutingProvider = {
+  name: "straight-line",
+  async legDistances(points) {
+    return {
+      provider: "straight-line",
+      distances: points
+        .slice(0, -1)
+        .map((p, i) => Math.round(haversineMiles(p, points[i + 1]) * ROAD_FACTOR)),
+    };
+  },
+};
+
+// Mapbox driving directions, falling back to straight-line when Mapbox is unavailable
+export const mapboxRoutingProvider: RoutingProvider = {
+  name: "mapbox",
+  async legDistances(points) {
+    const distances = await getDrivingDistances(points);
+    return distances ? { provider: "mapbox", distances } : straightLineRoutingProvider.legDistances(points);
+  },
+};
+
+let provider: RoutingProvider = mapboxRoutingProvider;
+
+export function getRoutingProvider(): RoutingProvider {
+  return provider;
+}
+
+// Swap the provider (e.g. straightLineRoutingProvider for offline use or tests)
+export function setRoutingProvider(next: RoutingProvider): void {
+  provider = next;
+}
+
+/**
+ * Route a list of points that may contain gaps (stops that couldn't be
+ * geocoded). Each contiguous run of known points is routed separately; legs
+ * touching a gap come back null. providers names the source of each leg.
+ */
+export async function routePoints(
+  points: (LngLat | null)[],
+  routing: RoutingProvider = provider
+): Promise<{ legs: (number | null)[]; providers: (string | null)[] }> {
+  const legs: (number | null)[] = points.slice(0, -1).map(() => null);
+  const providers: (string | null)[] = legs.map(() => null);
+  let runStart = 0;
+  for (let i = 0; i <= points.length; i++) {
+    if (i < points.length && points[i]) continue;
+    const run = points.slice(runStart, i) as LngLat[];
+    if (run.length >= 2) {
+      const routed = await routing.legDistances(run);
+      routed.distances.forEach((d, j) => {
+        legs[runStart + j] = d;
+        if (d != null) providers[runStart + j] = routed.provider;
+      });
+    }
+    runStart = i + 1;
+  }
+  return { legs, providers };
+}
+
+// Helper to get tenant_id from current user
+async function getTenantId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tenant_users")
+    .select("tenant_id")
+    .eq("user_id", session.user.id)
+    .single();
+
+  if (error || !data) {
+    console.error("[routing] Error fetching tenant_id:", error);
+    return null;
+  }
+
+  return data.tenant_id;
+}
+
+// Geocoded addresses for this session, so re-routing a trip doesn't re-query Mapbox
+const geocodeCache = new Map<string, LngLat | null>();
+
+async function geocodeCached(address: string): Promise<LngLat | null> {
+  if (geocodeCache.has(address)) return geocodeCache.get(address) ?? null;
+  const result = await geocodeAddress(address);
+  const point = result ? { latitude: result.latitude, longitude: result.longitude } : null;
+  geocodeCache.set(address, point);
+  return point;
+}
+
+/**
+ * Estimate planned mileage for a trip's legs from its geocoded stops. Stops
+ * use their saved location's coordinates, else their address is geocoded.
+ * Legs that already have planned mileage keep it unless `overwrite` is set.
+ * expected_mileage on the trip is updated once every leg has a distance.
+ */
+export async function estimateTripRoute(
+  tripId: string,
+  options: { overwrite?: boolean } = {}
+): Promise<TripRouteEstimate> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const [stopsRes, legsRes] = await Promise.all([
+    supabase
+      .from("stops")
+      .select("id, location_id, address1, city, state, zip_code")
+      .eq("trip_id", tripId)
+      .eq("tenant_id", tenantId)
+      .order("stop_order", { ascending: true }),
+    supabase
+      .from("legs")
+      .select("id, leg_order, calculated_mileage")
+      .eq("trip_id", tripId)
+      .eq("tenant_id", tenantId)
+      .order("leg_order", { ascending: true }),
+  ]);
+
+  if (stopsRes.error || legsRes.error) {
+    console.error("[routing] Error loading trip for routing:", stopsRes.error || legsRes.error);
+    throw stopsRes.error || legsRes.error;
+  }
+
+  const stops = stopsRes.data || [];
+  const legs = legsRes.data || [];
+  const planned: (number | null)[] = legs.map((l) =>
+    l.calculated_mileage != null ? Number(l.calculated_mileage) : null
+  );
+  const needsRouting = options.overwrite || planned.some((m) => m == null);
+  const usedProviders = new Set<string>();
+
+  if (needsRouting && stops.length >= 2) {
+    // Saved locations carry coordinates from the Setup screen's verify step
+    const locationIds = stops.map((s) => s.location_id).filter(Boolean) as string[];
+    const coordsByLocation = new Map<string, LngLat>();
+    if (locationIds.length > 0) {
+      const { data: locations } = await supabase
+        .from("locations")
+        .select("id, latitude, longitude")
+        .eq("tenant_id", tenantId)
+        .in("id", locationIds);
+      for (const loc of locations || []) {
+        if (loc.latitude != null && loc.longitude != null) {
+          coordsByLocation.set(loc.id, { latitude: loc.latitude, longitude: loc.longitude });
+        }
+      }
+    }
+
+    const points = await Promise.all(
+      stops.map(async (s) => {
+        const saved = s.location_id ? coordsByLocation.get(s.location_id) : undefined;
+        if (saved) return saved;
+        const address = [s.address1, s.city, [s.state, s.zip_code].filter(Boolean).join(" ")]
+          .filter(Boolean)
+          .join(", ");
+        return address ? geocodeCached(address) : null;
+      })
+    );
+
+    const routed = await routePoints(points);
+
+    for (const leg of legs) {
+      const i = leg.leg_order;
+      const miles = routed.legs[i];
+      if (miles == null || (planned[i] != null && !options.overwrite)) continue;
+
+      const { error } = await supabase
+        .from("legs")
+        .update({ calculated_mileage: miles })
+        .eq("id", leg.id)
+        .eq("tenant_id", tenantId);
+
+      if (error) {
+        console.error("[routing] Error saving leg mileage:", error);
+        throw error;
+      }
+      planned[i] = miles;
+      const source = routed.providers[i];
+      if (source) usedProviders.add(source);
+    }
+  }
+
+  const total = planned.length > 0 && planned.every((m) => m != null)
+    ? planned.reduce<number>((sum, m) => sum + (m as number), 0)
+    : null;
+
+  if (total != null) {
+    const { error } = await supabase
+      .from("trips")
+      .update({ expected_mileage: total, updated_at: new Date().toISOString() })
+      .eq("id", tripId)
+      .eq("tenant_id", tenantId);
+
+    if (error) {
+      console.error("[routing] Error updating expected mileage:", error);
+      throw error;
+    }
+  }
+
+  return {
+    provider: usedProviders.size > 0 ? [...usedProviders].join(", ") : null,
+    legs: planned,
+    total,
+  };
+}
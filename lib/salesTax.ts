@@ -0,0 +1,334 @@
+import { supabase } from "./supabaseClient";
+import { csvCell } from "./exportFile";
+
+/**
+ * Canadian sales tax by province. Each purchase stores its tax split into
+ * components (gst / hst / pst / qst) alongside the summed `tax` column, so
+ * recoverable tax (GST/HST input tax credits, QST input tax refunds) can be
+ * reported separately from PST, which is a cost.
+ */
+
+export type TaxComponent = "gst" | "hst" | "pst" | "qst";
+
+export const TAX_COMPONENTS: TaxComponent[] = ["gst", "hst", "pst", "qst"];
+
+export type TaxAmounts = Record<TaxComponent, number>;
+
+// Percent rates per component
+export type ProvinceRates = Partial<Record<TaxComponent, number>>;
+
+export const PROVINCE_TAX_RATES: Record<string, ProvinceRates> = {
+  AB: { gst: 5 },
+  BC: { gst: 5, pst: 7 },
+  MB: { gst: 5, pst: 7 },
+  NB: { hst: 15 },
+  NL: { hst: 15 },
+  NS: { hst: 14 },
+  NT: { gst: 5 },
+  NU: { gst: 5 },
+  ON: { hst: 13 },
+  PE: { hst: 15 },
+  QC: { gst: 5, qst: 9.975 },
+  SK: { gst: 5, pst: 6 },
+  YT: { gst: 5 },
+};
+
+export const PROVINCES = Object.keys(PROVINCE_TAX_RATES);
+
+const PROVINCE_BY_NAME: Record<string, string> = {
+  alberta: "AB",
+  "british columbia": "BC",
+  manitoba: "MB",
+  "new brunswick": "NB",
+  "newfoundland and labrador": "NL",
+  newfoundland: "NL",
+  "nova scotia": "NS",
+  "northwest territories": "NT",
+  nunavut: "NU",
+  ontario: "ON",
+  "prince edward island": "PE",
+  quebec: "QC",
+  québec: "QC",
+  saskatchewan: "SK",
+  yukon: "YT",
+};
+
+// Province code for a state/province value, or null if it isn't Canadian
+export function toProvince(raw: string | null | undefined): string | null {
+  const value = (raw || "").trim();
+  if (!value) return null;
+  const upper = value.toUpperCase();
+  if (PROVINCE_TAX_RATES[upper]) return upper;
+  return PROVINCE_BY_NAME[value.toLowerCase()] || null;
+}
+
+// Components charged in a province, in display order
+export function provinceComponents(province: string | null): TaxComponent[] {
+  const rates = province ? PROVINCE_TAX_RATES[province] : undefined;
+  return rates ? TAX_COMPONENTS.filter((c) => rates[c] != null) : [];
+}
+
+// "PST" is called RST in Manitoba
+export function taxComponentLabel(component: TaxComponent, province?: string | null): string {
+  if (component === "pst" && province === "MB") return "RST";
+  return component.toUpperCase();
+}
+
+export function emptyTaxAmounts(): TaxAmounts {
+  return { gst: 0, hst: 0, pst: 0, qst: 0 };
+}
+
+export function sumTaxes(taxes: Partial<TaxAmounts>): number {
+  return round2(TAX_COMPONENTS.reduce((sum, c) => sum + (Number(taxes[c]) || 0), 0));
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// Tax on a pre-tax amount
+export function taxFromNet(net: number, province: string | null): TaxAmounts {
+  const rates = (province && PROVINCE_TAX_RATES[province]) || {};
+  const taxes = emptyTaxAmounts();
+  for (const c of TAX_COMPONENTS) {
+    if (rates[c] != null) taxes[c] = round2((net * rates[c]!) / 100);
+  }
+  return taxes;
+}
+
+/**
+ * Split a tax-included total into net and tax components. Rounding is
+ * absorbed by net so net + taxes always equals the total.
+ */
+export function splitTotal(total: number, province: string | null): { net: number; taxes: TaxAmounts } {
+  const rates = (province && PROVINCE_TAX_RATES[province]) || {};
+  const rate = TAX_COMPONENTS.reduce((sum, c) => sum + (rates[c] || 0), 0);
+  const taxes = taxFromNet(total / (1 + rate / 100), province);
+  return { net: round2(total - sumTaxes(taxes)), taxes };
+}
+
+// Form text for each component (blank when the province doesn't charge it)
+export type TaxInputs = Record<TaxComponent, string>;
+
+export const BLANK_TAX_INPUTS: TaxInputs = { gst: "", hst: "", pst: "", qst: "" };
+
+export function formatTaxInputs(taxes: TaxAmounts, province: string | null): TaxInputs {
+  const inputs = { ...BLANK_TAX_INPUTS };
+  for (const c of provinceComponents(province)) inputs[c] = taxes[c].toFixed(2);
+  return inputs;
+}
+
+export function parseTaxInputs(inputs: TaxInputs): TaxAmounts {
+  const taxes = emptyTaxAmounts();
+  for (const c of TAX_COMPONENTS) taxes[c] = parseFloat(inputs[c]) || 0;
+  return taxes;
+}
+
+// Helper to get tenant_id from current user
+async function getTenantId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tenant_users")
+    .select("tenant_id")
+    .eq("user_id", session.user.id)
+    .single();
+
+  if (error || !data) {
+    console.error("[salesTax] Error fetching tenant_id:", error);
+    return null;
+  }
+
+  return data.tenant_id;
+}
+
+/**
+ * Province the driver is most likely buying in on a trip: the last completed
+ * stop in Canada, else the first Canadian stop. Null when the trip has none.
+ */
+export async function fetchTripProvince(tripId: string): Promise<string | null> {
+  try {
+    const tenantId = await getTenantId();
+    if (!tenantId) return null;
+
+    const { data: stops } = await supabase
+      .from("stops")
+      .select("state, status")
+      .eq("trip_id", tripId)
+      .eq("tenant_id", tenantId)
+      .order("stop_order", { ascending: true });
+
+    const canadian = (stops || []).filter((s) => toProvince(s.state));
+    const lastComplete = [...canadian].reverse().find((s) => s.status === "complete");
+    return toProvince((lastComplete || canadian[0])?.state);
+  } catch {
+    return null;
+  }
+}
+
+// ── Input tax credit report ──────────────────────────────
+
+export interface ItcLine {
+  id: string;
+  source: "fuel" | "expense";
+  date: string;
+  vendor: string;
+  province: string | null;
+  net: number;
+  taxes: TaxAmounts;
+  total: number;
+}
+
+export interface ItcProvinceRow {
+  province: string; // "" for purchases with no province recorded
+  net: number;
+  taxes: TaxAmounts;
+}
+
+export interface ItcReport {
+  from: string;
+  to: string;
+  lines: ItcLine[];
+  byProvince: ItcProvinceRow[];
+  taxes: TaxAmounts;
+  // GST + HST: claimable on the GST/HST return
+  itc: number;
+  // QST: claimable on the Quebec return
+  itr: number;
+  // PST/RST paid -- not recoverable
+  nonRecoverable: number;
+}
+
+// Fuel purchase and expense rows as fetchItcReport selects them
+interface TaxedPurchaseRow {
+  id: string;
+  date: string;
+  description: string | null;
+  amount: number | null;
+  total: number | null;
+  tax_province: string | null;
+  gst: number | null;
+  hst: number | null;
+  pst: number | null;
+  qst: number | null;
+  vendors: { name: string } | null;
+}
+
+function rowTaxes(row: TaxedPurchaseRow): TaxAmounts {
+  return {
+    gst: Number(row.gst) || 0,
+    hst: Number(row.hst) || 0,
+    pst: Number(row.pst) || 0,
+    qst: Number(row.qst) || 0,
+  };
+}
+
+/**
+ * Canadian sales tax paid on fuel and expenses dated within [from, to],
+ * with the recoverable totals needed for the GST/HST and QST returns.
+ */
+export async function fetchItcReport(from: string, to: string): Promise<ItcReport> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const [fuelRes, expenseRes] = await Promise.all([
+    supabase
+      .from("fuel_purchases")
+      .select("id, date, description, amount, total, tax_province, gst, hst, pst, qst, vendors(name)")
+      .eq("tenant_id", tenantId)
+      .gte("date", from)
+      .lte("date", to)
+      .order("date", { ascending: true })
+      .overrideTypes<TaxedPurchaseRow[], { merge: false }>(),
+    supabase
+      .from("misc_expenses")
+      .select("id, date, description, amount, total, tax_province, gst, hst, pst, qst, vendors(name)")
+      .eq("tenant_id", tenantId)
+      .gte("date", from)
+      .lte("date", to)
+      .order("date", { ascending: true })
+      .overrideTypes<TaxedPurchaseRow[], { merge: false }>(),
+  ]);
+
+  if (fuelRes.error || expenseRes.error) {
+    console.error("[salesTax] Error fetching purchases:", fuelRes.error || expenseRes.error);
+    throw fuelRes.error || expenseRes.error;
+  }
+
+  const toLine = (source: ItcLine["source"]) => (row: TaxedPurchaseRow): ItcLine => {
+    const vendor = row.vendors;
+    return {
+      id: row.id,
+      source,
+      date: row.date,
+      vendor: vendor?.name || row.description || (source === "fuel" ? "Fuel" : "Expense"),
+      province: row.tax_province || null,
+      net: Number(row.amount) || 0,
+      taxes: rowTaxes(row),
+      total: Number(row.total) || 0,
+    };
+  };
+
+  const lines = [
+    ...(fuelRes.data || []).map(toLine("fuel")),
+    ...(expenseRes.data || []).map(toLine("expense")),
+  ]
+    .filter((l) => sumTaxes(l.taxes) > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const taxes = emptyTaxAmounts();
+  const byProvince = new Map<string, ItcProvinceRow>();
+  for (const line of lines) {
+    const key = line.province || "";
+    const row = byProvince.get(key) || { province: key, net: 0, taxes: emptyTaxAmounts() };
+    row.net = round2(row.net + line.net);
+    for (const c of TAX_COMPONENTS) {
+      row.taxes[c] = round2(row.taxes[c] + line.taxes[c]);
+      taxes[c] = round2(taxes[c] + line.taxes[c]);
+    }
+    byProvince.set(key, row);
+  }
+
+  return {
+    from,
+    to,
+    lines,
+    byProvince: [...byProvince.values()].sort((a, b) =>
+      (a.province || "~").localeCompare(b.province || "~")
+    ),
+    taxes,
+    itc: round2(taxes.gst + taxes.hst),
+    itr: taxes.qst,
+    nonRecoverable: taxes.pst,
+  };
+}
+
+// One row per purchase, then the ITC / ITR totals
+export function itcReportToCsv(report: ItcReport): string {
+  const lines = [
+    ["Date", "Type", "Vendor", "Province", "Net", "GST", "HST", "PST", "QST", "Total"].join(","),
+  ];
+  for (const l of report.lines) {
+    lines.push(
+      [
+        l.date,
+        l.source === "fuel" ? "Fuel" : "Expense",
+        l.vendor,
+        l.province || "",
+        l.net.toFixed(2),
+        ...TAX_COMPONENTS.map((c) => l.taxes[c].toFixed(2)),
+        l.total.toFixed(2),
+      ].map(csvCell).join(",")
+    );
+  }
+  lines.push("");
+  lines.push(`GST/HST input tax credits,${report.itc.toFixed(2)}`);
+  lines.push(`QST input tax refunds,${report.itr.toFixed(2)}`);
+  lines.push(`PST/RST (not recoverable),${report.nonRecoverable.toFixed(2)}`);
+  return lines.join("\n") + "\n";
+}
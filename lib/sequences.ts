@@ -1,5 +1,46 @@
 import { supabase } from "./supabaseClient";
 
+/**
+ * Numbering for trips, orders and invoices. Numbers are handed out by the
+ * database (take_sequence_number in schema-sequences.sql), which locks the
+ * sequence while it does, so team drivers never get the same number. A
+ * number is "taken" until the caller marks it used by the record it went
+ * on; if creating that record fails, release it so the next one reuses it.
+ */
+
+export type SequenceName = "trip" | "order" | "invoice";
+
+export const SEQUENCE_NAMES: SequenceName[] = ["trip", "order", "invoice"];
+
+export const SEQUENCE_LABELS: Record<SequenceName, string> = {
+  trip: "Trip Number",
+  order: "Order Number",
+  invoice: "Invoice Number",
+};
+
+// Starting values for sequences that haven't been used yet
+export const SEQUENCE_DEFAULT_START: Record<SequenceName, number> = {
+  trip: 100,
+  order: 1,
+  invoice: 1001,
+};
+
+export interface Sequence {
+  name: SequenceName;
+  format: string;
+  next_value: number;
+  start_value: number;
+  reset_yearly: boolean;
+  period_year: number; // year the count is in, for yearly resets
+}
+
+// One number handed out from a sequence
+export interface SequenceNumber {
+  id: string;
+  value: number;
+  formatted: string;
+}
+
 async function getTenantId(): Promise<string | null> {
   const { data: { session } } = await supabase.auth.getSession();
   if (!session?.user?.id) return null;
@@ -15,140 +56,166 @@ async function getTenantId(): Promise<string | null> {
 }
 
 /**
- * Get the next trip number, increment the sequence, and return it.
- * Default starting value is 100 if not set.
+ * Apply a format to a number: {N} is the number, {0000} the number padded
+ * to that many digits, {YYYY} and {YY} the year. "T-{YYYY}-{0000}" gives
+ * T-2026-0101. Keep in step with format_sequence_number in the schema.
+ */
+export function formatSequenceNumber(format: string, value: number, year: number = new Date().getFullYear()): string {
+  let result = format || "{N}";
+  result = result.replace(/\{YYYY\}/g, String(year));
+  result = result.replace(/\{YY\}/g, String(year % 100).padStart(2, "0"));
+  const pad = result.match(/\{(0+)\}/);
+  if (pad) {
+    result = result.split(pad[0]).join(String(value).padStart(pad[1].length, "0"));
+  }
+  return result.replace(/\{N\}/g, String(value));
+}
+
+/**
+ * Take the next number from a sequence. Call markSequenceNumberUsed once the
+ * record it's for is saved, or releaseSequenceNumber if that fails.
  */
-export async function getNextTripNumber(): Promise<number> {
+export async function takeSequenceNumber(name: SequenceName): Promise<SequenceNumber> {
   const tenantId = await getTenantId();
   if (!tenantId) {
     throw new Error("No tenant_id found. Please ensure you're logged in.");
   }
 
-  // Fetch current settings
-  const { data: settings, error: fetchError } = await supabase
-    .from("settings")
-    .select("trip_number_sequence")
-    .eq("tenant_id", tenantId)
-    .single();
+  const { data, error } = await supabase.rpc("take_sequence_number", { p_name: name }).single();
 
-  if (fetchError && fetchError.code !== "PGRST116") {
-    console.error("[sequences] Error fetching settings:", fetchError);
-    throw fetchError;
+  if (error || !data) {
+    console.error(`[sequences] Error taking ${name} number:`, error);
+    throw error || new Error(`Couldn't get the next ${name} number.`);
   }
 
-  const current = settings?.trip_number_sequence ?? 100;
-  const next = current + 1;
-
-  // Update only the sequence (preserves other settings)
-  const { error: updateError } = await supabase
-    .from("settings")
-    .update({ trip_number_sequence: next })
-    .eq("tenant_id", tenantId);
-
-  if (updateError) {
-    // Row might not exist yet - try upsert
-    const { error: upsertError } = await supabase.from("settings").upsert(
-      { tenant_id: tenantId, trip_number_sequence: next },
-      { onConflict: "tenant_id" }
-    );
-    if (upsertError) {
-      console.error("[sequences] Error updating trip number:", upsertError);
-      throw upsertError;
-    }
+  const row = data as { id: string; value: number; formatted: string };
+  return { id: row.id, value: Number(row.value), formatted: row.formatted };
+}
+
+export async function markSequenceNumberUsed(id: string, referenceId: string): Promise<void> {
+  const { error } = await supabase.rpc("use_sequence_number", { p_id: id, p_reference: referenceId });
+
+  if (error) {
+    console.error("[sequences] Error marking number used:", error);
+    throw error;
   }
+}
+
+// Hand a number back after a failed create; the next take reuses it
+export async function releaseSequenceNumber(id: string): Promise<void> {
+  const { error } = await supabase.rpc("release_sequence_number", { p_id: id });
 
-  return current;
+  if (error) {
+    console.error("[sequences] Error releasing number:", error);
+    throw error;
+  }
 }
 
-/**
- * Get the next order number, increment the sequence, and return it.
- */
-export async function getNextOrderNumber(): Promise<number> {
-  const tenantId = await getTenantId();
-  if (!tenantId) {
-    throw new Error("No tenant_id found. Please ensure you're logged in.");
+// Skip a number for good (e.g. its invoice was deleted), noting why
+export async function voidSequenceNumber(id: string, reason: string): Promise<void> {
+  const { error } = await supabase.rpc("void_sequence_number", { p_id: id, p_reason: reason });
+
+  if (error) {
+    console.error("[sequences] Error voiding number:", error);
+    throw error;
   }
+}
 
-  const { data: settings, error: fetchError } = await supabase
-    .from("settings")
-    .select("order_number_sequence")
-    .eq("tenant_id", tenantId)
-    .single();
+// Void whatever number a record was given
+export async function voidSequenceNumberFor(referenceId: string, reason: string): Promise<void> {
+  const { data, error } = await supabase
+    .from("sequence_numbers")
+    .select("id")
+    .eq("reference_id", referenceId)
+    .eq("status", "used");
 
-  if (fetchError && fetchError.code !== "PGRST116") {
-    console.error("[sequences] Error fetching settings:", fetchError);
-    throw fetchError;
+  if (error) {
+    console.error("[sequences] Error finding number:", error);
+    throw error;
   }
 
-  const current = settings?.order_number_sequence ?? 1;
-  const next = current + 1;
-
-  const { error: updateError } = await supabase
-    .from("settings")
-    .update({ order_number_sequence: next })
-    .eq("tenant_id", tenantId);
-
-  if (updateError) {
-    const { error: upsertError } = await supabase.from("settings").upsert(
-      { tenant_id: tenantId, order_number_sequence: next },
-      { onConflict: "tenant_id" }
-    );
-    if (upsertError) {
-      console.error("[sequences] Error updating order number:", upsertError);
-      throw upsertError;
-    }
+  for (const row of data || []) {
+    await voidSequenceNumber(row.id, reason);
   }
+}
 
-  return current;
+/**
+ * Get the next trip number and take it from the sequence.
+ * Default starting value is 100 if not set.
+ */
+export async function getNextTripNumber(): Promise<SequenceNumber> {
+  return takeSequenceNumber("trip");
+}
+
+/**
+ * Get the next order number and take it from the sequence.
+ */
+export async function getNextOrderNumber(): Promise<SequenceNumber> {
+  return takeSequenceNumber("order");
+}
+
+/**
+ * Get the next invoice number and take it from the sequence.
+ * Default starting value is 1001 if not set.
+ */
+export async function getNextInvoiceNumber(): Promise<SequenceNumber> {
+  return takeSequenceNumber("invoice");
 }
 
 /**
- * Get current sequence values (for display in Settings).
+ * Get every sequence (for display in Settings), with defaults for ones
+ * that haven't been used yet.
  */
-export async function getSequences(): Promise<{
-  trip_number_sequence: number;
-  order_number_sequence: number;
-}> {
+export async function getSequences(): Promise<Sequence[]> {
   const tenantId = await getTenantId();
   if (!tenantId) {
     throw new Error("No tenant_id found.");
   }
 
   const { data, error } = await supabase
-    .from("settings")
-    .select("trip_number_sequence, order_number_sequence")
+    .from("sequences")
+    .select("name, format, next_value, start_value, reset_yearly, period_year")
     .eq("tenant_id", tenantId)
-    .single();
+    .overrideTypes<Sequence[], { merge: false }>();
 
-  if (error && error.code !== "PGRST116") {
+  if (error) {
     throw error;
   }
 
-  return {
-    trip_number_sequence: data?.trip_number_sequence ?? 100,
-    order_number_sequence: data?.order_number_sequence ?? 1,
-  };
+  return SEQUENCE_NAMES.map((name) => {
+    const row = (data || []).find((r) => r.name === name);
+    return {
+      name,
+      format: row?.format || "{N}",
+      next_value: row?.next_value ?? SEQUENCE_DEFAULT_START[name],
+      start_value: row?.start_value ?? SEQUENCE_DEFAULT_START[name],
+      reset_yearly: row?.reset_yearly ?? false,
+      period_year: row?.period_year ?? new Date().getFullYear(),
+    };
+  });
 }
 
 /**
- * Update sequence values (for Settings form).
+ * Update sequences (for Settings form).
  */
-export async function updateSequences(
-  trip_number_sequence: number,
-  order_number_sequence: number
-): Promise<void> {
+export async function updateSequences(sequences: Sequence[]): Promise<void> {
   const tenantId = await getTenantId();
   if (!tenantId) {
     throw new Error("No tenant_id found.");
   }
 
-  const { error } = await supabase.from("settings").upsert(
-    {
+  const { error } = await supabase.from("sequences").upsert(
+    sequences.map((s) => ({
       tenant_id: tenantId,
-      trip_number_sequence,
-      order_number_sequence,
-    },
-    { onConflict: "tenant_id" }
+      name: s.name,
+      format: s.format.trim() || "{N}",
+      next_value: s.next_value,
+      start_value: s.start_value,
+      reset_yearly: s.reset_yearly,
+      period_year: s.period_year,
+      updated_at: new Date().toISOString(),
+    })),
+    { onConflict: "tenant_id,name" }
   );
 
   if (error) throw error;
@@ -0,0 +1,189 @@
+import { Platform } from "react-native";
+import { supabase } from "./supabaseClient";
+import { cachedQuery, resolveTenantId } from "./offline";
+
+/**
+ * The people on an account (tenant_users): an owner-operator and up to one
+ * team driver. Trips are assigned to one or two of them. The owner invites
+ * the driver with a code; signing up with it joins the owner's account
+ * instead of creating a new one (see handle_new_user in schema-team.sql).
+ */
+
+export type TeamRole = "owner" | "driver";
+
+// Owner plus one team driver
+export const MAX_TEAM_SIZE = 2;
+
+export interface TeamMember {
+  id: string; // tenant_users.id
+  user_id: string;
+  role: TeamRole;
+  display_name: string | null;
+  created_at: string;
+}
+
+export interface TeamInvite {
+  id: string;
+  tenant_id: string;
+  code: string;
+  display_name: string | null;
+  email: string | null;
+  role: "driver";
+  expires_at: string;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// Owners manage settings, pay rates, sequences, charge codes and trucks; drivers only log work
+export function canManageSetup(role: TeamRole | null | undefined): boolean {
+  return role === "owner";
+}
+
+// Name to show for a member; falls back to the role when no name is set
+export function memberName(member: TeamMember | null | undefined): string {
+  if (!member) return "—";
+  return member.display_name?.trim() || (member.role === "owner" ? "Owner" : "Driver");
+}
+
+// Everyone on the current account, owner first (cached for offline use)
+export async function fetchTeamMembers(): Promise<TeamMember[]> {
+  const tenantId = await resolveTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  return cachedQuery("team:members", async () => {
+    const { data, error } = await supabase
+      .from("tenant_users")
+      .select("id, user_id, role, display_name, created_at")
+      .eq("tenant_id", tenantId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("[team] Error fetching team members:", error);
+      throw error;
+    }
+
+    return ((data || []) as TeamMember[]).sort(
+      (a, b) => (a.role === "owner" ? 0 : 1) - (b.role === "owner" ? 0 : 1)
+    );
+  });
+}
+
+// The signed-in user's own membership
+export async function fetchCurrentMember(): Promise<TeamMember | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) return null;
+  const members = await fetchTeamMembers();
+  return members.find((m) => m.user_id === session.user.id) || null;
+}
+
+// Invites that can still be used, newest first (owner only)
+export async function fetchTeamInvites(): Promise<TeamInvite[]> {
+  const tenantId = await resolveTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { data, error } = await supabase
+    .from("team_invites")
+    .select("*")
+    .eq("tenant_id", tenantId)
+    .is("accepted_at", null)
+    .is("revoked_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("[team] Error fetching invites:", error);
+    throw error;
+  }
+
+  return (data || []) as TeamInvite[];
+}
+
+export async function createTeamInvite(input: { display_name: string | null; email: string | null }): Promise<TeamInvite> {
+  const tenantId = await resolveTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const members = await fetchTeamMembers();
+  if (members.length >= MAX_TEAM_SIZE) {
+    throw new Error("Your team is full. Remove the current driver before inviting another.");
+  }
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const { data, error } = await supabase
+    .from("team_invites")
+    .insert({
+      tenant_id: tenantId,
+      display_name: input.display_name?.trim() || null,
+      email: input.email?.trim() || null,
+      created_by: session?.user?.id ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[team] Error creating invite:", error);
+    throw error;
+  }
+
+  return data as TeamInvite;
+}
+
+export async function revokeTeamInvite(id: string): Promise<void> {
+  const { error } = await supabase
+    .from("team_invites")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) {
+    console.error("[team] Error revoking invite:", error);
+    throw error;
+  }
+}
+
+export async function renameTeamMember(id: string, displayName: string): Promise<void> {
+  const { error } = await supabase
+    .from("tenant_users")
+    .update({ display_name: displayName.trim() || null })
+    .eq("id", id);
+
+  if (error) {
+    console.error("[team] Error renaming team member:", error);
+    throw error;
+  }
+}
+
+// Remove a driver from the account (their login stays but no longer sees its data)
+export async function removeTeamMember(id: string): Promise<void> {
+  const { error } = await supabase.from("tenant_users").delete().eq("id", id).eq("role", "driver");
+
+  if (error) {
+    console.error("[team] Error removing team member:", error);
+    throw error;
+  }
+}
+
+// Whether an invite code can still be used; callable before signing up
+export async function checkInviteCode(code: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc("check_team_invite", { p_code: code.trim() });
+
+  if (error) {
+    console.error("[team] Error checking invite code:", error);
+    throw error;
+  }
+
+  return data === true;
+}
+
+// Signup link that fills in the invite code
+export function inviteLink(code: string): string {
+  if (Platform.OS === "web" && typeof window !== "undefined") {
+    return `${window.location.origin}/auth/signup?invite=${code}`;
+  }
+  return `triptracker://auth/signup?invite=${code}`;
+}
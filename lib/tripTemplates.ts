@@ -0,0 +1,197 @@
+import { supabase } from "./supabaseClient";
+import { StopType, UIStop } from "./trips";
+
+/**
+ * Trip templates for lanes that run again and again. A template is a trip's
+ * stops in order - type, company, address, saved location and notes - with
+ * each expected date kept as a number of days after the first dated stop.
+ * Starting a trip from a template lays those days out from a new start date.
+ */
+
+export interface TemplateStop {
+  type: StopType;
+  name: string;
+  address: string;
+  location_id: string | null;
+  notes: string;
+  expected_time: string; // HH:MM 24h, "" when not set
+  day_offset: number | null; // days after the first dated stop, null when undated
+}
+
+export interface TripTemplate {
+  id: string;
+  tenant_id: string;
+  name: string;
+  stops: TemplateStop[];
+  source_trip_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A template stop laid out on real dates, in the shape the new-trip screen edits
+export interface TemplateStopOnDate {
+  type: StopType;
+  company: string;
+  address: string;
+  locationId: string | null;
+  notes: string;
+  expectedDate: string; // e.g. "Feb 6, 2026", "" when undated
+  expectedTime: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Helper to get tenant_id from current user
+async function getTenantId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tenant_users")
+    .select("tenant_id")
+    .eq("user_id", session.user.id)
+    .single();
+
+  if (error || !data) {
+    console.error("[tripTemplates] Error fetching tenant_id:", error);
+    return null;
+  }
+
+  return data.tenant_id;
+}
+
+// "Feb 6, 2026" -> local midnight, or null for "", "TBD" and anything unreadable
+function parseStopDate(value: string): Date | null {
+  if (!value || value === "TBD") return null;
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) return null;
+  return new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate());
+}
+
+/**
+ * Turn a trip's stops into template stops, with dates as days after the
+ * first dated stop. Rounding keeps a daylight-saving change from shaving
+ * an hour off a day.
+ */
+export function templateStopsFromTrip(stops: UIStop[]): TemplateStop[] {
+  const dates = stops.map((s) => parseStopDate(s.expectedDate));
+  const first = dates.find((d) => d !== null) || null;
+
+  return stops.map((stop, i) => {
+    const date = dates[i];
+    return {
+      type: stop.type,
+      name: stop.company || "",
+      address: stop.address || "",
+      location_id: stop.locationId || null,
+      notes: stop.notes || "",
+      expected_time: stop.expectedTime || "",
+      day_offset: date && first ? Math.round((date.getTime() - first.getTime()) / DAY_MS) : null,
+    };
+  });
+}
+
+/**
+ * Lay a template's stops out from a start date: the first dated stop lands
+ * on startDate and the rest keep their spacing.
+ */
+export function templateStopsOn(template: TripTemplate, startDate: Date): TemplateStopOnDate[] {
+  return template.stops.map((stop) => {
+    let expectedDate = "";
+    if (stop.day_offset != null) {
+      const date = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + stop.day_offset);
+      expectedDate = date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+    }
+    return {
+      type: stop.type,
+      company: stop.name,
+      address: stop.address,
+      locationId: stop.location_id,
+      notes: stop.notes,
+      expectedDate,
+      expectedTime: stop.expected_time,
+    };
+  });
+}
+
+// Fetch all templates for current tenant
+export async function fetchTripTemplates(): Promise<TripTemplate[]> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { data, error } = await supabase
+    .from("trip_templates")
+    .select("*")
+    .eq("tenant_id", tenantId)
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("[tripTemplates] Error fetching templates:", error);
+    throw error;
+  }
+
+  return (data || []) as TripTemplate[];
+}
+
+// Save a trip's stops as a new template
+export async function saveTripTemplate(
+  name: string,
+  stops: UIStop[],
+  sourceTripId: string | null = null
+): Promise<TripTemplate> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Give the template a name.");
+  }
+  if (stops.length === 0) {
+    throw new Error("This trip has no stops to save.");
+  }
+
+  const { data, error } = await supabase
+    .from("trip_templates")
+    .insert({
+      tenant_id: tenantId,
+      name: trimmed,
+      stops: templateStopsFromTrip(stops),
+      source_trip_id: sourceTripId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new Error("There's already a template with that name.");
+    }
+    console.error("[tripTemplates] Error saving template:", error);
+    throw error;
+  }
+
+  return data as TripTemplate;
+}
+
+export async function deleteTripTemplate(id: string): Promise<void> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { error } = await supabase
+    .from("trip_templates")
+    .delete()
+    .eq("id", id)
+    .eq("tenant_id", tenantId);
+
+  if (error) {
+    console.error("[tripTemplates] Error deleting template:", error);
+    throw error;
+  }
+}
@@ -1,4 +1,17 @@
 import { supabase } from "./supabaseClient";
+import { computeChargeAmount, revenuePerMile, TripChargeInput } from "./revenue";
+import {
+  cachedQuery,
+  readCache,
+  writeCache,
+  isNetworkError,
+  newId,
+  writeOrQueue,
+  getPendingEntries,
+  applyPendingToRows,
+  registerReplayHook,
+  OutboxEntry,
+} from "./offline";
 
 // Types matching the database schema
 export type StopType = 
@@ -11,6 +24,31 @@ export type StopType =
 
 export type StopStatus = "pending" | "complete";
 
+// Trip lifecycle (see schema-trip-status.sql)
+export type TripStatus = "planned" | "active" | "completed" | "cancelled" | "invoiced";
+
+export const TRIP_STATUS_LABELS: Record<TripStatus, string> = {
+  planned: "Planned",
+  active: "In Progress",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  invoiced: "Invoiced",
+};
+
+// Allowed moves; keep in step with trip_status_allowed() in the database.
+// Completed trips can be reopened and invoiced ones voided back to completed.
+export const TRIP_STATUS_TRANSITIONS: Record<TripStatus, TripStatus[]> = {
+  planned: ["active", "cancelled"],
+  active: ["completed", "cancelled"],
+  completed: ["active", "invoiced"],
+  cancelled: ["planned"],
+  invoiced: ["completed"],
+};
+
+export function canChangeTripStatus(from: TripStatus, to: TripStatus): boolean {
+  return TRIP_STATUS_TRANSITIONS[from].includes(to);
+}
+
 export interface DatabaseStop {
   id: string;
   tenant_id: string;
@@ -31,6 +69,7 @@ export interface DatabaseStop {
   expected_date: string | null;
   expected_time: string | null;
   created_at: string;
+  updated_at: string | null;
 }
 
 export interface DatabaseTrip {
@@ -54,10 +93,26 @@ export interface DatabaseTrip {
   destination_city: string | null;
   destination_state: string | null;
   destination_zip: string | null;
+  revenue: number | null;
+  truck_id: string | null;
+  driver_id: string | null; // tenant_users.id
+  co_driver_id: string | null; // second driver on a team trip
+  status: TripStatus;
+  started_at: string | null;
+  completed_at: string | null;
+  cancelled_at: string | null;
+  invoiced_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Truck and drivers a trip is run with
+export interface TripAssignment {
+  truck_id: string | null;
+  driver_id: string | null;
+  co_driver_id: string | null;
+}
+
 // UI Stop type (from trip detail screen)
 export interface UIStop {
   id: string;
@@ -73,10 +128,36 @@ export interface UIStop {
   isLate: boolean;
   isCompleted: boolean;
   isCurrent: boolean;
-  mileageToNext: number | null;
+  mileageToNext: number | null; // Planned miles to the next stop
   locationId?: string | null; // Optional reference to saved location
 }
 
+export interface DatabaseLeg {
+  id: string;
+  tenant_id: string;
+  trip_id: string;
+  leg_order: number;
+  start_stop_id: string | null;
+  end_stop_id: string | null;
+  start_location_id: string | null;
+  start_name: string | null;
+  start_address1: string | null;
+  start_address2: string | null;
+  start_city: string | null;
+  start_state: string | null;
+  start_zip: string | null;
+  end_location_id: string | null;
+  end_name: string | null;
+  end_address1: string | null;
+  end_address2: string | null;
+  end_city: string | null;
+  end_state: string | null;
+  end_zip: string | null;
+  calculated_mileage: number | null; // Planned
+  actual_mileage: number | null; // From stop odometers
+  created_at: string;
+}
+
 // Helper to get tenant_id from current user
 async function getTenantId(): Promise<string | null> {
   const { data: { session } } = await supabase.auth.getSession();
@@ -90,11 +171,17 @@ async function getTenantId(): Promise<string | null> {
     .eq("user_id", session.user.id)
     .single();
 
+  if (error && isNetworkError(error)) {
+    // Offline - use the tenant from the last successful lookup
+    return readCache<string>("tenant_id");
+  }
+
   if (error || !data) {
     console.error("[trips] Error fetching tenant_id:", error);
     return null;
   }
 
+  writeCache("tenant_id", data.tenant_id);
   return data.tenant_id;
 }
 
@@ -167,7 +254,12 @@ function formatAddress(
 }
 
 // Convert database stop to UI stop
-function dbStopToUIStop(dbStop: DatabaseStop, index: number, allStops: DatabaseStop[]): UIStop {
+function dbStopToUIStop(
+  dbStop: DatabaseStop,
+  index: number,
+  allStops: DatabaseStop[],
+  plannedToNext: number | null = null
+): UIStop {
   const address = formatAddress(
     dbStop.address1,
     dbStop.city,
@@ -208,12 +300,8 @@ function dbStopToUIStop(dbStop: DatabaseStop, index: number, allStops: DatabaseS
     ? dbStop.odometer_reading.toLocaleString()
     : "";
 
-  // Calculate mileage to next stop
-  const nextStop = allStops[index + 1];
-  const mileageToNext =
-    nextStop && dbStop.odometer_reading && nextStop.odometer_reading
-      ? nextStop.odometer_reading - dbStop.odometer_reading
-      : null;
+  // Planned mileage to the next stop (driven miles come from odometers)
+  const mileageToNext = allStops[index + 1] ? plannedToNext : null;
 
   // Calculate if late (compare expected date+time with completed_at)
   let isLate = false;
@@ -324,28 +412,82 @@ export async function fetchTripStops(tripId: string): Promise<UIStop[]> {
     throw new Error("No tenant_id found. Please ensure you're logged in.");
   }
 
-  const { data, error } = await supabase
-    .from("stops")
-    .select("*")
-    .eq("trip_id", tripId)
-    .eq("tenant_id", tenantId)
-    .order("stop_order", { ascending: true });
+  const data = await fetchStopRows(tenantId, tripId);
 
-  if (error) {
-    console.error("[trips] Error fetching stops:", error);
-    throw error;
+  if (data.length === 0) {
+    return [];
   }
 
-  if (!data || data.length === 0) {
-    return [];
+  // Planned mileage lives on the leg starting at each stop; queued edits
+  // carry theirs until the legs are rebuilt
+  const legs = await fetchTripLegs(tripId);
+  const plannedByStart = new Map<string, number | null>();
+  for (const leg of legs) {
+    if (leg.start_stop_id) plannedByStart.set(leg.start_stop_id, leg.calculated_mileage);
+  }
+  for (const entry of await getPendingEntries("stops", tripId)) {
+    if (entry.meta && "plannedToNext" in entry.meta) {
+      plannedByStart.set(entry.match.id, entry.meta.plannedToNext ?? null);
+    }
   }
 
   // Convert to UI stops
   return data.map((dbStop, index) =>
-    dbStopToUIStop(dbStop as DatabaseStop, index, data as DatabaseStop[])
+    dbStopToUIStop(
+      dbStop as DatabaseStop,
+      index,
+      data as DatabaseStop[],
+      plannedByStart.get(dbStop.id) ?? null
+    )
   );
 }
 
+// Stop rows for a trip (cached for offline use) with queued edits applied
+async function fetchStopRows(tenantId: string, tripId: string): Promise<DatabaseStop[]> {
+  const rows = await cachedQuery(`stops:${tripId}`, async () => {
+    const { data, error } = await supabase
+      .from("stops")
+      .select("*")
+      .eq("trip_id", tripId)
+      .eq("tenant_id", tenantId)
+      .order("stop_order", { ascending: true });
+
+    if (error) {
+      console.error("[trips] Error fetching stops:", error);
+      throw error;
+    }
+
+    return (data || []) as DatabaseStop[];
+  });
+
+  const pending = await getPendingEntries("stops", tripId);
+  return applyPendingToRows(rows, pending).sort((a, b) => a.stop_order - b.stop_order);
+}
+
+// Fetch the legs for a trip, in order
+export async function fetchTripLegs(tripId: string): Promise<DatabaseLeg[]> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  return cachedQuery(`legs:${tripId}`, async () => {
+    const { data, error } = await supabase
+      .from("legs")
+      .select("*")
+      .eq("trip_id", tripId)
+      .eq("tenant_id", tenantId)
+      .order("leg_order", { ascending: true });
+
+    if (error) {
+      console.error("[trips] Error fetching legs:", error);
+      throw error;
+    }
+
+    return (data || []) as DatabaseLeg[];
+  });
+}
+
 // Trip list item for the trips screen
 export interface TripListItem {
   id: string;
@@ -355,36 +497,124 @@ export interface TripListItem {
   destination: string;
   stops: number;
   completed: number;
-  status: "In Progress" | "Completed";
+  status: TripStatus;
+  revenue: number;
+  mileage: number | null;
+  revenuePerMile: number | null;
+  truckId: string | null;
+  truckNumber: string | null;
+  driverIds: string[];
+}
+
+// Trip mileage from stop odometers: sum of forward differences between
+// consecutive stops that both have a reading
+export function computeOdometerMileage(readings: (number | null)[]): number {
+  let total = 0;
+  for (let i = 0; i < readings.length - 1; i++) {
+    const cur = readings[i];
+    const next = readings[i + 1];
+    if (cur != null && next != null && next > cur) {
+      total += next - cur;
+    }
+  }
+  return total;
 }
 
-// Fetch all trips for the current tenant (for trips list)
-export async function fetchAllTrips(): Promise<TripListItem[]> {
+export type TripSort = "date_desc" | "date_asc" | "revenue_desc" | "reference_asc";
+
+export const TRIP_SORT_LABELS: Record<TripSort, string> = {
+  date_desc: "Newest",
+  date_asc: "Oldest",
+  revenue_desc: "Revenue",
+  reference_asc: "Trip #",
+};
+
+export const TRIP_PAGE_SIZE = 25;
+
+// Search, filters and page for the trips list (search_trips in schema-trip-search.sql)
+export interface TripListQuery {
+  search?: string; // trip number, or a stop's company or city
+  dateFrom?: string | null; // YYYY-MM-DD, inclusive
+  dateTo?: string | null; // YYYY-MM-DD, inclusive
+  status?: TripStatus | null;
+  truckId?: string | null;
+  driverId?: string | null; // driver or co-driver
+  stopType?: StopType | null; // has at least one stop of this type
+  sort?: TripSort;
+  offset?: number;
+  limit?: number;
+}
+
+export interface TripListPage {
+  trips: TripListItem[];
+  total: number; // trips matching the query, across all pages
+}
+
+// True when a query is the plain first page, the one kept for offline use
+function isDefaultTripQuery(query: TripListQuery): boolean {
+  return (
+    !query.search?.trim() &&
+    !query.dateFrom &&
+    !query.dateTo &&
+    !query.status &&
+    !query.truckId &&
+    !query.driverId &&
+    !query.stopType &&
+    (query.sort || "date_desc") === "date_desc" &&
+    !query.offset
+  );
+}
+
+/**
+ * Fetch one page of trips for the trips list. Searching, filtering and
+ * sorting happen in the database, so only the page's trips and their stops
+ * are loaded. The unfiltered first page is served offline from the last
+ * copy.
+ */
+export async function fetchAllTrips(query: TripListQuery = {}): Promise<TripListPage> {
+  if (isDefaultTripQuery(query)) {
+    // Not "trips:list": that key holds the old unpaged array on devices that had it
+    return cachedQuery("trips:page", () => queryTripPage(query));
+  }
+  return queryTripPage(query);
+}
+
+async function queryTripPage(query: TripListQuery): Promise<TripListPage> {
   const tenantId = await getTenantId();
   if (!tenantId) {
     throw new Error("No tenant_id found. Please ensure you're logged in.");
   }
 
-  const { data: trips, error: tripsError } = await supabase
-    .from("trips")
-    .select("id, trip_reference, date, origin_name, destination_name")
-    .eq("tenant_id", tenantId)
-    .order("date", { ascending: false })
-    .order("created_at", { ascending: false });
+  const { data, error: tripsError } = await supabase.rpc("search_trips", {
+    p_search: query.search?.trim() || null,
+    p_date_from: query.dateFrom || null,
+    p_date_to: query.dateTo || null,
+    p_status: query.status || null,
+    p_truck_id: query.truckId || null,
+    p_driver_id: query.driverId || null,
+    p_stop_type: query.stopType || null,
+    p_sort: query.sort || "date_desc",
+    p_limit: query.limit || TRIP_PAGE_SIZE,
+    p_offset: query.offset || 0,
+  });
 
   if (tripsError) {
     console.error("[trips] Error fetching trips:", tripsError);
     throw tripsError;
   }
 
-  if (!trips || trips.length === 0) {
-    return [];
+  const page = data as { total: number; trips: (DatabaseTrip & { truck_number: string | null })[] };
+  const trips = page?.trips || [];
+  const total = Number(page?.total) || 0;
+
+  if (trips.length === 0) {
+    return { trips: [], total };
   }
 
-  // Fetch stops for all trips to get counts and origin/destination from first/last stop
+  // Fetch stops for the page's trips to get counts and origin/destination from first/last stop
   const { data: stops, error: stopsError } = await supabase
     .from("stops")
-    .select("trip_id, stop_order, name, status")
+    .select("trip_id, stop_order, name, status, odometer_reading")
     .eq("tenant_id", tenantId)
     .in("trip_id", trips.map((t) => t.id))
     .order("stop_order", { ascending: true });
@@ -394,14 +624,18 @@ export async function fetchAllTrips(): Promise<TripListItem[]> {
   }
 
   // Group stops by trip_id
-  const stopsByTrip = new Map<string, { name: string; status: string }[]>();
+  const stopsByTrip = new Map<string, { name: string; status: string; odometer: number | null }[]>();
   for (const stop of stops || []) {
     const list = stopsByTrip.get(stop.trip_id) || [];
-    list.push({ name: stop.name || "—", status: stop.status || "pending" });
+    list.push({
+      name: stop.name || "—",
+      status: stop.status || "pending",
+      odometer: stop.odometer_reading != null ? Number(stop.odometer_reading) : null,
+    });
     stopsByTrip.set(stop.trip_id, list);
   }
 
-  return trips.map((trip) => {
+  const items = trips.map((trip): TripListItem => {
     const tripStops = stopsByTrip.get(trip.id) || [];
     const completed = tripStops.filter((s) => s.status === "complete").length;
     const origin =
@@ -418,6 +652,11 @@ export async function fetchAllTrips(): Promise<TripListItem[]> {
         })
       : "—";
 
+    // Driven miles from odometers, else the planned mileage
+    const odometerMiles = computeOdometerMileage(tripStops.map((s) => s.odometer));
+    const mileage = odometerMiles > 0 ? odometerMiles : Number(trip.expected_mileage) || null;
+    const revenue = Number(trip.revenue) || 0;
+
     return {
       id: trip.id,
       tripReference: trip.trip_reference || trip.id,
@@ -426,12 +665,17 @@ export async function fetchAllTrips(): Promise<TripListItem[]> {
       destination,
       stops: tripStops.length,
       completed,
-      status:
-        completed === tripStops.length && tripStops.length > 0
-          ? "Completed"
-          : "In Progress",
+      status: (trip.status || "planned") as TripStatus,
+      revenue,
+      mileage,
+      revenuePerMile: revenuePerMile(revenue, mileage),
+      truckId: trip.truck_id,
+      truckNumber: trip.truck_number ?? null,
+      driverIds: [trip.driver_id, trip.co_driver_id].filter((d): d is string => !!d),
     };
   });
+
+  return { trips: items, total };
 }
 
 // Fetch a single trip
@@ -441,23 +685,25 @@ export async function fetchTrip(tripId: string): Promise<DatabaseTrip | null> {
     throw new Error("No tenant_id found. Please ensure you're logged in.");
   }
 
-  const { data, error } = await supabase
-    .from("trips")
-    .select("*")
-    .eq("id", tripId)
-    .eq("tenant_id", tenantId)
-    .single();
+  return cachedQuery(`trip:${tripId}`, async () => {
+    const { data, error } = await supabase
+      .from("trips")
+      .select("*")
+      .eq("id", tripId)
+      .eq("tenant_id", tenantId)
+      .single();
 
-  if (error) {
-    if (error.code === "PGRST116") {
-      // Not found
-      return null;
+    if (error) {
+      if (error.code === "PGRST116") {
+        // Not found
+        return null;
+      }
+      console.error("[trips] Error fetching trip:", error);
+      throw error;
     }
-    console.error("[trips] Error fetching trip:", error);
-    throw error;
-  }
 
-  return data as DatabaseTrip;
+    return data as DatabaseTrip;
+  });
 }
 
 // Create or get trip (ensures trip exists)
@@ -497,7 +743,10 @@ export async function ensureTrip(
 }
 
 // Create a brand new trip (database generates UUID, uses tripReference for display)
-export async function createNewTrip(tripReference: string): Promise<DatabaseTrip> {
+export async function createNewTrip(
+  tripReference: string,
+  assignment?: TripAssignment
+): Promise<DatabaseTrip> {
   const tenantId = await getTenantId();
   if (!tenantId) {
     throw new Error("No tenant_id found. Please ensure you're logged in.");
@@ -509,6 +758,7 @@ export async function createNewTrip(tripReference: string): Promise<DatabaseTrip
       tenant_id: tenantId,
       trip_reference: tripReference.trim(),
       date: new Date().toISOString().split("T")[0],
+      ...normalizeAssignment(assignment),
     })
     .select()
     .single();
@@ -521,12 +771,263 @@ export async function createNewTrip(tripReference: string): Promise<DatabaseTrip
   return data as DatabaseTrip;
 }
 
-// Save a stop (insert or update)
+export interface NewTripInput {
+  tripReference?: string | null; // taken from the trip sequence when empty
+  assignment?: TripAssignment;
+  stops: UIStop[];
+  charges?: TripChargeInput[];
+}
+
+export interface CreatedTrip {
+  trip: DatabaseTrip;
+  stops: DatabaseStop[];
+  legs: DatabaseLeg[];
+}
+
+/**
+ * Create a trip with its stops, legs and charge lines in one database
+ * transaction (create_trip in schema-create-trip.sql): if anything fails,
+ * nothing is saved and the trip number isn't used up. Needs a connection.
+ */
+export async function createTripWithStops(input: NewTripInput): Promise<CreatedTrip> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+  if (input.stops.length === 0) {
+    throw new Error("Add at least one stop.");
+  }
+
+  const stops = input.stops.map((uiStop, i) => {
+    const { tenant_id, trip_id, stop_order, status, completed_at, odometer_reading, ...fields } = uiStopToDBStop(
+      uiStop,
+      tenantId,
+      "",
+      i
+    );
+    return { ...fields, mileage_to_next: uiStop.mileageToNext };
+  });
+  const charges = (input.charges || []).map((line) => ({
+    ...line,
+    amount: computeChargeAmount(line, 0),
+  }));
+
+  const { data, error } = await supabase.rpc("create_trip", {
+    p_trip: {
+      trip_reference: input.tripReference?.trim() || null,
+      date: new Date().toISOString().split("T")[0],
+      ...normalizeAssignment(input.assignment),
+    },
+    p_stops: stops,
+    p_charges: charges,
+  });
+
+  if (error) {
+    console.error("[trips] Error creating trip:", error);
+    throw error;
+  }
+
+  const created = data as CreatedTrip;
+  // Seed the offline copies so the trip opens without another round trip
+  await Promise.all([
+    writeCache(`trip:${created.trip.id}`, created.trip),
+    writeCache(`stops:${created.trip.id}`, created.stops),
+    writeCache(`legs:${created.trip.id}`, created.legs),
+  ]);
+  return created;
+}
+
+// A return trip picks up where the original delivered and the other way round
+const RETURN_STOP_TYPES: Partial<Record<StopType, StopType>> = {
+  pickup: "delivery",
+  delivery: "pickup",
+};
+
+/**
+ * Stops for a copy of a trip: fresh IDs, nothing completed and no expected
+ * dates (the originals have usually passed). For a return trip the stops
+ * run backwards with pickups and deliveries swapped, while an empty start
+ * stays first and a reposition stays last; its leg mileage is left for the
+ * route estimate since the legs no longer line up.
+ */
+export function copyTripStops(stops: UIStop[], reverse = false): UIStop[] {
+  let ordered = stops;
+  if (reverse) {
+    const head = stops.length > 0 && stops[0].type === "empty_start" ? [stops[0]] : [];
+    const tail =
+      stops.length > head.length && stops[stops.length - 1].type === "reposition" ? [stops[stops.length - 1]] : [];
+    const middle = stops
+      .slice(head.length, stops.length - tail.length)
+      .reverse()
+      .map((s) => ({ ...s, type: RETURN_STOP_TYPES[s.type] || s.type }));
+    ordered = [...head, ...middle, ...tail];
+  }
+
+  return ordered.map((s, i) => ({
+    ...s,
+    id: newId(),
+    expectedDate: "",
+    actualDate: "",
+    actualTime: "",
+    odometer: "",
+    isLate: false,
+    isCompleted: false,
+    isCurrent: i === 0,
+    mileageToNext: reverse ? null : s.mileageToNext,
+  }));
+}
+
+/**
+ * Create a new trip with a copy of another trip's stops and assignment,
+ * reversed for a return trip (see copyTripStops). Charges aren't copied;
+ * the new load gets its own.
+ */
+export async function duplicateTrip(tripId: string, reverse = false): Promise<CreatedTrip> {
+  const [trip, stops] = await Promise.all([fetchTrip(tripId), fetchTripStops(tripId)]);
+  if (!trip) {
+    throw new Error("Trip not found.");
+  }
+
+  // No trip reference: create_trip takes the next trip number in the same
+  // transaction, so it's only used up if the trip is saved
+  return createTripWithStops({
+    assignment: { truck_id: trip.truck_id, driver_id: trip.driver_id, co_driver_id: trip.co_driver_id },
+    stops: copyTripStops(stops, reverse),
+  });
+}
+
+// One driver is the main driver; a co-driver without one moves up, and the same person can't be both
+function normalizeAssignment(assignment?: TripAssignment): Partial<TripAssignment> {
+  if (!assignment) return {};
+  const driverId = assignment.driver_id || assignment.co_driver_id || null;
+  const coDriverId = assignment.driver_id && assignment.co_driver_id !== assignment.driver_id ? assignment.co_driver_id : null;
+  return { truck_id: assignment.truck_id || null, driver_id: driverId, co_driver_id: coDriverId };
+}
+
+// Trucks a trip can be assigned to (trailers aren't driven), cached for offline use
+export async function fetchAssignableTrucks(): Promise<{ id: string; truck_number: string }[]> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  return cachedQuery("trucks:assignable", async () => {
+    const { data, error } = await supabase
+      .from("trucks")
+      .select("id, truck_number, asset_type")
+      .eq("tenant_id", tenantId)
+      .order("truck_number");
+
+    if (error) {
+      console.error("[trips] Error fetching trucks:", error);
+      throw error;
+    }
+
+    return (data || [])
+      .filter((t) => (t.asset_type || "truck") === "truck")
+      .map((t) => ({ id: t.id, truck_number: t.truck_number }));
+  });
+}
+
+// Assign a trip's truck and drivers; queued when offline
+export async function updateTripAssignment(tripId: string, assignment: TripAssignment): Promise<void> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const existing = await fetchTrip(tripId);
+  const values = normalizeAssignment(assignment);
+
+  let queued: boolean;
+  try {
+    queued = await writeOrQueue({
+      table: "trips",
+      op: "update",
+      values,
+      match: { id: tripId, tenant_id: tenantId },
+      base: existing ? { ...existing } : null,
+      tripId,
+    });
+  } catch (error) {
+    console.error("[trips] Error updating trip assignment:", error);
+    throw error;
+  }
+
+  // Keep the offline copy in step so the trip shows its new assignment
+  if (queued && existing) {
+    await writeCache(`trip:${tripId}`, { ...existing, ...values });
+  }
+}
+
+// Columns to write when a trip moves to a new status
+function statusChangeValues(trip: DatabaseTrip, to: TripStatus): Partial<DatabaseTrip> {
+  const now = new Date().toISOString();
+  switch (to) {
+    case "active":
+      // Reopening a completed trip keeps its original start
+      return { status: to, started_at: trip.started_at || now, completed_at: null };
+    case "completed":
+      return { status: to, completed_at: trip.status === "invoiced" ? trip.completed_at : now, invoiced_at: null };
+    case "cancelled":
+      return { status: to, cancelled_at: now };
+    case "planned":
+      return { status: to, cancelled_at: null };
+    case "invoiced":
+      return { status: to, invoiced_at: now };
+  }
+}
+
+/**
+ * Move a trip to a new status, stamping the matching timestamp. Throws when
+ * the move isn't allowed from the trip's current status. Queued when offline.
+ */
+export async function updateTripStatus(tripId: string, to: TripStatus): Promise<DatabaseTrip> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const existing = await fetchTrip(tripId);
+  if (!existing) {
+    throw new Error("Trip not found.");
+  }
+  const from = existing.status || "planned";
+  if (from === to) return existing;
+  if (!canChangeTripStatus(from, to)) {
+    throw new Error(
+      `A ${TRIP_STATUS_LABELS[from].toLowerCase()} trip can't be marked ${TRIP_STATUS_LABELS[to].toLowerCase()}.`
+    );
+  }
+
+  const values = { ...statusChangeValues(existing, to), updated_at: new Date().toISOString() };
+
+  try {
+    await writeOrQueue({
+      table: "trips",
+      op: "update",
+      values,
+      match: { id: tripId, tenant_id: tenantId },
+      base: { ...existing },
+      tripId,
+    });
+  } catch (error) {
+    console.error("[trips] Error updating trip status:", error);
+    throw error;
+  }
+
+  // Keep the offline copy in step either way; the list picks it up on its next fetch
+  const updated = { ...existing, ...values } as DatabaseTrip;
+  await writeCache(`trip:${tripId}`, updated);
+  return updated;
+}
+
+// Save a stop (insert or update). Returns the stored stop id.
 export async function saveStop(
   tripId: string,
   uiStop: UIStop,
   stopOrder: number
-): Promise<void> {
+): Promise<string> {
   const tenantId = await getTenantId();
   if (!tenantId) {
     throw new Error("No tenant_id found. Please ensure you're logged in.");
@@ -534,62 +1035,92 @@ export async function saveStop(
 
   const dbStop = uiStopToDBStop(uiStop, tenantId, tripId, stopOrder);
 
-  // Check if stop exists (only if id looks like a UUID)
+  // Check if stop exists (only if id looks like a UUID). The row doubles as
+  // the base for conflict checks if the write ends up queued.
   const isValidUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(uiStop.id);
-  let existing = null;
+  let existing: DatabaseStop | null = null;
   if (isValidUuid) {
     const result = await supabase
       .from("stops")
-      .select("id")
+      .select("*")
       .eq("id", uiStop.id)
       .eq("tenant_id", tenantId)
       .single();
     existing = result.data;
+    if (result.error && isNetworkError(result.error)) {
+      // Offline - look in the cached/queued rows instead
+      const rows = await fetchStopRows(tenantId, tripId);
+      existing = rows.find((r) => r.id === uiStop.id) || null;
+    }
   }
 
+  const planned = uiStop.mileageToNext != null && uiStop.mileageToNext > 0 ? uiStop.mileageToNext : null;
+  let stopId = uiStop.id;
+  let queued: boolean;
   if (existing) {
     // Update existing
-    const { error } = await supabase
-      .from("stops")
-      .update(dbStop)
-      .eq("id", uiStop.id)
-      .eq("tenant_id", tenantId);
-
-    if (error) {
+    try {
+      queued = await writeOrQueue({
+        table: "stops",
+        op: "update",
+        values: dbStop,
+        match: { id: uiStop.id, tenant_id: tenantId },
+        base: { ...existing },
+        tripId,
+        meta: { plannedToNext: planned },
+      });
+    } catch (error) {
       console.error("[trips] Error updating stop:", error);
       throw error;
     }
   } else {
-    // Insert new - let DB generate UUID
-    const { error } = await supabase.from("stops").insert({
-      ...dbStop,
-      // Omit id to let database generate UUID
-    } as any);
-
-    if (error) {
+    // Insert new - id is generated here so the insert can be queued offline
+    stopId = newId();
+    try {
+      queued = await writeOrQueue({
+        table: "stops",
+        op: "insert",
+        values: { ...dbStop, id: stopId },
+        match: { id: stopId },
+        tripId,
+        meta: { plannedToNext: planned },
+      });
+    } catch (error) {
       console.error("[trips] Error inserting stop:", error);
       throw error;
     }
   }
+
+  // Queued edits rebuild their legs when they replay
+  if (!queued) {
+    await syncTripLegs(tenantId, tripId, new Map([[stopId, planned]]));
+  }
+  return stopId;
 }
 
-// Delete a stop
-export async function deleteStop(stopId: string): Promise<void> {
+// Delete a stop. Pass the trip id so its legs are rebuilt.
+export async function deleteStop(stopId: string, tripId?: string): Promise<void> {
   const tenantId = await getTenantId();
   if (!tenantId) {
     throw new Error("No tenant_id found. Please ensure you're logged in.");
   }
 
-  const { error } = await supabase
-    .from("stops")
-    .delete()
-    .eq("id", stopId)
-    .eq("tenant_id", tenantId);
-
-  if (error) {
+  let queued: boolean;
+  try {
+    queued = await writeOrQueue({
+      table: "stops",
+      op: "delete",
+      match: { id: stopId, tenant_id: tenantId },
+      tripId,
+    });
+  } catch (error) {
     console.error("[trips] Error deleting stop:", error);
     throw error;
   }
+
+  if (tripId && !queued) {
+    await syncTripLegs(tenantId, tripId);
+  }
 }
 
 // Reorder stops (update stop_order for all stops)
@@ -602,42 +1133,189 @@ export async function reorderStops(
     throw new Error("No tenant_id found. Please ensure you're logged in.");
   }
 
-  // Update each stop's order
-  const updates = stopIds.map((stopId, index) =>
-    supabase
-      .from("stops")
-      .update({ stop_order: index })
-      .eq("id", stopId)
-      .eq("tenant_id", tenantId)
-      .eq("trip_id", tripId)
-  );
+  // Update each stop's order (one at a time so queued updates keep their order)
+  let queued = false;
+  try {
+    for (let index = 0; index < stopIds.length; index++) {
+      const wasQueued = await writeOrQueue({
+        table: "stops",
+        op: "update",
+        values: { stop_order: index },
+        match: { id: stopIds[index], tenant_id: tenantId, trip_id: tripId },
+        tripId,
+      });
+      queued = queued || wasQueued;
+    }
+  } catch (error) {
+    console.error("[trips] Error reordering stops:", error);
+    throw error;
+  }
 
-  const results = await Promise.all(updates);
-  const errors = results.filter((r) => r.error);
-  if (errors.length > 0) {
-    console.error("[trips] Error reordering stops:", errors);
-    throw errors[0].error;
+  if (!queued) {
+    await syncTripLegs(tenantId, tripId);
   }
 }
 
-// Complete a stop
-export async function completeStop(stopId: string): Promise<void> {
+// Complete a stop. Completing a stop on a planned trip starts the trip.
+export async function completeStop(stopId: string, tripId?: string): Promise<void> {
   const tenantId = await getTenantId();
   if (!tenantId) {
     throw new Error("No tenant_id found. Please ensure you're logged in.");
   }
 
-  const { error } = await supabase
-    .from("stops")
+  try {
+    await writeOrQueue({
+      table: "stops",
+      op: "update",
+      values: {
+        status: "complete",
+        completed_at: new Date().toISOString(),
+      },
+      match: { id: stopId, tenant_id: tenantId },
+      tripId,
+    });
+  } catch (error) {
+    console.error("[trips] Error completing stop:", error);
+    throw error;
+  }
+
+  if (tripId) {
+    const trip = await fetchTrip(tripId);
+    if (trip && (trip.status || "planned") === "planned") {
+      await updateTripStatus(tripId, "active");
+    }
+  }
+}
+
+// Rebuild legs for trips whose stop edits were just replayed from the outbox
+registerReplayHook(async (entries: OutboxEntry[]) => {
+  const tenantId = await getTenantId();
+  if (!tenantId) return;
+
+  const plannedByTrip = new Map<string, Map<string, number | null>>();
+  for (const entry of entries) {
+    if (entry.table !== "stops" || !entry.tripId) continue;
+    const planned = plannedByTrip.get(entry.tripId) || new Map<string, number | null>();
+    if (entry.meta && "plannedToNext" in entry.meta) {
+      planned.set(entry.match.id, entry.meta.plannedToNext ?? null);
+    }
+    plannedByTrip.set(entry.tripId, planned);
+  }
+
+  for (const [tripId, planned] of plannedByTrip) {
+    await syncTripLegs(tenantId, tripId, planned);
+  }
+});
+
+function legKey(startStopId: string | null, endStopId: string | null): string {
+  return `${startStopId}>${endStopId}`;
+}
+
+/**
+ * Rebuild a trip's legs from its ordered stops. Each leg keeps the planned
+ * mileage it had for the same pair of stops (or takes the one passed in
+ * plannedByStart, keyed by the leg's start stop); the actual mileage is the
+ * odometer difference when both stops have a reading. Also stores the summed
+ * actual mileage on the trip.
+ */
+async function syncTripLegs(
+  tenantId: string,
+  tripId: string,
+  plannedByStart: Map<string, number | null> = new Map()
+): Promise<void> {
+  const [stopsRes, legsRes] = await Promise.all([
+    supabase
+      .from("stops")
+      .select("*")
+      .eq("trip_id", tripId)
+      .eq("tenant_id", tenantId)
+      .order("stop_order", { ascending: true }),
+    supabase
+      .from("legs")
+      .select("start_stop_id, end_stop_id, calculated_mileage")
+      .eq("trip_id", tripId)
+      .eq("tenant_id", tenantId),
+  ]);
+
+  if (stopsRes.error || legsRes.error) {
+    console.error("[trips] Error loading stops/legs for sync:", stopsRes.error || legsRes.error);
+    throw stopsRes.error || legsRes.error;
+  }
+
+  const stops = (stopsRes.data || []) as DatabaseStop[];
+  const previousPlanned = new Map<string, number | null>();
+  for (const leg of legsRes.data || []) {
+    previousPlanned.set(legKey(leg.start_stop_id, leg.end_stop_id), leg.calculated_mileage);
+  }
+
+  const rows = stops.slice(0, -1).map((start, i) => {
+    const end = stops[i + 1];
+    const startOdo = start.odometer_reading != null ? Number(start.odometer_reading) : null;
+    const endOdo = end.odometer_reading != null ? Number(end.odometer_reading) : null;
+    const planned = plannedByStart.has(start.id)
+      ? plannedByStart.get(start.id) ?? null
+      : previousPlanned.get(legKey(start.id, end.id)) ?? null;
+
+    return {
+      tenant_id: tenantId,
+      trip_id: tripId,
+      leg_order: i,
+      start_stop_id: start.id,
+      end_stop_id: end.id,
+      start_location_id: start.location_id,
+      start_name: start.name,
+      start_address1: start.address1,
+      start_address2: start.address2,
+      start_city: start.city,
+      start_state: start.state,
+      start_zip: start.zip_code,
+      end_location_id: end.location_id,
+      end_name: end.name,
+      end_address1: end.address1,
+      end_address2: end.address2,
+      end_city: end.city,
+      end_state: end.state,
+      end_zip: end.zip_code,
+      calculated_mileage: planned,
+      actual_mileage: startOdo != null && endOdo != null && endOdo > startOdo ? endOdo - startOdo : null,
+    };
+  });
+
+  // Overwrite legs in place by position (unique on trip_id, leg_order in
+  // schema-legs-update.sql), then drop the ones past the last stop, so a
+  // failed write never leaves the trip without its legs
+  if (rows.length > 0) {
+    const { error } = await supabase.from("legs").upsert(rows, { onConflict: "trip_id,leg_order" });
+    if (error) {
+      console.error("[trips] Error saving legs:", error);
+      throw error;
+    }
+  }
+
+  const { error: deleteError } = await supabase
+    .from("legs")
+    .delete()
+    .eq("trip_id", tripId)
+    .eq("tenant_id", tenantId)
+    .gte("leg_order", rows.length);
+
+  if (deleteError) {
+    console.error("[trips] Error clearing extra legs:", deleteError);
+    throw deleteError;
+  }
+
+  const actuals = rows.map((r) => r.actual_mileage).filter((m): m is number => m != null);
+  const { error: tripError } = await supabase
+    .from("trips")
     .update({
-      status: "complete",
-      completed_at: new Date().toISOString(),
+      actual_mileage: actuals.length > 0 ? actuals.reduce((a, b) => a + b, 0) : null,
+      updated_at: new Date().toISOString(),
     })
-    .eq("id", stopId)
+    .eq("id", tripId)
     .eq("tenant_id", tenantId);
 
-  if (error) {
-    console.error("[trips] Error completing stop:", error);
-    throw error;
+  if (tripError) {
+    console.error("[trips] Error updating trip mileage:", tripError);
+    throw tripError;
   }
 }
@@ -0,0 +1,305 @@
+import { supabase } from "./supabaseClient";
+import { fetchMonthlyMilesByTruck } from "./odometer";
+
+/**
+ * Truck cost of ownership. Owned trucks are amortized straight-line from the
+ * purchase date over the amortization period down to the residual value;
+ * leased trucks cost the monthly lease payment from the lease start until
+ * the end of the term, when the buyoff is due.
+ */
+
+// Used when a truck has too little odometer history to measure
+export const DEFAULT_MONTHLY_MILES = 10000;
+
+// How far ahead the end of amortization or a lease buyoff is flagged
+export const OWNERSHIP_ALERT_DAYS = 90;
+
+export interface TruckCostFields {
+  id: string;
+  truck_number: string;
+  asset_type: string | null;
+  ownership_type: "owned" | "leased";
+  purchase_date: string | null;
+  purchase_price: number | null;
+  amortization_period: number | null; // months
+  residual_value: number | null;
+  lease_start_date: string | null;
+  lease_monthly_rate: number | null;
+  lease_years: number | null;
+  lease_buyoff: number | null;
+}
+
+export interface OwnershipRate {
+  truckId: string;
+  truckNumber: string;
+  monthlyCost: number;
+  milesPerMonth: number;
+  milesMeasured: boolean; // false when DEFAULT_MONTHLY_MILES was assumed
+  perMile: number;
+}
+
+export interface OwnershipTerm {
+  start: string | null; // purchase or lease start date
+  end: string | null; // end of amortization or lease buyoff date
+  months: number;
+  elapsed: number; // whole months since start (0 without a start date)
+}
+
+export interface ScheduleRow {
+  month: number; // 1-based
+  date: string | null; // end of the month period
+  amount: number; // depreciation or lease payment
+  cumulative: number;
+  // Owned: book value after this month. Leased: payments still owed (buyoff not included).
+  balance: number;
+}
+
+export type OwnershipAlertKind = "amortization_end" | "lease_buyoff";
+
+export interface OwnershipAlert {
+  truckId: string;
+  truckNumber: string;
+  kind: OwnershipAlertKind;
+  date: string;
+  daysLeft: number;
+  amount: number | null; // buyoff amount for leases
+}
+
+export interface TruckCostSummary {
+  truck: TruckCostFields;
+  term: OwnershipTerm | null;
+  monthlyCost: number | null; // current monthly cost; 0 once the term is over
+  milesPerMonth: number | null; // measured from odometer history
+  perMile: number | null;
+  balance: number | null; // book value or lease payments left
+  alert: OwnershipAlert | null;
+}
+
+const COST_COLUMNS =
+  "id, truck_number, asset_type, ownership_type, purchase_date, purchase_price, amortization_period, residual_value, " +
+  "lease_start_date, lease_monthly_rate, lease_years, lease_buyoff";
+
+// Helper to get tenant_id from current user
+async function getTenantId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tenant_users")
+    .select("tenant_id")
+    .eq("user_id", session.user.id)
+    .single();
+
+  if (error || !data) {
+    console.error("[truckCosts] Error fetching tenant_id:", error);
+    return null;
+  }
+
+  return data.tenant_id;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  const ms = new Date(to + "T12:00:00").getTime() - new Date(from + "T12:00:00").getTime();
+  return Math.round(ms / 86400000);
+}
+
+// Same day n months later, clamped to the end of shorter months (Jan 31 + 1 = Feb 28)
+export function addMonths(date: string, n: number): string {
+  const [y, m, d] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + n, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d, lastDay));
+  return target.toISOString().split("T")[0];
+}
+
+function monthsBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const [ty, tm, td] = to.split("-").map(Number);
+  const months = (ty - fy) * 12 + (tm - fm) - (td < fd ? 1 : 0);
+  return Math.max(0, months);
+}
+
+/**
+ * Monthly ownership cost of a truck: straight-line amortization of
+ * (price − residual) for owned trucks, the lease payment for leased ones.
+ * Null when the truck's cost details aren't filled in.
+ */
+export function truckMonthlyCost(truck: TruckCostFields): number | null {
+  if (truck.ownership_type === "leased") {
+    const lease = Number(truck.lease_monthly_rate);
+    return lease > 0 ? round2(lease) : null;
+  }
+  const price = Number(truck.purchase_price);
+  const months = Number(truck.amortization_period);
+  if (!(price > 0) || !(months > 0)) return null;
+  const depreciable = price - (Number(truck.residual_value) || 0);
+  return depreciable > 0 ? round2(depreciable / months) : null;
+}
+
+// Amortization period or lease term; null when its length isn't set
+export function ownershipTerm(truck: TruckCostFields, asOf: string = today()): OwnershipTerm | null {
+  const leased = truck.ownership_type === "leased";
+  const months = Math.round(leased ? Number(truck.lease_years) * 12 : Number(truck.amortization_period));
+  if (!(months > 0)) return null;
+  const start = (leased ? truck.lease_start_date : truck.purchase_date) || null;
+  return {
+    start,
+    end: start ? addMonths(start, months) : null,
+    months,
+    elapsed: start ? Math.min(months, monthsBetween(start, asOf)) : 0,
+  };
+}
+
+// Monthly cost on a date: nothing is owed before the purchase or lease start,
+// or once the truck is paid off or the lease has run out
+export function monthlyCostOn(truck: TruckCostFields, asOf: string = today()): number | null {
+  const cost = truckMonthlyCost(truck);
+  if (cost == null) return null;
+  const term = ownershipTerm(truck, asOf);
+  if (term?.start && asOf < term.start) return 0;
+  return term?.end && asOf >= term.end ? 0 : cost;
+}
+
+/**
+ * Month-by-month schedule over the term: depreciation and book value for
+ * owned trucks, lease payments and what is still owed for leased ones.
+ * The last month absorbs rounding so an owned truck ends at its residual.
+ */
+export function buildOwnershipSchedule(truck: TruckCostFields): ScheduleRow[] {
+  const term = ownershipTerm(truck);
+  const monthly = truckMonthlyCost(truck);
+  if (!term || monthly == null) return [];
+
+  const leased = truck.ownership_type === "leased";
+  const price = Number(truck.purchase_price) || 0;
+  const residual = Number(truck.residual_value) || 0;
+  const total = leased ? round2(monthly * term.months) : round2(price - residual);
+
+  const rows: ScheduleRow[] = [];
+  let cumulative = 0;
+  for (let month = 1; month <= term.months; month++) {
+    const amount = month === term.months ? round2(total - cumulative) : monthly;
+    cumulative = round2(cumulative + amount);
+    rows.push({
+      month,
+      date: term.start ? addMonths(term.start, month) : null,
+      amount,
+      cumulative,
+      balance: leased ? round2(total - cumulative) : round2(price - cumulative),
+    });
+  }
+  return rows;
+}
+
+// Book value (owned) or remaining lease payments (leased) as of a date
+export function balanceOn(truck: TruckCostFields, asOf: string = today()): number | null {
+  const term = ownershipTerm(truck, asOf);
+  const schedule = buildOwnershipSchedule(truck);
+  if (!term || schedule.length === 0) return null;
+  if (term.elapsed === 0) {
+    return truck.ownership_type === "leased" ? round2(schedule[schedule.length - 1].cumulative) : Number(truck.purchase_price) || 0;
+  }
+  return schedule[term.elapsed - 1].balance;
+}
+
+// Alert when the end of amortization or the lease buyoff is within OWNERSHIP_ALERT_DAYS
+export function ownershipAlertFor(truck: TruckCostFields, asOf: string = today()): OwnershipAlert | null {
+  const term = ownershipTerm(truck, asOf);
+  if (!term?.end) return null;
+  const daysLeft = daysBetween(asOf, term.end);
+  if (daysLeft < 0 || daysLeft > OWNERSHIP_ALERT_DAYS) return null;
+  const leased = truck.ownership_type === "leased";
+  return {
+    truckId: truck.id,
+    truckNumber: truck.truck_number,
+    kind: leased ? "lease_buyoff" : "amortization_end",
+    date: term.end,
+    daysLeft,
+    amount: leased && truck.lease_buyoff != null ? Number(truck.lease_buyoff) : null,
+  };
+}
+
+/**
+ * Ownership cost per mile: the monthly cost on a date (today by default) over
+ * the miles the truck drives a month, measured from odometer history or DEFAULT_MONTHLY_MILES.
+ * Null when the cost details are missing.
+ */
+export function ownershipRateFor(
+  truck: TruckCostFields,
+  measuredMiles: number | null,
+  asOf: string = today()
+): OwnershipRate | null {
+  const monthlyCost = monthlyCostOn(truck, asOf);
+  if (monthlyCost == null) return null;
+  const milesPerMonth = measuredMiles || DEFAULT_MONTHLY_MILES;
+  return {
+    truckId: truck.id,
+    truckNumber: truck.truck_number,
+    monthlyCost,
+    milesPerMonth,
+    milesMeasured: !!measuredMiles,
+    perMile: Math.round((monthlyCost / milesPerMonth) * 1000) / 1000,
+  };
+}
+
+export async function fetchTruckCostFields(): Promise<TruckCostFields[]> {
+  const tenantId = await getTenantId();
+  if (!tenantId) {
+    throw new Error("No tenant_id found. Please ensure you're logged in.");
+  }
+
+  const { data, error } = await supabase
+    .from("trucks")
+    .select(COST_COLUMNS)
+    .eq("tenant_id", tenantId)
+    .order("truck_number");
+
+  if (error) {
+    console.error("[truckCosts] Error fetching trucks:", error);
+    throw error;
+  }
+
+  return (data || []) as unknown as TruckCostFields[];
+}
+
+// Cost summary for every truck and trailer, with cost per mile from odometer history
+export async function fetchTruckCostSummaries(): Promise<TruckCostSummary[]> {
+  const [trucks, miles] = await Promise.all([
+    fetchTruckCostFields(),
+    fetchMonthlyMilesByTruck().catch(() => ({} as Record<string, number>)),
+  ]);
+
+  const asOf = today();
+  return trucks.map((truck) => {
+    const measured = miles[truck.id] || null;
+    const isTractor = (truck.asset_type || "truck") === "truck";
+    return {
+      truck,
+      term: ownershipTerm(truck, asOf),
+      monthlyCost: monthlyCostOn(truck, asOf),
+      milesPerMonth: measured,
+      perMile: isTractor ? ownershipRateFor(truck, measured, asOf)?.perMile ?? null : null,
+      balance: balanceOn(truck, asOf),
+      alert: ownershipAlertFor(truck, asOf),
+    };
+  });
+}
+
+// Upcoming amortization ends and lease buyoffs, soonest first
+export async function fetchOwnershipAlerts(): Promise<OwnershipAlert[]> {
+  const asOf = today();
+  return (await fetchTruckCostFields())
+    .map((truck) => ownershipAlertFor(truck, asOf))
+    .filter((a): a is OwnershipAlert => a != null)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+}
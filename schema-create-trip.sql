@@ -0,0 +1,121 @@
+-- Create a trip with its stops, legs and charge lines in one transaction
+-- Run this in Supabase Dashboard > SQL Editor
+-- Requires schema-legs-update.sql (legs.start_stop_id/end_stop_id),
+-- schema-revenue.sql, schema-trip-assignment.sql and schema-sequences.sql.
+-- The new-trip screen used to insert the trip and then each stop in turn,
+-- so a dropped connection could leave a trip with half its stops. Here
+-- either everything is saved or nothing is, including the trip number:
+-- when none is passed in, one is taken from the 'trip' sequence and given
+-- back if anything fails.
+--
+-- p_trip:    { trip_reference?, date?, truck_id?, driver_id?, co_driver_id? }
+-- p_stops:   [{ type, name, address1, city, state, zip_code, notes,
+--               expected_date, expected_time, location_id, mileage_to_next }]
+-- p_charges: [{ charge_code_id, code, description, rate_type, rate, quantity, amount }]
+-- Returns { trip, stops, legs }.
+
+CREATE OR REPLACE FUNCTION create_trip(p_trip JSONB, p_stops JSONB, p_charges JSONB DEFAULT '[]'::JSONB)
+RETURNS JSONB
+SET search_path = public
+AS $$
+DECLARE
+  tid UUID := get_tenant_id();
+  ref TEXT := NULLIF(trim(p_trip->>'trip_reference'), '');
+  num sequence_numbers%ROWTYPE;
+  new_trip trips%ROWTYPE;
+BEGIN
+  IF tid IS NULL THEN
+    RAISE EXCEPTION 'No tenant for current user';
+  END IF;
+  IF p_stops IS NULL OR jsonb_typeof(p_stops) <> 'array' OR jsonb_array_length(p_stops) = 0 THEN
+    RAISE EXCEPTION 'A trip needs at least one stop';
+  END IF;
+
+  IF ref IS NULL THEN
+    num := take_sequence_number('trip');
+    ref := num.formatted;
+  END IF;
+
+  INSERT INTO trips (tenant_id, trip_reference, date, truck_id, driver_id, co_driver_id)
+  VALUES (
+    tid,
+    ref,
+    COALESCE(NULLIF(p_trip->>'date', '')::DATE, CURRENT_DATE),
+    NULLIF(p_trip->>'truck_id', '')::UUID,
+    NULLIF(p_trip->>'driver_id', '')::UUID,
+    NULLIF(p_trip->>'co_driver_id', '')::UUID
+  )
+  RETURNING * INTO new_trip;
+
+  INSERT INTO stops (
+    tenant_id, trip_id, stop_order, type, name, address1, city, state, zip_code,
+    notes, expected_date, expected_time, location_id, status
+  )
+  SELECT
+    tid,
+    new_trip.id,
+    (e.ord - 1)::INTEGER,
+    e.s->>'type',
+    NULLIF(e.s->>'name', ''),
+    NULLIF(e.s->>'address1', ''),
+    NULLIF(e.s->>'city', ''),
+    NULLIF(e.s->>'state', ''),
+    NULLIF(e.s->>'zip_code', ''),
+    NULLIF(e.s->>'notes', ''),
+    NULLIF(e.s->>'expected_date', '')::DATE,
+    NULLIF(e.s->>'expected_time', ''),
+    NULLIF(e.s->>'location_id', '')::UUID,
+    'pending'
+  FROM jsonb_array_elements(p_stops) WITH ORDINALITY AS e(s, ord);
+
+  -- One leg between each pair of consecutive stops, as syncTripLegs in lib/trips.ts builds them
+  INSERT INTO legs (
+    tenant_id, trip_id, leg_order, start_stop_id, end_stop_id,
+    start_location_id, start_name, start_address1, start_address2, start_city, start_state, start_zip,
+    end_location_id, end_name, end_address1, end_address2, end_city, end_state, end_zip,
+    calculated_mileage
+  )
+  SELECT
+    tid, new_trip.id, a.stop_order, a.id, b.id,
+    a.location_id, a.name, a.address1, a.address2, a.city, a.state, a.zip_code,
+    b.location_id, b.name, b.address1, b.address2, b.city, b.state, b.zip_code,
+    NULLIF(e.s->>'mileage_to_next', '')::NUMERIC
+  FROM stops a
+  JOIN stops b ON b.trip_id = a.trip_id AND b.stop_order = a.stop_order + 1
+  JOIN jsonb_array_elements(p_stops) WITH ORDINALITY AS e(s, ord) ON e.ord - 1 = a.stop_order
+  WHERE a.trip_id = new_trip.id;
+
+  INSERT INTO trip_charges (
+    tenant_id, trip_id, charge_code_id, code, description, rate_type, rate, quantity, amount, sort_order
+  )
+  SELECT
+    tid,
+    new_trip.id,
+    NULLIF(e.c->>'charge_code_id', '')::UUID,
+    NULLIF(e.c->>'code', ''),
+    NULLIF(e.c->>'description', ''),
+    e.c->>'rate_type',
+    COALESCE((e.c->>'rate')::NUMERIC, 0),
+    COALESCE((e.c->>'quantity')::NUMERIC, 1),
+    COALESCE((e.c->>'amount')::NUMERIC, 0),
+    (e.ord - 1)::INTEGER
+  FROM jsonb_array_elements(COALESCE(p_charges, '[]'::JSONB)) WITH ORDINALITY AS e(c, ord);
+
+  UPDATE trips
+  SET revenue = COALESCE((SELECT SUM(amount) FROM trip_charges WHERE trip_id = new_trip.id), 0)
+  WHERE id = new_trip.id
+  RETURNING * INTO new_trip;
+
+  IF num.id IS NOT NULL THEN
+    PERFORM use_sequence_number(num.id, new_trip.id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'trip', to_jsonb(new_trip),
+    'stops', COALESCE((SELECT jsonb_agg(to_jsonb(s) ORDER BY s.stop_order) FROM stops s WHERE s.trip_id = new_trip.id), '[]'::JSONB),
+    'legs', COALESCE((SELECT jsonb_agg(to_jsonb(l) ORDER BY l.leg_order) FROM legs l WHERE l.trip_id = new_trip.id), '[]'::JSONB)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_trip(JSONB, JSONB, JSONB) TO authenticated;
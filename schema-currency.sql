@@ -0,0 +1,41 @@
+-- Multi-currency: original currency + exchange rate on expenses and fuel, and a rate table
+-- Run this in Supabase Dashboard > SQL Editor
+-- exchange_rate converts the original amounts into home_currency (settings.default_currency
+-- when the row was saved): home amount = total * exchange_rate.
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  rate_date DATE NOT NULL,
+  -- 1 base_currency = rate quote_currency
+  base_currency TEXT NOT NULL CHECK (base_currency IN ('USD', 'CAD')),
+  quote_currency TEXT NOT NULL CHECK (quote_currency IN ('USD', 'CAD')),
+  rate NUMERIC(12, 6) NOT NULL CHECK (rate > 0),
+  source TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (tenant_id, rate_date, base_currency, quote_currency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_tenant_date ON exchange_rates(tenant_id, rate_date);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can access own exchange_rates"
+  ON exchange_rates FOR ALL
+  USING (tenant_id = get_tenant_id());
+
+-- Expenses were always in the home currency until now
+ALTER TABLE misc_expenses ADD COLUMN IF NOT EXISTS currency TEXT DEFAULT 'USD' CHECK (currency IN ('USD', 'CAD'));
+ALTER TABLE misc_expenses ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(12, 6);
+ALTER TABLE misc_expenses ADD COLUMN IF NOT EXISTS home_currency TEXT CHECK (home_currency IN ('USD', 'CAD'));
+
+ALTER TABLE fuel_purchases ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(12, 6);
+ALTER TABLE fuel_purchases ADD COLUMN IF NOT EXISTS home_currency TEXT CHECK (home_currency IN ('USD', 'CAD'));
+
+-- Existing expenses were entered in the tenant's default currency
+UPDATE misc_expenses e
+SET currency = s.default_currency
+FROM settings s
+WHERE s.tenant_id = e.tenant_id
+  AND e.exchange_rate IS NULL
+  AND s.default_currency IS NOT NULL;
@@ -0,0 +1,15 @@
+-- Add unit, currency, vendor and receipt columns to fuel_purchases
+-- Run this in Supabase Dashboard > SQL Editor
+-- gallons / price_per_gallon stay the canonical (US gallon) values; fuel_unit records
+-- what the driver entered so the purchase can be shown back in liters.
+
+ALTER TABLE fuel_purchases ADD COLUMN IF NOT EXISTS fuel_unit TEXT DEFAULT 'gallons' CHECK (fuel_unit IN ('gallons', 'liters'));
+ALTER TABLE fuel_purchases ADD COLUMN IF NOT EXISTS currency TEXT DEFAULT 'USD' CHECK (currency IN ('USD', 'CAD'));
+ALTER TABLE fuel_purchases ADD COLUMN IF NOT EXISTS vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL;
+ALTER TABLE fuel_purchases ADD COLUMN IF NOT EXISTS receipt_id UUID REFERENCES receipts(id) ON DELETE SET NULL;
+ALTER TABLE fuel_purchases ADD COLUMN IF NOT EXISTS notes TEXT;
+
+-- Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_fuel_purchases_vendor_id ON fuel_purchases(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_fuel_purchases_receipt_id ON fuel_purchases(receipt_id);
+CREATE INDEX IF NOT EXISTS idx_fuel_purchases_date ON fuel_purchases(date);
@@ -0,0 +1,9 @@
+-- IFTA: record the state/province each fuel purchase was made in
+-- Run this in Supabase Dashboard > SQL Editor
+-- Two-letter codes (TX, ON, ...). When empty the IFTA report falls back to the vendor's state.
+
+ALTER TABLE fuel_purchases ADD COLUMN IF NOT EXISTS jurisdiction TEXT;
+
+-- Quarterly reports read trips and fuel by date range
+CREATE INDEX IF NOT EXISTS idx_fuel_purchases_jurisdiction ON fuel_purchases(jurisdiction);
+CREATE INDEX IF NOT EXISTS idx_trips_tenant_date ON trips(tenant_id, date);
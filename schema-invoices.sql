@@ -0,0 +1,93 @@
+-- Invoices: numbered bills for completed trips
+-- Run this in Supabase Dashboard > SQL Editor
+-- Requires schema-team.sql (is_tenant_owner, take_settings_sequence) and
+-- schema-trip-status.sql (trips.status).
+-- An invoice keeps a copy of the trip's charge lines, stops and mileage as
+-- they were when it was created, so later trip edits don't change a bill
+-- that has gone out. Overdue isn't stored: it's a sent invoice past its
+-- due date. Delivery paperwork (BOLs, PODs) is attached by linking scanned
+-- receipts to the invoice with receipt_type 'paperwork'.
+
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS invoice_number_sequence INTEGER DEFAULT 1001;
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  trip_id UUID REFERENCES trips(id) ON DELETE SET NULL,
+  invoice_number TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'paid')),
+  issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  terms_days INTEGER NOT NULL DEFAULT 30 CHECK (terms_days >= 0),
+  due_date DATE NOT NULL,
+  bill_to_name TEXT,
+  bill_to_address TEXT,
+  trip_reference TEXT,
+  trip_date DATE,
+  currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency IN ('USD', 'CAD')),
+  lines JSONB NOT NULL DEFAULT '[]',
+  stops JSONB NOT NULL DEFAULT '[]',
+  mileage NUMERIC,
+  total NUMERIC NOT NULL DEFAULT 0,
+  notes TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(tenant_id, invoice_number)
+);
+
+-- Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_invoices_tenant_status ON invoices(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_invoices_trip_id ON invoices(trip_id);
+
+-- Enable RLS
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+-- Billing is the owner's: the team sees invoices, only the owner changes them
+CREATE POLICY "Team can view own invoices" ON invoices FOR SELECT USING (tenant_id = get_tenant_id());
+CREATE POLICY "Owners can change own invoices" ON invoices FOR ALL
+  USING (tenant_id = get_tenant_id() AND is_tenant_owner())
+  WITH CHECK (tenant_id = get_tenant_id() AND is_tenant_owner());
+
+-- Receipts can now be delivery paperwork attached to an invoice
+ALTER TABLE receipts DROP CONSTRAINT IF EXISTS receipts_receipt_type_check;
+ALTER TABLE receipts ADD CONSTRAINT receipts_receipt_type_check
+  CHECK (receipt_type IN ('fuel', 'expense', 'repair', 'paperwork'));
+
+-- Same as in schema-team.sql, plus the invoice number sequence
+CREATE OR REPLACE FUNCTION take_settings_sequence(p_name TEXT)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  taken INTEGER;
+  tid UUID := get_tenant_id();
+BEGIN
+  IF tid IS NULL THEN
+    RAISE EXCEPTION 'No tenant for current user';
+  END IF;
+
+  INSERT INTO settings (tenant_id) VALUES (tid) ON CONFLICT (tenant_id) DO NOTHING;
+
+  IF p_name = 'trip_number_sequence' THEN
+    UPDATE settings SET trip_number_sequence = COALESCE(trip_number_sequence, 100) + 1
+    WHERE tenant_id = tid
+    RETURNING trip_number_sequence - 1 INTO taken;
+  ELSIF p_name = 'order_number_sequence' THEN
+    UPDATE settings SET order_number_sequence = COALESCE(order_number_sequence, 1) + 1
+    WHERE tenant_id = tid
+    RETURNING order_number_sequence - 1 INTO taken;
+  ELSIF p_name = 'invoice_number_sequence' THEN
+    UPDATE settings SET invoice_number_sequence = COALESCE(invoice_number_sequence, 1001) + 1
+    WHERE tenant_id = tid
+    RETURNING invoice_number_sequence - 1 INTO taken;
+  ELSE
+    RAISE EXCEPTION 'Unknown sequence %', p_name;
+  END IF;
+
+  RETURN taken;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION take_settings_sequence(TEXT) TO authenticated;
@@ -0,0 +1,8 @@
+-- Legs: link each leg to the stops it runs between so planned mileage survives re-syncs
+-- Run this in Supabase Dashboard > SQL Editor
+
+ALTER TABLE legs ADD COLUMN IF NOT EXISTS start_stop_id UUID REFERENCES stops(id) ON DELETE SET NULL;
+ALTER TABLE legs ADD COLUMN IF NOT EXISTS end_stop_id UUID REFERENCES stops(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_legs_start_stop_id ON legs(start_stop_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_legs_trip_leg_order ON legs(trip_id, leg_order);
@@ -0,0 +1,35 @@
+-- Maintenance plans: service intervals per truck (oil change, DOT inspection, ...)
+-- Run this in Supabase Dashboard > SQL Editor
+-- Requires schema-team.sql (is_tenant_owner).
+-- A plan is due every interval_miles and/or interval_days after the last
+-- repair line with its repair type on that truck. start_date/start_odometer
+-- give the last service for trucks with no repair history yet.
+
+CREATE TABLE IF NOT EXISTS maintenance_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  truck_id UUID NOT NULL REFERENCES trucks(id) ON DELETE CASCADE,
+  repair_type_id UUID NOT NULL REFERENCES repair_types(id) ON DELETE CASCADE,
+  interval_miles INTEGER CHECK (interval_miles > 0),
+  interval_days INTEGER CHECK (interval_days > 0),
+  start_date DATE,
+  start_odometer NUMERIC,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (interval_miles IS NOT NULL OR interval_days IS NOT NULL),
+  UNIQUE(truck_id, repair_type_id)
+);
+
+-- Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_maintenance_plans_tenant_id ON maintenance_plans(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_plans_truck_id ON maintenance_plans(truck_id);
+
+-- Enable RLS
+ALTER TABLE maintenance_plans ENABLE ROW LEVEL SECURITY;
+
+-- Like trucks: everyone on the account sees the plans, only the owner changes them
+CREATE POLICY "Team can view own maintenance_plans" ON maintenance_plans FOR SELECT USING (tenant_id = get_tenant_id());
+CREATE POLICY "Owners can change own maintenance_plans" ON maintenance_plans FOR ALL
+  USING (tenant_id = get_tenant_id() AND is_tenant_owner())
+  WITH CHECK (tenant_id = get_tenant_id() AND is_tenant_owner());
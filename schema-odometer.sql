@@ -0,0 +1,23 @@
+-- Standalone odometer readings (readings not tied to a stop, fuel, expense or repair)
+-- Run this in Supabase Dashboard > SQL Editor
+
+CREATE TABLE IF NOT EXISTS odometer_readings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  truck_id UUID REFERENCES trucks(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  reading NUMERIC NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_odometer_readings_tenant_id ON odometer_readings(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_odometer_readings_truck_date ON odometer_readings(truck_id, date);
+
+-- Enable RLS
+ALTER TABLE odometer_readings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can access own odometer_readings"
+  ON odometer_readings FOR ALL
+  USING (tenant_id = get_tenant_id());
@@ -0,0 +1,17 @@
+-- Offline sync: track when stops change so queued edits from another device can be merged
+-- Run this in Supabase Dashboard > SQL Editor
+
+ALTER TABLE stops ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION touch_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stops_touch_updated_at ON stops;
+CREATE TRIGGER stops_touch_updated_at
+  BEFORE UPDATE ON stops
+  FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
@@ -0,0 +1,9 @@
+-- Receipt OCR: proposed fields (with confidence scores) read off the receipt image
+-- Run this in Supabase Dashboard > SQL Editor
+
+-- extracted holds { field: { value, confidence } } for date, vendor, total, tax,
+-- taxLabel, quantity, unit, pricePerUnit and suggestedType
+ALTER TABLE receipts ADD COLUMN IF NOT EXISTS extracted JSONB;
+ALTER TABLE receipts ADD COLUMN IF NOT EXISTS ocr_text TEXT;
+ALTER TABLE receipts ADD COLUMN IF NOT EXISTS extraction_engine TEXT;
+ALTER TABLE receipts ADD COLUMN IF NOT EXISTS extracted_at TIMESTAMP WITH TIME ZONE;
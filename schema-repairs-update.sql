@@ -0,0 +1,11 @@
+-- Add receipt link and notes to repair_orders, plus lookup indexes
+-- Run this in Supabase Dashboard > SQL Editor
+
+ALTER TABLE repair_orders ADD COLUMN IF NOT EXISTS receipt_id UUID REFERENCES receipts(id) ON DELETE SET NULL;
+ALTER TABLE repair_orders ADD COLUMN IF NOT EXISTS notes TEXT;
+
+-- Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_repair_orders_truck_id ON repair_orders(truck_id);
+CREATE INDEX IF NOT EXISTS idx_repair_orders_vendor_id ON repair_orders(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_repair_orders_receipt_id ON repair_orders(receipt_id);
+CREATE INDEX IF NOT EXISTS idx_repair_order_details_repair_type_id ON repair_order_details(repair_type_id);
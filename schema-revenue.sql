@@ -0,0 +1,31 @@
+-- Trip revenue: charge-code line items per trip and the persisted total
+-- Run this in Supabase Dashboard > SQL Editor
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS revenue NUMERIC DEFAULT 0;
+
+-- Charge lines (code/rate are copied from charge_codes so later edits to a code don't reprice old trips)
+CREATE TABLE IF NOT EXISTS trip_charges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  trip_id UUID NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  charge_code_id UUID REFERENCES charge_codes(id) ON DELETE SET NULL,
+  code TEXT,
+  description TEXT,
+  rate_type TEXT NOT NULL CHECK (rate_type IN ('flat', 'per_mile')),
+  rate NUMERIC NOT NULL DEFAULT 0,
+  quantity NUMERIC NOT NULL DEFAULT 1,
+  amount NUMERIC NOT NULL DEFAULT 0,
+  sort_order INTEGER DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_trip_charges_trip_id ON trip_charges(trip_id);
+CREATE INDEX IF NOT EXISTS idx_trip_charges_tenant_id ON trip_charges(tenant_id);
+
+-- Enable RLS
+ALTER TABLE trip_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can access own trip_charges"
+  ON trip_charges FOR ALL
+  USING (tenant_id = get_tenant_id());
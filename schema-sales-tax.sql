@@ -0,0 +1,20 @@
+-- Canadian sales tax: store GST / HST / PST / QST separately on fuel and expenses
+-- Run this in Supabase Dashboard > SQL Editor
+-- `tax` stays the sum of the components; tax_province is the province whose rates applied.
+
+ALTER TABLE misc_expenses ADD COLUMN IF NOT EXISTS tax_province TEXT;
+ALTER TABLE misc_expenses ADD COLUMN IF NOT EXISTS gst NUMERIC DEFAULT 0;
+ALTER TABLE misc_expenses ADD COLUMN IF NOT EXISTS hst NUMERIC DEFAULT 0;
+ALTER TABLE misc_expenses ADD COLUMN IF NOT EXISTS pst NUMERIC DEFAULT 0;
+ALTER TABLE misc_expenses ADD COLUMN IF NOT EXISTS qst NUMERIC DEFAULT 0;
+
+ALTER TABLE fuel_purchases ADD COLUMN IF NOT EXISTS tax_province TEXT;
+ALTER TABLE fuel_purchases ADD COLUMN IF NOT EXISTS gst NUMERIC DEFAULT 0;
+ALTER TABLE fuel_purchases ADD COLUMN IF NOT EXISTS hst NUMERIC DEFAULT 0;
+ALTER TABLE fuel_purchases ADD COLUMN IF NOT EXISTS pst NUMERIC DEFAULT 0;
+ALTER TABLE fuel_purchases ADD COLUMN IF NOT EXISTS qst NUMERIC DEFAULT 0;
+
+-- Expenses entered before this migration had a single GST field
+UPDATE misc_expenses SET gst = tax WHERE tax_province IS NULL AND COALESCE(tax, 0) > 0 AND COALESCE(gst, 0) = 0;
+
+CREATE INDEX IF NOT EXISTS idx_misc_expenses_date ON misc_expenses(date);
@@ -0,0 +1,259 @@
+-- Named number sequences (trip, order, invoice) with formats and yearly resets
+-- Run this in Supabase Dashboard > SQL Editor
+-- Requires schema-team.sql (get_tenant_id, is_tenant_owner) and
+-- schema-invoices.sql (settings.invoice_number_sequence).
+-- Replaces the *_number_sequence columns on settings, which are copied over
+-- below and no longer read. Every number handed out is recorded in
+-- sequence_numbers: 'taken' until the caller confirms it as 'used' by a
+-- trip/invoice, 'released' when the create failed (the next take reuses it),
+-- or 'voided' when it must be skipped for good (e.g. a deleted invoice).
+-- All changes go through the functions below, which lock the sequence row,
+-- so two drivers creating trips at once never get the same number.
+
+CREATE TABLE IF NOT EXISTS sequences (
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- {N} = number, {0000} = number zero-padded to that width, {YYYY}/{YY} = year
+  format TEXT NOT NULL DEFAULT '{N}',
+  next_value INTEGER NOT NULL DEFAULT 1 CHECK (next_value >= 0),
+  -- Where a yearly reset starts again
+  start_value INTEGER NOT NULL DEFAULT 1 CHECK (start_value >= 0),
+  reset_yearly BOOLEAN NOT NULL DEFAULT FALSE,
+  period_year INTEGER NOT NULL DEFAULT EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS sequence_numbers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  sequence_name TEXT NOT NULL,
+  -- Year for sequences that reset yearly, 0 for ones that don't
+  period_year INTEGER NOT NULL,
+  value INTEGER NOT NULL,
+  formatted TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'taken' CHECK (status IN ('taken', 'used', 'released', 'voided')),
+  reference_id UUID,
+  void_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(tenant_id, sequence_name, period_year, value)
+);
+
+-- Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_sequence_numbers_released
+  ON sequence_numbers(tenant_id, sequence_name, period_year, value) WHERE status = 'released';
+CREATE INDEX IF NOT EXISTS idx_sequence_numbers_reference ON sequence_numbers(reference_id);
+
+-- Enable RLS
+ALTER TABLE sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sequence_numbers ENABLE ROW LEVEL SECURITY;
+
+-- Like settings: the team reads, the owner changes formats and next values
+CREATE POLICY "Team can view own sequences" ON sequences FOR SELECT USING (tenant_id = get_tenant_id());
+CREATE POLICY "Owners can change own sequences" ON sequences FOR ALL
+  USING (tenant_id = get_tenant_id() AND is_tenant_owner())
+  WITH CHECK (tenant_id = get_tenant_id() AND is_tenant_owner());
+
+-- Numbers are only written by the functions below
+CREATE POLICY "Team can view own sequence_numbers" ON sequence_numbers FOR SELECT USING (tenant_id = get_tenant_id());
+
+-- Carry over the current values from settings
+INSERT INTO sequences (tenant_id, name, next_value, start_value)
+SELECT tenant_id, 'trip', COALESCE(trip_number_sequence, 100), 100 FROM settings
+ON CONFLICT (tenant_id, name) DO NOTHING;
+INSERT INTO sequences (tenant_id, name, next_value, start_value)
+SELECT tenant_id, 'order', COALESCE(order_number_sequence, 1), 1 FROM settings
+ON CONFLICT (tenant_id, name) DO NOTHING;
+INSERT INTO sequences (tenant_id, name, next_value, start_value)
+SELECT tenant_id, 'invoice', COALESCE(invoice_number_sequence, 1001), 1001 FROM settings
+ON CONFLICT (tenant_id, name) DO NOTHING;
+
+-- Every account gets the three sequences up front, so numbers can be taken
+-- without creating a sequence (which only the owner may do)
+CREATE OR REPLACE FUNCTION seed_sequences(p_tenant_id UUID)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO sequences (tenant_id, name, next_value, start_value)
+  VALUES (p_tenant_id, 'trip', 100, 100), (p_tenant_id, 'order', 1, 1), (p_tenant_id, 'invoice', 1001, 1001)
+  ON CONFLICT (tenant_id, name) DO NOTHING;
+$$ LANGUAGE sql;
+
+-- Only called from the trigger and take_sequence_number, never by the app
+REVOKE EXECUTE ON FUNCTION seed_sequences(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Accounts without a settings row
+SELECT seed_sequences(id) FROM tenants;
+
+CREATE OR REPLACE FUNCTION seed_tenant_sequences()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM seed_sequences(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_tenant_created_seed_sequences ON tenants;
+CREATE TRIGGER on_tenant_created_seed_sequences
+  AFTER INSERT ON tenants
+  FOR EACH ROW EXECUTE FUNCTION seed_tenant_sequences();
+
+-- Keep in step with formatSequenceNumber in lib/sequences.ts
+CREATE OR REPLACE FUNCTION format_sequence_number(p_format TEXT, p_value INTEGER, p_year INTEGER)
+RETURNS TEXT AS $$
+DECLARE
+  result TEXT := COALESCE(NULLIF(p_format, ''), '{N}');
+  pad TEXT;
+BEGIN
+  result := replace(result, '{YYYY}', p_year::TEXT);
+  result := replace(result, '{YY}', lpad((p_year % 100)::TEXT, 2, '0'));
+  pad := substring(result FROM '\{(0+)\}');
+  IF pad IS NOT NULL THEN
+    -- lpad would cut a number longer than the width
+    result := replace(result, '{' || pad || '}',
+      CASE WHEN length(p_value::TEXT) >= length(pad) THEN p_value::TEXT ELSE lpad(p_value::TEXT, length(pad), '0') END);
+  END IF;
+  RETURN replace(result, '{N}', p_value::TEXT);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Hand out the next number of the trip, order or invoice sequence. A missing
+-- sequence is only created for the owner: drivers can take numbers but not
+-- change sequences.
+CREATE OR REPLACE FUNCTION take_sequence_number(p_name TEXT)
+RETURNS sequence_numbers
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tid UUID := get_tenant_id();
+  yr INTEGER := EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER;
+  seq sequences%ROWTYPE;
+  period INTEGER;
+  candidate INTEGER;
+  taken sequence_numbers%ROWTYPE;
+BEGIN
+  IF tid IS NULL THEN
+    RAISE EXCEPTION 'No tenant for current user';
+  END IF;
+  IF p_name IS NULL OR p_name NOT IN ('trip', 'order', 'invoice') THEN
+    RAISE EXCEPTION 'Unknown sequence %', p_name;
+  END IF;
+
+  IF is_tenant_owner() THEN
+    PERFORM seed_sequences(tid);
+  END IF;
+
+  -- Everyone taking from this sequence waits here until we commit
+  SELECT * INTO seq FROM sequences WHERE tenant_id = tid AND name = p_name FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The % sequence has not been set up; ask the account owner', p_name;
+  END IF;
+
+  IF seq.reset_yearly AND seq.period_year <> yr THEN
+    UPDATE sequences SET next_value = start_value, period_year = yr, updated_at = NOW()
+    WHERE tenant_id = tid AND name = p_name
+    RETURNING * INTO seq;
+  END IF;
+  period := CASE WHEN seq.reset_yearly THEN yr ELSE 0 END;
+
+  -- A released number is given out again before moving on
+  SELECT * INTO taken FROM sequence_numbers
+  WHERE tenant_id = tid AND sequence_name = p_name AND period_year = period AND status = 'released'
+  ORDER BY value
+  LIMIT 1;
+
+  IF FOUND THEN
+    UPDATE sequence_numbers
+    SET status = 'taken', reference_id = NULL, updated_at = NOW()
+    WHERE id = taken.id
+    RETURNING * INTO taken;
+    RETURN taken;
+  END IF;
+
+  -- Skip numbers already handed out (the owner may have set next_value back)
+  candidate := seq.next_value;
+  WHILE EXISTS (
+    SELECT 1 FROM sequence_numbers
+    WHERE tenant_id = tid AND sequence_name = p_name AND period_year = period AND value = candidate
+  ) LOOP
+    candidate := candidate + 1;
+  END LOOP;
+
+  INSERT INTO sequence_numbers (tenant_id, sequence_name, period_year, value, formatted)
+  VALUES (tid, p_name, period, candidate, format_sequence_number(seq.format, candidate, yr))
+  RETURNING * INTO taken;
+
+  UPDATE sequences SET next_value = candidate + 1, updated_at = NOW()
+  WHERE tenant_id = tid AND name = p_name;
+
+  RETURN taken;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The number went on a trip/invoice
+CREATE OR REPLACE FUNCTION use_sequence_number(p_id UUID, p_reference UUID)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE sequence_numbers
+  SET status = 'used', reference_id = p_reference, updated_at = NOW()
+  WHERE id = p_id AND tenant_id = get_tenant_id() AND status = 'taken';
+END;
+$$ LANGUAGE plpgsql;
+
+-- The create failed: give the number to the next caller
+CREATE OR REPLACE FUNCTION release_sequence_number(p_id UUID)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE sequence_numbers
+  SET status = 'released', updated_at = NOW()
+  WHERE id = p_id AND tenant_id = get_tenant_id() AND status = 'taken';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Skip the number for good, keeping a note of why
+CREATE OR REPLACE FUNCTION void_sequence_number(p_id UUID, p_reason TEXT)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE sequence_numbers
+  SET status = 'voided', void_reason = p_reason, updated_at = NOW()
+  WHERE id = p_id AND tenant_id = get_tenant_id() AND status <> 'voided';
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION take_sequence_number(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION use_sequence_number(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION release_sequence_number(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION void_sequence_number(UUID, TEXT) TO authenticated;
+
+-- Older app versions still call take_settings_sequence; serve them from the new table
+CREATE OR REPLACE FUNCTION take_settings_sequence(p_name TEXT)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  taken sequence_numbers%ROWTYPE;
+BEGIN
+  IF p_name NOT IN ('trip_number_sequence', 'order_number_sequence', 'invoice_number_sequence') THEN
+    RAISE EXCEPTION 'Unknown sequence %', p_name;
+  END IF;
+
+  taken := take_sequence_number(split_part(p_name, '_', 1));
+  RETURN taken.value;
+END;
+$$ LANGUAGE plpgsql;
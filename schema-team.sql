@@ -0,0 +1,215 @@
+-- Team drivers: invitations into an existing account, and owner-only setup
+-- Run this in Supabase Dashboard > SQL Editor
+-- Requires schema-trip-assignment.sql (tenant_users.display_name).
+-- An account has an owner and at most one invited driver. Drivers can log
+-- trips, stops, fuel and expenses but can't change settings (pay rates and
+-- sequences), charge codes, exchange rates or trucks.
+
+-- ============================================
+-- INVITES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS team_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 8)),
+  display_name TEXT,
+  email TEXT,
+  role TEXT NOT NULL DEFAULT 'driver' CHECK (role IN ('driver')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '7 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_invites_tenant_id ON team_invites(tenant_id);
+
+ALTER TABLE team_invites ENABLE ROW LEVEL SECURITY;
+
+-- Helper: is the current user the owner of their account?
+CREATE OR REPLACE FUNCTION is_tenant_owner()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM tenant_users WHERE user_id = auth.uid() AND role = 'owner');
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+CREATE POLICY "Owners can manage own team_invites"
+  ON team_invites FOR ALL
+  USING (tenant_id = get_tenant_id() AND is_tenant_owner())
+  WITH CHECK (tenant_id = get_tenant_id() AND is_tenant_owner());
+
+-- Whether a code can still be used (called from the signup screen before the account exists)
+CREATE OR REPLACE FUNCTION check_team_invite(p_code TEXT)
+RETURNS BOOLEAN
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM team_invites i
+    WHERE i.code = upper(trim(p_code))
+      AND i.accepted_at IS NULL
+      AND i.revoked_at IS NULL
+      AND i.expires_at > NOW()
+      AND (SELECT COUNT(*) FROM tenant_users tu WHERE tu.tenant_id = i.tenant_id) < 2
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION check_team_invite(TEXT) TO anon, authenticated;
+
+-- ============================================
+-- SIGNUP: join the inviting account, or create a new one
+-- ============================================
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_tenant_id UUID;
+  invite RECORD;
+BEGIN
+  -- Invite code passed as user metadata by the signup screen. A code that
+  -- can't be used fails the signup rather than quietly making the invitee
+  -- the owner of a new, empty account.
+  IF NEW.raw_user_meta_data ? 'invite_code' THEN
+    SELECT i.* INTO invite
+    FROM public.team_invites i
+    WHERE i.code = upper(trim(NEW.raw_user_meta_data->>'invite_code'))
+      AND i.accepted_at IS NULL
+      AND i.revoked_at IS NULL
+      AND i.expires_at > NOW()
+      AND (SELECT COUNT(*) FROM public.tenant_users tu WHERE tu.tenant_id = i.tenant_id) < 2
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invite code % has expired, was already used, or the team is full',
+        upper(trim(NEW.raw_user_meta_data->>'invite_code'));
+    END IF;
+
+    INSERT INTO public.tenant_users (tenant_id, user_id, role, display_name)
+    VALUES (
+      invite.tenant_id,
+      NEW.id,
+      invite.role,
+      COALESCE(NULLIF(trim(NEW.raw_user_meta_data->>'display_name'), ''), invite.display_name)
+    );
+
+    UPDATE public.team_invites
+    SET accepted_at = NOW(), accepted_by = NEW.id
+    WHERE id = invite.id;
+
+    RETURN NEW;
+  END IF;
+
+  -- Create a new tenant
+  INSERT INTO public.tenants (name)
+  VALUES ('Account ' || NEW.id::text)
+  RETURNING id INTO new_tenant_id;
+
+  -- Link user to tenant as owner
+  INSERT INTO public.tenant_users (tenant_id, user_id, role, display_name)
+  VALUES (new_tenant_id, NEW.id, 'owner', NULLIF(trim(NEW.raw_user_meta_data->>'display_name'), ''));
+
+  -- Create default settings row
+  INSERT INTO public.settings (tenant_id)
+  VALUES (new_tenant_id);
+
+  -- No EXCEPTION handler: if any insert fails, the signup fails with it
+  -- instead of leaving a user with no account
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- ============================================
+-- OWNER-ONLY SETUP
+-- ============================================
+
+-- Everyone on the account can read these; only the owner can change them
+DROP POLICY IF EXISTS "Users can access own settings" ON settings;
+CREATE POLICY "Team can view own settings" ON settings FOR SELECT USING (tenant_id = get_tenant_id());
+CREATE POLICY "Owners can change own settings" ON settings FOR ALL
+  USING (tenant_id = get_tenant_id() AND is_tenant_owner())
+  WITH CHECK (tenant_id = get_tenant_id() AND is_tenant_owner());
+
+DROP POLICY IF EXISTS "Users can access own charge_codes" ON charge_codes;
+CREATE POLICY "Team can view own charge_codes" ON charge_codes FOR SELECT USING (tenant_id = get_tenant_id());
+CREATE POLICY "Owners can change own charge_codes" ON charge_codes FOR ALL
+  USING (tenant_id = get_tenant_id() AND is_tenant_owner())
+  WITH CHECK (tenant_id = get_tenant_id() AND is_tenant_owner());
+
+DROP POLICY IF EXISTS "Users can access own trucks" ON trucks;
+CREATE POLICY "Team can view own trucks" ON trucks FOR SELECT USING (tenant_id = get_tenant_id());
+CREATE POLICY "Owners can change own trucks" ON trucks FOR ALL
+  USING (tenant_id = get_tenant_id() AND is_tenant_owner())
+  WITH CHECK (tenant_id = get_tenant_id() AND is_tenant_owner());
+
+DROP POLICY IF EXISTS "Users can access own exchange_rates" ON exchange_rates;
+CREATE POLICY "Team can view own exchange_rates" ON exchange_rates FOR SELECT USING (tenant_id = get_tenant_id());
+CREATE POLICY "Owners can change own exchange_rates" ON exchange_rates FOR ALL
+  USING (tenant_id = get_tenant_id() AND is_tenant_owner())
+  WITH CHECK (tenant_id = get_tenant_id() AND is_tenant_owner());
+
+-- The owner names and removes drivers; nobody can change roles from the app
+CREATE POLICY "Owners can rename team members" ON tenant_users FOR UPDATE
+  USING (tenant_id = get_tenant_id() AND is_tenant_owner())
+  WITH CHECK (tenant_id = get_tenant_id() AND is_tenant_owner());
+CREATE POLICY "Owners can remove drivers" ON tenant_users FOR DELETE
+  USING (tenant_id = get_tenant_id() AND is_tenant_owner() AND role = 'driver');
+
+CREATE OR REPLACE FUNCTION prevent_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role OR NEW.tenant_id IS DISTINCT FROM OLD.tenant_id OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Team roles can''t be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tenant_users_prevent_role_change ON tenant_users;
+CREATE TRIGGER tenant_users_prevent_role_change
+  BEFORE UPDATE ON tenant_users
+  FOR EACH ROW EXECUTE FUNCTION prevent_role_change();
+
+-- Drivers still take trip and order numbers, so numbering goes through a
+-- function rather than a settings update. Returns the number taken.
+CREATE OR REPLACE FUNCTION take_settings_sequence(p_name TEXT)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  taken INTEGER;
+  tid UUID := get_tenant_id();
+BEGIN
+  IF tid IS NULL THEN
+    RAISE EXCEPTION 'No tenant for current user';
+  END IF;
+
+  INSERT INTO settings (tenant_id) VALUES (tid) ON CONFLICT (tenant_id) DO NOTHING;
+
+  IF p_name = 'trip_number_sequence' THEN
+    UPDATE settings SET trip_number_sequence = COALESCE(trip_number_sequence, 100) + 1
+    WHERE tenant_id = tid
+    RETURNING trip_number_sequence - 1 INTO taken;
+  ELSIF p_name = 'order_number_sequence' THEN
+    UPDATE settings SET order_number_sequence = COALESCE(order_number_sequence, 1) + 1
+    WHERE tenant_id = tid
+    RETURNING order_number_sequence - 1 INTO taken;
+  ELSE
+    RAISE EXCEPTION 'Unknown sequence %', p_name;
+  END IF;
+
+  RETURN taken;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION take_settings_sequence(TEXT) TO authenticated;
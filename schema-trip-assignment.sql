@@ -0,0 +1,52 @@
+-- Assign trips to a truck and to one or two drivers (tenant_users)
+-- Run this in Supabase Dashboard > SQL Editor
+
+-- Names for the people on an account, and let team members see each other
+ALTER TABLE tenant_users ADD COLUMN IF NOT EXISTS display_name TEXT;
+
+CREATE POLICY "Users can view own team"
+  ON tenant_users FOR SELECT
+  USING (tenant_id = get_tenant_id());
+
+-- The owner's name was kept in settings until now
+UPDATE tenant_users tu
+SET display_name = s.driver_name
+FROM settings s
+WHERE s.tenant_id = tu.tenant_id
+  AND tu.role = 'owner'
+  AND tu.display_name IS NULL
+  AND s.driver_name IS NOT NULL;
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS truck_id UUID REFERENCES trucks(id) ON DELETE SET NULL;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS driver_id UUID REFERENCES tenant_users(id) ON DELETE SET NULL;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS co_driver_id UUID REFERENCES tenant_users(id) ON DELETE SET NULL;
+
+ALTER TABLE trips DROP CONSTRAINT IF EXISTS trips_distinct_drivers;
+ALTER TABLE trips ADD CONSTRAINT trips_distinct_drivers
+  CHECK (co_driver_id IS NULL OR (driver_id IS NOT NULL AND co_driver_id <> driver_id));
+
+CREATE INDEX IF NOT EXISTS idx_trips_truck_id ON trips(truck_id);
+CREATE INDEX IF NOT EXISTS idx_trips_driver_id ON trips(driver_id);
+CREATE INDEX IF NOT EXISTS idx_trips_co_driver_id ON trips(co_driver_id);
+
+-- Existing trips were run in the tenant's only truck, when it has exactly one
+UPDATE trips t
+SET truck_id = only_truck.id
+FROM (
+  SELECT tenant_id, (array_agg(id))[1] AS id
+  FROM trucks
+  WHERE COALESCE(asset_type, 'truck') = 'truck'
+  GROUP BY tenant_id
+  HAVING COUNT(*) = 1
+) only_truck
+WHERE only_truck.tenant_id = t.tenant_id
+  AND t.truck_id IS NULL;
+
+-- ...and driven by the owner, for single-person accounts
+UPDATE trips t
+SET driver_id = tu.id
+FROM tenant_users tu
+WHERE tu.tenant_id = t.tenant_id
+  AND tu.role = 'owner'
+  AND t.driver_id IS NULL
+  AND (SELECT COUNT(*) FROM tenant_users x WHERE x.tenant_id = t.tenant_id) = 1;
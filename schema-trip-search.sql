@@ -0,0 +1,100 @@
+-- Paged trip list with search, filters and sort
+-- Run this in Supabase Dashboard > SQL Editor
+-- Requires schema-trip-status.sql (trips.status) and schema-trip-assignment.sql
+-- (trips.truck_id/driver_id/co_driver_id).
+-- The trips list used to load every trip and every stop and filter on the
+-- device. search_trips does the filtering and sorting in the database and
+-- returns one page plus the number of matching trips:
+--
+--   p_search     matches trip_reference or any stop's company name or city
+--   p_date_from  trip date on or after (inclusive)
+--   p_date_to    trip date on or before (inclusive)
+--   p_status     one trip status
+--   p_truck_id   trips run with this truck
+--   p_driver_id  trips where this person is driver or co-driver
+--   p_stop_type  trips with at least one stop of this type
+--   p_sort       'date_desc' (default), 'date_asc', 'revenue_desc' or 'reference_asc'
+--
+-- Returns { total, trips: [trip row + truck_number] }.
+
+-- Trigram indexes keep the ILIKE '%...%' search fast on large accounts
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- schema-ifta.sql has idx_trips_tenant_date on (tenant_id, date); this one matches the list order
+CREATE INDEX IF NOT EXISTS idx_trips_tenant_date_created ON trips(tenant_id, date DESC, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_trips_reference_trgm ON trips USING GIN (trip_reference gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_stops_name_trgm ON stops USING GIN (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_stops_city_trgm ON stops USING GIN (city gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_stops_trip_type ON stops(trip_id, type);
+
+CREATE OR REPLACE FUNCTION search_trips(
+  p_search TEXT DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_truck_id UUID DEFAULT NULL,
+  p_driver_id UUID DEFAULT NULL,
+  p_stop_type TEXT DEFAULT NULL,
+  p_sort TEXT DEFAULT 'date_desc',
+  p_limit INTEGER DEFAULT 25,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS JSONB
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  tid UUID := get_tenant_id();
+  -- Escape LIKE wildcards so "%" and "_" in a search are taken literally
+  pattern TEXT := '%' || replace(replace(replace(NULLIF(trim(p_search), ''), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  result JSONB;
+BEGIN
+  IF tid IS NULL THEN
+    RAISE EXCEPTION 'No tenant for current user';
+  END IF;
+
+  WITH matches AS (
+    SELECT t.*
+    FROM trips t
+    WHERE t.tenant_id = tid
+      AND (p_date_from IS NULL OR t.date >= p_date_from)
+      AND (p_date_to IS NULL OR t.date <= p_date_to)
+      AND (p_status IS NULL OR t.status = p_status)
+      AND (p_truck_id IS NULL OR t.truck_id = p_truck_id)
+      AND (p_driver_id IS NULL OR p_driver_id IN (t.driver_id, t.co_driver_id))
+      AND (p_stop_type IS NULL OR EXISTS (
+        SELECT 1 FROM stops s WHERE s.trip_id = t.id AND s.type = p_stop_type
+      ))
+      AND (pattern IS NULL OR t.trip_reference ILIKE pattern OR EXISTS (
+        SELECT 1 FROM stops s WHERE s.trip_id = t.id AND (s.name ILIKE pattern OR s.city ILIKE pattern)
+      ))
+  ),
+  ranked AS (
+    SELECT m.*, ROW_NUMBER() OVER (
+      ORDER BY
+        CASE WHEN p_sort = 'date_asc' THEN m.date END ASC,
+        CASE WHEN p_sort = 'revenue_desc' THEN COALESCE(m.revenue, 0) END DESC,
+        -- Shorter first so 99 sorts before 100
+        CASE WHEN p_sort = 'reference_asc' THEN length(m.trip_reference) END ASC,
+        CASE WHEN p_sort = 'reference_asc' THEN m.trip_reference END ASC,
+        m.date DESC,
+        m.created_at DESC
+    ) AS rn
+    FROM matches m
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM matches),
+    'trips', COALESCE((
+      SELECT jsonb_agg((to_jsonb(r) - 'rn') || jsonb_build_object('truck_number', tr.truck_number) ORDER BY r.rn)
+      FROM ranked r
+      LEFT JOIN trucks tr ON tr.id = r.truck_id
+      WHERE r.rn > GREATEST(p_offset, 0) AND r.rn <= GREATEST(p_offset, 0) + LEAST(GREATEST(p_limit, 1), 200)
+    ), '[]'::JSONB)
+  )
+  INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION search_trips(TEXT, DATE, DATE, TEXT, UUID, UUID, TEXT, TEXT, INTEGER, INTEGER) TO authenticated;
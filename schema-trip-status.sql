@@ -0,0 +1,69 @@
+-- Trip lifecycle: planned -> active -> completed -> invoiced, or cancelled
+-- Run this in Supabase Dashboard > SQL Editor
+-- Until now a trip was "in progress" whenever it had a pending stop. The
+-- status is now stored, with a timestamp for each step, and only the moves
+-- in trip_status_allowed() are accepted.
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'planned';
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS invoiced_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE trips DROP CONSTRAINT IF EXISTS trips_status_check;
+ALTER TABLE trips ADD CONSTRAINT trips_status_check
+  CHECK (status IN ('planned', 'active', 'completed', 'cancelled', 'invoiced'));
+
+CREATE INDEX IF NOT EXISTS idx_trips_tenant_status ON trips(tenant_id, status);
+
+-- Existing trips: all stops done = completed, some done = active, none = planned
+WITH progress AS (
+  SELECT
+    trip_id,
+    COUNT(*) AS total,
+    COUNT(*) FILTER (WHERE status = 'complete') AS done,
+    MIN(completed_at) AS first_done,
+    MAX(completed_at) AS last_done
+  FROM stops
+  GROUP BY trip_id
+)
+UPDATE trips t
+SET
+  status = CASE WHEN p.done = p.total THEN 'completed' ELSE 'active' END,
+  started_at = COALESCE(p.first_done, t.created_at),
+  completed_at = CASE WHEN p.done = p.total THEN COALESCE(p.last_done, t.updated_at) END
+FROM progress p
+WHERE p.trip_id = t.id
+  AND p.done > 0
+  AND t.status = 'planned'
+  AND t.started_at IS NULL;
+
+-- Keep in step with TRIP_STATUS_TRANSITIONS in lib/trips.ts
+CREATE OR REPLACE FUNCTION trip_status_allowed(from_status TEXT, to_status TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT CASE from_status
+    WHEN 'planned' THEN to_status IN ('active', 'cancelled')
+    WHEN 'active' THEN to_status IN ('completed', 'cancelled')
+    WHEN 'completed' THEN to_status IN ('active', 'invoiced')
+    WHEN 'cancelled' THEN to_status IN ('planned')
+    WHEN 'invoiced' THEN to_status IN ('completed')
+    ELSE FALSE
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION enforce_trip_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT trip_status_allowed(OLD.status, NEW.status) THEN
+      RAISE EXCEPTION 'A % trip can''t be marked %', OLD.status, NEW.status;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trips_enforce_status ON trips;
+CREATE TRIGGER trips_enforce_status
+  BEFORE UPDATE OF status ON trips
+  FOR EACH ROW EXECUTE FUNCTION enforce_trip_status();
@@ -0,0 +1,29 @@
+-- Trip templates: saved stop sequences for lanes that repeat
+-- Run this in Supabase Dashboard > SQL Editor
+-- Requires schema-team.sql (get_tenant_id).
+-- stops holds the template's stops in order:
+--   [{ type, name, address, location_id, notes, expected_time, day_offset }]
+-- day_offset is the expected date in days after the first dated stop, so a
+-- new trip from the template shifts every date from the chosen start date.
+
+CREATE TABLE IF NOT EXISTS trip_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  stops JSONB NOT NULL DEFAULT '[]',
+  source_trip_id UUID REFERENCES trips(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(tenant_id, name)
+);
+
+-- Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_trip_templates_tenant_id ON trip_templates(tenant_id);
+
+-- Enable RLS
+ALTER TABLE trip_templates ENABLE ROW LEVEL SECURITY;
+
+-- Anyone on the account can save and use templates, like trips
+CREATE POLICY "Users can access own trip_templates"
+  ON trip_templates FOR ALL
+  USING (tenant_id = get_tenant_id());
@@ -0,0 +1,6 @@
+-- Truck cost of ownership: lease start date, so the lease term and buyoff date can be worked out
+-- Run this in Supabase Dashboard > SQL Editor
+-- Owned trucks are amortized from purchase_date over amortization_period (months);
+-- leased trucks run lease_years from lease_start_date, when lease_buyoff is due.
+
+ALTER TABLE trucks ADD COLUMN IF NOT EXISTS lease_start_date DATE;